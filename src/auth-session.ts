@@ -0,0 +1,202 @@
+import type { Env } from './index';
+
+/**
+ * Persistent login sessions for the credentialed portals. After a successful login the
+ * page's cookies, localStorage and landing URL are encrypted (AES-GCM, key derived from
+ * the `SESSION_ENCRYPTION_KEY` secret) and stored in SCRAPE_KV. The next run restores
+ * them, reloads the landing URL and only logs in again when that lands on the login page.
+ * Without the secret nothing is persisted and every run logs in.
+ */
+
+export interface AuthSessionSpec {
+  /** Scraper ID, plus a sub-portal where one scraper logs in to several (`appfolio-hoa:propertyhill`) */
+  portal: string;
+  /** Login identity -- sessions are kept per account, keyed by a hash of it */
+  account: string;
+  /** True when `url` is the portal's login page, i.e. a restored session has expired */
+  isLoginPage(url: string): boolean;
+}
+
+export interface AuthSessionState {
+  /** Page the login landed on, without query or fragment (those tend to carry one-time OIDC codes) */
+  landingUrl: string;
+  cookies: any[];
+  /** localStorage items by origin */
+  localStorage: Record<string, Record<string, string>>;
+  savedAt: string;
+}
+
+/** Keep sessions a week unless a cookie expires sooner (`AUTH_SESSION_TTL_SECONDS` overrides) */
+const DEFAULT_SESSION_TTL_SECONDS = 7 * 86400;
+
+/** KV rejects expirationTtl below 60 */
+const MIN_KV_TTL_SECONDS = 60;
+
+const KEY_PREFIX = 'authsession:';
+
+async function sha256Hex(text: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(text));
+  return Array.from(new Uint8Array(digest)).map((b) => b.toString(16).padStart(2, '0')).join('');
+}
+
+export async function authSessionKey(portal: string, account: string): Promise<string> {
+  return `${KEY_PREFIX}${portal}:${(await sha256Hex(account.trim().toLowerCase())).slice(0, 32)}`;
+}
+
+async function sessionCipherKey(secret: string): Promise<CryptoKey> {
+  const raw = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(secret));
+  return crypto.subtle.importKey('raw', raw, { name: 'AES-GCM' }, false, ['encrypt', 'decrypt']);
+}
+
+function toBase64(bytes: Uint8Array): string {
+  let binary = '';
+  for (const b of bytes) binary += String.fromCharCode(b);
+  return btoa(binary);
+}
+
+function fromBase64(text: string): Uint8Array {
+  return Uint8Array.from(atob(text), (c) => c.charCodeAt(0));
+}
+
+function sessionTtl(env: Env, state: AuthSessionState): number {
+  const configured = Number(env.AUTH_SESSION_TTL_SECONDS);
+  let ttl = Number.isFinite(configured) && configured > 0 ? configured : DEFAULT_SESSION_TTL_SECONDS;
+  const now = Date.now() / 1000;
+  for (const cookie of state.cookies) {
+    // Session cookies report expires -1; only persistent ones bound the TTL
+    if (typeof cookie.expires === 'number' && cookie.expires > 0) ttl = Math.min(ttl, cookie.expires - now);
+  }
+  return Math.max(MIN_KV_TTL_SECONDS, Math.floor(ttl));
+}
+
+/**
+ * Encrypt `value` as JSON under `SESSION_ENCRYPTION_KEY`. The KV key it is stored
+ * under is bound as associated data, so records can't be swapped between keys.
+ */
+export async function sealRecord(secret: string, kvKey: string, value: unknown): Promise<string> {
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const ciphertext = await crypto.subtle.encrypt(
+    { name: 'AES-GCM', iv, additionalData: new TextEncoder().encode(kvKey) },
+    await sessionCipherKey(secret),
+    new TextEncoder().encode(JSON.stringify(value)),
+  );
+  return JSON.stringify({ v: 1, iv: toBase64(iv), data: toBase64(new Uint8Array(ciphertext)) });
+}
+
+/** Decrypt a `sealRecord` string; throws when the key differs or the record is corrupt */
+export async function openRecord<T>(secret: string, kvKey: string, sealed: string): Promise<T> {
+  const record = JSON.parse(sealed);
+  const plaintext = await crypto.subtle.decrypt(
+    { name: 'AES-GCM', iv: fromBase64(record.iv), additionalData: new TextEncoder().encode(kvKey) },
+    await sessionCipherKey(secret),
+    fromBase64(record.data),
+  );
+  return JSON.parse(new TextDecoder().decode(plaintext));
+}
+
+/** Encrypt and store a session */
+export async function saveAuthSession(env: Env, spec: AuthSessionSpec, state: AuthSessionState): Promise<void> {
+  if (!env.SESSION_ENCRYPTION_KEY) return;
+  const key = await authSessionKey(spec.portal, spec.account);
+  await env.SCRAPE_KV.put(key, await sealRecord(env.SESSION_ENCRYPTION_KEY, key, state), {
+    expirationTtl: sessionTtl(env, state),
+  });
+}
+
+/** Stored session, or null when there is none or it can't be decrypted (rotated key, corruption) */
+export async function loadAuthSession(env: Env, spec: AuthSessionSpec): Promise<AuthSessionState | null> {
+  if (!env.SESSION_ENCRYPTION_KEY) return null;
+  const key = await authSessionKey(spec.portal, spec.account);
+  const raw = await env.SCRAPE_KV.get(key);
+  if (!raw) return null;
+  try {
+    return await openRecord<AuthSessionState>(env.SESSION_ENCRYPTION_KEY, key, raw);
+  } catch (err: any) {
+    console.warn(`Discarding unreadable auth session ${key}: ${err.message}`);
+    await env.SCRAPE_KV.delete(key);
+    return null;
+  }
+}
+
+export async function clearAuthSession(env: Env, spec: AuthSessionSpec): Promise<void> {
+  await env.SCRAPE_KV.delete(await authSessionKey(spec.portal, spec.account));
+}
+
+/** In-page: seed localStorage for the current origin before the portal's own scripts run */
+function seedLocalStorage(byOrigin: Record<string, Record<string, string>>): void {
+  const g = globalThis as any;
+  const items = byOrigin[g.location?.origin ?? ''];
+  if (!items || !g.localStorage) return;
+  for (const [k, v] of Object.entries(items)) g.localStorage.setItem(k, v);
+}
+
+/** In-page: current origin and its localStorage */
+function readLocalStorage(): { origin: string; items: Record<string, string> } {
+  const g = globalThis as any;
+  const items: Record<string, string> = {};
+  const storage = g.localStorage;
+  for (let i = 0; storage && i < storage.length; i++) {
+    const k = storage.key(i);
+    if (k !== null) items[k] = storage.getItem(k);
+  }
+  return { origin: g.location?.origin ?? '', items };
+}
+
+/** In-page: true when a password field is showing -- a login wall on any URL */
+function hasPasswordField(): boolean {
+  return !!(globalThis as any).document?.querySelector('input[type="password"]');
+}
+
+async function captureState(page: any): Promise<AuthSessionState> {
+  const url = new URL(page.url());
+  const storage = await page.evaluate(readLocalStorage);
+  return {
+    landingUrl: `${url.origin}${url.pathname}`,
+    cookies: await page.cookies(),
+    localStorage: Object.keys(storage.items).length > 0 ? { [storage.origin]: storage.items } : {},
+    savedAt: new Date().toISOString(),
+  };
+}
+
+/**
+ * Reuse a stored session on `page`, falling back to `login`. On success (undefined) the
+ * page is on an authenticated page: the restored landing URL, or wherever `login` left it.
+ * `login` returns an error message on failure. Session storage problems are logged and
+ * never fail the scrape.
+ */
+export async function withAuthSession(
+  page: any,
+  env: Env,
+  spec: AuthSessionSpec,
+  login: () => Promise<string | undefined>,
+): Promise<string | undefined> {
+  const stored = await loadAuthSession(env, spec).catch((err: any) => {
+    console.warn(`Auth session lookup failed for ${spec.portal}: ${err.message}`);
+    return null;
+  });
+
+  if (stored) {
+    await page.setCookie(...stored.cookies);
+    if (Object.keys(stored.localStorage).length > 0) {
+      await page.evaluateOnNewDocument(seedLocalStorage, stored.localStorage);
+    }
+    await page.goto(stored.landingUrl, { waitUntil: 'networkidle0', timeout: 30000 });
+    if (!spec.isLoginPage(page.url()) && !(await page.evaluate(hasPasswordField))) {
+      console.log(`Reused auth session for ${spec.portal} (saved ${stored.savedAt})`);
+      return undefined;
+    }
+    console.log(`Auth session for ${spec.portal} expired, logging in`);
+    await page.deleteCookie(...stored.cookies);
+    await clearAuthSession(env, spec).catch(() => {});
+  }
+
+  const error = await login();
+  if (error) return error;
+
+  try {
+    await saveAuthSession(env, spec, await captureState(page));
+  } catch (err: any) {
+    console.warn(`Failed to save auth session for ${spec.portal}: ${err.message}`);
+  }
+  return undefined;
+}
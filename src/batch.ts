@@ -0,0 +1,129 @@
+import type { Env } from './index';
+import type { JsonSchema } from './schema';
+import type { ScrapeRequestOptions } from './options';
+import { snapshotOptions, trackChanges } from './changes';
+import { withResultCache } from './cache';
+import { executeWithRetry, retryPolicyFor } from './retry';
+import { createFailureRecorder } from './diagnostics';
+import { wrapResult, createSharedBrowser, errorTypeOf, type ScrapeResult, type ScraperModule } from './scrapers/base';
+
+/** Upper bound on inputs per batch request -- keeps a batch inside one Worker invocation */
+export const BATCH_MAX_ITEMS = 25;
+export const BATCH_DEFAULT_CONCURRENCY = 3;
+/** Browser Rendering caps concurrent sessions per account; stay well under it */
+export const BATCH_MAX_CONCURRENCY = 5;
+
+export const BATCH_REQUEST_SCHEMA: JsonSchema = {
+  type: 'object',
+  required: ['inputs'],
+  additionalProperties: false,
+  properties: {
+    inputs: {
+      type: 'array',
+      minItems: 1,
+      maxItems: BATCH_MAX_ITEMS,
+      description: 'One scraper input per item, each validated against the scraper inputSchema',
+    },
+    concurrency: {
+      type: 'integer',
+      minimum: 1,
+      maximum: BATCH_MAX_CONCURRENCY,
+      description: `Items run in parallel (default ${BATCH_DEFAULT_CONCURRENCY})`,
+    },
+    options: {
+      type: 'object',
+      additionalProperties: false,
+      properties: {
+        trackChanges: { type: 'boolean', description: 'Diff each item against its last successful scrape' },
+        maxAge: { type: 'integer', minimum: 0, description: 'Max age in seconds of cached item results to accept' },
+        noCache: { type: 'boolean', description: 'Scrape every item fresh, refreshing the cache' },
+      },
+    },
+  },
+};
+
+export interface BatchItemResult {
+  index: number;
+  input: unknown;
+  result: ScrapeResult;
+}
+
+export interface BatchSummary {
+  total: number;
+  succeeded: number;
+  failed: number;
+  sharedBrowser: boolean;
+  durationMs: number;
+}
+
+/** Map over items with at most `limit` promises in flight, preserving input order in the output */
+export async function mapWithConcurrency<T, R>(
+  items: T[],
+  limit: number,
+  fn: (item: T, index: number) => Promise<R>,
+): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  let next = 0;
+  const worker = async () => {
+    while (next < items.length) {
+      const i = next++;
+      results[i] = await fn(items[i], i);
+    }
+  };
+  await Promise.all(Array.from({ length: Math.min(limit, items.length) }, worker));
+  return results;
+}
+
+/**
+ * Run one scraper over many inputs with bounded concurrency. Scrapers that declare
+ * `sharedBrowser` get a single browser session for the whole batch; others launch
+ * per item as usual. Item failures (including thrown errors) never fail the batch.
+ */
+export async function runBatch(
+  env: Env,
+  scraper: ScraperModule,
+  inputs: unknown[],
+  concurrency: number = BATCH_DEFAULT_CONCURRENCY,
+  options: Pick<ScrapeRequestOptions, 'trackChanges' | 'maxAge' | 'noCache'> = {},
+): Promise<{ items: BatchItemResult[]; summary: BatchSummary }> {
+  const started = Date.now();
+  const portal = scraper.meta.id;
+  const shared = scraper.meta.sharedBrowser ? createSharedBrowser(env.BROWSER) : null;
+  const browser = shared ? shared.fetcher : env.BROWSER;
+
+  let items: BatchItemResult[];
+  try {
+    items = await mapWithConcurrency(inputs, concurrency, async (input, index) => {
+      let result = await withResultCache(env, scraper.meta, input, options, async () => {
+        const recorder = createFailureRecorder(browser, scraper.meta);
+        const executed = await executeWithRetry(async () => {
+          try {
+            return await scraper.execute(recorder.fetcher, env, input);
+          } catch (err: any) {
+            console.error(`Batch ${portal} item ${index} threw unhandled error: ${err.message}`, err.stack);
+            return wrapResult(portal, false, undefined, `Scraper execution failed: ${err.message}`, errorTypeOf(err));
+          }
+        }, { policy: retryPolicyFor(scraper.meta) });
+        return recorder.attach(env, input, executed);
+      });
+      if (options.trackChanges) {
+        result = await trackChanges(env.SCRAPE_KV, portal, input, result, snapshotOptions(env, scraper.meta));
+      }
+      return { index, input, result };
+    });
+  } finally {
+    if (shared) await shared.close();
+  }
+
+  const succeeded = items.filter((i) => i.result.success).length;
+  return {
+    items,
+    summary: {
+      total: items.length,
+      succeeded,
+      failed: items.length - succeeded,
+      sharedBrowser: shared !== null,
+      durationMs: Date.now() - started,
+    },
+  };
+}
@@ -0,0 +1,82 @@
+import type { Env } from './index';
+import type { ScrapeRequestOptions } from './options';
+import type { ScrapeResult, ScraperMeta } from './scrapers/base';
+import { canonicalJson, sha256Hex } from './changes';
+
+type CacheOptions = Pick<ScrapeRequestOptions, 'maxAge' | 'noCache'>;
+
+/** Trimmed, whitespace-collapsed, lower-cased strings -- `" ARIBIA  llc"` and `"aribia llc"` share an entry */
+function normalizeCacheInput(value: unknown): unknown {
+  if (typeof value === 'string') return value.trim().replace(/\s+/g, ' ').toLowerCase();
+  if (Array.isArray(value)) return value.map(normalizeCacheInput);
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(Object.entries(value as Record<string, unknown>).map(([k, v]) => [k, normalizeCacheInput(v)]));
+  }
+  return value;
+}
+
+export async function resultCacheKey(portal: string, input: unknown): Promise<string> {
+  return `cache:${portal}:${await sha256Hex(canonicalJson(normalizeCacheInput(input)))}`;
+}
+
+/** Age of a result in whole seconds, from its original `scrapedAt` */
+export function resultAgeSeconds(result: ScrapeResult, now = Date.now()): number {
+  return Math.max(0, Math.floor((now - Date.parse(result.scrapedAt)) / 1000));
+}
+
+/**
+ * The cached result for this portal+input, marked `cached: true`, or null on a miss.
+ * Always null for scrapers without `cacheTtlSeconds`, with `noCache`, or when the
+ * entry is older than `maxAge`. KV failures count as a miss.
+ */
+export async function getCachedResult(
+  env: Env,
+  meta: Pick<ScraperMeta, 'id' | 'cacheTtlSeconds'>,
+  input: unknown,
+  options: CacheOptions = {},
+): Promise<ScrapeResult | null> {
+  if (!meta.cacheTtlSeconds || options.noCache || options.maxAge === 0) return null;
+  try {
+    const raw = await env.SCRAPE_KV.get(await resultCacheKey(meta.id, input));
+    if (!raw) return null;
+    const result = JSON.parse(raw) as ScrapeResult;
+    if (options.maxAge !== undefined && resultAgeSeconds(result) > options.maxAge) return null;
+    return { ...result, cached: true };
+  } catch (err: any) {
+    console.error(`Result cache read failed for ${meta.id}: ${err.message}`);
+    return null;
+  }
+}
+
+/** Store a successful result for `cacheTtlSeconds`. Failures are logged, never thrown. */
+export async function putCachedResult(
+  env: Env,
+  meta: Pick<ScraperMeta, 'id' | 'cacheTtlSeconds'>,
+  input: unknown,
+  result: ScrapeResult,
+): Promise<void> {
+  if (!meta.cacheTtlSeconds || !result.success || result.cached) return;
+  try {
+    const { changes: _changes, ...stored } = result;
+    await env.SCRAPE_KV.put(await resultCacheKey(meta.id, input), JSON.stringify(stored), {
+      expirationTtl: Math.max(60, meta.cacheTtlSeconds),
+    });
+  } catch (err: any) {
+    console.error(`Result cache write failed for ${meta.id}: ${err.message}`);
+  }
+}
+
+/** `execute` on a cache miss, storing its result; the cached result otherwise */
+export async function withResultCache(
+  env: Env,
+  meta: Pick<ScraperMeta, 'id' | 'cacheTtlSeconds'>,
+  input: unknown,
+  options: CacheOptions,
+  execute: () => Promise<ScrapeResult>,
+): Promise<ScrapeResult> {
+  const hit = await getCachedResult(env, meta, input, options);
+  if (hit) return hit;
+  const result = await execute();
+  await putCachedResult(env, meta, input, result);
+  return result;
+}
@@ -0,0 +1,112 @@
+/**
+ * iCalendar (RFC 5545) output for scrapers whose results carry dates someone has
+ * to act on: hearings, tax installments, filing deadlines. Scrapers turn their
+ * data into `CalendarEvent`s; `renderCalendar` serializes them as a feed.
+ */
+
+export interface CalendarEvent {
+  /** Stable per deadline, not per date, so a rescheduled hearing moves on re-import instead of duplicating */
+  uid: string;
+  /** All-day event on this `YYYY-MM-DD` */
+  date: string;
+  summary: string;
+  description?: string;
+  url?: string;
+  /** e.g. `COURT`, `TAX` */
+  categories?: string[];
+}
+
+const PRODID = '-//ChittyOS//ChittyScrape//EN';
+const UID_DOMAIN = 'scrape.chitty.cc';
+/** Content lines are folded at 75 octets, not counting the CRLF */
+const MAX_LINE_OCTETS = 75;
+
+const encoder = new TextEncoder();
+
+/** `court-docket` + `2024D001234/next-hearing` -> a globally unique UID */
+export function eventUid(portal: string, key: string): string {
+  return `${portal}/${key}@${UID_DOMAIN}`;
+}
+
+/** TEXT value escaping: backslash, semicolon, comma and newlines */
+function escapeText(value: string): string {
+  return value
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r\n|\r|\n/g, '\\n');
+}
+
+/** Split a content line into 75-octet pieces without cutting a UTF-8 sequence; continuations start with a space */
+function foldLine(line: string): string {
+  if (encoder.encode(line).length <= MAX_LINE_OCTETS) return line;
+  const pieces: string[] = [];
+  let current = '';
+  let octets = 0;
+  for (const char of line) {
+    const size = encoder.encode(char).length;
+    // Continuation lines lose one octet to the leading space
+    const limit = pieces.length === 0 ? MAX_LINE_OCTETS : MAX_LINE_OCTETS - 1;
+    if (octets + size > limit) {
+      pieces.push(current);
+      current = '';
+      octets = 0;
+    }
+    current += char;
+    octets += size;
+  }
+  pieces.push(current);
+  return pieces.join('\r\n ');
+}
+
+/** `2026-04-01` -> `20260401` */
+function dateValue(date: string): string {
+  return date.replace(/-/g, '');
+}
+
+/** The day after `date` -- DTEND is exclusive for all-day events */
+function nextDay(date: string): string {
+  const d = new Date(`${date}T00:00:00Z`);
+  d.setUTCDate(d.getUTCDate() + 1);
+  return d.toISOString().slice(0, 10);
+}
+
+/** `2026-03-01T12:00:00.000Z` -> `20260301T120000Z` */
+function timestampValue(at: Date): string {
+  return at.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+}
+
+/**
+ * Serialize events as a VCALENDAR with CRLF line endings. `stamp` becomes every
+ * event's DTSTAMP -- pass the scrape time so the feed is stable for one result.
+ */
+export function renderCalendar(events: CalendarEvent[], options: { name?: string; stamp?: Date } = {}): string {
+  const stamp = timestampValue(options.stamp ?? new Date());
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    `PRODID:${PRODID}`,
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+  ];
+  if (options.name) lines.push(`X-WR-CALNAME:${escapeText(options.name)}`);
+
+  for (const event of events) {
+    lines.push(
+      'BEGIN:VEVENT',
+      `UID:${escapeText(event.uid)}`,
+      `DTSTAMP:${stamp}`,
+      `DTSTART;VALUE=DATE:${dateValue(event.date)}`,
+      `DTEND;VALUE=DATE:${dateValue(nextDay(event.date))}`,
+      `SUMMARY:${escapeText(event.summary)}`,
+    );
+    if (event.description) lines.push(`DESCRIPTION:${escapeText(event.description)}`);
+    if (event.url) lines.push(`URL:${event.url}`);
+    if (event.categories?.length) lines.push(`CATEGORIES:${event.categories.map(escapeText).join(',')}`);
+    // Deadlines shouldn't block out the whole day in free/busy
+    lines.push('TRANSP:TRANSPARENT', 'END:VEVENT');
+  }
+
+  lines.push('END:VCALENDAR');
+  return lines.map(foldLine).join('\r\n') + '\r\n';
+}
@@ -0,0 +1,213 @@
+import type { ScrapeResult } from './scrapers/base';
+
+export type CallbackStatus = 'pending' | 'delivered' | 'failed';
+
+export interface CallbackAttempt {
+  attempt: number;
+  at: string;
+  status?: number;
+  error?: string;
+  durationMs: number;
+}
+
+export interface CallbackDelivery {
+  id: string;
+  url: string;
+  portal: string;
+  jobId?: string;
+  status: CallbackStatus;
+  createdAt: string;
+  updatedAt: string;
+  attempts: CallbackAttempt[];
+}
+
+/** Total POST attempts per delivery (first try + retries) */
+export const CALLBACK_MAX_ATTEMPTS = 4;
+
+/** Backoff before retry n is BASE * 2^(n-1): 1s, 2s, 4s -- keeps the whole delivery inside waitUntil limits */
+export const CALLBACK_BASE_DELAY_MS = 1000;
+
+/** Delivery records are kept for a week so failures can be inspected */
+const DELIVERY_TTL_SECONDS = 7 * 86400;
+
+const CALLBACK_TIMEOUT_MS = 10000;
+
+/** KV key holding the shared secret used to sign callback payloads */
+export const CALLBACK_SECRET_KEY = 'scrape:callback_secret';
+
+export const DELIVERY_ID_RE = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/;
+
+function deliveryKey(id: string): string {
+  return `callback:${id}`;
+}
+
+/**
+ * HMAC-SHA256 over `${timestamp}.${body}`, hex encoded.
+ * Receivers recompute this with the shared secret and compare against
+ * the `X-ChittyScrape-Signature: sha256=<hex>` header.
+ */
+export async function signCallbackPayload(secret: string, timestamp: string, body: string): Promise<string> {
+  const encoder = new TextEncoder();
+  const key = await crypto.subtle.importKey(
+    'raw',
+    encoder.encode(secret),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign'],
+  );
+  const sig = await crypto.subtle.sign('HMAC', key, encoder.encode(`${timestamp}.${body}`));
+  return Array.from(new Uint8Array(sig)).map((b) => b.toString(16).padStart(2, '0')).join('');
+}
+
+/** The signing secret, or null when it is unset or unreadable -- callbacks are never sent unsigned */
+export async function getCallbackSecret(kv: KVNamespace): Promise<string | null> {
+  try {
+    return await kv.get(CALLBACK_SECRET_KEY);
+  } catch (err) {
+    console.error(`Failed to read callback secret from KV: ${err}`);
+    return null;
+  }
+}
+
+async function saveDelivery(kv: KVNamespace, delivery: CallbackDelivery): Promise<void> {
+  await kv.put(deliveryKey(delivery.id), JSON.stringify(delivery), { expirationTtl: DELIVERY_TTL_SECONDS });
+}
+
+export async function createDelivery(
+  kv: KVNamespace,
+  url: string,
+  portal: string,
+  jobId?: string,
+): Promise<CallbackDelivery> {
+  const now = new Date().toISOString();
+  const delivery: CallbackDelivery = {
+    id: crypto.randomUUID(),
+    url,
+    portal,
+    jobId,
+    status: 'pending',
+    createdAt: now,
+    updatedAt: now,
+    attempts: [],
+  };
+  await saveDelivery(kv, delivery);
+  return delivery;
+}
+
+export async function getDelivery(kv: KVNamespace, id: string): Promise<CallbackDelivery | null> {
+  const raw = await kv.get(deliveryKey(id));
+  if (!raw) return null;
+  try {
+    return JSON.parse(raw);
+  } catch (err) {
+    console.error(`Corrupted callback record for callback:${id}: ${err}`);
+    return null;
+  }
+}
+
+export async function listDeliveries(kv: KVNamespace, status?: CallbackStatus): Promise<CallbackDelivery[]> {
+  const deliveries: CallbackDelivery[] = [];
+  const list = await kv.list({ prefix: 'callback:' });
+  for (const key of list.keys) {
+    const delivery = await getDelivery(kv, key.name.slice('callback:'.length));
+    if (delivery && (!status || delivery.status === status)) deliveries.push(delivery);
+  }
+  return deliveries.sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+}
+
+/** 5xx, 408 and 429 are worth retrying; any other 4xx means the receiver rejected the payload */
+function isRetryableStatus(status: number): boolean {
+  return status >= 500 || status === 408 || status === 429;
+}
+
+/**
+ * POST a ScrapeResult to the delivery's callback URL, retrying transient failures
+ * with exponential backoff. Every attempt is persisted on the delivery record.
+ * Without a signing secret nothing is sent and the delivery fails.
+ * Never throws -- the final state is returned and stored.
+ */
+export async function deliverCallback(
+  kv: KVNamespace,
+  delivery: CallbackDelivery,
+  result: ScrapeResult,
+  deps: { fetch?: typeof fetch; sleep?: (ms: number) => Promise<void> } = {},
+): Promise<CallbackDelivery> {
+  const doFetch = deps.fetch || fetch;
+  const sleep = deps.sleep || ((ms: number) => new Promise<void>((r) => setTimeout(r, ms)));
+
+  const current: CallbackDelivery = { ...delivery, attempts: [...delivery.attempts] };
+
+  const secret = await getCallbackSecret(kv);
+  if (!secret) {
+    // An unsigned POST can't be told apart from a forged one
+    console.error(`${CALLBACK_SECRET_KEY} not set -- callback ${delivery.id} not sent`);
+    current.status = 'failed';
+    current.attempts.push({ attempt: 1, at: new Date().toISOString(), error: 'callback signing secret not configured', durationMs: 0 });
+    current.updatedAt = new Date().toISOString();
+    try {
+      await saveDelivery(kv, current);
+    } catch (err) {
+      console.error(`Failed to record callback failure for ${delivery.id}: ${err}`);
+    }
+    return current;
+  }
+
+  const body = JSON.stringify({
+    event: 'scrape.completed',
+    deliveryId: delivery.id,
+    jobId: delivery.jobId,
+    result,
+  });
+
+  for (let attempt = 1; attempt <= CALLBACK_MAX_ATTEMPTS; attempt++) {
+    if (attempt > 1) await sleep(CALLBACK_BASE_DELAY_MS * 2 ** (attempt - 2));
+
+    const timestamp = Math.floor(Date.now() / 1000).toString();
+    const headers: Record<string, string> = {
+      'Content-Type': 'application/json',
+      'User-Agent': 'ChittyScrape-Callback/1',
+      'X-ChittyScrape-Delivery': delivery.id,
+      'X-ChittyScrape-Timestamp': timestamp,
+      'X-ChittyScrape-Signature': `sha256=${await signCallbackPayload(secret, timestamp, body)}`,
+    };
+
+    const started = Date.now();
+    const record: CallbackAttempt = { attempt, at: new Date(started).toISOString(), durationMs: 0 };
+    let retryable = true;
+    try {
+      const res = await doFetch(delivery.url, {
+        method: 'POST',
+        headers,
+        body,
+        signal: AbortSignal.timeout(CALLBACK_TIMEOUT_MS),
+      });
+      record.status = res.status;
+      if (res.ok) {
+        current.status = 'delivered';
+      } else {
+        record.error = `HTTP ${res.status}`;
+        retryable = isRetryableStatus(res.status);
+      }
+    } catch (err: any) {
+      record.error = err?.message || String(err);
+    }
+    record.durationMs = Date.now() - started;
+    current.attempts.push(record);
+
+    if (current.status !== 'delivered' && (!retryable || attempt === CALLBACK_MAX_ATTEMPTS)) {
+      current.status = 'failed';
+      console.error(`Callback ${delivery.id} to ${delivery.url} failed after ${attempt} attempt(s): ${record.error}`);
+    }
+    current.updatedAt = new Date().toISOString();
+
+    try {
+      await saveDelivery(kv, current);
+    } catch (err) {
+      console.error(`Failed to record callback attempt for ${delivery.id}: ${err}`);
+    }
+
+    if (current.status !== 'pending') break;
+  }
+
+  return current;
+}
@@ -0,0 +1,292 @@
+import { decoratePages, observeSelectors, type ScrapeResult, type SelectorResolution } from './scrapers/base';
+
+export interface CapturedPage {
+  url: string;
+  /** Final HTML seen at this URL (the last snapshot taken while the page was on it) */
+  html: string;
+  capturedAt: string;
+}
+
+export interface CapturedSelector extends SelectorResolution {
+  url: string;
+  /** The selector that matched, or null when no candidate did */
+  matched: string | null;
+  at: string;
+}
+
+export interface CapturedScreenshot {
+  url: string;
+  trigger: CaptureTrigger;
+  capturedAt: string;
+  pngBase64: string;
+}
+
+export type CaptureTrigger = 'goto' | 'navigation' | 'close';
+
+export interface CaptureBundle {
+  portal: string;
+  capturedAt: string;
+  input: unknown;
+  result: ScrapeResult;
+  pages: CapturedPage[];
+  selectors: CapturedSelector[];
+  screenshots: CapturedScreenshot[];
+  redaction: {
+    /** Distinct typed/input values scrubbed from HTML, URLs and the result */
+    secrets: number;
+    /** Digit runs (8+ digits) masked down to their last four */
+    accountNumbers: boolean;
+  };
+}
+
+/** Screenshots are the bulk of a bundle -- keep it small enough to return in one response */
+export const CAPTURE_MAX_SCREENSHOTS = 10;
+export const CAPTURE_MAX_PAGES = 50;
+
+const REDACTED = '[REDACTED]';
+
+/** Typed into a field whose selector looks like one of these, the text is treated as a secret */
+const CREDENTIAL_FIELD_RE = /pass|user|login|email|account|acct|pin\b|ssn|card|otp|code/i;
+/** Input keys whose string values are always scrubbed */
+const SECRET_INPUT_KEY_RE = /pass|secret|token|account|acct|ssn|card/i;
+/** Eight or more digits, optionally separated by single spaces or dashes */
+const ACCOUNT_NUMBER_SOURCE = '\\b\\d(?:[ -]?\\d){7,}\\b';
+const PASSWORD_VALUE_RE = /(<input\b[^>]*\btype=["']?password["']?[^>]*\bvalue=)(["'])[^"']*\2/gi;
+
+/** Keep the last four digits of an account-like number, separators intact */
+function maskDigits(run: string): string {
+  return run.replace(/\d(?=(?:\D*\d){4})/g, 'X');
+}
+
+function escapeHtml(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
+
+/**
+ * Scrub secrets (raw, URL-encoded and HTML-escaped forms), password input values and
+ * account-like digit runs from a string.
+ */
+export function redactText(text: string, secrets: Iterable<string>): string {
+  let out = text;
+  for (const secret of secrets) {
+    for (const form of new Set([secret, encodeURIComponent(secret), escapeHtml(secret)])) {
+      out = out.split(form).join(REDACTED);
+    }
+  }
+  return out
+    .replace(PASSWORD_VALUE_RE, `$1$2${REDACTED}$2`)
+    .replace(new RegExp(ACCOUNT_NUMBER_SOURCE, 'g'), maskDigits);
+}
+
+/** String values under secret-looking keys anywhere in the scraper input */
+export function inputSecrets(input: unknown): string[] {
+  const found: string[] = [];
+  const walk = (value: unknown, key: string) => {
+    if (typeof value === 'string') {
+      if (SECRET_INPUT_KEY_RE.test(key) && value.length >= 3) found.push(value);
+    } else if (Array.isArray(value)) {
+      value.forEach((v) => walk(v, key));
+    } else if (value && typeof value === 'object') {
+      for (const [k, v] of Object.entries(value)) walk(v, k);
+    }
+  };
+  walk(input, '');
+  return found;
+}
+
+/**
+ * In-page: redact visible text and form values before a screenshot, remembering the
+ * originals on the document so `unmaskPage` can put them back. Self-contained because
+ * puppeteer serializes it into the page.
+ */
+function maskPage(secrets: string[], accountSource: string): number {
+  const doc = (globalThis as any).document;
+  if (!doc?.body) return 0;
+  const accountRe = new RegExp(accountSource, 'g');
+  const scrub = (text: string): string => {
+    let out = text;
+    for (const secret of secrets) out = out.split(secret).join('[REDACTED]');
+    return out.replace(accountRe, (run: string) => run.replace(/\d(?=(?:\D*\d){4})/g, 'X'));
+  };
+  const restore: Array<{ node: any; prop: string; value: string }> = [];
+  const walk = (node: any) => {
+    if (node.nodeType === 3) {
+      const next = scrub(node.textContent || '');
+      if (next !== node.textContent) {
+        restore.push({ node, prop: 'textContent', value: node.textContent });
+        node.textContent = next;
+      }
+      return;
+    }
+    const tag = (node.tagName || '').toUpperCase();
+    if ((tag === 'INPUT' || tag === 'TEXTAREA') && typeof node.value === 'string' && node.value) {
+      const next = (node.type || '').toLowerCase() === 'password' ? '' : scrub(node.value);
+      if (next !== node.value) {
+        restore.push({ node, prop: 'value', value: node.value });
+        node.value = next;
+      }
+    }
+    for (const child of Array.from(node.childNodes || [])) walk(child);
+  };
+  walk(doc.body);
+  doc.__chittyCaptureRestore = restore;
+  return restore.length;
+}
+
+/** In-page: undo `maskPage` */
+function unmaskPage(): void {
+  const doc = (globalThis as any).document;
+  const restore = doc?.__chittyCaptureRestore || [];
+  for (const { node, prop, value } of restore) node[prop] = value;
+  if (doc) delete doc.__chittyCaptureRestore;
+}
+
+export interface CaptureOptions {
+  /** Treat every typed value as a secret, not just those typed into credential-looking fields */
+  redactAllTyped?: boolean;
+  /** When to snapshot page HTML (default: every trigger) */
+  snapshotOn?: CaptureTrigger[];
+  /** When to also take a screenshot (default: `goto` and `navigation`) */
+  screenshotOn?: CaptureTrigger[];
+  maxScreenshots?: number;
+}
+
+/** Upper bound on one snapshot -- a hung page must not hold up the `close` it runs before */
+const SNAPSHOT_TIMEOUT_MS = 5000;
+
+/**
+ * Recording session for one capture-mode scrape. Pass `fetcher` to the scraper in place
+ * of the BROWSER binding: every page it opens is instrumented to snapshot HTML (and a
+ * screenshot) after each `goto`, `waitForNavigation` and before `close`, and every
+ * `resolveSelector` call against the page is logged. `bundle()` assembles the redacted
+ * result. Recording failures are logged and never affect the scrape itself.
+ */
+export function createCaptureSession(binding: Fetcher, options: CaptureOptions = {}) {
+  const {
+    snapshotOn = ['goto', 'navigation', 'close'],
+    screenshotOn = ['goto', 'navigation'],
+    maxScreenshots = CAPTURE_MAX_SCREENSHOTS,
+  } = options;
+  const pages = new Map<string, CapturedPage>();
+  const selectors: CapturedSelector[] = [];
+  const screenshots: CapturedScreenshot[] = [];
+  const secrets = new Set<string>();
+
+  const record = async (page: any, trigger: CaptureTrigger) => {
+    if (!snapshotOn.includes(trigger)) return;
+    const url: string = page.url();
+    if (!url || url === 'about:blank') return;
+    const capturedAt = new Date().toISOString();
+    if (pages.has(url) || pages.size < CAPTURE_MAX_PAGES) {
+      pages.delete(url);
+      pages.set(url, { url, html: await page.content(), capturedAt });
+    }
+    if (screenshotOn.includes(trigger) && screenshots.length < maxScreenshots) {
+      await page.evaluate(maskPage, [...secrets], ACCOUNT_NUMBER_SOURCE);
+      try {
+        const png = await page.screenshot({ type: 'png' });
+        const pngBase64 = typeof png === 'string' ? png : Buffer.from(png).toString('base64');
+        screenshots.push({ url, trigger, capturedAt, pngBase64 });
+      } finally {
+        await page.evaluate(unmaskPage);
+      }
+    }
+  };
+
+  const snapshot = async (page: any, trigger: CaptureTrigger) => {
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    try {
+      await Promise.race([
+        record(page, trigger),
+        new Promise((_, reject) => {
+          timer = setTimeout(() => reject(new Error(`timed out after ${SNAPSHOT_TIMEOUT_MS}ms`)), SNAPSHOT_TIMEOUT_MS);
+        }),
+      ]);
+    } catch (err: any) {
+      console.warn(`Capture snapshot failed (${trigger}): ${err.message}`);
+    } finally {
+      clearTimeout(timer);
+    }
+  };
+
+  const instrumentPage = (page: any) => {
+    const proxy = new Proxy(page, {
+      get(target, prop) {
+        const value = Reflect.get(target, prop);
+        if (typeof value !== 'function') return value;
+        switch (prop) {
+          case 'goto':
+          case 'waitForNavigation':
+            return async (...args: any[]) => {
+              try {
+                return await value.apply(target, args);
+              } finally {
+                await snapshot(target, prop === 'goto' ? 'goto' : 'navigation');
+              }
+            };
+          case 'type':
+            return (selector: string, text: string, ...rest: any[]) => {
+              if (typeof text === 'string' && text.length > 0
+                && (options.redactAllTyped || CREDENTIAL_FIELD_RE.test(String(selector)))) {
+                secrets.add(text);
+              }
+              return value.call(target, selector, text, ...rest);
+            };
+          case 'close':
+            return async (...args: any[]) => {
+              await snapshot(target, 'close');
+              return value.apply(target, args);
+            };
+          default:
+            return value.bind(target);
+        }
+      },
+    });
+    observeSelectors(proxy, (resolution) => {
+      let url = '';
+      try {
+        url = page.url();
+      } catch {}
+      selectors.push({
+        url,
+        ...resolution,
+        matched: resolution.matchedIndex === null ? null : resolution.selectors[resolution.matchedIndex],
+        at: new Date().toISOString(),
+      });
+    });
+    return proxy;
+  };
+
+  const fetcher = decoratePages(binding, instrumentPage);
+
+  return {
+    fetcher,
+    /** Assemble the redacted bundle -- call once the scraper has returned */
+    bundle(portal: string, input: unknown, result: ScrapeResult): CaptureBundle {
+      for (const secret of inputSecrets(input)) secrets.add(secret);
+      // Longest first, so a password containing another secret is scrubbed whole
+      const ordered = [...secrets].sort((a, b) => b.length - a.length);
+      const redact = (text: string) => redactText(text, ordered);
+      // Strings only -- numeric fields (amounts, counts) are not account numbers
+      const redactJson = (value: any): any => {
+        if (typeof value === 'string') return redact(value);
+        if (Array.isArray(value)) return value.map(redactJson);
+        if (value && typeof value === 'object') {
+          return Object.fromEntries(Object.entries(value).map(([k, v]) => [k, redactJson(v)]));
+        }
+        return value;
+      };
+
+      return {
+        portal,
+        capturedAt: new Date().toISOString(),
+        input: redactJson(input),
+        result: redactJson(result),
+        pages: [...pages.values()].map((p) => ({ ...p, url: redact(p.url), html: redact(p.html) })),
+        selectors: selectors.map((s) => ({ ...s, url: redact(s.url) })),
+        screenshots: screenshots.map((s) => ({ ...s, url: redact(s.url) })),
+        redaction: { secrets: ordered.length, accountNumbers: true },
+      };
+    },
+  };
+}
@@ -0,0 +1,93 @@
+/**
+ * Cook County Circuit Court case numbers: a filing year, a division code and a
+ * sequence number. The clerk prints them as `2024-D-001234`, `2024 CH 01234` or
+ * `2024CH01234` depending on the page; the canonical form drops the separators.
+ */
+
+/** Division codes the Circuit Court Clerk assigns, with the division or district they belong to */
+export const CASE_DIVISIONS: Record<string, string> = {
+  CH: 'Chancery',
+  D: 'Domestic Relations',
+  DC: 'Domestic Relations (Child Support)',
+  L: 'Law',
+  P: 'Probate',
+  CR: 'Criminal',
+  JA: 'Child Protection',
+  JD: 'Juvenile Justice',
+  OP: 'Order of Protection',
+  M1: 'Municipal District 1 (Chicago)',
+  M2: 'Municipal District 2 (Skokie)',
+  M3: 'Municipal District 3 (Rolling Meadows)',
+  M4: 'Municipal District 4 (Maywood)',
+  M5: 'Municipal District 5 (Bridgeview)',
+  M6: 'Municipal District 6 (Markham)',
+  COAD: 'County Division (Adoption)',
+  COEL: 'County Division (Election)',
+  COMH: 'County Division (Mental Health)',
+  COTD: 'County Division (Tax Deed)',
+};
+
+// Longest first: `DC` before `D`, and `M1` has to win over reading the 1 as the sequence
+const DIVISION_CODES = Object.keys(CASE_DIVISIONS).sort((a, b) => b.length - a.length);
+
+/** Case numbers from before this year are not in the clerk's online search */
+const FIRST_CASE_YEAR = 1960;
+
+/** Numbers can be assigned ahead for the coming year, never further out */
+function lastCaseYear(): number {
+  return new Date().getUTCFullYear() + 1;
+}
+
+export interface CookCountyCaseNumber {
+  /** Canonical form: `2024D001234` */
+  caseNumber: string;
+  /** Dashed display form: `2024-D-001234` */
+  formatted: string;
+  year: number;
+  /** Division code, e.g. `CH` */
+  division: string;
+  /** e.g. `Chancery` */
+  divisionName: string;
+  sequence: number;
+}
+
+/**
+ * Parse a case number in any of the clerk's printed forms. The sequence keeps the
+ * digits as given -- `2024CH01234` stays five digits -- so the canonical form
+ * matches what the clerk's search expects. Null for an unknown division code, a year
+ * before 1960 or after next year, or anything that isn't year, code and sequence.
+ */
+export function parseCaseNumber(text: string): CookCountyCaseNumber | null {
+  const compact = text.trim().toUpperCase().replace(/[\s-]+/g, '');
+  const match = /^(\d{4})([A-Z0-9]+)$/.exec(compact);
+  if (!match) return null;
+  const year = Number(match[1]);
+  if (year < FIRST_CASE_YEAR || year > lastCaseYear()) return null;
+
+  const division = DIVISION_CODES.find((code) => match[2].startsWith(code));
+  if (!division) return null;
+  const digits = match[2].slice(division.length);
+  if (!/^\d{1,7}$/.test(digits)) return null;
+
+  return {
+    caseNumber: `${year}${division}${digits}`,
+    formatted: `${year}-${division}-${digits}`,
+    year,
+    division,
+    divisionName: CASE_DIVISIONS[division],
+    sequence: Number(digits),
+  };
+}
+
+/** `2024-d-001234` and `2024 D 001234` both become `2024D001234`; null when it isn't a case number */
+export function canonicalCaseNumber(text: string): string | null {
+  return parseCaseNumber(text)?.caseNumber ?? null;
+}
+
+/** `validate` message for a scraper's `caseNumber` input, undefined when it parses */
+export function caseNumberInputError(caseNumber: string | undefined): string | undefined {
+  if (!caseNumber?.trim()) return 'caseNumber is required';
+  return parseCaseNumber(caseNumber)
+    ? undefined
+    : 'caseNumber must be a Cook County case number such as 2024-D-001234 (year, division code, sequence)';
+}
@@ -0,0 +1,152 @@
+import type { Env } from './index';
+import { getChittyConnectCredential } from './chittyconnect';
+import { decoratePages, pauseScrapeDeadline, resolveSelector } from './scrapers/base';
+
+/** What a scraper needs from outside the browser when a portal prompts for a one-time code */
+export interface ChallengeRequest {
+  kind: 'otp';
+  /** Scraper ID, plus a sub-portal where one scraper logs in to several (`appfolio-hoa:propertyhill`) */
+  portal: string;
+  /** Text the portal shows with the code field, e.g. where the code was sent */
+  prompt?: string;
+}
+
+/** Resolves to the submitted code, or null when none arrived in time */
+export type ChallengeHandler = (request: ChallengeRequest) => Promise<string | null>;
+
+/** Handlers registered with `withChallengeHandler`, keyed by page */
+const challengeHandlers = new WeakMap<object, ChallengeHandler>();
+
+/**
+ * Wrap the Browser Rendering binding so scrapes run through it can ask `handler` for
+ * one-time codes. Async jobs install one; sync and batch scrapes have none.
+ */
+export function withChallengeHandler(binding: Fetcher, handler: ChallengeHandler): Fetcher {
+  return decoratePages(binding, (page) => {
+    challengeHandlers.set(page, handler);
+    return page;
+  });
+}
+
+const OTP_INPUT_SELECTORS = [
+  'input[autocomplete="one-time-code"]',
+  '#otp', 'input[name="otp"]', '#otpCode', 'input[name="otpCode"]',
+  '#verificationCode', 'input[name="verificationCode"]',
+  '#totp', 'input[name="totp"]', '#mfaCode', 'input[name="mfaCode"]',
+  'input[name*="passcode" i]',
+];
+
+const OTP_SUBMIT_SELECTORS = [
+  'button[type="submit"]', 'input[type="submit"]', '#verifyCode', '#continue',
+  'button[name="verify"]', '.verify-button',
+];
+
+const BASE32_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+
+function decodeBase32(text: string): Uint8Array {
+  const clean = text.toUpperCase().replace(/[\s=-]/g, '');
+  const bytes: number[] = [];
+  let bits = 0;
+  let value = 0;
+  for (const ch of clean) {
+    const index = BASE32_ALPHABET.indexOf(ch);
+    if (index === -1) throw new Error('TOTP seed is not valid base32');
+    value = (value << 5) | index;
+    bits += 5;
+    if (bits >= 8) {
+      bytes.push((value >>> (bits - 8)) & 0xff);
+      bits -= 8;
+    }
+  }
+  return new Uint8Array(bytes);
+}
+
+/**
+ * RFC 6238 TOTP (HMAC-SHA1). `seed` is the base32 secret or the `otpauth://` URI an
+ * authenticator app would be given.
+ */
+export async function generateTotp(seed: string, at = Date.now(), digits = 6, periodSeconds = 30): Promise<string> {
+  const secret = seed.startsWith('otpauth://') ? new URL(seed).searchParams.get('secret') ?? '' : seed;
+  const counter = Math.floor(at / 1000 / periodSeconds);
+  const message = new Uint8Array(8);
+  new DataView(message.buffer).setUint32(0, Math.floor(counter / 2 ** 32));
+  new DataView(message.buffer).setUint32(4, counter >>> 0);
+  const key = await crypto.subtle.importKey('raw', decodeBase32(secret), { name: 'HMAC', hash: 'SHA-1' }, false, ['sign']);
+  const mac = new Uint8Array(await crypto.subtle.sign('HMAC', key, message));
+  const offset = mac[mac.length - 1] & 0x0f;
+  const binary = ((mac[offset] & 0x7f) << 24) | (mac[offset + 1] << 16) | (mac[offset + 2] << 8) | mac[offset + 3];
+  return String(binary % 10 ** digits).padStart(digits, '0');
+}
+
+/** ChittyConnect ref of the portal's TOTP seed from `TOTP_REFS` -- the sub-portal entry wins over the scraper's */
+function totpRef(env: Env, portal: string): string | undefined {
+  if (!env.TOTP_REFS) return undefined;
+  try {
+    const refs = JSON.parse(env.TOTP_REFS) as Record<string, string>;
+    return refs[portal] ?? refs[portal.split(':')[0]];
+  } catch (err: any) {
+    console.error(`TOTP_REFS is not valid JSON: ${err.message}`);
+    return undefined;
+  }
+}
+
+async function totpCode(env: Env, portal: string): Promise<string | null> {
+  const ref = totpRef(env, portal);
+  if (!ref) return null;
+  try {
+    const seed = await getChittyConnectCredential(env, ref);
+    return seed ? await generateTotp(seed) : null;
+  } catch (err: any) {
+    console.warn(`TOTP seed lookup failed for ${portal}: ${err.message}`);
+    return null;
+  }
+}
+
+/** In-page: the instruction text shown with the code field, if any */
+function readOtpPrompt(): string | undefined {
+  const doc = (globalThis as any).document;
+  if (!doc) return undefined;
+  for (const el of Array.from(doc.querySelectorAll('h1, h2, h3, label, p, .description')) as any[]) {
+    const text = (el.textContent || '').replace(/\s+/g, ' ').trim();
+    if (text && /code|verif|passcode/i.test(text)) return text.slice(0, 200);
+  }
+  return undefined;
+}
+
+/**
+ * Answer a one-time-code prompt if the page is showing one; call after submitting the
+ * login form. The code comes from the portal's TOTP seed (`TOTP_REFS`) when configured,
+ * otherwise from the page's challenge handler -- the scrape deadline is paused while it
+ * waits. Returns an error message, or undefined when there was no prompt or the code
+ * was accepted.
+ */
+export async function solveOtpChallenge(page: any, env: Env, portal: string): Promise<string | undefined> {
+  const inputSel = await resolveSelector(page, OTP_INPUT_SELECTORS);
+  if (!inputSel) return undefined;
+
+  let code = await totpCode(env, portal);
+  if (!code) {
+    const handler = challengeHandlers.get(page);
+    if (!handler) {
+      return '2FA code required -- add a TOTP seed ref to TOTP_REFS, or run as an async job and submit the code to POST /api/v1/jobs/:id/challenge';
+    }
+    const prompt = await page.evaluate(readOtpPrompt).catch(() => undefined);
+    const resume = pauseScrapeDeadline(page);
+    try {
+      code = await handler({ kind: 'otp', portal, prompt });
+    } finally {
+      resume();
+    }
+    if (!code) return '2FA code was not submitted in time';
+  }
+
+  await page.type(inputSel, code);
+  const submitSel = await resolveSelector(page, OTP_SUBMIT_SELECTORS, { scraper: portal.split(':')[0], step: 'otp-submit' });
+  if (!submitSel) return 'Could not find 2FA submit button';
+  await page.click(submitSel);
+  await page.waitForNavigation({ waitUntil: 'networkidle0', timeout: 20000 }).catch(() => {});
+  await new Promise((r) => setTimeout(r, 2000));
+
+  if (await resolveSelector(page, OTP_INPUT_SELECTORS)) return '2FA code was rejected';
+  return undefined;
+}
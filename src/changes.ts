@@ -0,0 +1,237 @@
+import type { Env } from './index';
+import type { ScrapeResult, ScraperMeta } from './scrapers/base';
+import { openRecord, sealRecord } from './auth-session';
+
+export interface ArrayChange {
+  /** Identity of the item within its array (id-like field, or its immutable fields) */
+  key: string;
+  before: unknown;
+  after: unknown;
+}
+
+export interface ArrayDiff {
+  added: unknown[];
+  removed: unknown[];
+  changed: ArrayChange[];
+}
+
+export interface FieldChange {
+  path: string;
+  before: unknown;
+  after: unknown;
+}
+
+export interface ChangeSet {
+  /** True on the first tracked run for this portal+input -- nothing to compare against yet */
+  baseline: boolean;
+  changed: boolean;
+  fingerprint: string;
+  previousFingerprint?: string;
+  previousScrapedAt?: string;
+  /** Diffs for every array in `data`, keyed by dotted path (e.g. `entries`, `recorder.filings`) */
+  arrays: Record<string, ArrayDiff>;
+  /** Scalar and object fields whose value changed */
+  fields: FieldChange[];
+  /** The previous data wasn't kept (login portal without `SESSION_ENCRYPTION_KEY`), so only `changed` is known */
+  diffUnavailable?: boolean;
+}
+
+interface ChangeSnapshot {
+  fingerprint: string;
+  scrapedAt: string;
+  /** Plain data, for public portals */
+  data?: unknown;
+  /** `sealRecord` of the data, for login portals */
+  sealed?: string;
+}
+
+export interface SnapshotOptions {
+  /** Account data from a login portal -- never stored in the clear */
+  sensitive?: boolean;
+  /** Encrypts sensitive snapshots; without it only their fingerprint is stored */
+  encryptionKey?: string;
+}
+
+/** Snapshots outlive any reasonable polling interval but do not accumulate forever */
+const SNAPSHOT_TTL_SECONDS = 90 * 86400;
+
+/**
+ * Fields that identify an array item across scrapes. Items without one are keyed by
+ * their remaining fields minus MUTABLE_ITEM_FIELDS, so a violation whose status flips
+ * from open to closed shows up as changed rather than removed + added.
+ */
+const IDENTITY_FIELDS = ['documentNumber', 'caseNumber', 'id', 'number'];
+const MUTABLE_ITEM_FIELDS = ['status', 'paid', 'amount', 'balance', 'pdfBase64', 'downloadUrl'];
+
+/** JSON with object keys sorted, so equal values always serialize identically */
+export function canonicalJson(value: unknown): string {
+  if (Array.isArray(value)) return `[${value.map(canonicalJson).join(',')}]`;
+  if (value && typeof value === 'object') {
+    const entries = Object.entries(value as Record<string, unknown>)
+      .filter(([, v]) => v !== undefined)
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+    return `{${entries.map(([k, v]) => `${JSON.stringify(k)}:${canonicalJson(v)}`).join(',')}}`;
+  }
+  return JSON.stringify(value) ?? 'null';
+}
+
+export async function sha256Hex(text: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(text));
+  return Array.from(new Uint8Array(digest)).map((b) => b.toString(16).padStart(2, '0')).join('');
+}
+
+/** KV key for the last successful snapshot of a portal+input pair */
+export async function snapshotKey(portal: string, input: unknown): Promise<string> {
+  return `changes:${portal}:${await sha256Hex(canonicalJson(input))}`;
+}
+
+function itemKey(item: unknown): string {
+  if (item && typeof item === 'object' && !Array.isArray(item)) {
+    const obj = item as Record<string, unknown>;
+    for (const field of IDENTITY_FIELDS) {
+      if (obj[field] !== undefined && obj[field] !== '') return `${field}=${String(obj[field])}`;
+    }
+    const immutable = Object.fromEntries(Object.entries(obj).filter(([k]) => !MUTABLE_ITEM_FIELDS.includes(k)));
+    return canonicalJson(immutable);
+  }
+  return canonicalJson(item);
+}
+
+/** Key each item, numbering repeats so duplicate rows (two identical ledger lines) are tracked separately */
+function keyItems(items: unknown[]): Map<string, unknown> {
+  const keyed = new Map<string, unknown>();
+  const seen = new Map<string, number>();
+  for (const item of items) {
+    const base = itemKey(item);
+    const n = seen.get(base) ?? 0;
+    seen.set(base, n + 1);
+    keyed.set(n === 0 ? base : `${base}#${n}`, item);
+  }
+  return keyed;
+}
+
+export function diffArrays(before: unknown[], after: unknown[]): ArrayDiff {
+  const prev = keyItems(before);
+  const next = keyItems(after);
+  const diff: ArrayDiff = { added: [], removed: [], changed: [] };
+  for (const [key, item] of next) {
+    if (!prev.has(key)) diff.added.push(item);
+    else if (canonicalJson(prev.get(key)) !== canonicalJson(item)) {
+      diff.changed.push({ key, before: prev.get(key), after: item });
+    }
+  }
+  for (const [key, item] of prev) {
+    if (!next.has(key)) diff.removed.push(item);
+  }
+  return diff;
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return !!value && typeof value === 'object' && !Array.isArray(value);
+}
+
+/**
+ * Walk two `data` values in parallel. Arrays are diffed item by item, nested objects
+ * are descended into, and anything else is compared by value.
+ */
+export function diffData(before: unknown, after: unknown): Pick<ChangeSet, 'arrays' | 'fields'> {
+  const arrays: Record<string, ArrayDiff> = {};
+  const fields: FieldChange[] = [];
+
+  const walk = (prev: unknown, next: unknown, path: string) => {
+    if (Array.isArray(prev) && Array.isArray(next)) {
+      const diff = diffArrays(prev, next);
+      if (diff.added.length || diff.removed.length || diff.changed.length) arrays[path] = diff;
+      return;
+    }
+    if (isPlainObject(prev) && isPlainObject(next)) {
+      const keys = new Set([...Object.keys(prev), ...Object.keys(next)]);
+      for (const key of keys) walk(prev[key], next[key], path ? `${path}.${key}` : key);
+      return;
+    }
+    if (canonicalJson(prev) !== canonicalJson(next)) {
+      fields.push({ path, before: prev, after: next });
+    }
+  };
+
+  walk(before, after, '');
+  return { arrays, fields };
+}
+
+/** Login portals' snapshots are encrypted with the auth-session key, or reduced to a fingerprint */
+export function snapshotOptions(env: Env, meta: Pick<ScraperMeta, 'requiresAuth' | 'authSources'>): SnapshotOptions {
+  return { sensitive: meta.requiresAuth || meta.authSources === true, encryptionKey: env.SESSION_ENCRYPTION_KEY };
+}
+
+async function storedData(snapshot: ChangeSnapshot, key: string, options: SnapshotOptions): Promise<unknown> {
+  if (snapshot.sealed === undefined) return snapshot.data;
+  if (!options.encryptionKey) return undefined;
+  try {
+    return await openRecord(options.encryptionKey, key, snapshot.sealed);
+  } catch (err: any) {
+    console.warn(`Unreadable change snapshot ${key}, diffing without it: ${err.message}`);
+    return undefined;
+  }
+}
+
+/**
+ * Compare a successful result with the last stored snapshot for the same
+ * portal+input, store the new snapshot, and attach the diff as `changes`.
+ * Failed results pass through untouched (and leave the snapshot alone).
+ * Sensitive data is stored encrypted, or not at all without a key -- see `snapshotOptions`.
+ * Never throws -- KV failures are logged and the result is returned without a diff.
+ */
+export async function trackChanges(
+  kv: KVNamespace,
+  portal: string,
+  input: unknown,
+  result: ScrapeResult,
+  options: SnapshotOptions = {},
+): Promise<ScrapeResult> {
+  if (!result.success || result.data === undefined) return result;
+
+  try {
+    const key = await snapshotKey(portal, input);
+    const fingerprint = await sha256Hex(canonicalJson(result.data));
+
+    let previous: ChangeSnapshot | null = null;
+    const raw = await kv.get(key);
+    if (raw) {
+      try {
+        previous = JSON.parse(raw);
+      } catch (err) {
+        console.error(`Corrupted change snapshot ${key}, treating as baseline: ${err}`);
+      }
+    }
+
+    const snapshot: ChangeSnapshot = { fingerprint, scrapedAt: result.scrapedAt };
+    if (!options.sensitive) snapshot.data = result.data;
+    else if (options.encryptionKey) snapshot.sealed = await sealRecord(options.encryptionKey, key, result.data);
+    await kv.put(key, JSON.stringify(snapshot), { expirationTtl: SNAPSHOT_TTL_SECONDS });
+
+    if (!previous) {
+      return { ...result, changes: { baseline: true, changed: false, fingerprint, arrays: {}, fields: [] } };
+    }
+
+    const unchanged = previous.fingerprint === fingerprint;
+    const previousData = unchanged ? undefined : await storedData(previous, key, options);
+    const diffUnavailable = !unchanged && previousData === undefined;
+    const { arrays, fields } = unchanged || diffUnavailable ? { arrays: {}, fields: [] } : diffData(previousData, result.data);
+    return {
+      ...result,
+      changes: {
+        baseline: false,
+        changed: !unchanged,
+        fingerprint,
+        previousFingerprint: previous.fingerprint,
+        previousScrapedAt: previous.scrapedAt,
+        arrays,
+        fields,
+        ...(diffUnavailable ? { diffUnavailable } : {}),
+      },
+    };
+  } catch (err: any) {
+    console.error(`Change tracking failed for ${portal}: ${err.message}`);
+    return result;
+  }
+}
@@ -12,6 +12,35 @@ function getConnectConfig(env: Env) {
   return token ? { url, token } : null;
 }
 
+/** True when a ChittyConnect token is configured, i.e. `getChittyConnectCredential` won't throw for lack of one */
+export function isChittyConnectConfigured(env: Env): boolean {
+  return getConnectConfig(env) !== null;
+}
+
+export type ChittyConnectStatus =
+  | { status: 'reachable' }
+  | { status: 'not_configured' }
+  | { status: 'unreachable'; error: string };
+
+/** Probe ChittyConnect's health endpoint with the configured token -- never throws */
+export async function checkChittyConnect(env: Env): Promise<ChittyConnectStatus> {
+  const config = getConnectConfig(env);
+  if (!config) return { status: 'not_configured' };
+  try {
+    const res = await fetch(`${config.url}/health`, {
+      method: 'GET',
+      headers: {
+        Authorization: `Bearer ${config.token}`,
+        'X-ChittyOS-Caller': 'chittyscrape',
+      },
+      signal: AbortSignal.timeout(5000),
+    });
+    return res.ok ? { status: 'reachable' } : { status: 'unreachable', error: `HTTP ${res.status}` };
+  } catch (err: any) {
+    return { status: 'unreachable', error: err.message };
+  }
+}
+
 export async function getChittyConnectCredential(
   env: Env,
   ref: string,
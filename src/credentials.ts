@@ -0,0 +1,150 @@
+import type { Env } from './index';
+import type { ScraperMeta } from './scrapers/base';
+import { getChittyConnectCredential, getCredentialRef, isChittyConnectConfigured } from './chittyconnect';
+
+export type CredentialProviderName = 'chittyconnect' | 'kv' | 'env';
+
+/** Default ChittyConnect ref for a credential key; `envVar`, when set, overrides it per deployment */
+export interface CredentialRef {
+  ref: string;
+  envVar?: keyof Env;
+}
+
+export interface CredentialProvider {
+  name: CredentialProviderName;
+  /** Value for `key`, or null when this provider doesn't hold it. Throws when the provider itself fails. */
+  lookup(key: string, meta: ScraperMeta): Promise<string | null>;
+}
+
+export type CredentialLookup<K extends string> =
+  | { ok: true; values: Record<K, string>; sources: Record<K, CredentialProviderName> }
+  | { ok: false; missing: K[]; error: string; sources: Partial<Record<K, CredentialProviderName>> };
+
+export interface CredentialResolver {
+  /**
+   * Resolve `keys` (default: all of `meta.credentialKeys`) through the provider chain.
+   * Either every value, or the keys no provider had with a uniform error message.
+   * `sources` names the provider each resolved key came from.
+   */
+  resolve<K extends string>(meta: ScraperMeta, keys?: readonly K[]): Promise<CredentialLookup<K>>;
+}
+
+export const DEFAULT_CREDENTIAL_PROVIDERS: CredentialProviderName[] = ['chittyconnect', 'kv', 'env'];
+
+/** `comed:username` → `COMED_USERNAME`, `google-drive:service-account-key` → `GOOGLE_DRIVE_SERVICE_ACCOUNT_KEY` */
+export function credentialEnvVar(key: string): string {
+  return key.toUpperCase().replace(/[^A-Z0-9]+/g, '_');
+}
+
+function parseRefMap(env: Env): Record<string, string> {
+  if (!env.CREDENTIAL_REFS) return {};
+  try {
+    return JSON.parse(env.CREDENTIAL_REFS);
+  } catch (err: any) {
+    console.error(`CREDENTIAL_REFS is not valid JSON: ${err.message}`);
+    return {};
+  }
+}
+
+function createProviders(env: Env): Record<CredentialProviderName, CredentialProvider> {
+  const refMap = parseRefMap(env);
+  return {
+    chittyconnect: {
+      name: 'chittyconnect',
+      async lookup(key, meta) {
+        const declared = meta.credentialRefs?.[key];
+        const ref = refMap[key]
+          ?? (declared && (declared.envVar ? getCredentialRef(env, declared.envVar, declared.ref) : declared.ref));
+        if (!ref || !isChittyConnectConfigured(env)) return null;
+        return getChittyConnectCredential(env, ref);
+      },
+    },
+    kv: {
+      name: 'kv',
+      lookup: (key) => env.SCRAPE_KV.get(key),
+    },
+    env: {
+      name: 'env',
+      async lookup(key) {
+        const value = (env as Record<string, unknown>)[credentialEnvVar(key)];
+        return typeof value === 'string' && value ? value : null;
+      },
+    },
+  };
+}
+
+/** Provider order from `CREDENTIAL_PROVIDERS` (comma separated), unknown names dropped */
+export function getProviderChain(env: Pick<Env, 'CREDENTIAL_PROVIDERS'>): CredentialProviderName[] {
+  if (!env.CREDENTIAL_PROVIDERS) return DEFAULT_CREDENTIAL_PROVIDERS;
+  const chain = env.CREDENTIAL_PROVIDERS.split(',').map((s) => s.trim().toLowerCase()).filter(Boolean);
+  const known = chain.filter((name): name is CredentialProviderName => {
+    const ok = (DEFAULT_CREDENTIAL_PROVIDERS as string[]).includes(name);
+    if (!ok) console.warn(`Ignoring unknown credential provider "${name}"`);
+    return ok;
+  });
+  return known.length > 0 ? known : DEFAULT_CREDENTIAL_PROVIDERS;
+}
+
+export function createCredentialResolver(env: Env): CredentialResolver {
+  const providers = createProviders(env);
+  const chain = getProviderChain(env).map((name) => providers[name]);
+  /** Lookups by key, including misses -- concurrent requests for one key share a promise */
+  const cache = new Map<string, Promise<{ value: string | null; source?: CredentialProviderName; errors: string[] }>>();
+
+  const lookup = (key: string, meta: ScraperMeta) => {
+    let pending = cache.get(key);
+    if (!pending) {
+      pending = (async () => {
+        const errors: string[] = [];
+        for (const provider of chain) {
+          try {
+            const value = await provider.lookup(key, meta);
+            if (value) return { value, source: provider.name, errors };
+          } catch (err: any) {
+            console.warn(`Credential provider ${provider.name} failed for ${key}: ${err.message}`);
+            errors.push(`${provider.name}: ${err.message}`);
+          }
+        }
+        return { value: null, errors };
+      })();
+      cache.set(key, pending);
+    }
+    return pending;
+  };
+
+  return {
+    async resolve<K extends string>(meta: ScraperMeta, keys?: readonly K[]): Promise<CredentialLookup<K>> {
+      const wanted = (keys ?? meta.credentialKeys ?? []) as readonly K[];
+      const results = await Promise.all(wanted.map((key) => lookup(key, meta)));
+      const missing = wanted.filter((_, i) => !results[i].value);
+      const sources = Object.fromEntries(
+        wanted.flatMap((k, i) => (results[i].source ? [[k, results[i].source]] : [])),
+      ) as Record<K, CredentialProviderName>;
+      if (missing.length === 0) {
+        return { ok: true, values: Object.fromEntries(wanted.map((k, i) => [k, results[i].value])) as Record<K, string>, sources };
+      }
+      const errors = [...new Set(results.flatMap((r) => r.errors))];
+      const checked = chain.map((p) => p.name).join(', ');
+      return {
+        ok: false,
+        missing,
+        sources,
+        error: `Credentials missing for ${meta.id}: ${missing.join(', ')} (checked ${checked})`
+          + (errors.length > 0 ? ` -- ${errors.join('; ')}` : ''),
+      };
+    },
+  };
+}
+
+/** Resolvers by env object. index.ts gives every request its own env copy, so caches are per request. */
+const resolvers = new WeakMap<object, CredentialResolver>();
+
+/** The resolver for this request -- shared by composite scrapers and batch items run with the same env */
+export function credentialResolver(env: Env): CredentialResolver {
+  let resolver = resolvers.get(env);
+  if (!resolver) {
+    resolver = createCredentialResolver(env);
+    resolvers.set(env, resolver);
+  }
+  return resolver;
+}
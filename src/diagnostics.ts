@@ -0,0 +1,68 @@
+import type { Env } from './index';
+import { createCaptureSession, type CaptureBundle } from './capture';
+import type { ScrapeResult, ScraperMeta } from './scrapers/base';
+
+/** A redacted capture of the pages a failed scrape left behind, stored for later inspection */
+export interface Diagnostic extends CaptureBundle {
+  id: string;
+}
+
+export const DIAGNOSTIC_ID_RE = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/;
+
+/** Long enough to look into last week's failures; KV drops them after */
+const DIAGNOSTIC_TTL_SECONDS = 7 * 86400;
+
+/** One per page a run closes, retries included -- keeps a record well under the KV value limit */
+const DIAGNOSTIC_MAX_SCREENSHOTS = 5;
+
+function diagnosticKey(id: string): string {
+  return `diagnostic:${id}`;
+}
+
+/**
+ * Failure recorder for one scrape. Pass `fetcher` to the scraper in place of the
+ * BROWSER binding: each page is snapshotted (HTML and a masked screenshot) as it
+ * closes, which for a failed run is the state it failed in. `attach()` stores the
+ * snapshots when the result is a failure and returns the result with its
+ * `diagnosticId`; successful runs store nothing.
+ */
+export function createFailureRecorder(binding: Fetcher, meta: Pick<ScraperMeta, 'id' | 'requiresAuth' | 'authSources'>) {
+  const session = createCaptureSession(binding, {
+    redactAllTyped: meta.requiresAuth || meta.authSources,
+    snapshotOn: ['close'],
+    screenshotOn: ['close'],
+    maxScreenshots: DIAGNOSTIC_MAX_SCREENSHOTS,
+  });
+
+  return {
+    fetcher: session.fetcher,
+    /** Store the snapshots of a failed run. KV failures are logged and leave the result as is. */
+    async attach(env: Env, input: unknown, result: ScrapeResult): Promise<ScrapeResult> {
+      if (result.success || result.cached) return result;
+      const bundle = session.bundle(meta.id, input, result);
+      // Failed before any page opened (bad input, missing credentials, API scrapers)
+      if (bundle.pages.length === 0) return result;
+      const diagnostic: Diagnostic = { id: crypto.randomUUID(), ...bundle };
+      try {
+        await env.SCRAPE_KV.put(diagnosticKey(diagnostic.id), JSON.stringify(diagnostic), {
+          expirationTtl: DIAGNOSTIC_TTL_SECONDS,
+        });
+        return { ...result, diagnosticId: diagnostic.id };
+      } catch (err: any) {
+        console.error(`Failed to store diagnostic for ${meta.id}: ${err.message}`);
+        return result;
+      }
+    },
+  };
+}
+
+export async function getDiagnostic(kv: KVNamespace, id: string): Promise<Diagnostic | null> {
+  const raw = await kv.get(diagnosticKey(id));
+  if (!raw) return null;
+  try {
+    return JSON.parse(raw) as Diagnostic;
+  } catch (err) {
+    console.error(`Corrupted diagnostic record ${diagnosticKey(id)}: ${err}`);
+    return null;
+  }
+}
@@ -308,6 +308,10 @@ button { cursor: pointer; font-family: inherit; }
 .auth-dot { width: 5px; height: 5px; border-radius: 50%; display: inline-block; }
 .auth-dot.yes { background: var(--amber); }
 .auth-dot.no { background: var(--green); }
+.ready-badge { font-weight: 600; text-transform: uppercase; }
+.ready-badge.ready { color: var(--green); }
+.ready-badge.not-ready { color: var(--red); }
+.ready-badge.unknown { color: var(--text-muted); }
 
 /* ── Execute Panel ────────────────────────────────────────────── */
 .exec-panel {
@@ -389,6 +393,11 @@ button { cursor: pointer; font-family: inherit; }
 }
 .exec-btn-secondary:hover { border-color: var(--border-glow); color: var(--text); }
 .exec-timer { font-family: var(--mono); font-size: 0.72rem; color: var(--text-muted); }
+.diag { margin-top: 12px; padding-top: 10px; border-top: 1px dashed var(--border); white-space: normal; }
+.diag-shot { display: block; max-width: 100%; margin: 8px 0; border: 1px solid var(--border); border-radius: 6px; }
+.diag details { margin: 6px 0; }
+.diag summary { cursor: pointer; color: var(--cyan); }
+.diag pre { max-height: 240px; overflow: auto; white-space: pre-wrap; font-size: 0.68rem; color: var(--text-muted); }
 
 /* ── Command Palette ──────────────────────────────────────────── */
 .cmd-overlay {
@@ -463,6 +472,22 @@ button { cursor: pointer; font-family: inherit; }
 .gap-id { font-family: var(--mono); font-weight: 600; color: var(--amber); }
 .gap-count { font-family: var(--mono); font-size: 0.72rem; color: var(--text-muted); }
 
+/* ── Selector Health ──────────────────────────────────────────── */
+.selector-section { display: none; }
+.selector-section.has-selectors { display: block; }
+.selector-row {
+  display: flex; align-items: center; justify-content: space-between; gap: 12px;
+  padding: 10px 14px; border-radius: var(--radius-sm);
+  background: var(--surface2); margin-bottom: 6px;
+  font-size: 0.82rem;
+}
+.selector-step { font-family: var(--mono); font-weight: 600; }
+.selector-detail { font-family: var(--mono); font-size: 0.72rem; color: var(--text-muted); }
+.selector-status { font-family: var(--mono); font-size: 0.68rem; font-weight: 600; text-transform: uppercase; }
+.selector-status.healthy { color: var(--green); }
+.selector-status.drifting { color: var(--amber); }
+.selector-status.failing { color: var(--red); }
+
 /* ── Loading / Spinner ────────────────────────────────────────── */
 .spinner {
   width: 16px; height: 16px; border: 2px solid var(--border);
@@ -636,6 +661,17 @@ button { cursor: pointer; font-family: inherit; }
         </div>
         <div id="gaps-list"></div>
       </section>
+
+      <!-- Selector Health -->
+      <section id="selector-section" class="selector-section">
+        <div class="cards-header" style="margin-bottom:12px;">
+          <div>
+            <div class="cards-title">Selector Health</div>
+            <div class="cards-subtitle" id="selector-subtitle">Which fallback each scraper step is matching</div>
+          </div>
+        </div>
+        <div id="selector-list"></div>
+      </section>
     </main>
   </div>
 </div>
@@ -663,6 +699,7 @@ let selectedScraper = null;
 let currentFilter = 'all';
 let cmdIndex = 0;
 const feedLog = [];
+const readiness = {};
 
 const CATEGORY_ICONS = {
   all: '*', court: '\u2696', utility: '\u26A1', mortgage: '\u{1F3E0}',
@@ -676,7 +713,7 @@ const CATEGORY_LABELS = {
 // ── Init ───────────────────────────────────────────────────────
 document.addEventListener('DOMContentLoaded', async () => {
   addFeed('info', 'Dashboard loaded');
-  await Promise.all([loadHealth(), loadCapabilities()]);
+  await Promise.all([loadHealth(), loadCapabilities(), loadSelectorHealth()]);
 });
 
 // ── Health ─────────────────────────────────────────────────────
@@ -714,6 +751,7 @@ async function loadCapabilities() {
     renderCards();
     renderTopology();
     updateStats();
+    loadReadiness();
   } catch (e) {
     addFeed('err', 'Failed to load capabilities');
     document.getElementById('cards-subtitle').textContent = 'Failed to load catalog';
@@ -774,11 +812,52 @@ function renderCards() {
         (s.requiresAuth ? 'Auth required' : 'No auth') + '</span>' +
         (s.credentialKeys?.length
           ? '<span class="card-meta-item">' + s.credentialKeys.length + ' keys</span>' : '') +
+        '<span class="card-meta-item ready-badge" data-ready-id="' + esc(s.id) + '"></span>' +
       '</div>';
     grid.appendChild(card);
+    renderReadinessBadge(s.id);
   });
 }
 
+// ── Readiness ──────────────────────────────────────────────────
+async function loadReadiness() {
+  const token = getToken();
+  if (!token) return;
+  let notReady = 0;
+  await Promise.all(scrapers.map(async s => {
+    try {
+      const r = await fetch('/api/v1/scrapers/' + s.id + '/readiness', { headers: { 'Authorization': 'Bearer ' + token } });
+      const d = await r.json();
+      if (!d.success) return;
+      readiness[s.id] = d.readiness;
+      if (!d.readiness.ready) notReady++;
+    } catch (e) {
+      readiness[s.id] = null;
+    }
+    renderReadinessBadge(s.id);
+  }));
+  if (notReady > 0) addFeed('err', notReady + ' scraper(s) not ready to run');
+}
+
+function renderReadinessBadge(id) {
+  const badge = document.querySelector('[data-ready-id="' + id + '"]');
+  const r = readiness[id];
+  if (!badge || r === undefined) return;
+  if (!r) {
+    badge.className = 'card-meta-item ready-badge unknown';
+    badge.textContent = 'Unchecked';
+    badge.title = 'Readiness check failed';
+    return;
+  }
+  const problems = [];
+  if (!r.browser.ok) problems.push('Browser Rendering binding missing');
+  if (r.credentials.missing.length) problems.push('Missing: ' + r.credentials.missing.join(', '));
+  if (r.chittyconnect.status === 'unreachable') problems.push('ChittyConnect unreachable: ' + r.chittyconnect.error);
+  badge.className = 'card-meta-item ready-badge ' + (r.ready ? 'ready' : 'not-ready');
+  badge.textContent = r.ready ? 'Ready' : 'Not ready';
+  badge.title = problems.length ? problems.join('\\n') : 'All checks passed';
+}
+
 function selectScraper(s, card) {
   selectedScraper = s;
   document.querySelectorAll('.scraper-card').forEach(c => c.classList.remove('selected'));
@@ -809,7 +888,9 @@ function getPlaceholder(id) {
     'comed': '{ "accountNumber": "1234567890" }',
     'court-name-search': '{ "name": "Smith, John", "divisions": ["D"] }',
     'appfolio-hoa': '{ "portfolio": "propertyhill" }',
-    'google-drive': '{ "query": "closing disclosure" }'
+    'google-drive': '{ "query": "closing disclosure" }',
+    'property-dossier': '{ "pin": "12-34-567-890-0000" }',
+    'entity-dossier': '{ "entityName": "ARIBIA LLC", "states": ["IL", "FL", "WY"] }'
   };
   return map[id] || '{ }';
 }
@@ -908,6 +989,10 @@ async function runScrape() {
       (data.success ? 'SUCCESS' : 'FAILED') + '</span> ' +
       '<span class="line-dim">HTTP ' + r.status + ' in ' + elapsed + 's</span>\\n\\n' +
       syntaxHighlight(JSON.stringify(data, null, 2));
+    if (data.diagnosticId) {
+      output.innerHTML += '\\n\\n<button class="exec-btn exec-btn-secondary" ' +
+        'onclick="loadDiagnostic(\\'' + esc(data.diagnosticId) + '\\', this)">View failure snapshot</button>';
+    }
     addFeed(data.success ? 'ok' : 'err', esc(selectedScraper.id) + ': ' +
       (data.success ? 'success' : (data.error || 'failed')) + ' (' + elapsed + 's)');
     document.getElementById('exec-status').textContent =
@@ -921,6 +1006,37 @@ async function runScrape() {
   btn.innerHTML = 'Execute';
 }
 
+// Screenshot, HTML and unmatched selectors of the page a failed scrape ended on
+async function loadDiagnostic(id, btn) {
+  const token = getToken();
+  btn.disabled = true;
+  try {
+    const r = await fetch('/api/v1/diagnostics/' + encodeURIComponent(id), { headers: { 'Authorization': 'Bearer ' + token } });
+    const d = await r.json();
+    if (!d.success) {
+      btn.outerHTML = '<span class="line-error">Diagnostic unavailable: ' + esc(d.error) + '</span>';
+      return;
+    }
+    const diag = d.diagnostic;
+    const misses = diag.selectors.filter(s => s.matched === null);
+    btn.outerHTML = '<div class="diag">' +
+      '<span class="line-info">Failure snapshot</span> <span class="line-dim">' + esc(diag.capturedAt) + '</span>' +
+      diag.screenshots.map(s =>
+        '<img class="diag-shot" alt="' + esc(s.url) + '" src="data:image/png;base64,' + s.pngBase64 + '">'
+      ).join('') +
+      (misses.length
+        ? '<div class="line-error">Unmatched: ' + misses.map(s => esc(s.selectors.join(' | '))).join('; ') + '</div>'
+        : '') +
+      diag.pages.map(p =>
+        '<details><summary>' + esc(p.url) + '</summary><pre>' + esc(p.html) + '</pre></details>'
+      ).join('') +
+    '</div>';
+  } catch (e) {
+    btn.disabled = false;
+    addFeed('err', 'Diagnostic ' + esc(id) + ' unavailable');
+  }
+}
+
 function formatInput() {
   const ta = document.getElementById('exec-input');
   try { ta.value = JSON.stringify(JSON.parse(ta.value), null, 2); } catch {}
@@ -937,6 +1053,36 @@ function closeExec() {
   document.querySelectorAll('.topo-node').forEach(n => n.classList.remove('active'));
 }
 
+// ── Selector Health ────────────────────────────────────────────
+async function loadSelectorHealth() {
+  const token = getToken();
+  if (!token) return;
+  try {
+    const r = await fetch('/api/v1/selectors/health', { headers: { 'Authorization': 'Bearer ' + token } });
+    const d = await r.json();
+    if (!d.success) return;
+    const section = document.getElementById('selector-section');
+    section.classList.toggle('has-selectors', d.selectors.length > 0);
+    document.getElementById('selector-subtitle').textContent =
+      d.summary.failing + ' failing, ' + d.summary.drifting + ' drifting, ' + d.summary.healthy + ' healthy';
+    document.getElementById('selector-list').innerHTML = d.selectors.map(s => {
+      const matched = s.lastMatchedIndex === null
+        ? 'no candidate matched'
+        : 'candidate #' + s.lastMatchedIndex + ' ' + s.candidates[s.lastMatchedIndex];
+      return '<div class="selector-row">' +
+        '<div><div class="selector-step">' + esc(s.scraper) + ' / ' + esc(s.step) + '</div>' +
+        '<div class="selector-detail">' + esc(matched) + ' &middot; ' + s.total + ' runs, ' +
+          Math.round(s.fallbackRate * 100) + '% fallback</div></div>' +
+        '<span class="selector-status ' + s.status + '">' + s.status + '</span>' +
+      '</div>';
+    }).join('');
+    if (d.summary.failing > 0) addFeed('err', d.summary.failing + ' selector step(s) failing');
+    else if (d.summary.drifting > 0) addFeed('info', d.summary.drifting + ' selector step(s) on fallbacks');
+  } catch (e) {
+    addFeed('err', 'Selector health unavailable');
+  }
+}
+
 // ── Token ──────────────────────────────────────────────────────
 function getToken() { return localStorage.getItem('chittyscrape_token'); }
 function setToken() {
@@ -944,6 +1090,8 @@ function setToken() {
   if (t !== null) {
     localStorage.setItem('chittyscrape_token', t);
     addFeed('ok', 'Token saved');
+    loadSelectorHealth();
+    loadReadiness();
   }
 }
 
@@ -967,6 +1115,7 @@ function renderCmdResults(query) {
   items.push({ type: 'action', icon: '\u{1F511}', name: 'Set Auth Token', desc: 'Configure service token for API calls', action: setToken, shortcut: 'Ctrl+Shift+T' });
   items.push({ type: 'action', icon: '\u2764', name: 'Check Health', desc: 'Refresh service health status', action: loadHealth });
   items.push({ type: 'action', icon: '\u21BB', name: 'Reload Catalog', desc: 'Refresh scraper capabilities', action: loadCapabilities });
+  items.push({ type: 'action', icon: '\u2316', name: 'Selector Health', desc: 'Refresh selector drift telemetry', action: loadSelectorHealth });
   // Scrapers
   scrapers.forEach(s => {
     items.push({ type: 'scraper', icon: CATEGORY_ICONS[s.category]||'?', name: s.name, desc: s.id + ' - ' + s.category, scraper: s });
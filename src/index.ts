@@ -1,7 +1,31 @@
-import { Hono } from 'hono';
+import { Hono, type Context } from 'hono';
 import { cors } from 'hono/cors';
 import { ScraperCatalog } from './catalog';
 import { renderDashboard } from './frontend';
+import { validateSchema } from './schema';
+import {
+  createJob, getJob, getJobTtl, runQueuedJob, submitChallengeCode, CHALLENGE_CODE_RE, JOB_ID_RE, type JobMessage, type ScrapeJob,
+} from './jobs';
+import { splitRequestBody, type ScrapeRequestOptions } from './options';
+import { runBatch, BATCH_DEFAULT_CONCURRENCY, BATCH_REQUEST_SCHEMA } from './batch';
+import { snapshotOptions, trackChanges } from './changes';
+import { createCaptureSession } from './capture';
+import { flushSelectorHealth, listSelectorHealth } from './selector-health';
+import { checkReadiness } from './readiness';
+import { getCachedResult, putCachedResult, resultAgeSeconds } from './cache';
+import { executeWithRetry, retryPolicyFor } from './retry';
+import { createFailureRecorder, getDiagnostic, DIAGNOSTIC_ID_RE } from './diagnostics';
+import { renderCalendar } from './calendar';
+import { acquirePortalSlot, getRateLimit, type PortalSlot } from './rate-limit';
+import {
+  createApiToken, listApiTokens, revokeApiToken, setCallerToken, touchApiToken, tokenAllowsScraper, verifyApiToken,
+  API_TOKEN_ID_RE, API_TOKEN_REQUEST_SCHEMA, type ApiToken,
+} from './tokens';
+import {
+  createDelivery, deliverCallback, getCallbackSecret, getDelivery, listDeliveries, DELIVERY_ID_RE,
+  type CallbackDelivery, type CallbackStatus,
+} from './callbacks';
+import { wrapResult, errorTypeOf, type ScrapeResult, type ScraperMeta, type ScraperModule } from './scrapers/base';
 import { courtDocketScraper } from './scrapers/court-docket';
 import { cookCountyTaxScraper } from './scrapers/cook-county-tax';
 import { mrCooperScraper } from './scrapers/mr-cooper';
@@ -18,10 +42,14 @@ import { ilSOSScraper } from './scrapers/il-sos';
 import { flSunbizScraper } from './scrapers/fl-sunbiz';
 import { cookCountyRecorderScraper } from './scrapers/cook-county-recorder';
 import { cookCountyAssessorScraper } from './scrapers/cook-county-assessor';
+import { propertyDossierScraper } from './scrapers/property-dossier';
+import { entityDossierScraper } from './scrapers/entity-dossier';
 
 export type Env = {
   BROWSER: Fetcher;
   SCRAPE_KV: KVNamespace;
+  /** Async scrape jobs, run by this Worker's `queue` handler */
+  JOB_QUEUE: Queue<JobMessage>;
   ENVIRONMENT?: string;
   CHITTYCONNECT_URL?: string;
   CHITTYCONNECT_TOKEN?: string;
@@ -31,6 +59,22 @@ export type Env = {
   NWRA_USERNAME_REF?: string;
   NWRA_PASSWORD_REF?: string;
   BROWSE_AI_API_KEY_REF?: string;
+  /** Seconds to retain async job records and results in SCRAPE_KV (default 86400) */
+  JOB_RESULT_TTL_SECONDS?: string;
+  /** Secret for encrypting persisted portal login sessions; unset disables session reuse */
+  SESSION_ENCRYPTION_KEY?: string;
+  /** Upper bound in seconds on how long a persisted login session is kept (default 604800) */
+  AUTH_SESSION_TTL_SECONDS?: string;
+  /** JSON map of scraper ID (or `appfolio-hoa:<subdomain>`) to the ChittyConnect ref of its TOTP seed */
+  TOTP_REFS?: string;
+  /** Seconds an async job waits for a 2FA code submitted to `/api/v1/jobs/:id/challenge` (default 300, at most 480) */
+  CHALLENGE_TIMEOUT_SECONDS?: string;
+  /** Credential provider order, comma separated (default `chittyconnect,kv,env`) */
+  CREDENTIAL_PROVIDERS?: string;
+  /** JSON map of credential key (e.g. `comed:username`) to a ChittyConnect ref, overriding scraper defaults */
+  CREDENTIAL_REFS?: string;
+  /** JSON map of portal ID to `{ requestsPerMinute?, maxConcurrent?, minIntervalSeconds? }`, overriding scraper defaults */
+  RATE_LIMITS?: string;
 };
 
 const VERSION = '0.2.0';
@@ -56,6 +100,8 @@ catalog.register(ilSOSScraper);
 catalog.register(flSunbizScraper);
 catalog.register(cookCountyRecorderScraper);
 catalog.register(cookCountyAssessorScraper);
+catalog.register(propertyDossierScraper);
+catalog.register(entityDossierScraper);
 
 /** Timing-safe string comparison to prevent timing attacks on token validation */
 function timingSafeEqual(a: string, b: string): boolean {
@@ -66,7 +112,10 @@ function timingSafeEqual(a: string, b: string): boolean {
   return crypto.subtle.timingSafeEqual(bufA, bufB);
 }
 
-const app = new Hono<{ Bindings: Env }>();
+/** Set by the auth middleware when the caller used a scoped token rather than the shared service token */
+type Variables = { apiToken?: ApiToken };
+
+const app = new Hono<{ Bindings: Env; Variables: Variables }>();
 
 // Global error handler -- structured JSON for all unhandled errors
 app.onError((err, c) => {
@@ -77,13 +126,19 @@ app.onError((err, c) => {
 // CORS
 app.use('*', cors({
   origin: ['https://command.chitty.cc', 'https://app.command.chitty.cc', 'https://router.chitty.cc', 'https://scrape.chitty.cc'],
-  allowHeaders: ['Authorization', 'Content-Type'],
+  allowHeaders: ['Authorization', 'Content-Type', 'X-ChittyScrape-Admin-Token'],
 }));
 
 // Dashboard UI
 app.get('/', (c) => c.html(renderDashboard()));
 
-// Auth middleware -- service token from KV (timing-safe comparison)
+// Per-request env copy -- request-scoped caches (the credential resolver) are keyed by the env object
+app.use('/api/*', async (c, next) => {
+  c.env = { ...c.env };
+  return next();
+});
+
+// Auth middleware -- a scoped caller token, or the shared service token from KV (timing-safe comparison)
 app.use('/api/*', async (c, next) => {
   // Skip auth for unauthenticated endpoints
   const unauthPaths = ['/api/v1/status', '/api/v1/capabilities'];
@@ -95,6 +150,13 @@ app.use('/api/*', async (c, next) => {
 
   let valid: string | null;
   try {
+    const apiToken = await verifyApiToken(c.env.SCRAPE_KV, token);
+    if (apiToken) {
+      c.set('apiToken', apiToken);
+      setCallerToken(c.env, apiToken);
+      c.executionCtx.waitUntil(touchApiToken(c.env.SCRAPE_KV, apiToken));
+      return next();
+    }
     valid = await c.env.SCRAPE_KV.get('scrape:service_token');
   } catch (err: any) {
     console.error(`Failed to read service token from KV: ${err.message}`);
@@ -125,7 +187,7 @@ app.get('/api/v1/status', (c) => c.json({
   tier: 3,
 }));
 
-// Capabilities (unauthenticated) -- ChittyRouter discovery
+// Capabilities (unauthenticated) -- ChittyRouter discovery (includes input/output schemas)
 app.get('/api/v1/capabilities', (c) => c.json({
   service: 'chittyscrape',
   version: VERSION,
@@ -154,12 +216,66 @@ app.get('/api/v1/gaps', async (c) => {
       }
     }
   }
-  return c.json({ gaps, ...(malformedCount > 0 ? { malformedCount } : {}) });
+  // Scoped tokens only see gaps for portals they could request
+  const visible = gaps.filter((gap) => callerAllowsPortal(c, gap.portalId));
+  return c.json({ gaps: visible, ...(malformedCount > 0 ? { malformedCount } : {}) });
 });
 
-// Generic scrape route -- looks up portal in catalog
-app.post('/api/scrape/:portalId', async (c) => {
-  const portalId = c.req.param('portalId');
+type AppContext = Context<{ Bindings: Env; Variables: Variables }>;
+
+/**
+ * Allowlist check for scoped tokens -- the shared service token may run every scraper.
+ * Returns a ready-to-send 403 when the caller's token doesn't cover this scraper.
+ */
+function denyUnlessAllowed(c: AppContext, meta: Pick<ScraperMeta, 'id' | 'category'>): Response | null {
+  const apiToken = c.get('apiToken');
+  if (!apiToken || tokenAllowsScraper(apiToken, meta)) return null;
+  return c.json({ success: false, error: 'scraper_not_allowed', portal: meta.id }, 403);
+}
+
+/** Whether the caller's token covers a portal ID -- for filtering listings across portals */
+function callerAllowsPortal(c: AppContext, portalId: string): boolean {
+  const apiToken = c.get('apiToken');
+  return !apiToken || tokenAllowsScraper(apiToken, portalMeta(portalId));
+}
+
+/** Catalog meta for a portal, or a generic stand-in for portals without a scraper */
+function portalMeta(portalId: string): Pick<ScraperMeta, 'id' | 'category'> {
+  return catalog.get(portalId)?.meta ?? { id: portalId, category: 'generic' };
+}
+
+/** Record a request for a portal we have no scraper for -- KV failures are logged, never thrown */
+async function trackGap(kv: KVNamespace, portalId: string): Promise<void> {
+  try {
+    const gapKey = `gap:${portalId}`;
+    const existing = await kv.get(gapKey);
+    const now = new Date().toISOString();
+    let gapData: { count: number; firstRequested: string; lastRequested: string };
+    if (existing) {
+      try {
+        const parsed = JSON.parse(existing);
+        const prevCount = typeof parsed.count === 'number' ? parsed.count : 0;
+        const prevFirst = typeof parsed.firstRequested === 'string' ? parsed.firstRequested : now;
+        gapData = { count: prevCount + 1, firstRequested: prevFirst, lastRequested: now };
+      } catch (err) {
+        console.error(`Corrupted gap record for gap:${portalId}, resetting: ${err}`);
+        gapData = { count: 1, firstRequested: now, lastRequested: now };
+      }
+    } else {
+      gapData = { count: 1, firstRequested: now, lastRequested: now };
+    }
+    await kv.put(gapKey, JSON.stringify(gapData));
+  } catch (err) {
+    console.error(`Failed to track gap for ${portalId}: ${err}`);
+  }
+}
+
+/**
+ * Portal ID format check and catalog lookup (with gap tracking).
+ * Returns a ready-to-send error response when no scraper can serve the request.
+ */
+async function resolveScraper(c: AppContext): Promise<{ portalId: string; scraper: ScraperModule } | Response> {
+  const portalId = c.req.param('portalId') || '';
 
   // Validate portalId format to prevent KV namespace pollution
   if (!PORTAL_ID_RE.test(portalId)) {
@@ -169,30 +285,7 @@ app.post('/api/scrape/:portalId', async (c) => {
   const scraper = catalog.get(portalId);
 
   if (!scraper) {
-    // Track the gap -- wrapped in try-catch so KV failures don't prevent the 404 response
-    try {
-      const gapKey = `gap:${portalId}`;
-      const existing = await c.env.SCRAPE_KV.get(gapKey);
-      const now = new Date().toISOString();
-      let gapData: { count: number; firstRequested: string; lastRequested: string };
-      if (existing) {
-        try {
-          const parsed = JSON.parse(existing);
-          const prevCount = typeof parsed.count === 'number' ? parsed.count : 0;
-          const prevFirst = typeof parsed.firstRequested === 'string' ? parsed.firstRequested : now;
-          gapData = { count: prevCount + 1, firstRequested: prevFirst, lastRequested: now };
-        } catch (err) {
-          console.error(`Corrupted gap record for gap:${portalId}, resetting: ${err}`);
-          gapData = { count: 1, firstRequested: now, lastRequested: now };
-        }
-      } else {
-        gapData = { count: 1, firstRequested: now, lastRequested: now };
-      }
-      await c.env.SCRAPE_KV.put(gapKey, JSON.stringify(gapData));
-    } catch (err) {
-      console.error(`Failed to track gap for ${portalId}: ${err}`);
-    }
-
+    await trackGap(c.env.SCRAPE_KV, portalId);
     return c.json({
       success: false,
       error: 'no_scraper_available',
@@ -200,28 +293,470 @@ app.post('/api/scrape/:portalId', async (c) => {
     }, 404);
   }
 
+  const denied = denyUnlessAllowed(c, scraper.meta);
+  if (denied) return denied;
+
+  return { portalId, scraper };
+}
+
+/**
+ * Shared front half of the scrape routes: scraper resolution, JSON body parsing
+ * and input-schema validation.
+ * Returns a ready-to-send error response when the request cannot proceed.
+ */
+async function resolveScrapeRequest(
+  c: AppContext,
+): Promise<{ portalId: string; scraper: ScraperModule; input: unknown; options: ScrapeRequestOptions } | Response> {
+  const resolved = await resolveScraper(c);
+  if (resolved instanceof Response) return resolved;
+  const { portalId, scraper } = resolved;
+
   // Parse request body
-  let input: unknown;
+  let body: unknown;
   try {
-    input = await c.req.json();
+    body = await c.req.json();
   } catch {
     return c.json({ success: false, error: 'Invalid or missing JSON request body' }, 400);
   }
 
-  // Execute scraper
+  // Split off request options, then validate the rest against the scraper's
+  // declared input schema before launching a browser
+  const { input, options, fieldErrors } = splitRequestBody(body);
+  if (scraper.meta.inputSchema) {
+    fieldErrors.push(...validateSchema(scraper.meta.inputSchema, input));
+  }
+  if (options.format === 'ics' && !scraper.calendarEvents) {
+    fieldErrors.push({ path: 'options.format', message: `${portalId} has no calendar events to export` });
+  }
+  if (fieldErrors.length > 0) {
+    return c.json({ success: false, error: 'invalid_input', portal: portalId, fieldErrors }, 400);
+  }
+  // Refuse up front rather than scrape and then have nothing to sign the callback with
+  if (options.callbackUrl && !(await getCallbackSecret(c.env.SCRAPE_KV))) {
+    return c.json({ success: false, error: 'callback_signing_unavailable' }, 503);
+  }
+
+  return { portalId, scraper, input, options };
+}
+
+/**
+ * Admin-only features (capture mode) need the `X-ChittyScrape-Admin-Token` header to
+ * match `scrape:admin_token` in KV, on top of the bearer token every /api call carries.
+ * Unset admin token means admin features are disabled.
+ */
+async function isAdminRequest(c: AppContext): Promise<boolean> {
+  const token = c.req.header('X-ChittyScrape-Admin-Token');
+  if (!token) return false;
   try {
-    const result = await scraper.execute(c.env.BROWSER, c.env, input);
-    return c.json(result);
+    const valid = await c.env.SCRAPE_KV.get('scrape:admin_token');
+    return !!valid && timingSafeEqual(token, valid);
   } catch (err: any) {
-    console.error(`Scraper ${portalId} threw unhandled error: ${err.message}`, err.stack);
-    return c.json({
-      success: false,
-      error: `Scraper execution failed: ${err.message}`,
-      method: 'scrape',
-      portal: portalId,
-      scrapedAt: new Date().toISOString(),
-    }, 500);
+    console.error(`Failed to read admin token from KV: ${err.message}`);
+    return false;
+  }
+}
+
+/**
+ * Claim a per-portal rate limit slot before any browser launches.
+ * Returns a ready-to-send 429 with Retry-After when the portal is at its limit.
+ */
+async function claimPortalSlot(
+  c: AppContext,
+  scraper: ScraperModule,
+  claim?: { runs?: number; slots?: number },
+): Promise<Extract<PortalSlot, { ok: true }> | Response> {
+  const slot = await acquirePortalSlot(c.env, scraper.meta, claim);
+  if (slot.ok) return slot;
+  c.header('Retry-After', String(slot.retryAfterSeconds));
+  return c.json({
+    success: false,
+    error: 'rate_limited',
+    portal: scraper.meta.id,
+    reason: slot.reason,
+    retryAfter: slot.retryAfterSeconds,
+  }, 429);
+}
+
+/** Queue delivery of a finished result to the caller's callbackUrl after the response is sent */
+async function scheduleCallback(
+  c: AppContext,
+  callbackUrl: string,
+  portalId: string,
+  result: Promise<ScrapeResult>,
+): Promise<CallbackDelivery> {
+  const delivery = await createDelivery(c.env.SCRAPE_KV, callbackUrl, portalId);
+  c.executionCtx.waitUntil(result.then((r) => deliverCallback(c.env.SCRAPE_KV, delivery, r)));
+  return delivery;
+}
+
+// Generic scrape route -- looks up portal in catalog and runs synchronously
+app.post('/api/scrape/:portalId', async (c) => {
+  const resolved = await resolveScrapeRequest(c);
+  if (resolved instanceof Response) return resolved;
+  const { portalId, scraper, input, options } = resolved;
+
+  if (options.capture && !(await isAdminRequest(c))) {
+    return c.json({ success: false, error: 'admin_required' }, 403);
+  }
+  if (options.capture && options.format === 'ics') {
+    return c.json({ success: false, error: 'options.capture returns a capture bundle and cannot be combined with options.format' }, 400);
+  }
+  // Login portals type nothing but credentials and account details -- scrub all of it
+  const capture = options.capture
+    ? createCaptureSession(c.env.BROWSER, { redactAllTyped: scraper.meta.requiresAuth || scraper.meta.authSources })
+    : null;
+
+  // A cache hit needs no browser, so it doesn't count against the portal's rate limit; capture always scrapes
+  let result: ScrapeResult;
+  let status: 200 | 500 = 200;
+  const hit = capture ? null : await getCachedResult(c.env, scraper.meta, input, options);
+  if (hit) {
+    result = hit;
+    c.header('Age', String(resultAgeSeconds(hit)));
+  } else {
+    const slot = await claimPortalSlot(c, scraper);
+    if (slot instanceof Response) return slot;
+
+    // Execute scraper, retrying transient failures while the slot is held. Capture mode
+    // returns its own bundle; otherwise failures leave a diagnostic behind.
+    const recorder = capture ? null : createFailureRecorder(c.env.BROWSER, scraper.meta);
+    try {
+      result = await executeWithRetry(async () => {
+        try {
+          status = 200;
+          return await scraper.execute(capture?.fetcher ?? recorder!.fetcher, c.env, input);
+        } catch (err: any) {
+          console.error(`Scraper ${portalId} threw unhandled error: ${err.message}`, err.stack);
+          status = 500;
+          return wrapResult(portalId, false, undefined, `Scraper execution failed: ${err.message}`, errorTypeOf(err));
+        }
+      }, { policy: retryPolicyFor(scraper.meta) });
+    } finally {
+      await slot.release();
+    }
+    if (recorder) result = await recorder.attach(c.env, input, result);
+    c.executionCtx.waitUntil(flushSelectorHealth(c.env.SCRAPE_KV));
+    await putCachedResult(c.env, scraper.meta, input, result);
   }
+
+  if (options.trackChanges) {
+    result = await trackChanges(c.env.SCRAPE_KV, portalId, input, result, snapshotOptions(c.env, scraper.meta));
+  }
+
+  if (options.callbackUrl) {
+    try {
+      const delivery = await scheduleCallback(c, options.callbackUrl, portalId, Promise.resolve(result));
+      c.header('X-ChittyScrape-Callback-Delivery', delivery.id);
+    } catch (err: any) {
+      console.error(`Failed to schedule callback for ${portalId}: ${err.message}`);
+    }
+  }
+
+  if (capture) {
+    const bundle = capture.bundle(portalId, input, result);
+    c.header('Content-Disposition', `attachment; filename="capture-${portalId}-${bundle.capturedAt.replace(/[:.]/g, '-')}.json"`);
+    return c.json({ success: result.success, capture: bundle }, status);
+  }
+
+  // A failed scrape has no events; it keeps its JSON body so the caller sees why
+  if (options.format === 'ics' && result.success) {
+    const events = scraper.calendarEvents!(result.data);
+    return c.body(renderCalendar(events, { name: scraper.meta.name, stamp: new Date(result.scrapedAt) }), 200, {
+      'Content-Type': 'text/calendar; charset=utf-8',
+      'Content-Disposition': `attachment; filename="${portalId}.ics"`,
+    });
+  }
+
+  return c.json(result, status);
 });
 
-export default { fetch: app.fetch };
+// Batch scrape -- many inputs against one portal, bounded concurrency, per-item results
+app.post('/api/v1/batch/:portalId', async (c) => {
+  const resolved = await resolveScraper(c);
+  if (resolved instanceof Response) return resolved;
+  const { portalId, scraper } = resolved;
+
+  let body: unknown;
+  try {
+    body = await c.req.json();
+  } catch {
+    return c.json({ success: false, error: 'Invalid or missing JSON request body' }, 400);
+  }
+
+  // Validate the envelope, then every item against the scraper's input schema,
+  // so a single bad item rejects the batch before any browser launches
+  const fieldErrors = validateSchema(BATCH_REQUEST_SCHEMA, body);
+  const { inputs, concurrency, options } = (fieldErrors.length === 0 ? body : { inputs: [] }) as {
+    inputs: unknown[];
+    concurrency?: number;
+    options?: Pick<ScrapeRequestOptions, 'trackChanges' | 'maxAge' | 'noCache'>;
+  };
+  if (scraper.meta.inputSchema) {
+    inputs.forEach((item, i) => fieldErrors.push(...validateSchema(scraper.meta.inputSchema!, item, `inputs[${i}]`)));
+  }
+  // Every item counts against the portal's per-minute budget; parallelism stays within its concurrency limit
+  const limit = getRateLimit(c.env, scraper.meta);
+  if (inputs.length > limit.requestsPerMinute) {
+    fieldErrors.push({ path: 'inputs', message: `at most ${limit.requestsPerMinute} items per batch for ${portalId} (rate limit)` });
+  }
+  if (fieldErrors.length > 0) {
+    return c.json({ success: false, error: 'invalid_input', portal: portalId, fieldErrors }, 400);
+  }
+  const parallel = Math.min(concurrency ?? BATCH_DEFAULT_CONCURRENCY, limit.maxConcurrent, inputs.length);
+  const slot = await claimPortalSlot(c, scraper, { runs: inputs.length, slots: parallel });
+  if (slot instanceof Response) return slot;
+
+  let batch: Awaited<ReturnType<typeof runBatch>>;
+  try {
+    batch = await runBatch(c.env, scraper, inputs, parallel, options);
+  } finally {
+    await slot.release();
+  }
+  const { items, summary } = batch;
+  c.executionCtx.waitUntil(flushSelectorHealth(c.env.SCRAPE_KV));
+  return c.json({ success: summary.failed === 0, portal: portalId, summary, results: items });
+});
+
+// Async scrape job -- returns a job ID immediately, the scraper runs from JOB_QUEUE
+app.post('/api/v1/jobs/:portalId', async (c) => {
+  const resolved = await resolveScrapeRequest(c);
+  if (resolved instanceof Response) return resolved;
+  const { portalId, scraper, input, options } = resolved;
+
+  if (options.capture) {
+    return c.json({ success: false, error: 'options.capture is only supported on POST /api/scrape/:portalId' }, 400);
+  }
+  if (options.format === 'ics') {
+    return c.json({ success: false, error: 'options.format is only supported on POST /api/scrape/:portalId' }, 400);
+  }
+
+  // The slot is held from submission until the queue consumer finishes the job
+  const slot = await claimPortalSlot(c, scraper);
+  if (slot instanceof Response) return slot;
+
+  const ttl = getJobTtl(c.env);
+  let job: ScrapeJob;
+  try {
+    job = await createJob(c.env.SCRAPE_KV, portalId, ttl);
+  } catch (err: any) {
+    console.error(`Failed to create job for ${portalId}: ${err.message}`);
+    await slot.release();
+    return c.json({ success: false, error: 'Job storage unavailable' }, 503);
+  }
+
+  let callbackDeliveryId: string | undefined;
+  if (options.callbackUrl) {
+    try {
+      callbackDeliveryId = (await createDelivery(c.env.SCRAPE_KV, options.callbackUrl, portalId, job.id)).id;
+    } catch (err: any) {
+      console.error(`Failed to schedule callback for job ${job.id}: ${err.message}`);
+    }
+  }
+
+  const message: JobMessage = {
+    jobId: job.id,
+    portal: portalId,
+    input,
+    options,
+    ttl,
+    leaseId: slot.leaseId,
+    ...(c.get('apiToken') ? { apiToken: c.get('apiToken') } : {}),
+    ...(callbackDeliveryId ? { callbackDeliveryId } : {}),
+  };
+  try {
+    await c.env.JOB_QUEUE.send(message);
+  } catch (err: any) {
+    console.error(`Failed to enqueue job ${job.id} for ${portalId}: ${err.message}`);
+    await slot.release();
+    return c.json({ success: false, error: 'Job queue unavailable' }, 503);
+  }
+
+  return c.json({
+    success: true,
+    jobId: job.id,
+    status: job.status,
+    portal: portalId,
+    statusUrl: `/api/v1/jobs/${job.id}`,
+    retentionSeconds: ttl,
+    ...(callbackDeliveryId ? { callbackDeliveryId } : {}),
+  }, 202);
+});
+
+// Async scrape job status -- queued/running/succeeded/failed with the final ScrapeResult
+app.get('/api/v1/jobs/:id', async (c) => {
+  const id = c.req.param('id');
+  if (!JOB_ID_RE.test(id)) {
+    return c.json({ success: false, error: 'Invalid job ID format' }, 400);
+  }
+  const job = await getJob(c.env.SCRAPE_KV, id);
+  if (!job) {
+    return c.json({ success: false, error: 'job_not_found' }, 404);
+  }
+  const denied = denyUnlessAllowed(c, portalMeta(job.portal));
+  if (denied) return denied;
+  return c.json({ success: true, job });
+});
+
+// Submit a 2FA code to a job waiting in `awaiting_challenge` -- the scrape resumes on its open page
+app.post('/api/v1/jobs/:id/challenge', async (c) => {
+  const id = c.req.param('id');
+  if (!JOB_ID_RE.test(id)) {
+    return c.json({ success: false, error: 'Invalid job ID format' }, 400);
+  }
+  let body: { code?: unknown };
+  try {
+    body = await c.req.json();
+  } catch {
+    return c.json({ success: false, error: 'Invalid or missing JSON request body' }, 400);
+  }
+  const code = typeof body?.code === 'string' ? body.code.replace(/\s+/g, '') : '';
+  if (!CHALLENGE_CODE_RE.test(code)) {
+    return c.json({ success: false, error: 'invalid_code' }, 400);
+  }
+  const job = await getJob(c.env.SCRAPE_KV, id);
+  if (!job) {
+    return c.json({ success: false, error: 'job_not_found' }, 404);
+  }
+  const denied = denyUnlessAllowed(c, portalMeta(job.portal));
+  if (denied) return denied;
+  if (job.status !== 'awaiting_challenge') {
+    return c.json({ success: false, error: 'no_pending_challenge', status: job.status }, 409);
+  }
+  await submitChallengeCode(c.env.SCRAPE_KV, job, code);
+  return c.json({ success: true, jobId: id, status: 'code_submitted' }, 202);
+});
+
+// Callback deliveries (authenticated) -- inspect webhook attempts, optionally ?status=failed
+app.get('/api/v1/callbacks', async (c) => {
+  const status = c.req.query('status');
+  if (status && !['pending', 'delivered', 'failed'].includes(status)) {
+    return c.json({ success: false, error: 'status must be one of: pending, delivered, failed' }, 400);
+  }
+  const deliveries = (await listDeliveries(c.env.SCRAPE_KV, status as CallbackStatus | undefined))
+    .filter((delivery) => callerAllowsPortal(c, delivery.portal));
+  return c.json({ success: true, deliveries });
+});
+
+app.get('/api/v1/callbacks/:id', async (c) => {
+  const id = c.req.param('id');
+  if (!DELIVERY_ID_RE.test(id)) {
+    return c.json({ success: false, error: 'Invalid delivery ID format' }, 400);
+  }
+  const delivery = await getDelivery(c.env.SCRAPE_KV, id);
+  if (!delivery) {
+    return c.json({ success: false, error: 'delivery_not_found' }, 404);
+  }
+  const denied = denyUnlessAllowed(c, portalMeta(delivery.portal));
+  if (denied) return denied;
+  return c.json({ success: true, delivery });
+});
+
+// Selector health -- which resolveSelector candidate each scraper step matched, drift first
+app.get('/api/v1/selectors/health', async (c) => {
+  const scraper = c.req.query('scraper');
+  if (scraper !== undefined && !PORTAL_ID_RE.test(scraper)) {
+    return c.json({ success: false, error: 'Invalid portal ID format' }, 400);
+  }
+  if (scraper !== undefined) {
+    const denied = denyUnlessAllowed(c, portalMeta(scraper));
+    if (denied) return denied;
+  }
+  const selectors = (await listSelectorHealth(c.env.SCRAPE_KV, scraper)).filter((s) => callerAllowsPortal(c, s.scraper));
+  const summary = { healthy: 0, drifting: 0, failing: 0 };
+  for (const s of selectors) summary[s.status]++;
+  return c.json({ success: true, summary, selectors });
+});
+
+// Failure diagnostics -- redacted HTML and screenshots of the page a failed scrape ended on
+app.get('/api/v1/diagnostics/:id', async (c) => {
+  const id = c.req.param('id');
+  if (!DIAGNOSTIC_ID_RE.test(id)) {
+    return c.json({ success: false, error: 'Invalid diagnostic ID format' }, 400);
+  }
+  const diagnostic = await getDiagnostic(c.env.SCRAPE_KV, id);
+  if (!diagnostic) {
+    return c.json({ success: false, error: 'diagnostic_not_found' }, 404);
+  }
+  const denied = denyUnlessAllowed(c, portalMeta(diagnostic.portal));
+  if (denied) return denied;
+  return c.json({ success: true, diagnostic });
+});
+
+// Readiness -- could this scraper run now: browser binding, credentials (never their values), ChittyConnect
+app.get('/api/v1/scrapers/:id/readiness', async (c) => {
+  const id = c.req.param('id');
+  if (!PORTAL_ID_RE.test(id)) {
+    return c.json({ success: false, error: 'Invalid portal ID format' }, 400);
+  }
+  const scraper = catalog.get(id);
+  if (!scraper) {
+    return c.json({ success: false, error: 'scraper_not_found' }, 404);
+  }
+  const denied = denyUnlessAllowed(c, scraper.meta);
+  if (denied) return denied;
+  const readiness = await checkReadiness(c.env, scraper.meta);
+  return c.json({ success: true, readiness });
+});
+
+// Scoped API tokens (admin) -- mint, list and revoke per-caller tokens
+app.post('/api/v1/admin/tokens', async (c) => {
+  if (!(await isAdminRequest(c))) {
+    return c.json({ success: false, error: 'admin_required' }, 403);
+  }
+  let body: unknown;
+  try {
+    body = await c.req.json();
+  } catch {
+    return c.json({ success: false, error: 'Invalid or missing JSON request body' }, 400);
+  }
+  const fieldErrors = validateSchema(API_TOKEN_REQUEST_SCHEMA, body);
+  const { name, portals, categories, expiresInDays } = (fieldErrors.length === 0 ? body : {}) as {
+    name: string;
+    portals?: string[];
+    categories?: ScraperMeta['category'][];
+    expiresInDays?: number;
+  };
+  if (fieldErrors.length === 0 && !portals?.length && !categories?.length) {
+    fieldErrors.push({ path: '', message: 'at least one of portals or categories is required' });
+  }
+  if (fieldErrors.length > 0) {
+    return c.json({ success: false, error: 'invalid_input', fieldErrors }, 400);
+  }
+
+  const expiresAt = expiresInDays ? new Date(Date.now() + expiresInDays * 86400_000).toISOString() : null;
+  const { token, secret } = await createApiToken(c.env.SCRAPE_KV, { name, portals, categories, expiresAt });
+  return c.json({ success: true, token, secret }, 201);
+});
+
+app.get('/api/v1/admin/tokens', async (c) => {
+  if (!(await isAdminRequest(c))) {
+    return c.json({ success: false, error: 'admin_required' }, 403);
+  }
+  return c.json({ success: true, tokens: await listApiTokens(c.env.SCRAPE_KV) });
+});
+
+app.delete('/api/v1/admin/tokens/:id', async (c) => {
+  if (!(await isAdminRequest(c))) {
+    return c.json({ success: false, error: 'admin_required' }, 403);
+  }
+  const id = c.req.param('id');
+  if (!API_TOKEN_ID_RE.test(id)) {
+    return c.json({ success: false, error: 'Invalid token ID format' }, 400);
+  }
+  const token = await revokeApiToken(c.env.SCRAPE_KV, id);
+  if (!token) {
+    return c.json({ success: false, error: 'token_not_found' }, 404);
+  }
+  return c.json({ success: true, token });
+});
+
+export default {
+  fetch: app.fetch,
+  /** JOB_QUEUE consumer -- one job per message, each with its own env copy like an /api request */
+  async queue(batch: MessageBatch<JobMessage>, env: Env): Promise<void> {
+    for (const message of batch.messages) {
+      await runQueuedJob({ ...env }, catalog.get(message.body.portal), message.body);
+      message.ack();
+    }
+  },
+} satisfies ExportedHandler<Env, JobMessage>;
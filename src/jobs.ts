@@ -0,0 +1,285 @@
+import type { Env } from './index';
+import type { ScrapeRequestOptions } from './options';
+import { snapshotOptions, trackChanges } from './changes';
+import { withResultCache } from './cache';
+import { executeWithRetry, retryPolicyFor } from './retry';
+import { createFailureRecorder } from './diagnostics';
+import { flushSelectorHealth } from './selector-health';
+import { withChallengeHandler, type ChallengeRequest } from './challenges';
+import { releasePortalSlot } from './rate-limit';
+import { setCallerToken, type ApiToken } from './tokens';
+import { deliverCallback, getDelivery } from './callbacks';
+import { wrapResult, errorTypeOf, type ScrapeResult, type ScraperModule } from './scrapers/base';
+
+export type JobStatus = 'queued' | 'running' | 'awaiting_challenge' | 'succeeded' | 'failed';
+
+/** A one-time code the running scrape is waiting for -- submit it to `/api/v1/jobs/:id/challenge` */
+export interface JobChallenge extends ChallengeRequest {
+  requestedAt: string;
+  expiresAt: string;
+}
+
+export interface ScrapeJob {
+  id: string;
+  portal: string;
+  status: JobStatus;
+  createdAt: string;
+  startedAt?: string;
+  /** Last time the job went back to `running` after a 2FA wait -- staleness counts from here */
+  resumedAt?: string;
+  finishedAt?: string;
+  result?: ScrapeResult;
+  error?: string;
+  /** Present while `status` is `awaiting_challenge` */
+  challenge?: JobChallenge;
+}
+
+/**
+ * `JOB_QUEUE` message for one submitted job. The consumer has no request, so the
+ * message carries everything the submitting route resolved.
+ */
+export interface JobMessage {
+  jobId: string;
+  portal: string;
+  input: unknown;
+  options: ScrapeRequestOptions;
+  ttl: number;
+  /** Rate-limit lease claimed at submission, released once the job finishes */
+  leaseId: string;
+  /** Scoped token of the submitter, so composites apply its allowlist; absent for the service token */
+  apiToken?: ApiToken;
+  callbackDeliveryId?: string;
+}
+
+/** Default retention for job records and their results (24 hours) */
+export const DEFAULT_JOB_TTL_SECONDS = 86400;
+
+/** KV rejects expirationTtl below 60 seconds */
+const MIN_KV_TTL_SECONDS = 60;
+
+/**
+ * A job still `running` after this long was almost certainly evicted along with
+ * its queue consumer, which messages are not redelivered after.
+ */
+const STALE_RUNNING_MS = 10 * 60 * 1000;
+
+/** Default time a job waits for a submitted 2FA code before failing the scrape */
+export const DEFAULT_CHALLENGE_TIMEOUT_SECONDS = 300;
+
+/**
+ * Longest configurable wait. The job's queue consumer (15 min wall clock) and its
+ * rate-limit lease (10 min) both have to outlive it, scrape time included.
+ */
+export const MAX_CHALLENGE_TIMEOUT_SECONDS = 480;
+
+/** How often a waiting job checks KV for a submitted code */
+export const CHALLENGE_POLL_MS = 2000;
+
+/** One-time codes: digits or letters, as portals and authenticator apps issue them */
+export const CHALLENGE_CODE_RE = /^[A-Za-z0-9]{4,12}$/;
+
+/** Job IDs are UUIDs -- reject anything else before it reaches KV */
+export const JOB_ID_RE = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/;
+
+function jobKey(id: string): string {
+  return `job:${id}`;
+}
+
+function challengeKey(id: string): string {
+  return `challenge:${id}`;
+}
+
+/** Resolve the result-retention TTL from `JOB_RESULT_TTL_SECONDS`, falling back to the default */
+export function getJobTtl(env: Pick<Env, 'JOB_RESULT_TTL_SECONDS'>): number {
+  const configured = parseInt(env.JOB_RESULT_TTL_SECONDS || '', 10);
+  if (!Number.isFinite(configured) || configured <= 0) return DEFAULT_JOB_TTL_SECONDS;
+  return Math.max(configured, MIN_KV_TTL_SECONDS);
+}
+
+/** Resolve how long a job waits for a 2FA code from `CHALLENGE_TIMEOUT_SECONDS`, capped at the maximum */
+export function getChallengeTimeout(env: Pick<Env, 'CHALLENGE_TIMEOUT_SECONDS'>): number {
+  const configured = parseInt(env.CHALLENGE_TIMEOUT_SECONDS || '', 10);
+  if (!Number.isFinite(configured) || configured <= 0) return DEFAULT_CHALLENGE_TIMEOUT_SECONDS;
+  return Math.min(configured, MAX_CHALLENGE_TIMEOUT_SECONDS);
+}
+
+async function saveJob(kv: KVNamespace, job: ScrapeJob, ttl: number): Promise<void> {
+  await kv.put(jobKey(job.id), JSON.stringify(job), { expirationTtl: ttl });
+}
+
+export async function createJob(kv: KVNamespace, portal: string, ttl: number): Promise<ScrapeJob> {
+  const job: ScrapeJob = {
+    id: crypto.randomUUID(),
+    portal,
+    status: 'queued',
+    createdAt: new Date().toISOString(),
+  };
+  await saveJob(kv, job, ttl);
+  return job;
+}
+
+export async function getJob(kv: KVNamespace, id: string): Promise<ScrapeJob | null> {
+  const raw = await kv.get(jobKey(id));
+  if (!raw) return null;
+
+  let job: ScrapeJob;
+  try {
+    job = JSON.parse(raw);
+  } catch (err) {
+    console.error(`Corrupted job record for job:${id}: ${err}`);
+    return null;
+  }
+
+  const runningSince = job.resumedAt ?? job.startedAt;
+  if (job.status === 'running' && runningSince
+    && Date.now() - new Date(runningSince).getTime() > STALE_RUNNING_MS) {
+    return { ...job, status: 'failed', error: 'Job did not complete -- worker was likely evicted mid-scrape' };
+  }
+  if (job.status === 'awaiting_challenge' && job.challenge
+    && Date.now() - new Date(job.challenge.expiresAt).getTime() > STALE_RUNNING_MS) {
+    return { ...job, status: 'failed', error: 'Job did not complete -- worker was likely evicted waiting for a 2FA code' };
+  }
+  return job;
+}
+
+/**
+ * Hand a code to a job waiting in `awaiting_challenge`. The code goes to KV, where the
+ * queue consumer running the job polls for it -- the POST lands on a different isolate.
+ */
+export async function submitChallengeCode(kv: KVNamespace, job: ScrapeJob, code: string): Promise<void> {
+  const remaining = job.challenge ? new Date(job.challenge.expiresAt).getTime() - Date.now() : 0;
+  await kv.put(challengeKey(job.id), code, {
+    expirationTtl: Math.max(MIN_KV_TTL_SECONDS, Math.ceil(remaining / 1000)),
+  });
+}
+
+/**
+ * Challenge handler for one job: persist it as `awaiting_challenge` with the challenge,
+ * then poll KV for a code submitted via `submitChallengeCode` until the challenge
+ * expires. This runs in the job's queue consumer, not a request's `waitUntil`, so the
+ * wait isn't cut short when a response is sent. The scrape's page stays open meanwhile,
+ * so the scraper resumes on the same session once the code arrives.
+ */
+async function awaitChallengeCode(
+  env: Env,
+  job: ScrapeJob,
+  request: ChallengeRequest,
+  ttl: number,
+): Promise<string | null> {
+  const requestedAt = Date.now();
+  const expiresAt = requestedAt + getChallengeTimeout(env) * 1000;
+  const waiting: ScrapeJob = {
+    ...job,
+    status: 'awaiting_challenge',
+    challenge: { ...request, requestedAt: new Date(requestedAt).toISOString(), expiresAt: new Date(expiresAt).toISOString() },
+  };
+  try {
+    await saveJob(env.SCRAPE_KV, waiting, ttl);
+  } catch (err) {
+    console.error(`Failed to mark job ${job.id} awaiting challenge: ${err}`);
+  }
+
+  let code: string | null = null;
+  while (!code && Date.now() < expiresAt) {
+    code = await env.SCRAPE_KV.get(challengeKey(job.id));
+    if (!code) await new Promise((r) => setTimeout(r, CHALLENGE_POLL_MS));
+  }
+
+  try {
+    await env.SCRAPE_KV.delete(challengeKey(job.id));
+    await saveJob(env.SCRAPE_KV, { ...job, resumedAt: new Date().toISOString() }, ttl);
+  } catch (err) {
+    console.error(`Failed to resume job ${job.id} after challenge: ${err}`);
+  }
+  return code;
+}
+
+/**
+ * Execute a queued job to completion, persisting each state transition.
+ * Never throws -- scraper exceptions are recorded as a failed job.
+ */
+export async function runJob(
+  env: Env,
+  scraper: ScraperModule,
+  job: ScrapeJob,
+  input: unknown,
+  ttl: number,
+  options: ScrapeRequestOptions = {},
+): Promise<ScrapeJob> {
+  const running: ScrapeJob = { ...job, status: 'running', startedAt: new Date().toISOString() };
+  try {
+    await saveJob(env.SCRAPE_KV, running, ttl);
+  } catch (err) {
+    console.error(`Failed to mark job ${job.id} running: ${err}`);
+  }
+
+  let result = await withResultCache(env, scraper.meta, input, options, async () => {
+    // The challenge handler goes outermost: it registers the page the scraper actually sees
+    const recorder = createFailureRecorder(env.BROWSER, scraper.meta);
+    const browser = withChallengeHandler(recorder.fetcher, (request) => awaitChallengeCode(env, running, request, ttl));
+    const executed = await executeWithRetry(async () => {
+      try {
+        return await scraper.execute(browser, env, input);
+      } catch (err: any) {
+        console.error(`Job ${job.id} (${job.portal}) threw unhandled error: ${err.message}`, err.stack);
+        return wrapResult(job.portal, false, undefined, `Scraper execution failed: ${err.message}`, errorTypeOf(err));
+      }
+    }, { policy: retryPolicyFor(scraper.meta) });
+    return recorder.attach(env, input, executed);
+  });
+  if (options.trackChanges) {
+    result = await trackChanges(env.SCRAPE_KV, job.portal, input, result, snapshotOptions(env, scraper.meta));
+  }
+  await flushSelectorHealth(env.SCRAPE_KV);
+
+  const finished: ScrapeJob = {
+    ...running,
+    status: result.success ? 'succeeded' : 'failed',
+    finishedAt: new Date().toISOString(),
+    result,
+    error: result.success ? undefined : result.error,
+  };
+  try {
+    await saveJob(env.SCRAPE_KV, finished, ttl);
+  } catch (err) {
+    console.error(`Failed to persist result for job ${job.id}: ${err}`);
+  }
+  return finished;
+}
+
+/**
+ * `JOB_QUEUE` consumer for one message: run the job as its submitter (allowlist
+ * included), then release the submission's rate-limit lease and send the callback.
+ * `scraper` is undefined when the portal left the catalog after submission.
+ * Never throws.
+ */
+export async function runQueuedJob(env: Env, scraper: ScraperModule | undefined, message: JobMessage): Promise<void> {
+  const job = await getJob(env.SCRAPE_KV, message.jobId).catch(() => null);
+  if (!job || job.status !== 'queued') {
+    console.error(`Dropping queue message for job ${message.jobId}: ${job ? `already ${job.status}` : 'record not found'}`);
+    if (scraper) await releasePortalSlot(env, scraper.meta, message.leaseId);
+    return;
+  }
+  if (message.apiToken) setCallerToken(env, message.apiToken);
+
+  let finished: ScrapeJob;
+  if (scraper) {
+    try {
+      finished = await runJob(env, scraper, job, message.input, message.ttl, message.options);
+    } finally {
+      await releasePortalSlot(env, scraper.meta, message.leaseId);
+    }
+  } else {
+    const result = wrapResult(job.portal, false, undefined, `Unknown portal: ${job.portal}`, 'invalid_input');
+    finished = { ...job, status: 'failed', finishedAt: new Date().toISOString(), result, error: result.error };
+    await saveJob(env.SCRAPE_KV, finished, message.ttl).catch((err) => {
+      console.error(`Failed to persist result for job ${job.id}: ${err}`);
+    });
+  }
+
+  if (message.callbackDeliveryId) {
+    const delivery = await getDelivery(env.SCRAPE_KV, message.callbackDeliveryId).catch(() => null);
+    if (delivery) await deliverCallback(env.SCRAPE_KV, delivery, finished.result!);
+    else console.error(`Callback delivery ${message.callbackDeliveryId} for job ${job.id} not found`);
+  }
+}
@@ -0,0 +1,188 @@
+/**
+ * Party-name matching for court searches. The clerk prints names as `SMITH, JOHN A`,
+ * `JOHN A. SMITH JR` or `EXAMPLE HOLDINGS, L.L.C.`; conflict checks need to know how
+ * confidently a printed name is one of the parties being checked, not just whether
+ * the surname appears.
+ */
+
+export type PartyName =
+  | { kind: 'person'; last: string; first?: string; middle?: string; suffix?: string }
+  /** `name` is the name without its entity form: `EXAMPLE HOLDINGS` for `Example Holdings, LLC` */
+  | { kind: 'business'; name: string; form?: string };
+
+/** Entity designators and the form they stand for, so `L.L.C.` and `LLC` compare equal */
+const ENTITY_FORMS: Record<string, string> = {
+  LLC: 'LLC',
+  LC: 'LLC',
+  INC: 'INC',
+  INCORPORATED: 'INC',
+  CORP: 'CORP',
+  CORPORATION: 'CORP',
+  CO: 'CO',
+  COMPANY: 'CO',
+  LTD: 'LTD',
+  LIMITED: 'LTD',
+  LP: 'LP',
+  LLP: 'LLP',
+  PLLC: 'PLLC',
+  PC: 'PC',
+  NA: 'NA',
+};
+
+/** Words that make a name an organization even without an entity designator */
+const ORGANIZATION_WORDS = new Set([
+  'ASSN', 'ASSOCIATION', 'BANK', 'BOARD', 'CAPITAL', 'CHURCH', 'CITY', 'CONDOMINIUM', 'COUNTY',
+  'DEPARTMENT', 'FUND', 'GROUP', 'HOLDINGS', 'HOSPITAL', 'INSURANCE', 'INVESTMENTS', 'MANAGEMENT',
+  'MORTGAGE', 'PARTNERS', 'PEOPLE', 'PROPERTIES', 'REALTY', 'SERVICES', 'STATE', 'TRUST', 'VILLAGE',
+]);
+
+const NAME_SUFFIXES = new Set(['JR', 'SR', 'II', 'III', 'IV']);
+const HONORIFICS = new Set(['MR', 'MRS', 'MS', 'DR', 'HON', 'ESQ']);
+
+/** Upper-case, drop periods (`L.L.C.` -> `LLC`, `J.` -> `J`) and `ET AL`, keep commas for `LAST, FIRST` */
+function clean(text: string): string {
+  return text
+    .toUpperCase()
+    .replace(/\./g, '')
+    .replace(/\bLIMITED LIABILITY COMPANY\b/g, 'LLC')
+    .replace(/\bET ?(AL|UX)\b/g, ' ')
+    .replace(/[^A-Z0-9,&'\- ]+/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+function words(text: string): string[] {
+  return text.split(/[\s,]+/).filter(Boolean);
+}
+
+function business(tokens: string[]): PartyName {
+  const rest = tokens[0] === 'THE' ? tokens.slice(1) : [...tokens];
+  const form = rest.length > 1 ? ENTITY_FORMS[rest[rest.length - 1]] : undefined;
+  if (form) rest.pop();
+  return { kind: 'business', name: rest.join(' '), ...(form ? { form } : {}) };
+}
+
+function person(lastTokens: string[], givenTokens: string[]): PartyName | null {
+  const keep = (t: string) => !NAME_SUFFIXES.has(t) && !HONORIFICS.has(t);
+  const suffix = [...lastTokens, ...givenTokens].find((t) => NAME_SUFFIXES.has(t));
+  const last = lastTokens.filter(keep);
+  const given = givenTokens.filter(keep);
+  if (last.length === 0) return null;
+  return {
+    kind: 'person',
+    last: last.join(' '),
+    ...(given[0] ? { first: given[0] } : {}),
+    ...(given[1] ? { middle: given[1] } : {}),
+    ...(suffix ? { suffix } : {}),
+  };
+}
+
+/**
+ * Read a printed name as a person or a business. `LAST, FIRST MIDDLE` and
+ * `FIRST MIDDLE LAST` are people; entity designators, organization words or
+ * more than four words make a business. Null when nothing name-like is left.
+ */
+export function parsePartyName(text: string): PartyName | null {
+  const cleaned = clean(text);
+  const tokens = words(cleaned);
+  if (tokens.length === 0) return null;
+  if (tokens.some((t) => ORGANIZATION_WORDS.has(t)) || (tokens.length > 1 && ENTITY_FORMS[tokens[tokens.length - 1]])) {
+    return business(tokens);
+  }
+
+  const comma = cleaned.indexOf(',');
+  if (comma > 0) return person(words(cleaned.slice(0, comma)), words(cleaned.slice(comma + 1)));
+  if (tokens.length > 4) return business(tokens);
+  const named = tokens.filter((t) => !NAME_SUFFIXES.has(t) && !HONORIFICS.has(t));
+  if (named.length <= 1) return person(tokens, []);
+  const lastIndex = tokens.lastIndexOf(named[named.length - 1]);
+  return person(tokens.slice(lastIndex), tokens.slice(0, lastIndex));
+}
+
+/** A person from separate first/last fields -- `firstName` may carry a middle name or initial */
+export function personName(lastName: string, firstName?: string): PartyName | null {
+  return person(words(clean(lastName)), words(clean(firstName ?? '')));
+}
+
+/** A business name, whatever its words -- for callers who already know it is one */
+export function businessName(name: string): PartyName | null {
+  const tokens = words(clean(name));
+  return tokens.length > 0 ? business(tokens) : null;
+}
+
+/** The name the clerk's search is keyed on: the surname, or the business name without its form */
+export function searchTerm(name: PartyName): string {
+  return name.kind === 'person' ? name.last : name.name;
+}
+
+/**
+ * The individual names in a case caption: `SMITH, JOHN v. EXAMPLE HOLDINGS LLC, ET AL`
+ * gives both sides, `IN RE THE MARRIAGE OF ...` loses its prefix, and co-parties
+ * joined by `;` or `AND` are split apart.
+ */
+export function splitCaption(caption: string): string[] {
+  return caption
+    .replace(/^\s*IN RE:?\s+(THE\s+)?((MARRIAGE|ESTATE|MATTER|PARENTAGE|GUARDIANSHIP)\s+OF\s+)?/i, '')
+    .split(/\s+(?:v|vs|versus)\.?\s+|;|\s+and\s+/i)
+    .map((part) => part.trim())
+    .filter(Boolean);
+}
+
+/** Surname key: `O'BRIEN`, `OBRIEN` and `O BRIEN` compare equal */
+function surnameKey(last: string): string {
+  return last.replace(/[\s'\-]/g, '');
+}
+
+function surnameScore(a: string, b: string): number {
+  if (surnameKey(a) === surnameKey(b)) return 1;
+  // One side of a double-barrelled surname: SMITH vs SMITH-JONES
+  const parts = (s: string) => s.split(/[\s\-]+/);
+  return parts(a).some((p) => parts(b).includes(p)) ? 0.8 : 0;
+}
+
+/** JOHN/JOHN, J/JOHN, JON/JONATHAN, or a different given name */
+function givenNameScore(a: string, b: string): number {
+  if (a === b) return 1;
+  if ((a.length === 1 || b.length === 1) && a[0] === b[0]) return 0.85;
+  if (Math.min(a.length, b.length) >= 3 && (a.startsWith(b) || b.startsWith(a))) return 0.8;
+  return 0.3;
+}
+
+function personScore(query: Extract<PartyName, { kind: 'person' }>, candidate: Extract<PartyName, { kind: 'person' }>): number {
+  const surname = surnameScore(query.last, candidate.last);
+  if (surname === 0) return 0;
+  // A surname alone can't tell two people apart
+  if (!query.first || !candidate.first) return 0.6 * surname;
+  let score = surname * givenNameScore(query.first, candidate.first);
+  if (query.middle && candidate.middle && query.middle[0] !== candidate.middle[0]) score *= 0.7;
+  // JR and SR are usually father and son
+  if (query.suffix && candidate.suffix && query.suffix !== candidate.suffix) score *= 0.6;
+  return score;
+}
+
+function businessScore(query: Extract<PartyName, { kind: 'business' }>, candidate: Extract<PartyName, { kind: 'business' }>): number {
+  const a = new Set(words(query.name));
+  const b = new Set(words(candidate.name));
+  const shared = [...a].filter((t) => b.has(t)).length;
+  if (shared === 0) return 0;
+  if (shared === a.size && shared === b.size) {
+    // Same name, different entity form: EXAMPLE HOLDINGS LLC vs EXAMPLE HOLDINGS INC
+    return query.form && candidate.form && query.form !== candidate.form ? 0.9 : 1;
+  }
+  if (shared === a.size || shared === b.size) return 0.75;
+  return 0.7 * (shared / new Set([...a, ...b]).size);
+}
+
+/**
+ * How confidently `candidate` names the same party as `query`, from 0 (not at all)
+ * to 1 (same name). People need a matching surname; a missing first name on either
+ * side caps the score at 0.6. A person found inside a business name scores 0.3.
+ */
+export function nameMatchScore(query: PartyName, candidate: PartyName): number {
+  if (query.kind === 'person' && candidate.kind === 'person') return personScore(query, candidate);
+  if (query.kind === 'business' && candidate.kind === 'business') return businessScore(query, candidate);
+  if (query.kind === 'person' && candidate.kind === 'business') {
+    return words(candidate.name).includes(surnameKey(query.last)) ? 0.3 : 0;
+  }
+  return 0;
+}
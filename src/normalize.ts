@@ -0,0 +1,147 @@
+/**
+ * Canonical forms for the values scrapers pull off portal pages. Portals print the
+ * same thing many ways ("$1,250.00", "(1,250.00)", "03/01/2026", "March 1, 2026");
+ * scrapers return page text from `page.evaluate` and pass it through these, so every
+ * result carries money as integer cents, dates as ISO-8601 `YYYY-MM-DD`, percentages
+ * as numbers and Cook County PINs as 14 digits.
+ */
+
+/** Money as integer cents: $1,250.50 is 125050 */
+export type Cents = number;
+
+const MONTHS = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+const MONTH_NAME = '(jan|feb|mar|apr|may|jun|jul|aug|sep|oct|nov|dec)[a-z]*\\.?';
+
+// Not `\b` at the end: a timestamp continues straight into `T09:30`
+const ISO_DATE_RE = /\b(\d{4})-(\d{1,2})-(\d{1,2})(?!\d)/;
+const NUMERIC_DATE_RE = /\b(\d{1,2})[/.-](\d{1,2})[/.-](\d{4}|\d{2})\b/;
+const MONTH_FIRST_DATE_RE = new RegExp(`\\b${MONTH_NAME}\\s+(\\d{1,2})(?:st|nd|rd|th)?(?:,?\\s+(\\d{4}))?\\b`, 'i');
+const DAY_FIRST_DATE_RE = new RegExp(`\\b(\\d{1,2})(?:st|nd|rd|th)?\\s+${MONTH_NAME},?\\s+(\\d{4})\\b`, 'i');
+
+/** First amount in the text: `1,250`, `1250.5`, `.50` */
+const AMOUNT_RE = /(\d{1,3}(?:,\d{3})+|\d+)(?:\.(\d+))?|\.(\d+)/;
+
+/** Two-digit years at or above this are 19xx -- recorder documents go back decades, due dates don't */
+const TWO_DIGIT_YEAR_PIVOT = 70;
+
+/**
+ * Parse an amount to integer cents. Accepts currency symbols, thousands separators and
+ * surrounding text; a leading or trailing minus or accounting parentheses make it negative.
+ * Fractions beyond two places are rounded half away from zero.
+ */
+export function parseCents(text: string | null | undefined): Cents | null {
+  if (!text) return null;
+  const found = AMOUNT_RE.exec(text);
+  if (!found) return null;
+
+  const whole = Number((found[1] ?? '0').replace(/,/g, ''));
+  // Round on the third decimal digit in integers -- 0.505 as a float is 0.50499...
+  const digits = (found[2] ?? found[3] ?? '').padEnd(3, '0');
+  const fraction = Number(digits.slice(0, 2)) + (Number(digits[2]) >= 5 ? 1 : 0);
+  const cents = whole * 100 + fraction;
+  const before = text.slice(0, found.index);
+  const after = text.slice(found.index + found[0].length);
+  const negative = /[-−]\s*\$?\s*$/.test(before) || /^\s*-/.test(after) || (/\(\s*\$?\s*$/.test(before) && /^\s*\)/.test(after));
+  return negative && cents !== 0 ? -cents : cents;
+}
+
+/** Cents for display: 172550 is `$1725.50`, -500 is `-$5.00` */
+export function formatCents(cents: Cents): string {
+  return `${cents < 0 ? '-' : ''}$${(Math.abs(cents) / 100).toFixed(2)}`;
+}
+
+/** A percentage such as "6.500%" as a number of percent (6.5). Null when the text holds no number. */
+export function parsePercent(text: string | null | undefined): number | null {
+  const match = text ? /-?\d+(?:\.\d+)?|-?\.\d+/.exec(text.replace(/,/g, '')) : null;
+  return match ? Number(match[0]) : null;
+}
+
+function isoDate(year: number, month: number, day: number): string | null {
+  const date = new Date(Date.UTC(year, month - 1, day));
+  if (date.getUTCFullYear() !== year || date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) return null;
+  return date.toISOString().slice(0, 10);
+}
+
+/**
+ * Parse a date to `YYYY-MM-DD`. Understands ISO (`2026-03-01`, timestamps included),
+ * US numeric (`03/01/2026`, `3-1-26`) and long forms (`March 1, 2026`, `Mar 1st 2026`,
+ * `1 March 2026`). A long form without a year ("March 1") uses `defaultYear` when given.
+ * Null for anything else, including impossible dates.
+ */
+export function parseIsoDate(text: string | null | undefined, options: { defaultYear?: number } = {}): string | null {
+  if (!text) return null;
+
+  const iso = ISO_DATE_RE.exec(text);
+  if (iso) return isoDate(Number(iso[1]), Number(iso[2]), Number(iso[3]));
+
+  const numeric = NUMERIC_DATE_RE.exec(text);
+  if (numeric) {
+    let year = Number(numeric[3]);
+    if (numeric[3].length === 2) year += year >= TWO_DIGIT_YEAR_PIVOT ? 1900 : 2000;
+    return isoDate(year, Number(numeric[1]), Number(numeric[2]));
+  }
+
+  const dayFirst = DAY_FIRST_DATE_RE.exec(text);
+  if (dayFirst) {
+    return isoDate(Number(dayFirst[3]), MONTHS.indexOf(dayFirst[2].toLowerCase()) + 1, Number(dayFirst[1]));
+  }
+
+  const monthFirst = MONTH_FIRST_DATE_RE.exec(text);
+  if (monthFirst) {
+    const year = monthFirst[3] ? Number(monthFirst[3]) : options.defaultYear;
+    if (year === undefined) return null;
+    return isoDate(year, MONTHS.indexOf(monthFirst[1].toLowerCase()) + 1, Number(monthFirst[2]));
+  }
+
+  return null;
+}
+
+/** A Cook County Property Index Number and its parts: area-subarea-block-parcel-unit */
+export interface CookCountyPin {
+  /** 14 digits, no separators */
+  pin: string;
+  /** `12-34-567-890-0000` */
+  formatted: string;
+  area: string;
+  subarea: string;
+  block: string;
+  parcel: string;
+  /** `0000` unless the parcel is a condominium unit */
+  unit: string;
+}
+
+/**
+ * Normalize a Cook County PIN to 14 digits. Accepts dashes and spaces; a 10-digit
+ * PIN (no unit suffix) is padded with 0000. Returns null for anything else.
+ */
+export function normalizePin(pin: string): string | null {
+  const digits = pin.replace(/[\s-]/g, '');
+  if (!/^\d+$/.test(digits)) return null;
+  if (digits.length === 10) return `${digits}0000`;
+  return digits.length === 14 ? digits : null;
+}
+
+export function formatPin(pin: string): string {
+  return `${pin.slice(0, 2)}-${pin.slice(2, 4)}-${pin.slice(4, 7)}-${pin.slice(7, 10)}-${pin.slice(10, 14)}`;
+}
+
+/** Normalize and break down a PIN. Null when it isn't one -- including area or subarea 00, which no parcel has. */
+export function parsePin(text: string): CookCountyPin | null {
+  const pin = normalizePin(text);
+  if (!pin || pin.startsWith('00') || pin.slice(2, 4) === '00') return null;
+  return {
+    pin,
+    formatted: formatPin(pin),
+    area: pin.slice(0, 2),
+    subarea: pin.slice(2, 4),
+    block: pin.slice(4, 7),
+    parcel: pin.slice(7, 10),
+    unit: pin.slice(10, 14),
+  };
+}
+
+/** `validate` message for a scraper's `pin` input, undefined when it is a usable PIN */
+export function pinInputError(pin: string | undefined): string | undefined {
+  if (!pin?.trim()) return 'pin is required';
+  return parsePin(pin) ? undefined : 'pin must be a 10 or 14 digit Cook County PIN';
+}
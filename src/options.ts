@@ -0,0 +1,78 @@
+import { validateSchema, type JsonSchema, type SchemaFieldError } from './schema';
+
+/**
+ * Per-request behaviour switches that are not part of any scraper's input.
+ * Callers send them under a reserved top-level `options` key in the request body;
+ * the key is stripped before the remaining body is validated and handed to the scraper.
+ */
+export interface ScrapeRequestOptions {
+  /** HTTPS URL that receives the final ScrapeResult as a signed POST */
+  callbackUrl?: string;
+  /** Diff the result against the last successful scrape of the same portal+input */
+  trackChanges?: boolean;
+  /** Return a redacted capture bundle (HTML, selector resolutions, screenshots) -- admin token required */
+  capture?: boolean;
+  /** Accept a cached result only if it is at most this many seconds old (0 forces a fresh scrape) */
+  maxAge?: number;
+  /** Skip the result cache read; the fresh result still refreshes it */
+  noCache?: boolean;
+  /** `ics`: answer a successful scrape with its calendar events as `text/calendar` instead of JSON */
+  format?: 'json' | 'ics';
+}
+
+export const REQUEST_OPTIONS_SCHEMA: JsonSchema = {
+  type: 'object',
+  additionalProperties: false,
+  properties: {
+    callbackUrl: {
+      type: 'string',
+      pattern: '^https://[^\\s/]+',
+      maxLength: 2048,
+      description: 'HTTPS URL to POST the ScrapeResult to on completion (HMAC-signed, retried with backoff)',
+    },
+    trackChanges: {
+      type: 'boolean',
+      description: 'Attach `changes` (added/removed/changed items) relative to the last successful scrape',
+    },
+    capture: {
+      type: 'boolean',
+      description: 'Synchronous route only: return a redacted capture bundle of every page visited (admin token required)',
+    },
+    maxAge: {
+      type: 'integer',
+      minimum: 0,
+      description: 'Max age in seconds of a cached result to accept, for scrapers that cache (0 = always scrape)',
+    },
+    noCache: {
+      type: 'boolean',
+      description: 'Bypass the result cache for this request; the fresh result replaces the cached one',
+    },
+    format: {
+      type: 'string',
+      enum: ['json', 'ics'],
+      description: 'Synchronous route only: `ics` returns the result\'s dates as an iCalendar feed, for scrapers that list calendar events',
+    },
+  },
+};
+
+/**
+ * Separate the reserved `options` key from the scraper input.
+ * Returns field errors (prefixed with `options.`) when the options are malformed.
+ */
+export function splitRequestBody(body: unknown): {
+  input: unknown;
+  options: ScrapeRequestOptions;
+  fieldErrors: SchemaFieldError[];
+} {
+  if (!body || typeof body !== 'object' || Array.isArray(body) || !('options' in body)) {
+    return { input: body, options: {}, fieldErrors: [] };
+  }
+
+  const { options, ...input } = body as Record<string, unknown>;
+  const fieldErrors = validateSchema(REQUEST_OPTIONS_SCHEMA, options, 'options');
+  return {
+    input,
+    options: fieldErrors.length === 0 ? options as ScrapeRequestOptions : {},
+    fieldErrors,
+  };
+}
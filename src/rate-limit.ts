@@ -0,0 +1,155 @@
+import type { Env } from './index';
+import { logsIn, type ScraperMeta } from './scrapers/base';
+
+export interface PortalRateLimit {
+  /** Runs started in any rolling 60s window */
+  requestsPerMinute: number;
+  /** Runs in flight at once, across isolates */
+  maxConcurrent: number;
+  /** Minimum gap between run starts */
+  minIntervalSeconds: number;
+}
+
+/** Public sites tolerate a steady trickle; a burst of logins can lock a portal account */
+export const DEFAULT_RATE_LIMIT: PortalRateLimit = { requestsPerMinute: 30, maxConcurrent: 3, minIntervalSeconds: 0 };
+export const DEFAULT_AUTH_RATE_LIMIT: PortalRateLimit = { requestsPerMinute: 6, maxConcurrent: 1, minIntervalSeconds: 10 };
+
+export type RateLimitReason = 'concurrency' | 'rate' | 'spacing';
+
+export type PortalSlot =
+  /** `leaseId` lets another invocation (a queued job) release the lease via `releasePortalSlot` */
+  | { ok: true; leaseId: string; release(): Promise<void> }
+  | { ok: false; reason: RateLimitReason; retryAfterSeconds: number };
+
+/** KV record per portal: leases held by in-flight runs and recent start times */
+interface PortalRateState {
+  leases: Array<{ id: string; slots: number; expiresAt: number }>;
+  starts: number[];
+  lastStartedAt?: number;
+}
+
+const WINDOW_MS = 60_000;
+
+/**
+ * A lease outlives any run, 2FA wait included -- it only lapses on its own when an
+ * isolate dies before releasing it.
+ */
+const LEASE_MS = 10 * 60_000;
+
+/** Retry-After cap while a portal is at its concurrency limit; runs usually finish well before their lease lapses */
+const CONCURRENCY_RETRY_MAX_MS = 30_000;
+
+function stateKey(portal: string): string {
+  return `ratelimit:${portal}`;
+}
+
+/** `RATE_LIMITS` env JSON: portal ID to a partial limit, overriding the scraper's defaults */
+function envOverrides(env: Env): Record<string, Partial<PortalRateLimit>> {
+  if (!env.RATE_LIMITS) return {};
+  try {
+    return JSON.parse(env.RATE_LIMITS);
+  } catch (err: any) {
+    console.error(`RATE_LIMITS is not valid JSON: ${err.message}`);
+    return {};
+  }
+}
+
+/** Effective limits: login/public default (`logsIn`), then `meta.rateLimit`, then `RATE_LIMITS` */
+export function getRateLimit(env: Env, meta: Pick<ScraperMeta, 'id' | 'requiresAuth' | 'apiKeyAuth' | 'rateLimit'>): PortalRateLimit {
+  return {
+    ...(logsIn(meta) ? DEFAULT_AUTH_RATE_LIMIT : DEFAULT_RATE_LIMIT),
+    ...meta.rateLimit,
+    ...envOverrides(env)[meta.id],
+  };
+}
+
+async function loadState(kv: KVNamespace, portal: string, now: number): Promise<PortalRateState> {
+  const raw = await kv.get(stateKey(portal));
+  let state: PortalRateState = { leases: [], starts: [] };
+  if (raw) {
+    try {
+      state = JSON.parse(raw);
+    } catch (err) {
+      console.error(`Corrupted rate limit record for ${portal}, resetting: ${err}`);
+    }
+  }
+  return {
+    ...state,
+    leases: state.leases.filter((l) => l.expiresAt > now),
+    starts: state.starts.filter((t) => t > now - WINDOW_MS),
+  };
+}
+
+async function saveState(kv: KVNamespace, portal: string, state: PortalRateState, limit: PortalRateLimit): Promise<void> {
+  const ttl = Math.ceil(Math.max(LEASE_MS, WINDOW_MS, limit.minIntervalSeconds * 1000) / 1000);
+  await kv.put(stateKey(portal), JSON.stringify(state), { expirationTtl: ttl });
+}
+
+/**
+ * Claim `slots` concurrent runs and `runs` starts against the portal's limits before
+ * any browser launches. Best effort across isolates: KV is read-modify-write, so two
+ * isolates racing on one record can both get in. KV failures let the run through.
+ */
+export async function acquirePortalSlot(
+  env: Env,
+  meta: Pick<ScraperMeta, 'id' | 'requiresAuth' | 'apiKeyAuth' | 'rateLimit'>,
+  { runs = 1, slots = 1 }: { runs?: number; slots?: number } = {},
+): Promise<PortalSlot> {
+  const limit = getRateLimit(env, meta);
+  const kv = env.SCRAPE_KV;
+  const now = Date.now();
+  let state: PortalRateState;
+  try {
+    state = await loadState(kv, meta.id, now);
+  } catch (err: any) {
+    console.error(`Rate limit check failed for ${meta.id}, allowing run: ${err.message}`);
+    return { ok: true, leaseId: crypto.randomUUID(), release: async () => {} };
+  }
+
+  const waits: Array<{ reason: RateLimitReason; ms: number }> = [];
+  const inFlight = state.leases.reduce((n, l) => n + l.slots, 0);
+  if (inFlight + slots > limit.maxConcurrent) {
+    const soonest = Math.min(...state.leases.map((l) => l.expiresAt));
+    waits.push({ reason: 'concurrency', ms: Math.min(soonest - now, CONCURRENCY_RETRY_MAX_MS) });
+  }
+  const overBudget = state.starts.length + runs - limit.requestsPerMinute;
+  if (overBudget > 0) {
+    const sorted = [...state.starts].sort((a, b) => a - b);
+    waits.push({ reason: 'rate', ms: (sorted[overBudget - 1] ?? now) + WINDOW_MS - now });
+  }
+  if (state.lastStartedAt !== undefined) {
+    const gap = state.lastStartedAt + limit.minIntervalSeconds * 1000 - now;
+    if (gap > 0) waits.push({ reason: 'spacing', ms: gap });
+  }
+  if (waits.length > 0) {
+    const longest = waits.reduce((a, b) => (b.ms > a.ms ? b : a));
+    return { ok: false, reason: longest.reason, retryAfterSeconds: Math.max(1, Math.ceil(longest.ms / 1000)) };
+  }
+
+  const lease = { id: crypto.randomUUID(), slots, expiresAt: now + LEASE_MS };
+  state.leases.push(lease);
+  state.starts.push(...Array.from({ length: runs }, () => now));
+  state.lastStartedAt = now;
+  try {
+    await saveState(kv, meta.id, state, limit);
+  } catch (err: any) {
+    console.error(`Failed to record rate limit lease for ${meta.id}: ${err.message}`);
+  }
+
+  return { ok: true, leaseId: lease.id, release: () => releasePortalSlot(env, meta, lease.id) };
+}
+
+/** Drop a lease claimed by `acquirePortalSlot`. Never throws; an unknown lease is a no-op. */
+export async function releasePortalSlot(
+  env: Env,
+  meta: Pick<ScraperMeta, 'id' | 'requiresAuth' | 'apiKeyAuth' | 'rateLimit'>,
+  leaseId: string,
+): Promise<void> {
+  try {
+    const current = await loadState(env.SCRAPE_KV, meta.id, Date.now());
+    current.leases = current.leases.filter((l) => l.id !== leaseId);
+    await saveState(env.SCRAPE_KV, meta.id, current, getRateLimit(env, meta));
+  } catch (err: any) {
+    console.error(`Failed to release rate limit lease for ${meta.id}: ${err.message}`);
+  }
+}
@@ -0,0 +1,52 @@
+import type { Env } from './index';
+import type { ScraperMeta } from './scrapers/base';
+import { checkChittyConnect, type ChittyConnectStatus } from './chittyconnect';
+import { credentialResolver, type CredentialProviderName } from './credentials';
+
+export interface CredentialReadiness {
+  ok: boolean;
+  /** Every `credentialKeys` entry with the provider it resolved from, or null -- never the value */
+  keys: Array<{ key: string; source: CredentialProviderName | null }>;
+  missing: string[];
+  error?: string;
+}
+
+/**
+ * Whether a scraper could run right now. `ready` needs the Browser Rendering binding and
+ * every credential; ChittyConnect reachability is reported alongside, since a scraper
+ * whose credentials all resolve from KV or env doesn't depend on it.
+ */
+export interface ScraperReadiness {
+  scraper: string;
+  ready: boolean;
+  browser: { ok: boolean };
+  chittyconnect: ChittyConnectStatus;
+  credentials: CredentialReadiness;
+  checkedAt: string;
+}
+
+export async function checkReadiness(env: Env, meta: ScraperMeta): Promise<ScraperReadiness> {
+  const keys = meta.credentialKeys ?? [];
+  const [chittyconnect, lookup] = await Promise.all([
+    checkChittyConnect(env),
+    credentialResolver(env).resolve(meta, keys),
+  ]);
+  const sources: Partial<Record<string, CredentialProviderName>> = lookup.sources;
+
+  const credentials: CredentialReadiness = {
+    ok: lookup.ok,
+    keys: keys.map((key) => ({ key, source: sources[key] ?? null })),
+    missing: lookup.ok ? [] : lookup.missing,
+    ...(lookup.ok ? {} : { error: lookup.error }),
+  };
+  const browser = { ok: !!env.BROWSER };
+
+  return {
+    scraper: meta.id,
+    ready: browser.ok && credentials.ok,
+    browser,
+    chittyconnect,
+    credentials,
+    checkedAt: new Date().toISOString(),
+  };
+}
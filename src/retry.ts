@@ -0,0 +1,49 @@
+import { logsIn, type ScrapeErrorType, type ScrapeResult, type ScraperMeta } from './scrapers/base';
+
+/**
+ * Extra attempts per error type. Only transient failures are retried: a missing
+ * selector or an empty result will not change on a second look, a block only gets
+ * worse, and a repeated bad login can lock the portal account.
+ */
+export const RETRY_POLICY: Partial<Record<ScrapeErrorType, number>> = {
+  navigation_timeout: 1,
+  upstream_error: 2,
+};
+
+/**
+ * Policy for one scraper. Login portals, and composites that log in through their
+ * sources, get no retries at all: each run logs in again, seconds apart, inside the
+ * one rate-limit slot the route claimed -- the repeated logins a lockout comes from.
+ */
+export function retryPolicyFor(meta: Pick<ScraperMeta, 'requiresAuth' | 'apiKeyAuth' | 'authSources'>): typeof RETRY_POLICY {
+  return logsIn(meta) || meta.authSources ? {} : RETRY_POLICY;
+}
+
+/** Backoff before retry n (1-based) is RETRY_BASE_DELAY_MS * 2^(n-1) */
+export const RETRY_BASE_DELAY_MS = 1000;
+
+const sleep = (ms: number) => new Promise<void>((resolve) => setTimeout(resolve, ms));
+
+/**
+ * Run `execute` until it succeeds or fails with a type that has no retries left.
+ * `execute` must not throw -- callers wrap their own errors into a failed result.
+ * A result that needed more than one run carries `attempts`.
+ */
+export async function executeWithRetry(
+  execute: () => Promise<ScrapeResult>,
+  { policy = RETRY_POLICY, baseDelayMs = RETRY_BASE_DELAY_MS }: { policy?: typeof RETRY_POLICY; baseDelayMs?: number } = {},
+): Promise<ScrapeResult> {
+  let attempts = 1;
+  let result = await execute();
+  const retriesUsed: Partial<Record<ScrapeErrorType, number>> = {};
+  while (!result.success && result.errorType) {
+    const type = result.errorType;
+    const used = retriesUsed[type] ?? 0;
+    if (used >= (policy[type] ?? 0)) break;
+    retriesUsed[type] = used + 1;
+    await sleep(baseDelayMs * 2 ** (attempts - 1));
+    attempts++;
+    result = await execute();
+  }
+  return attempts > 1 ? { ...result, attempts } : result;
+}
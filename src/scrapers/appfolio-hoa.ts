@@ -1,13 +1,20 @@
-import puppeteer from '@cloudflare/puppeteer';
-import { wrapResult, resolveSelector, type ScraperModule } from './base';
+import { wrapResult, resolveSelector, withPage, classifyScrapeError, errorTypeOf, type ScraperModule, type ScrapeErrorType } from './base';
+import { withAuthSession } from '../auth-session';
+import { credentialResolver } from '../credentials';
+import { solveOtpChallenge } from '../challenges';
+import { parseCents, parseIsoDate, type Cents } from '../normalize';
+import type { Env } from '../index';
 
 export interface HoaBalanceEntry {
+  /** `YYYY-MM-DD` */
   date: string;
   description: string;
-  amount: number;
+  /** Charges positive, payments and credits negative, as the ledger prints them */
+  amount: Cents;
 }
 
 export interface HoaViolation {
+  /** `YYYY-MM-DD` */
   date: string;
   type: string;
   status: string;
@@ -17,7 +24,9 @@ export interface HoaViolation {
 export interface AppfolioHoaData {
   portfolio: string;
   propertyAddress?: string;
-  currentBalance: number;
+  /** Omitted when the balance on the page can't be read */
+  currentBalance?: Cents;
+  /** `YYYY-MM-DD` */
   dueDate?: string;
   autopay?: boolean;
   ledgerEntries: HoaBalanceEntry[];
@@ -29,8 +38,9 @@ export interface AppfolioHoaInput {
 }
 
 /**
- * Known AppFolio portfolios. Each maps to a subdomain and a KV credential prefix.
- * New portfolios: add an entry here and store `<prefix>:username` / `<prefix>:password` in SCRAPE_KV.
+ * Known AppFolio portfolios. Each maps to a subdomain and a credential key prefix.
+ * New portfolios: add an entry here and to `credentialKeys`, and store `<prefix>:username` / `<prefix>:password`
+ * (ChittyConnect via CREDENTIAL_REFS, SCRAPE_KV, or env).
  */
 const PORTFOLIOS: Record<string, { subdomain: string; credPrefix: string; label: string }> = {
   'propertyhill': {
@@ -50,74 +60,107 @@ function portalBase(subdomain: string): string {
   return `https://${subdomain}.appfolio.com`;
 }
 
+/** Keycloak (account.appfolio.com) or the portal's sign-in page; URL parsing avoids substring bypass */
+function isAppfolioLoginUrl(url: string): boolean {
+  try {
+    const parsed = new URL(url);
+    return parsed.hostname === 'account.appfolio.com' || parsed.pathname.includes('/sign_in');
+  } catch {
+    return true;
+  }
+}
+
 async function scrapeAppfolioPortal(
   browser: Fetcher,
-  env: { SCRAPE_KV: KVNamespace },
+  env: Env,
   portfolio: { subdomain: string; credPrefix: string; label: string },
-): Promise<{ success: boolean; data?: AppfolioHoaData; error?: string }> {
-  const username = await env.SCRAPE_KV.get(`${portfolio.credPrefix}:username`);
-  const password = await env.SCRAPE_KV.get(`${portfolio.credPrefix}:password`);
-  if (!username || !password) {
-    return { success: false, error: `Credentials not configured for ${portfolio.label} (${portfolio.credPrefix}:username / :password)` };
+): Promise<{ success: boolean; data?: AppfolioHoaData; error?: string; errorType?: ScrapeErrorType }> {
+  const userKey = `${portfolio.credPrefix}:username`;
+  const passKey = `${portfolio.credPrefix}:password`;
+  const creds = await credentialResolver(env).resolve(appfolioHoaScraper.meta, [userKey, passKey]);
+  if (!creds.ok) return { success: false, error: creds.error, errorType: 'auth_failed' };
+  const { [userKey]: username, [passKey]: password } = creds.values;
+
+  try {
+    return await withPage(browser, (page) => scrapeAppfolioSession(page, env, portfolio, { username, password }));
+  } catch (err: any) {
+    return { success: false, error: err.message, errorType: errorTypeOf(err) };
   }
+}
 
+/** Log in to one portfolio on `page`; returns an error message on failure */
+async function logInAppfolio(
+  page: any,
+  env: Env,
+  portfolio: { subdomain: string },
+  { username, password }: { username: string; password: string },
+): Promise<string | undefined> {
   const base = portalBase(portfolio.subdomain);
-  let browserInstance: any;
-  let page: any;
 
+  // Navigate to the owner/tenant portal — AppFolio redirects to Keycloak OIDC login
+  await page.goto(`${base}/connect/users/sign_in`, {
+    waitUntil: 'networkidle0',
+    timeout: 30000,
+  });
+
+  // Keycloak login form at account.appfolio.com
+  const userSel = await resolveSelector(page, [
+    '#username', 'input[name="username"]', 'input[name="email"]',
+    'input[type="email"]', '#kc-form-login input[name="username"]',
+  ], { scraper: 'appfolio-hoa', step: 'username' });
+  if (!userSel) return 'Could not find username input on login page';
+  await page.type(userSel, username);
+
+  const passSel = await resolveSelector(page, [
+    '#password', 'input[name="password"]', 'input[type="password"]',
+    '#kc-form-login input[name="password"]',
+  ], { scraper: 'appfolio-hoa', step: 'password' });
+  if (!passSel) return 'Could not find password input on login page';
+  await page.type(passSel, password);
+
+  const submitSel = await resolveSelector(page, [
+    '#kc-login', 'button[type="submit"]', 'input[type="submit"]',
+    'button[name="login"]', '.btn-primary[type="submit"]',
+  ], { scraper: 'appfolio-hoa', step: 'submit' });
+  if (!submitSel) return 'Could not find login button';
+  await page.click(submitSel);
+
+  // Wait for OIDC redirect back to the portfolio subdomain
   try {
-    browserInstance = await puppeteer.launch(browser);
-    page = await browserInstance.newPage();
-    await page.setViewport({ width: 1280, height: 800 });
-
-    // Navigate to the owner/tenant portal — AppFolio redirects to Keycloak OIDC login
-    await page.goto(`${base}/connect/users/sign_in`, {
-      waitUntil: 'networkidle0',
-      timeout: 30000,
-    });
+    await page.waitForNavigation({ waitUntil: 'networkidle0', timeout: 25000 });
+  } catch {
+    // SPA may not trigger full navigation
+  }
+  await new Promise((r) => setTimeout(r, 3000));
 
-    // Keycloak login form at account.appfolio.com
-    const userSel = await resolveSelector(page, [
-      '#username', 'input[name="username"]', 'input[name="email"]',
-      'input[type="email"]', '#kc-form-login input[name="username"]',
-    ]);
-    if (!userSel) return { success: false, error: 'Could not find username input on login page' };
-    await page.type(userSel, username);
-
-    const passSel = await resolveSelector(page, [
-      '#password', 'input[name="password"]', 'input[type="password"]',
-      '#kc-form-login input[name="password"]',
-    ]);
-    if (!passSel) return { success: false, error: 'Could not find password input on login page' };
-    await page.type(passSel, password);
-
-    const submitSel = await resolveSelector(page, [
-      '#kc-login', 'button[type="submit"]', 'input[type="submit"]',
-      'button[name="login"]', '.btn-primary[type="submit"]',
-    ]);
-    if (!submitSel) return { success: false, error: 'Could not find login button' };
-    await page.click(submitSel);
-
-    // Wait for OIDC redirect back to the portfolio subdomain
-    try {
-      await page.waitForNavigation({ waitUntil: 'networkidle0', timeout: 25000 });
-    } catch {
-      // SPA may not trigger full navigation
-    }
-    await new Promise((r) => setTimeout(r, 3000));
+  // Keycloak OTP step for accounts with 2FA
+  const otpError = await solveOtpChallenge(page, env, `appfolio-hoa:${portfolio.subdomain}`);
+  if (otpError) return otpError;
 
-    // Verify we left the login page (use URL parsing to avoid substring bypass)
-    const currentUrl: string = await page.evaluate(() => (globalThis as any).location?.href || '');
-    let stillOnLogin = false;
-    try {
-      const parsed = new URL(currentUrl);
-      stillOnLogin = parsed.hostname === 'account.appfolio.com' || parsed.pathname.includes('/sign_in');
-    } catch {
-      stillOnLogin = true;
-    }
-    if (stillOnLogin) {
-      return { success: false, error: 'Login failed -- check credentials or 2FA requirement' };
-    }
+  // Verify we left the login page
+  const currentUrl: string = await page.evaluate(() => (globalThis as any).location?.href || '');
+  if (isAppfolioLoginUrl(currentUrl)) {
+    return 'Login failed -- check credentials or 2FA requirement';
+  }
+
+  return undefined;
+}
+
+/** Log in to one portfolio (or reuse its stored session) and extract its dashboard, ledger and violations on a ready page */
+async function scrapeAppfolioSession(
+  page: any,
+  env: Env,
+  portfolio: { subdomain: string; credPrefix: string; label: string },
+  { username, password }: { username: string; password: string },
+): Promise<{ success: boolean; data?: AppfolioHoaData; error?: string; errorType?: ScrapeErrorType }> {
+  const base = portalBase(portfolio.subdomain);
+  try {
+    const loginError = await withAuthSession(page, env, {
+      portal: `appfolio-hoa:${portfolio.subdomain}`,
+      account: username,
+      isLoginPage: isAppfolioLoginUrl,
+    }, () => logInAppfolio(page, env, portfolio, { username, password }));
+    if (loginError) return { success: false, error: loginError, errorType: classifyScrapeError(loginError) };
 
     // Extract dashboard data
     const dashboard = await page.evaluate(() => {
@@ -132,26 +175,21 @@ async function scrapeAppfolioPortal(
         return '';
       };
 
-      const parseCurrency = (s: string): number => {
-        const v = parseFloat(s.replace(/[$,\s]/g, ''));
-        return isNaN(v) ? 0 : v;
-      };
-
       const propertyAddress = text(
         '.property-address', '.address', '[data-testid="property-address"]',
         '.unit-address', '.lease-address', 'h2.address', '.dashboard-address',
       ) || undefined;
 
-      const currentBalance = parseCurrency(text(
+      const balanceText = text(
         '.balance-amount', '.current-balance', '.amount-due',
         '[data-testid="balance"]', '.total-balance', '.outstanding-balance',
         '.tenant-balance', '.owner-balance', 'span.balance',
-      ));
+      );
 
-      const dueDate = text(
+      const dueDateText = text(
         '.due-date', '.payment-due-date', '[data-testid="due-date"]',
         '.next-due-date',
-      ) || undefined;
+      );
 
       const autopayEl = doc.querySelector(
         '.autopay-status, .auto-pay, [data-testid="autopay"], .autopay-badge'
@@ -162,11 +200,11 @@ async function scrapeAppfolioPortal(
         autopay = t.includes('on') || t.includes('enabled') || t.includes('active');
       }
 
-      return { propertyAddress, currentBalance, dueDate, autopay };
+      return { propertyAddress, balanceText, dueDateText, autopay };
     });
 
     if (!dashboard) {
-      return { success: false, error: 'Could not extract dashboard data' };
+      return { success: false, error: 'Could not extract dashboard data', errorType: 'selector_missing' };
     }
 
     // Ledger / payment history (best-effort)
@@ -177,23 +215,18 @@ async function scrapeAppfolioPortal(
         'a[href*="balance"]', '[data-testid="ledger-link"]',
         '::-p-text("Ledger")', '::-p-text("Payment History")',
         '::-p-text("Transactions")', '.nav-link[href*="ledger"]',
-      ]);
+      ], { scraper: 'appfolio-hoa', step: 'ledger-link' });
 
       if (ledgerSel) {
         await page.click(ledgerSel);
         try { await page.waitForNavigation({ waitUntil: 'networkidle0', timeout: 15000 }); } catch { /* SPA */ }
         await new Promise((r) => setTimeout(r, 2000));
 
-        ledgerEntries = await page.evaluate(() => {
+        const rows: Array<{ date: string; description: string; amount: string }> = await page.evaluate(() => {
           const doc = (globalThis as any).document;
           if (!doc) return [];
 
-          const parseCurrency = (s: string): number => {
-            const v = parseFloat(s.replace(/[$,\s]/g, ''));
-            return isNaN(v) ? 0 : v;
-          };
-
-          const entries: Array<{ date: string; description: string; amount: number }> = [];
+          const entries: Array<{ date: string; description: string; amount: string }> = [];
           const rows = doc.querySelectorAll(
             '.ledger-table tr, .transactions-table tbody tr, ' +
             '.payment-history tbody tr, [data-testid="ledger-row"], ' +
@@ -206,13 +239,19 @@ async function scrapeAppfolioPortal(
                 const dateText = (cells[0]?.textContent || '').trim();
                 if (!dateText || dateText.toLowerCase().includes('date')) continue;
                 const description = (cells[1]?.textContent || '').trim();
-                const amount = parseCurrency(cells[2]?.textContent || '');
-                if (dateText) entries.push({ date: dateText, description, amount });
+                const amount = (cells[2]?.textContent || '').trim();
+                entries.push({ date: dateText, description, amount });
               }
             }
           }
           return entries;
         }) || [];
+        // Rows without a readable date or amount are subtotals or repeated headers
+        ledgerEntries = rows.flatMap((row) => {
+          const date = parseIsoDate(row.date);
+          const amount = parseCents(row.amount);
+          return date !== null && amount !== null ? [{ date, description: row.description, amount }] : [];
+        });
       }
     } catch {
       // best-effort
@@ -233,14 +272,14 @@ async function scrapeAppfolioPortal(
         'a[href*="violation"]', 'a[href*="inspection"]', 'a[href*="compliance"]',
         '[data-testid="violations-link"]', '::-p-text("Violations")',
         '::-p-text("Compliance")', '.nav-link[href*="violation"]',
-      ]);
+      ], { scraper: 'appfolio-hoa', step: 'violations-link' });
 
       if (violationSel) {
         await page.click(violationSel);
         try { await page.waitForNavigation({ waitUntil: 'networkidle0', timeout: 15000 }); } catch { /* SPA */ }
         await new Promise((r) => setTimeout(r, 2000));
 
-        violations = await page.evaluate(() => {
+        const rows: HoaViolation[] = await page.evaluate(() => {
           const doc = (globalThis as any).document;
           if (!doc) return [];
 
@@ -266,6 +305,10 @@ async function scrapeAppfolioPortal(
           }
           return items;
         }) || [];
+        violations = rows.flatMap((row) => {
+          const date = parseIsoDate(row.date);
+          return date ? [{ ...row, date }] : [];
+        });
       }
     } catch {
       // best-effort
@@ -275,7 +318,10 @@ async function scrapeAppfolioPortal(
       success: true,
       data: {
         portfolio: portfolio.label,
-        ...dashboard,
+        propertyAddress: dashboard.propertyAddress,
+        currentBalance: parseCents(dashboard.balanceText) ?? undefined,
+        dueDate: parseIsoDate(dashboard.dueDateText) ?? undefined,
+        autopay: dashboard.autopay,
         ledgerEntries,
         violations,
       },
@@ -283,10 +329,7 @@ async function scrapeAppfolioPortal(
   } catch (err: any) {
     const message = err?.message || String(err);
     console.error(`Scraper appfolio-hoa (${portfolio.label}) failed: ${message}`, err?.stack);
-    return { success: false, error: message };
-  } finally {
-    if (page) await page.close().catch((e: any) => console.warn(`Failed to close page: ${e.message}`));
-    if (browserInstance) await browserInstance.close().catch((e: any) => console.warn(`Failed to close browser: ${e.message}`));
+    return { success: false, error: message, errorType: errorTypeOf(err) };
   }
 }
 
@@ -295,12 +338,57 @@ export const appfolioHoaScraper: ScraperModule<AppfolioHoaInput, AppfolioHoaData
     id: 'appfolio-hoa',
     name: 'AppFolio HOA',
     category: 'hoa',
-    version: '0.2.0',
+    version: '0.3.0',
     requiresAuth: true,
     credentialKeys: [
       'appfolio-propertyhill:username', 'appfolio-propertyhill:password',
       'appfolio-chicagoland:username', 'appfolio-chicagoland:password',
     ],
+    inputSchema: {
+      type: 'object',
+      required: ['portfolio'],
+      properties: {
+        portfolio: {
+          type: 'string',
+          minLength: 1,
+          description: `AppFolio portfolio key (case-insensitive). Available: ${Object.keys(PORTFOLIOS).join(', ')}`,
+          examples: Object.keys(PORTFOLIOS),
+        },
+      },
+    },
+    outputSchema: {
+      type: 'object',
+      properties: {
+        portfolio: { type: 'string' },
+        propertyAddress: { type: 'string' },
+        currentBalance: { type: 'integer', description: 'Cents' },
+        dueDate: { type: 'string', format: 'date' },
+        autopay: { type: 'boolean' },
+        ledgerEntries: {
+          type: 'array',
+          items: {
+            type: 'object',
+            properties: {
+              date: { type: 'string', format: 'date' },
+              description: { type: 'string' },
+              amount: { type: 'integer', description: 'Cents' },
+            },
+          },
+        },
+        violations: {
+          type: 'array',
+          items: {
+            type: 'object',
+            properties: {
+              date: { type: 'string', format: 'date' },
+              type: { type: 'string' },
+              status: { type: 'string' },
+              description: { type: 'string' },
+            },
+          },
+        },
+      },
+    },
   },
 
   async execute(browser, env, input) {
@@ -309,6 +397,7 @@ export const appfolioHoaScraper: ScraperModule<AppfolioHoaInput, AppfolioHoaData
       return wrapResult<AppfolioHoaData>(
         'appfolio-hoa', false, undefined,
         `portfolio is required. Available: ${Object.keys(PORTFOLIOS).join(', ')}`,
+        'invalid_input',
       );
     }
 
@@ -317,10 +406,11 @@ export const appfolioHoaScraper: ScraperModule<AppfolioHoaInput, AppfolioHoaData
       return wrapResult<AppfolioHoaData>(
         'appfolio-hoa', false, undefined,
         `Unknown portfolio "${portfolioKey}". Available: ${Object.keys(PORTFOLIOS).join(', ')}`,
+        'invalid_input',
       );
     }
 
     const result = await scrapeAppfolioPortal(browser, env, portfolio);
-    return wrapResult('appfolio-hoa', result.success, result.data, result.error);
+    return wrapResult('appfolio-hoa', result.success, result.data, result.error, result.errorType);
   },
 };
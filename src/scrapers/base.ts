@@ -1,4 +1,11 @@
+import puppeteer from '@cloudflare/puppeteer';
 import type { Env } from '../index';
+import type { JsonSchema } from '../schema';
+import type { ChangeSet } from '../changes';
+import type { CalendarEvent } from '../calendar';
+import type { CredentialRef } from '../credentials';
+import type { PortalRateLimit } from '../rate-limit';
+import { recordSelectorResolution, type SelectorStep } from '../selector-health';
 
 export type ScraperCategory = 'utility' | 'court' | 'mortgage' | 'tax' | 'hoa' | 'governance' | 'generic';
 
@@ -8,49 +15,165 @@ export interface ScraperMeta {
   category: ScraperCategory;
   version: string;
   requiresAuth: boolean;
+  /**
+   * The credentials are an API key, not a portal login. Login-portal rate limits and
+   * the no-retry rule don't apply -- see `logsIn`.
+   */
+  apiKeyAuth?: boolean;
+  /**
+   * Credentials `execute` needs, resolved through `credentialResolver` (ChittyConnect,
+   * then SCRAPE_KV under the key itself, then the env var named like it)
+   */
   credentialKeys?: string[];
+  /** Default ChittyConnect refs for some `credentialKeys` entries */
+  credentialRefs?: Record<string, CredentialRef>;
+  /** Shape of the request body accepted by `execute` -- enforced by the generic scrape route */
+  inputSchema?: JsonSchema;
+  /** Shape of `ScrapeResult.data` on success -- published for callers, not enforced */
+  outputSchema?: JsonSchema;
+  /**
+   * Scraper keeps no login state in the browser, so batch runs may hand it a shared
+   * browser session (via `acquireBrowser`) instead of launching one per input.
+   */
+  sharedBrowser?: boolean;
+  /**
+   * Composite that can log in through some of its sources (registered-agent accounts):
+   * captures and diagnostics scrub every typed value, as for `requiresAuth`
+   */
+  authSources?: boolean;
+  /** Overrides of the default per-portal limits (stricter for scrapers that log in, see `logsIn`) */
+  rateLimit?: Partial<PortalRateLimit>;
+  /** Successful results are cached in KV for this long per input; unset means never cached */
+  cacheTtlSeconds?: number;
+}
+
+/** Whether a run signs in to a portal interactively -- what lockouts and login throttling are about */
+export function logsIn(meta: Pick<ScraperMeta, 'requiresAuth' | 'apiKeyAuth'>): boolean {
+  return meta.requiresAuth && !meta.apiKeyAuth;
+}
+
+/**
+ * Why a scrape failed. `navigation_timeout` and `upstream_error` are transient and
+ * retried by the routes; the rest are not, `auth_failed` least of all (lockouts).
+ */
+export type ScrapeErrorType =
+  | 'auth_failed'
+  | 'selector_missing'
+  | 'navigation_timeout'
+  | 'not_found'
+  | 'blocked'
+  | 'upstream_error'
+  | 'invalid_input';
+
+/** An error whose type is known where it is thrown */
+export class ScrapeError extends Error {
+  constructor(public readonly type: ScrapeErrorType, message: string) {
+    super(message);
+    this.name = 'ScrapeError';
+  }
+}
+
+/**
+ * Type of a failure message, for the paths that only have a string (login helpers,
+ * thrown errors). Checked in order: a login rejection that mentions a CAPTCHA is still
+ * an auth failure.
+ */
+const ERROR_PATTERNS: Array<[ScrapeErrorType, RegExp]> = [
+  ['invalid_input', /\bis required\b|^invalid |must be /i],
+  ['auth_failed', /credentials missing|login failed|2fa code|oauth token exchange failed|\b401\b|unauthori[sz]ed/i],
+  ['navigation_timeout', /timed? ?out|timeout|navigation failed|net::err_/i],
+  ['blocked', /captcha|access denied|forbidden|too many requests|\b403\b|\b429\b|rate limit/i],
+  ['selector_missing', /could not (find|extract|parse)|selector/i],
+  ['not_found', /\bno .*\bfound\b|not found|no results/i],
+];
+
+export function classifyScrapeError(message: string): ScrapeErrorType {
+  return ERROR_PATTERNS.find(([, re]) => re.test(message))?.[0] ?? 'upstream_error';
+}
+
+/** Type of a caught error: its own for `ScrapeError`, puppeteer timeouts by name, otherwise by message */
+export function errorTypeOf(err: any): ScrapeErrorType {
+  if (err instanceof ScrapeError) return err.type;
+  if (err?.name === 'TimeoutError') return 'navigation_timeout';
+  return classifyScrapeError(String(err?.message ?? err));
 }
 
 export interface ScrapeResult<T = unknown> {
   success: boolean;
   data?: T;
   error?: string;
+  /** Set on every failure */
+  errorType?: ScrapeErrorType;
+  /** Runs it took, when the route retried a transient failure */
+  attempts?: number;
+  /** Failure snapshot (HTML, screenshot) to fetch from `/api/v1/diagnostics/:id` */
+  diagnosticId?: string;
   method: 'scrape';
   portal: string;
   scrapedAt: string;
+  /** Diff against the last successful scrape of the same input -- only with `options.trackChanges` */
+  changes?: ChangeSet;
+  /** Served from the result cache -- `scrapedAt` is when the original scrape ran */
+  cached?: boolean;
 }
 
 export interface ScraperModule<TInput = unknown, TOutput = unknown> {
   meta: ScraperMeta;
   execute(browser: Fetcher, env: Env, input: TInput): Promise<ScrapeResult<TOutput>>;
+  /** Dates in a successful result worth a calendar entry -- enables `options.format: 'ics'` */
+  calendarEvents?(data: TOutput): CalendarEvent[];
 }
 
+/** Failures without an explicit `errorType` are classified from `error` */
 export function wrapResult<T>(
   portal: string,
   success: boolean,
   data: T | undefined,
   error?: string,
+  errorType?: ScrapeErrorType,
 ): ScrapeResult<T> {
   return {
     success,
     data,
     error,
+    ...(success ? {} : { errorType: errorType ?? classifyScrapeError(error ?? '') }),
     method: 'scrape',
     portal,
     scrapedAt: new Date().toISOString(),
   };
 }
 
+export interface SelectorResolution {
+  selectors: string[];
+  /** Index into `selectors` of the candidate that matched, or null when none did */
+  matchedIndex: number | null;
+}
+
+export type SelectorObserver = (resolution: SelectorResolution) => void;
+
+/** Observers registered with `observeSelectors`, keyed by page */
+const selectorObservers = new WeakMap<object, SelectorObserver>();
+
+/** Report every `resolveSelector` call made against `page` to `observer` */
+export function observeSelectors(page: object, observer: SelectorObserver): void {
+  selectorObservers.set(page, observer);
+}
+
 /**
  * Try multiple CSS selectors and return the first one that matches an element.
  * Returns null if none match. Shared across all scrapers that need resilient selectors.
  * Only suppresses CSS selector syntax errors -- propagates infrastructure failures.
+ * With `step`, the outcome feeds selector health telemetry (`/api/v1/selectors/health`).
  */
-export async function resolveSelector(page: any, selectors: string[]): Promise<string | null> {
-  for (const selector of selectors) {
+export async function resolveSelector(page: any, selectors: string[], step?: SelectorStep): Promise<string | null> {
+  let matchedIndex: number | null = null;
+  for (let i = 0; i < selectors.length; i++) {
     try {
-      const el = await page.$(selector);
-      if (el) return selector;
+      const el = await page.$(selectors[i]);
+      if (el) {
+        matchedIndex = i;
+        break;
+      }
     } catch (err: any) {
       const msg = err?.message || '';
       if (msg.includes('is not a valid selector') || msg.includes('Failed to execute')) {
@@ -59,5 +182,256 @@ export async function resolveSelector(page: any, selectors: string[]): Promise<s
       throw err;
     }
   }
-  return null;
+  if (step) recordSelectorResolution(step, { selectors, matchedIndex });
+  selectorObservers.get(page)?.({ selectors, matchedIndex });
+  return matchedIndex === null ? null : selectors[matchedIndex];
+}
+
+export interface BrowserLease {
+  browser: any;
+  /** Disconnect from the browser if this lease owns it; a no-op for shared sessions */
+  release(): Promise<void>;
+}
+
+/**
+ * Idle time Browser Rendering keeps a disconnected session alive, so the next scrape
+ * (from this or any other isolate) can `connect` to it instead of cold-starting a browser.
+ */
+export const SESSION_KEEP_ALIVE_MS = 10 * 60 * 1000;
+/** Default for each navigation / wait on a page handed out by `withPage` */
+export const DEFAULT_PAGE_TIMEOUT_MS = 30_000;
+/** Default upper bound on a whole `withPage` run */
+export const DEFAULT_SCRAPE_TIMEOUT_MS = 120_000;
+const DEFAULT_VIEWPORT = { width: 1280, height: 800 };
+
+/** Run deadlines of pages handed out by `withPage`: pause stops the clock and returns a resume */
+const pageDeadlines = new WeakMap<object, () => () => void>();
+
+/**
+ * Stop `page`'s `withPage` deadline while the scrape waits on something outside the
+ * browser (a 2FA code from the caller); call the returned function to resume it with
+ * the time that was left. A no-op for pages not opened by `withPage`.
+ */
+export function pauseScrapeDeadline(page: object): () => void {
+  return pageDeadlines.get(page)?.() ?? (() => {});
+}
+
+/** Shared-session fetchers created by `createSharedBrowser`, keyed by the wrapper object */
+const sharedBrowsers = new WeakMap<object, () => Promise<any>>();
+
+/** Decorators registered with `decorateBrowsers`, keyed by the wrapper object, with the binding it wraps */
+const browserDecorators = new WeakMap<object, { inner: Fetcher; decorate: (browser: any) => any }>();
+
+/** Forward the binding's methods so a wrapper can stand in for it anywhere */
+function wrapBinding(binding: Fetcher): Fetcher {
+  return {
+    fetch: (...args: Parameters<Fetcher['fetch']>) => binding.fetch(...args),
+    connect: (...args: Parameters<Fetcher['connect']>) => binding.connect(...args),
+  } as Fetcher;
+}
+
+/**
+ * Connect to an idle Browser Rendering session if one exists, otherwise launch a new
+ * one with keep-alive. Sessions already connected to another worker are skipped; a
+ * session claimed between listing and connecting just moves on to the next.
+ */
+async function openSession(binding: Fetcher): Promise<any> {
+  try {
+    const sessions = await puppeteer.sessions(binding);
+    for (const session of sessions) {
+      if (session.connectionId) continue;
+      try {
+        return await puppeteer.connect(binding, session.sessionId);
+      } catch (err: any) {
+        console.warn(`Failed to reuse browser session ${session.sessionId}: ${err.message}`);
+      }
+    }
+  } catch (err: any) {
+    console.warn(`Failed to list browser sessions, launching a new one: ${err.message}`);
+  }
+  return puppeteer.launch(binding, { keep_alive: SESSION_KEEP_ALIVE_MS });
+}
+
+/**
+ * Wrap the Browser Rendering binding so every browser acquired through the returned
+ * fetcher -- directly via `acquireBrowser` or inside a `createSharedBrowser` session --
+ * is passed through `decorate` first. Used by capture mode to instrument pages.
+ * Wrappers nest: the innermost decorator sees the browser first, and a wrapped shared
+ * fetcher still hands out its one shared browser.
+ */
+export function decorateBrowsers(binding: Fetcher, decorate: (browser: any) => any): Fetcher {
+  const fetcher = wrapBinding(binding);
+  browserDecorators.set(fetcher, { inner: binding, decorate });
+  return fetcher;
+}
+
+/**
+ * `decorateBrowsers` at page level: every page opened on a browser launched through the
+ * returned fetcher, or on a context created from it (`withPage` uses contexts), is
+ * passed through `decorate` before the scraper sees it.
+ */
+export function decoratePages(binding: Fetcher, decorate: (page: any) => any): Fetcher {
+  const decorateOwner = (owner: any): any => new Proxy(owner, {
+    get(target, prop) {
+      const value = Reflect.get(target, prop);
+      if (prop === 'newPage') return async (...args: any[]) => decorate(await value.apply(target, args));
+      if (prop === 'createBrowserContext') return async (...args: any[]) => decorateOwner(await value.apply(target, args));
+      return typeof value === 'function' ? value.bind(target) : value;
+    },
+  });
+  return decorateBrowsers(binding, decorateOwner);
+}
+
+/**
+ * Get a browser for one scrape. When `binding` is a shared-session fetcher from
+ * `createSharedBrowser`, the already-connected browser is reused and left alone on
+ * release; otherwise an idle Browser Rendering session is reused (or a new one
+ * launched) and disconnected on release, keeping it warm for the next scrape.
+ */
+export async function acquireBrowser(binding: Fetcher): Promise<BrowserLease> {
+  const getShared = sharedBrowsers.get(binding);
+  if (getShared) {
+    return { browser: await getShared(), release: async () => {} };
+  }
+  const decorator = browserDecorators.get(binding);
+  if (decorator) {
+    const lease = await acquireBrowser(decorator.inner);
+    return { browser: decorator.decorate(lease.browser), release: lease.release };
+  }
+  const browser = await openSession(binding);
+  return {
+    browser,
+    release: () => browser.disconnect().catch((e: any) => console.warn(`Failed to disconnect browser: ${e.message}`)),
+  };
+}
+
+export interface PageOptions {
+  viewport?: { width: number; height: number };
+  /** Default timeout for each navigation / wait on the page */
+  pageTimeoutMs?: number;
+  /** Upper bound on the whole run -- the run fails and the page is torn down when it elapses */
+  timeoutMs?: number;
+}
+
+/**
+ * Session manager entry point: run `fn` with a ready page and always clean up.
+ * The page lives in its own browser context, so cookies and storage never leak between
+ * scrapes that reuse a Browser Rendering session. Throws on launch failure or timeout.
+ */
+export async function withPage<T>(binding: Fetcher, fn: (page: any) => Promise<T>, options: PageOptions = {}): Promise<T> {
+  const timeoutMs = options.timeoutMs ?? DEFAULT_SCRAPE_TIMEOUT_MS;
+  const lease = await acquireBrowser(binding);
+  let context: any;
+  let page: any;
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  let settled = false;
+  try {
+    context = await lease.browser.createBrowserContext();
+    page = await context.newPage();
+    await page.setViewport(options.viewport ?? DEFAULT_VIEWPORT);
+    page.setDefaultTimeout(options.pageTimeoutMs ?? DEFAULT_PAGE_TIMEOUT_MS);
+    page.setDefaultNavigationTimeout(options.pageTimeoutMs ?? DEFAULT_PAGE_TIMEOUT_MS);
+
+    let expire: (err: Error) => void = () => {};
+    const deadline = new Promise<never>((_, reject) => {
+      expire = reject;
+    });
+    let remainingMs = timeoutMs;
+    let armedAt = 0;
+    const arm = () => {
+      if (settled) return;
+      armedAt = Date.now();
+      timer = setTimeout(
+        () => expire(new ScrapeError('navigation_timeout', `Scrape timed out after ${Math.round(timeoutMs / 1000)}s`)),
+        remainingMs,
+      );
+    };
+    arm();
+    pageDeadlines.set(page, () => {
+      clearTimeout(timer);
+      remainingMs = Math.max(0, remainingMs - (Date.now() - armedAt));
+      let resumed = false;
+      return () => {
+        if (!resumed) arm();
+        resumed = true;
+      };
+    });
+
+    const run = fn(page);
+    // The run keeps going briefly after a timeout until teardown closes its page
+    run.catch(() => {});
+    return await Promise.race([run, deadline]);
+  } finally {
+    settled = true;
+    clearTimeout(timer);
+    if (page) await page.close().catch((e: any) => console.warn(`Failed to close page: ${e.message}`));
+    if (context) await context.close().catch((e: any) => console.warn(`Failed to close browser context: ${e.message}`));
+    await lease.release();
+  }
+}
+
+export interface PageScraperDefinition<TInput = unknown, TOutput = unknown> {
+  meta: ScraperMeta;
+  page?: PageOptions;
+  /** Runs before any browser work -- return an error message to fail without opening a page */
+  validate?(input: TInput): string | undefined;
+  execute(page: any, env: Env, input: TInput): Promise<ScrapeResult<TOutput>>;
+  calendarEvents?(data: TOutput): CalendarEvent[];
+}
+
+/**
+ * Build a `ScraperModule` whose `execute` receives a ready page from `withPage`.
+ * Launch failures and timeouts become a failed ScrapeResult rather than a throw.
+ */
+export function pageScraper<TInput, TOutput>(
+  definition: PageScraperDefinition<TInput, TOutput>,
+): ScraperModule<TInput, TOutput> {
+  const { meta } = definition;
+  return {
+    meta,
+    ...(definition.calendarEvents ? { calendarEvents: definition.calendarEvents } : {}),
+    async execute(browser, env, input) {
+      const invalid = definition.validate?.(input);
+      if (invalid) return wrapResult<TOutput>(meta.id, false, undefined, invalid, 'invalid_input');
+      try {
+        return await withPage(browser, (page) => definition.execute(page, env, input), definition.page);
+      } catch (err: any) {
+        return wrapResult<TOutput>(meta.id, false, undefined, err.message, errorTypeOf(err));
+      }
+    },
+  };
+}
+
+/**
+ * Wrap the Browser Rendering binding so every `acquireBrowser` call made with the
+ * returned fetcher shares one lazily connected browser (each `withPage` still gets
+ * its own context). The wrapper forwards `fetch`, so it can stand in for the binding.
+ * Call `close()` once all scrapes using the fetcher have finished. Wrapping a
+ * fetcher that is already shared returns it unchanged; the outer owner closes it.
+ */
+export function createSharedBrowser(binding: Fetcher): { fetcher: Fetcher; close(): Promise<void> } {
+  if (sharedBrowsers.has(binding)) {
+    return { fetcher: binding, close: async () => {} };
+  }
+  let launching: Promise<BrowserLease> | null = null;
+  const fetcher = wrapBinding(binding);
+
+  sharedBrowsers.set(fetcher, async () => {
+    if (!launching) launching = acquireBrowser(binding);
+    return (await launching).browser;
+  });
+
+  return {
+    fetcher,
+    async close() {
+      sharedBrowsers.delete(fetcher);
+      if (!launching) return;
+      try {
+        const lease = await launching;
+        await lease.release();
+      } catch (e: any) {
+        console.warn(`Failed to disconnect shared browser: ${e.message}`);
+      }
+    },
+  };
 }
@@ -1,5 +1,5 @@
-import { wrapResult, type ScraperModule } from './base';
-import { getChittyConnectCredential, getCredentialRef } from '../chittyconnect';
+import { wrapResult, errorTypeOf, type ScraperModule } from './base';
+import { credentialResolver } from '../credentials';
 
 const BROWSE_AI_BASE = 'https://api.browse.ai/v2';
 
@@ -82,32 +82,42 @@ export const browseAIScraper: ScraperModule<
     category: 'generic',
     version: '0.1.0',
     requiresAuth: true,
-    credentialKeys: ['BROWSE_AI_API_KEY_REF'],
+    apiKeyAuth: true,
+    // Robot runs spend Browse AI credits; keep them to a trickle
+    rateLimit: { requestsPerMinute: 20, maxConcurrent: 2, minIntervalSeconds: 0 },
+    credentialKeys: ['browse-ai:api-key'],
+    credentialRefs: {
+      'browse-ai:api-key': { ref: 'op://ChittyOS/Browse AI/api_key', envVar: 'BROWSE_AI_API_KEY_REF' },
+    },
+    inputSchema: {
+      type: 'object',
+      properties: {
+        action: {
+          type: 'string',
+          enum: ['list-robots', 'get-robot', 'run-robot', 'get-task', 'list-tasks'],
+          description: 'Defaults to list-robots. All actions except list-robots require robotId; get-task also requires taskId.',
+        },
+        robotId: { type: 'string', minLength: 1 },
+        taskId: { type: 'string', minLength: 1 },
+        inputParameters: { type: 'object', additionalProperties: { type: 'string' } },
+      },
+    },
+    outputSchema: {
+      type: 'object',
+      properties: {
+        action: { type: 'string' },
+        robots: { type: 'array', items: { type: 'object' } },
+        robot: { type: 'object' },
+        task: { type: 'object' },
+        tasks: { type: 'array', items: { type: 'object' } },
+      },
+    },
   },
   async execute(_browser, env, input) {
-    // Resolve API key via ChittyConnect
-    const apiKeyRef = getCredentialRef(
-      env,
-      'BROWSE_AI_API_KEY_REF',
-      'op://ChittyOS/Browse AI/api_key',
-    );
-
-    let apiKey: string | null;
-    try {
-      apiKey = await getChittyConnectCredential(env, apiKeyRef);
-    } catch (err: any) {
-      return wrapResult<BrowseAIResult>(
-        'browse-ai', false, undefined,
-        `Failed to retrieve Browse AI API key via ChittyConnect: ${err.message}`,
-      );
-    }
-
-    if (!apiKey) {
-      return wrapResult<BrowseAIResult>(
-        'browse-ai', false, undefined,
-        `Browse AI API key not found in 1Password (${apiKeyRef}). Add it to the ChittyOS vault as "Browse AI" with field "api_key".`,
-      );
-    }
+    // API key from 1Password via ChittyConnect by default (vault "ChittyOS", item "Browse AI", field "api_key")
+    const creds = await credentialResolver(env).resolve(browseAIScraper.meta);
+    if (!creds.ok) return wrapResult<BrowseAIResult>('browse-ai', false, undefined, creds.error, 'auth_failed');
+    const apiKey = creds.values['browse-ai:api-key'];
 
     const action = input?.action || 'list-robots';
 
@@ -126,7 +136,7 @@ export const browseAIScraper: ScraperModule<
 
         case 'get-robot': {
           if (!input?.robotId) {
-            return wrapResult<BrowseAIResult>('browse-ai', false, undefined, 'robotId is required for get-robot');
+            return wrapResult<BrowseAIResult>('browse-ai', false, undefined, 'robotId is required for get-robot', 'invalid_input');
           }
           const data = await browseAIRequest(apiKey, 'GET', `/robots/${input.robotId}`) as any;
           return wrapResult('browse-ai', true, { action, robot: data?.result?.robot });
@@ -134,7 +144,7 @@ export const browseAIScraper: ScraperModule<
 
         case 'run-robot': {
           if (!input?.robotId) {
-            return wrapResult<BrowseAIResult>('browse-ai', false, undefined, 'robotId is required for run-robot');
+            return wrapResult<BrowseAIResult>('browse-ai', false, undefined, 'robotId is required for run-robot', 'invalid_input');
           }
           const data = await browseAIRequest(apiKey, 'POST', `/robots/${input.robotId}/tasks`, {
             inputParameters: input.inputParameters || {},
@@ -147,7 +157,7 @@ export const browseAIScraper: ScraperModule<
 
         case 'get-task': {
           if (!input?.robotId || !input?.taskId) {
-            return wrapResult<BrowseAIResult>('browse-ai', false, undefined, 'robotId and taskId required for get-task');
+            return wrapResult<BrowseAIResult>('browse-ai', false, undefined, 'robotId and taskId required for get-task', 'invalid_input');
           }
           const data = await browseAIRequest(apiKey, 'GET', `/robots/${input.robotId}/tasks/${input.taskId}`) as any;
           return wrapResult('browse-ai', true, { action, task: data?.result?.task || data?.result });
@@ -155,7 +165,7 @@ export const browseAIScraper: ScraperModule<
 
         case 'list-tasks': {
           if (!input?.robotId) {
-            return wrapResult<BrowseAIResult>('browse-ai', false, undefined, 'robotId is required for list-tasks');
+            return wrapResult<BrowseAIResult>('browse-ai', false, undefined, 'robotId is required for list-tasks', 'invalid_input');
           }
           const data = await browseAIRequest(apiKey, 'GET', `/robots/${input.robotId}/tasks?page=1`) as any;
           const tasks: BrowseAITaskResult[] = (data?.result?.robotTasks?.items || []).map((t: any) => ({
@@ -172,10 +182,10 @@ export const browseAIScraper: ScraperModule<
         }
 
         default:
-          return wrapResult<BrowseAIResult>('browse-ai', false, undefined, `Unknown action: ${action}. Use: list-robots, get-robot, run-robot, get-task, list-tasks`);
+          return wrapResult<BrowseAIResult>('browse-ai', false, undefined, `Unknown action: ${action}. Use: list-robots, get-robot, run-robot, get-task, list-tasks`, 'invalid_input');
       }
     } catch (err: any) {
-      return wrapResult<BrowseAIResult>('browse-ai', false, undefined, err.message);
+      return wrapResult<BrowseAIResult>('browse-ai', false, undefined, err.message, errorTypeOf(err));
     }
   },
 };
@@ -0,0 +1,77 @@
+import type { Env } from '../index';
+import { wrapResult, createSharedBrowser, errorTypeOf, type ScrapeErrorType, type ScrapeResult, type ScraperModule } from './base';
+import { acquirePortalSlot } from '../rate-limit';
+import { callerAllowsScraper } from '../tokens';
+
+/** Outcome of one underlying scraper in a composite result -- the provenance record */
+export interface SourceStatus {
+  portal: string;
+  success: boolean;
+  scrapedAt: string;
+  error?: string;
+  errorType?: ScrapeErrorType;
+}
+
+export function sourceStatus(result: ScrapeResult): SourceStatus {
+  return {
+    portal: result.portal,
+    success: result.success,
+    scrapedAt: result.scrapedAt,
+    ...(result.error ? { error: result.error } : {}),
+    ...(result.errorType ? { errorType: result.errorType } : {}),
+  };
+}
+
+/**
+ * Run several scrapers in parallel on one shared browser session. Each source claims
+ * its own portal's rate-limit slot first -- the composite's slot doesn't cover the
+ * sites behind it -- and a source over its limit fails as `blocked` without running.
+ * Public sources run under the composite's allowance, but a login source also needs
+ * the caller's token to allow it and is otherwise skipped as `auth_failed`.
+ * A scraper that throws is recorded as a failed result, so callers always get one
+ * result per key.
+ */
+export async function runSources<K extends string>(
+  browser: Fetcher,
+  env: Env,
+  calls: Record<K, { scraper: ScraperModule<any, unknown>; input: unknown }>,
+): Promise<Record<K, ScrapeResult>> {
+  const shared = createSharedBrowser(browser);
+  try {
+    const entries = await Promise.all(
+      (Object.keys(calls) as K[]).map(async (key) => {
+        const { scraper, input } = calls[key];
+        if (scraper.meta.requiresAuth && !callerAllowsScraper(env, scraper.meta)) {
+          const error = `Caller token does not allow ${scraper.meta.id}`;
+          return [key, wrapResult(scraper.meta.id, false, undefined, error, 'auth_failed')] as const;
+        }
+        const slot = await acquirePortalSlot(env, scraper.meta);
+        if (!slot.ok) {
+          const error = `Rate limit reached for ${scraper.meta.id} (${slot.reason}), retry after ${slot.retryAfterSeconds}s`;
+          return [key, wrapResult(scraper.meta.id, false, undefined, error, 'blocked')] as const;
+        }
+        try {
+          return [key, await scraper.execute(shared.fetcher, env, input)] as const;
+        } catch (err: any) {
+          return [key, wrapResult(scraper.meta.id, false, undefined, `Scraper execution failed: ${err.message}`, errorTypeOf(err))] as const;
+        } finally {
+          await slot.release();
+        }
+      }),
+    );
+    return Object.fromEntries(entries) as Record<K, ScrapeResult>;
+  } finally {
+    await shared.close();
+  }
+}
+
+/** Error message for a composite whose every source failed */
+export function allSourcesFailed(sources: Record<string, SourceStatus>): string {
+  return `All sources failed: ${Object.entries(sources).map(([k, s]) => `${k}: ${s.error}`).join('; ')}`;
+}
+
+/** Error type for a composite whose every source failed: theirs if they agree, `upstream_error` otherwise */
+export function allSourcesFailedType(sources: Record<string, SourceStatus>): ScrapeErrorType {
+  const types = new Set(Object.values(sources).map((s) => s.errorType ?? 'upstream_error'));
+  return types.size === 1 ? [...types][0] : 'upstream_error';
+}
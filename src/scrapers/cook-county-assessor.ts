@@ -1,15 +1,17 @@
-import puppeteer from '@cloudflare/puppeteer';
-import { wrapResult, resolveSelector, type ScraperModule } from './base';
+import { wrapResult, resolveSelector, pageScraper, errorTypeOf, type ScrapeErrorType } from './base';
+import { formatPin, normalizePin, parseCents, parseIsoDate, pinInputError, type Cents } from '../normalize';
+import { eventUid, type CalendarEvent } from '../calendar';
 
 export interface AssessorResult {
   pin: string;
   address?: string;
-  assessedValue?: number;
-  marketValue?: number;
+  assessedValue?: Cents;
+  marketValue?: Cents;
   taxYear?: number;
   township?: string;
   triennial?: string;
   appealWindowOpen?: boolean;
+  /** `YYYY-MM-DD` */
   appealDeadline?: string;
   exemptions?: string[];
   alerts: string[];
@@ -22,29 +24,23 @@ export interface AssessorResult {
  * URL: https://www.cookcountyassessor.com/
  *
  * Searches by PIN and extracts assessed value, market value, triennial
- * reassessment info, appeal window dates, and exemptions.
+ * reassessment info, appeal window dates, and exemptions. `pin` is the
+ * 14-digit form from `normalizePin`.
  */
 async function scrapeCookCountyAssessor(
-  browser: Fetcher,
+  page: any,
   pin: string,
-): Promise<{ success: boolean; data?: AssessorResult; error?: string }> {
-  const cleanPin = pin.replace(/-/g, '');
-  let browserInstance: any;
-  let page: any;
+): Promise<{ success: boolean; data?: AssessorResult; error?: string; errorType?: ScrapeErrorType }> {
   try {
-    browserInstance = await puppeteer.launch(browser);
-    page = await browserInstance.newPage();
-    await page.setViewport({ width: 1280, height: 900 });
-
     // Go directly to PIN lookup
-    await page.goto(`https://www.cookcountyassessor.com/pin/${cleanPin}`, {
+    await page.goto(`https://www.cookcountyassessor.com/pin/${pin}`, {
       waitUntil: 'networkidle0',
       timeout: 25000,
     });
     await new Promise((resolve) => setTimeout(resolve, 2000));
 
     // Extract assessment data
-    const result = await page.evaluate((pinStr: string) => {
+    const assessorPage = await page.evaluate(() => {
       const doc = (globalThis as any).document;
       if (!doc) return null;
       const bodyText = doc.body?.innerText || '';
@@ -66,16 +62,12 @@ async function scrapeCookCountyAssessor(
       const township = findValue('Township', 'Tax Township');
       const triennial = findValue('Triennial', 'Reassessment');
 
-      const assessedValue = assessedStr ? parseFloat(assessedStr.replace(/[$,]/g, '')) : undefined;
-      const marketValue = marketStr ? parseFloat(marketStr.replace(/[$,]/g, '')) : undefined;
-      const taxYear = taxYearStr ? parseInt(taxYearStr, 10) : undefined;
-
       // Check appeal window
       let appealWindowOpen = false;
-      let appealDeadline: string | undefined;
+      let appealDeadlineText: string | undefined;
       const appealMatch = bodyText.match(/appeal.*?(?:deadline|by|before)\s+(\d{1,2}\/\d{1,2}\/\d{4}|\w+\s+\d+,?\s+\d{4})/i);
       if (appealMatch) {
-        appealDeadline = appealMatch[1];
+        appealDeadlineText = appealMatch[1];
         appealWindowOpen = true;
         alerts.push('APPEAL_WINDOW_OPEN');
       }
@@ -93,54 +85,116 @@ async function scrapeCookCountyAssessor(
         }
       }
 
-      if (assessedValue && marketValue && assessedValue > marketValue * 0.1 * 1.15) {
-        alerts.push('ASSESSMENT_MAY_BE_HIGH');
-      }
-
       return {
-        pin: pinStr,
         address: address || undefined,
-        assessedValue: isNaN(assessedValue!) ? undefined : assessedValue,
-        marketValue: isNaN(marketValue!) ? undefined : marketValue,
-        taxYear: isNaN(taxYear!) ? undefined : taxYear,
+        assessedStr,
+        marketStr,
+        taxYearStr,
         township: township || undefined,
         triennial: triennial || undefined,
         appealWindowOpen,
-        appealDeadline,
+        appealDeadlineText,
         exemptions: exemptions.length > 0 ? exemptions : undefined,
         alerts,
       };
-    }, pin) as AssessorResult | null;
+    });
 
-    if (!result) {
-      return { success: false, error: 'Could not extract assessor data' };
+    if (!assessorPage) {
+      return { success: false, error: 'Could not extract assessor data', errorType: 'selector_missing' };
     }
 
-    return { success: true, data: result };
+    const assessedValue = parseCents(assessorPage.assessedStr) ?? undefined;
+    const marketValue = parseCents(assessorPage.marketStr) ?? undefined;
+    const taxYear = parseInt(assessorPage.taxYearStr, 10);
+    const alerts: string[] = assessorPage.alerts;
+    if (assessedValue && marketValue && assessedValue > marketValue * 0.1 * 1.15) {
+      alerts.push('ASSESSMENT_MAY_BE_HIGH');
+    }
+
+    return {
+      success: true,
+      data: {
+        pin,
+        address: assessorPage.address,
+        assessedValue,
+        marketValue,
+        taxYear: isNaN(taxYear) ? undefined : taxYear,
+        township: assessorPage.township,
+        triennial: assessorPage.triennial,
+        appealWindowOpen: assessorPage.appealWindowOpen,
+        appealDeadline: parseIsoDate(assessorPage.appealDeadlineText) ?? undefined,
+        exemptions: assessorPage.exemptions,
+        alerts,
+      },
+    };
   } catch (err: any) {
-    return { success: false, error: err.message };
-  } finally {
-    if (page) await page.close().catch(() => {});
-    if (browserInstance) await browserInstance.close().catch(() => {});
+    return { success: false, error: err.message, errorType: errorTypeOf(err) };
   }
 }
 
-export const cookCountyAssessorScraper: ScraperModule<
+export const cookCountyAssessorScraper = pageScraper<
   { pin: string },
   AssessorResult
-> = {
+>({
   meta: {
     id: 'cook-county-assessor',
     name: 'Cook County Assessor — Property Assessment & Appeal Window',
     category: 'tax',
-    version: '0.1.0',
+    version: '0.2.0',
     requiresAuth: false,
+    cacheTtlSeconds: 86400,
+    sharedBrowser: true,
+    inputSchema: {
+      type: 'object',
+      required: ['pin'],
+      properties: {
+        pin: {
+          type: 'string',
+          minLength: 1,
+          pattern: '^[0-9\\s-]+$',
+          description: 'Cook County property index number, with or without dashes',
+          examples: ['12-34-567-890-0000'],
+        },
+      },
+    },
+    outputSchema: {
+      type: 'object',
+      properties: {
+        pin: { type: 'string' },
+        address: { type: 'string' },
+        assessedValue: { type: 'integer', description: 'Cents' },
+        marketValue: { type: 'integer', description: 'Cents' },
+        taxYear: { type: 'integer' },
+        township: { type: 'string' },
+        triennial: { type: 'string' },
+        appealWindowOpen: { type: 'boolean' },
+        appealDeadline: { type: 'string', format: 'date' },
+        exemptions: { type: 'array', items: { type: 'string' } },
+        alerts: { type: 'array', items: { type: 'string' } },
+      },
+    },
   },
-  async execute(browser, _env, input) {
-    if (!input?.pin?.trim()) {
-      return wrapResult<AssessorResult>('cook-county-assessor', false, undefined, 'pin is required');
-    }
-    const result = await scrapeCookCountyAssessor(browser, input.pin.trim());
-    return wrapResult('cook-county-assessor', result.success, result.data, result.error);
+  page: { viewport: { width: 1280, height: 900 } },
+  validate: (input) => pinInputError(input?.pin),
+  async execute(page, _env, input) {
+    const result = await scrapeCookCountyAssessor(page, normalizePin(input.pin)!);
+    return wrapResult('cook-county-assessor', result.success, result.data, result.error, result.errorType);
   },
-};
+  calendarEvents: assessorCalendarEvents,
+});
+
+function assessorCalendarEvents(data: AssessorResult): CalendarEvent[] {
+  if (!data.appealDeadline) return [];
+  const township = data.township ? ` in ${data.township} township` : '';
+  return [{
+    uid: eventUid('cook-county-assessor', `${data.pin}/appeal-deadline`),
+    date: data.appealDeadline,
+    summary: `Assessment appeal deadline (PIN ${formatPin(data.pin)})`,
+    description: [
+      `Last day to file an assessment appeal${township}`,
+      data.address && `Address: ${data.address}`,
+    ].filter(Boolean).join('\n'),
+    url: 'https://www.cookcountyassessor.com/',
+    categories: ['TAX'],
+  }];
+}
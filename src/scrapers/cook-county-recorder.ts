@@ -1,9 +1,10 @@
-import puppeteer from '@cloudflare/puppeteer';
-import { wrapResult, resolveSelector, type ScraperModule } from './base';
+import { wrapResult, resolveSelector, pageScraper, errorTypeOf, type ScrapeErrorType } from './base';
+import { normalizePin, parseIsoDate, pinInputError } from '../normalize';
 
 export interface RecorderFiling {
   documentNumber: string;
-  recordedDate: string;
+  /** `YYYY-MM-DD`; omitted when the row shows no readable date */
+  recordedDate?: string;
   documentType: string;
   grantorGrantee?: string;
   pages?: number;
@@ -24,19 +25,13 @@ export interface RecorderResult {
  *
  * Searches by PIN and extracts recent filings: liens, releases, deeds,
  * lis pendens, mortgages. Alerts on new filings that may need attention.
+ * `pin` is the 14-digit form from `normalizePin`.
  */
 async function scrapeCookCountyRecorder(
-  browser: Fetcher,
+  page: any,
   pin: string,
-): Promise<{ success: boolean; data?: RecorderResult; error?: string }> {
-  const cleanPin = pin.replace(/-/g, '');
-  let browserInstance: any;
-  let page: any;
+): Promise<{ success: boolean; data?: RecorderResult; error?: string; errorType?: ScrapeErrorType }> {
   try {
-    browserInstance = await puppeteer.launch(browser);
-    page = await browserInstance.newPage();
-    await page.setViewport({ width: 1280, height: 900 });
-
     await page.goto('https://www.cookcountyrecorder.com/', {
       waitUntil: 'networkidle0',
       timeout: 25000,
@@ -49,7 +44,7 @@ async function scrapeCookCountyRecorder(
       '#tabPIN',
       'a:contains("PIN")',
       '[data-tab="pin"]',
-    ]);
+    ], { scraper: 'cook-county-recorder', step: 'pin-tab' });
     if (pinTab) {
       await page.click(pinTab);
       await new Promise((resolve) => setTimeout(resolve, 1000));
@@ -63,31 +58,31 @@ async function scrapeCookCountyRecorder(
       'input[placeholder*="property" i]',
       '#txtPIN',
       'input[type="text"]',
-    ]);
+    ], { scraper: 'cook-county-recorder', step: 'pin-input' });
     if (!pinInput) {
-      return { success: false, error: 'Could not find PIN search input on Recorder page' };
+      return { success: false, error: 'Could not find PIN search input on Recorder page', errorType: 'selector_missing' };
     }
-    await page.type(pinInput, cleanPin);
+    await page.type(pinInput, pin);
 
     const searchBtn = await resolveSelector(page, [
       'input[type="submit"]',
       'button[type="submit"]',
       '#btnSearch',
       'button.search-btn',
-    ]);
+    ], { scraper: 'cook-county-recorder', step: 'search-button' });
     if (!searchBtn) {
-      return { success: false, error: 'Could not find search button' };
+      return { success: false, error: 'Could not find search button', errorType: 'selector_missing' };
     }
     await page.click(searchBtn);
     await page.waitForNavigation({ waitUntil: 'networkidle0', timeout: 20000 }).catch(() => {});
     await new Promise((resolve) => setTimeout(resolve, 2000));
 
     // Extract filings from results
-    const result = await page.evaluate((pinStr: string) => {
+    const recorderPage = await page.evaluate(() => {
       const doc = (globalThis as any).document;
       if (!doc) return null;
       const alerts: string[] = [];
-      const filings: RecorderFiling[] = [];
+      const filings: Array<Omit<RecorderFiling, 'recordedDate'> & { recordedDateText: string }> = [];
 
       // Parse table rows
       const rows = doc.querySelectorAll('table tbody tr, .result-row, .filing-row');
@@ -95,9 +90,9 @@ async function scrapeCookCountyRecorder(
         const cells = row.querySelectorAll('td, .cell');
         if (cells.length < 3) continue;
 
-        const filing: RecorderFiling = {
+        const filing = {
           documentNumber: (cells[0]?.textContent || '').trim(),
-          recordedDate: (cells[1]?.textContent || '').trim(),
+          recordedDateText: (cells[1]?.textContent || '').trim(),
           documentType: (cells[2]?.textContent || '').trim(),
           grantorGrantee: cells[3] ? (cells[3].textContent || '').trim() : undefined,
           pages: cells[4] ? parseInt(cells[4].textContent || '0', 10) : undefined,
@@ -106,12 +101,6 @@ async function scrapeCookCountyRecorder(
         if (filing.documentNumber && filing.documentType) {
           filings.push(filing);
         }
-
-        // Alert on concerning document types
-        const dtype = filing.documentType.toLowerCase();
-        if (dtype.includes('lis pendens') || dtype.includes('lien') || dtype.includes('judgment')) {
-          alerts.push(`CONCERNING_FILING: ${filing.documentType} recorded ${filing.recordedDate}`);
-        }
       }
 
       // If no table rows, try to parse from body text
@@ -124,43 +113,83 @@ async function scrapeCookCountyRecorder(
         }
       }
 
-      return {
-        pin: pinStr,
-        filings,
-        totalFilings: filings.length,
-        alerts,
-      };
-    }, pin) as RecorderResult | null;
+      return { filings, alerts };
+    });
 
-    if (!result) {
-      return { success: false, error: 'Could not extract recorder data' };
+    if (!recorderPage) {
+      return { success: false, error: 'Could not extract recorder data', errorType: 'selector_missing' };
     }
 
-    return { success: true, data: result };
+    const alerts: string[] = [];
+    const filings: RecorderFiling[] = recorderPage.filings.map(({ recordedDateText, ...row }: any) => {
+      const recordedDate = parseIsoDate(recordedDateText) ?? undefined;
+      // Alert on concerning document types
+      const dtype = row.documentType.toLowerCase();
+      if (dtype.includes('lis pendens') || dtype.includes('lien') || dtype.includes('judgment')) {
+        alerts.push(`CONCERNING_FILING: ${row.documentType} recorded ${recordedDate ?? recordedDateText}`);
+      }
+      return { ...row, recordedDate };
+    });
+
+    return {
+      success: true,
+      data: { pin, filings, totalFilings: filings.length, alerts: [...alerts, ...recorderPage.alerts] },
+    };
   } catch (err: any) {
-    return { success: false, error: err.message };
-  } finally {
-    if (page) await page.close().catch(() => {});
-    if (browserInstance) await browserInstance.close().catch(() => {});
+    return { success: false, error: err.message, errorType: errorTypeOf(err) };
   }
 }
 
-export const cookCountyRecorderScraper: ScraperModule<
+export const cookCountyRecorderScraper = pageScraper<
   { pin: string },
   RecorderResult
-> = {
+>({
   meta: {
     id: 'cook-county-recorder',
     name: 'Cook County Recorder of Deeds — PIN Filing Search',
     category: 'governance',
-    version: '0.1.0',
+    version: '0.2.0',
     requiresAuth: false,
+    sharedBrowser: true,
+    inputSchema: {
+      type: 'object',
+      required: ['pin'],
+      properties: {
+        pin: {
+          type: 'string',
+          minLength: 1,
+          pattern: '^[0-9\\s-]+$',
+          description: 'Cook County property index number, with or without dashes',
+          examples: ['12-34-567-890-0000'],
+        },
+      },
+    },
+    outputSchema: {
+      type: 'object',
+      properties: {
+        pin: { type: 'string' },
+        filings: {
+          type: 'array',
+          items: {
+            type: 'object',
+            properties: {
+              documentNumber: { type: 'string' },
+              recordedDate: { type: 'string', format: 'date' },
+              documentType: { type: 'string' },
+              grantorGrantee: { type: 'string' },
+              pages: { type: 'integer' },
+            },
+          },
+        },
+        totalFilings: { type: 'integer' },
+        alerts: { type: 'array', items: { type: 'string' } },
+      },
+    },
   },
-  async execute(browser, _env, input) {
-    if (!input?.pin?.trim()) {
-      return wrapResult<RecorderResult>('cook-county-recorder', false, undefined, 'pin is required');
-    }
-    const result = await scrapeCookCountyRecorder(browser, input.pin.trim());
-    return wrapResult('cook-county-recorder', result.success, result.data, result.error);
+  page: { viewport: { width: 1280, height: 900 } },
+  validate: (input) => pinInputError(input?.pin),
+  async execute(page, _env, input) {
+    const result = await scrapeCookCountyRecorder(page, normalizePin(input.pin)!);
+    return wrapResult('cook-county-recorder', result.success, result.data, result.error, result.errorType);
   },
-};
+});
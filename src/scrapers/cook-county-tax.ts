@@ -1,10 +1,13 @@
-import puppeteer from '@cloudflare/puppeteer';
-import { wrapResult, type ScraperModule } from './base';
+import { wrapResult, pageScraper, errorTypeOf, type ScrapeErrorType } from './base';
+import { formatCents, formatPin, normalizePin, parseCents, parseIsoDate, pinInputError, type Cents } from '../normalize';
+import { eventUid, type CalendarEvent } from '../calendar';
 
 export interface TaxInstallment {
   number: number;
-  amount: number;
-  dueDate: string;
+  /** Omitted when the page shows no readable amount */
+  amount?: Cents;
+  /** `YYYY-MM-DD`; omitted when the page shows no readable date */
+  dueDate?: string;
   status: string; // 'paid', 'unpaid', 'partial'
 }
 
@@ -15,10 +18,11 @@ export interface TaxResult {
     address?: string;
     taxYear: number;
     installments: TaxInstallment[];
-    totalTax: number;
+    totalTax: Cents;
     exemptions?: string[];
   };
   error?: string;
+  errorType?: ScrapeErrorType;
 }
 
 /**
@@ -27,20 +31,13 @@ export interface TaxResult {
  * Navigates to cookcountytreasurer.com, searches by PIN, and extracts
  * tax year, installment amounts/due dates/paid status, total tax, and exemptions.
  *
+ * `pin` is the 14-digit form from `normalizePin`.
+ *
  * NOTE: CSS selectors are placeholders based on typical government tax portal
  * structure and will need verification/adaptation against the live site.
  */
-export async function scrapeCookCountyTax(browser: Fetcher, pin: string): Promise<TaxResult> {
-  // Strip dashes from PIN (e.g. "12-34-567-890-0000" -> "12345678900000")
-  const cleanPin = pin.replace(/-/g, '');
-
-  let browserInstance: any;
-  let page: any;
+export async function scrapeCookCountyTax(page: any, pin: string): Promise<TaxResult> {
   try {
-    browserInstance = await puppeteer.launch(browser);
-    page = await browserInstance.newPage();
-    await page.setViewport({ width: 1280, height: 800 });
-
     // Navigate to the Cook County Treasurer property tax search page
     await page.goto('https://www.cookcountytreasurer.com/setsearchparameters.aspx', {
       waitUntil: 'networkidle0',
@@ -52,7 +49,7 @@ export async function scrapeCookCountyTax(browser: Fetcher, pin: string): Promis
     // NOTE: selector needs verification against live site
     const pinInputSelector = '#ContentPlaceHolder1_ASPxRoundPanel1_tbPin';
     await page.waitForSelector(pinInputSelector, { timeout: 10000 });
-    await page.type(pinInputSelector, cleanPin);
+    await page.type(pinInputSelector, pin);
 
     // Click search button
     // NOTE: selector needs verification against live site
@@ -71,7 +68,7 @@ export async function scrapeCookCountyTax(browser: Fetcher, pin: string): Promis
     // NOTE: All selectors below are reasonable placeholders based on typical
     // Cook County Treasurer page structure. They MUST be verified against the
     // live site and updated accordingly.
-    const taxData = await page.evaluate((inputPin: string) => {
+    const taxPage = await page.evaluate(() => {
       const doc = (globalThis as any).document;
       if (!doc) return null;
 
@@ -81,13 +78,6 @@ export async function scrapeCookCountyTax(browser: Fetcher, pin: string): Promis
         return el ? (el.textContent || '').trim() : '';
       };
 
-      // Helper to parse currency string to number
-      const parseCurrency = (s: string): number => {
-        const cleaned = s.replace(/[$,]/g, '');
-        const val = parseFloat(cleaned);
-        return isNaN(val) ? 0 : val;
-      };
-
       // Try to get the property address
       // NOTE: selector needs verification
       const address = text('#ContentPlaceHolder1_lblPropertyAddress')
@@ -101,15 +91,14 @@ export async function scrapeCookCountyTax(browser: Fetcher, pin: string): Promis
         || text('.tax-year')
         || text('[data-field="taxyear"]')
         || '';
-      const taxYear = parseInt(taxYearText, 10) || new Date().getFullYear() - 1;
 
       // Parse installments from the results table
       // The Treasurer site typically shows 1st and 2nd installment info
       // NOTE: table/row selectors need verification
       const installments: Array<{
         number: number;
-        amount: number;
-        dueDate: string;
+        amountText: string;
+        dueDateText: string;
         status: string;
       }> = [];
 
@@ -125,8 +114,8 @@ export async function scrapeCookCountyTax(browser: Fetcher, pin: string): Promis
           if (cells.length >= 3) {
             installments.push({
               number: i,
-              amount: parseCurrency(cells[1]?.textContent || '0'),
-              dueDate: (cells[2]?.textContent || '').trim(),
+              amountText: (cells[1]?.textContent || '').trim(),
+              dueDateText: (cells[2]?.textContent || '').trim(),
               status: determinePaidStatus(cells),
             });
           }
@@ -152,16 +141,16 @@ export async function scrapeCookCountyTax(browser: Fetcher, pin: string): Promis
         if (first) {
           installments.push({
             number: 1,
-            amount: parseCurrency(first),
-            dueDate: firstDue || 'March 1',
+            amountText: first,
+            dueDateText: firstDue || 'March 1',
             status: normalizeStatus(firstStatus),
           });
         }
         if (second) {
           installments.push({
             number: 2,
-            amount: parseCurrency(second),
-            dueDate: secondDue || 'August 1',
+            amountText: second,
+            dueDateText: secondDue || 'August 1',
             status: normalizeStatus(secondStatus),
           });
         }
@@ -173,11 +162,6 @@ export async function scrapeCookCountyTax(browser: Fetcher, pin: string): Promis
         || text('.total-tax-amount')
         || text('[data-field="totaltax"]')
         || '';
-      let totalTax = parseCurrency(totalTaxText);
-      // If we couldn't find a total, sum the installments
-      if (totalTax === 0 && installments.length > 0) {
-        totalTax = installments.reduce((sum, inst) => sum + inst.amount, 0);
-      }
 
       // Exemptions
       // NOTE: selector needs verification
@@ -198,9 +182,10 @@ export async function scrapeCookCountyTax(browser: Fetcher, pin: string): Promis
       function determinePaidStatus(cells: any): string {
         for (const cell of cells) {
           const t = (cell.textContent || '').toLowerCase();
-          if (t.includes('paid')) return 'paid';
-          if (t.includes('partial')) return 'partial';
+          // Check "unpaid" before "paid" -- the latter is a substring of the former
           if (t.includes('unpaid') || t.includes('due') || t.includes('outstanding')) return 'unpaid';
+          if (t.includes('partial')) return 'partial';
+          if (t.includes('paid')) return 'paid';
         }
         return 'unpaid';
       }
@@ -214,55 +199,130 @@ export async function scrapeCookCountyTax(browser: Fetcher, pin: string): Promis
       }
 
       return {
-        pin: inputPin,
         address: address || undefined,
-        taxYear,
+        taxYearText,
         installments,
-        totalTax,
+        totalTaxText,
         exemptions: exemptions.length > 0 ? exemptions : undefined,
       };
-    }, cleanPin);
+    });
 
-    if (!taxData) {
+    if (!taxPage) {
       return {
         success: false,
         error: 'Could not extract tax data -- page structure may have changed',
+        errorType: 'selector_missing',
       };
     }
 
+    const taxYear = parseInt(taxPage.taxYearText, 10) || new Date().getFullYear() - 1;
+    const installments: TaxInstallment[] = taxPage.installments.map((inst: any) => {
+      // Installments for tax year N fall due in N+1; the fallback labels carry no year
+      const dueDate = parseIsoDate(inst.dueDateText, { defaultYear: taxYear + 1 });
+      const amount = parseCents(inst.amountText);
+      return {
+        number: inst.number,
+        ...(amount !== null ? { amount } : {}),
+        ...(dueDate ? { dueDate } : {}),
+        status: inst.status,
+      };
+    });
+    // If we couldn't find a total, sum the installments
+    const totalTax = parseCents(taxPage.totalTaxText) ?? installments.reduce((sum, inst) => sum + (inst.amount ?? 0), 0);
+
     // Verify we got meaningful data
-    if (taxData.installments.length === 0 && taxData.totalTax === 0) {
+    if (installments.length === 0 && totalTax === 0) {
       return {
         success: false,
         error: 'No tax data found for the given PIN -- verify PIN is correct or selectors need updating',
+        errorType: 'not_found',
       };
     }
 
     return {
       success: true,
-      data: taxData,
+      data: {
+        pin,
+        address: taxPage.address,
+        taxYear,
+        installments,
+        totalTax,
+        exemptions: taxPage.exemptions,
+      },
     };
   } catch (err: any) {
-    return { success: false, error: err.message };
-  } finally {
-    if (page) await page.close().catch(() => {});
-    if (browserInstance) await browserInstance.close().catch(() => {});
+    return { success: false, error: err.message, errorType: errorTypeOf(err) };
   }
 }
 
-export const cookCountyTaxScraper: ScraperModule<{ pin: string }, TaxResult['data']> = {
+export const cookCountyTaxScraper = pageScraper<{ pin: string }, TaxResult['data']>({
   meta: {
     id: 'cook-county-tax',
     name: 'Cook County Property Tax',
     category: 'tax',
-    version: '0.1.0',
+    version: '0.2.0',
     requiresAuth: false,
+    sharedBrowser: true,
+    // cookcountytreasurer.com throttles bursts from one address
+    rateLimit: { requestsPerMinute: 12 },
+    inputSchema: {
+      type: 'object',
+      required: ['pin'],
+      properties: {
+        pin: {
+          type: 'string',
+          minLength: 1,
+          pattern: '^[0-9\\s-]+$',
+          description: 'Cook County property index number, with or without dashes',
+          examples: ['12-34-567-890-0000'],
+        },
+      },
+    },
+    outputSchema: {
+      type: 'object',
+      properties: {
+        pin: { type: 'string' },
+        address: { type: 'string' },
+        taxYear: { type: 'integer' },
+        installments: {
+          type: 'array',
+          items: {
+            type: 'object',
+            properties: {
+              number: { type: 'integer' },
+              amount: { type: 'integer', description: 'Cents' },
+              dueDate: { type: 'string', format: 'date' },
+              status: { type: 'string', enum: ['paid', 'unpaid', 'partial'] },
+            },
+          },
+        },
+        totalTax: { type: 'integer', description: 'Cents' },
+        exemptions: { type: 'array', items: { type: 'string' } },
+      },
+    },
   },
-  async execute(browser, env, input) {
-    if (!input?.pin?.trim()) {
-      return wrapResult('cook-county-tax', false, undefined, 'pin is required');
-    }
-    const result = await scrapeCookCountyTax(browser, input.pin);
-    return wrapResult('cook-county-tax', result.success, result.data, result.error);
+  validate: (input) => pinInputError(input?.pin),
+  async execute(page, _env, input) {
+    const result = await scrapeCookCountyTax(page, normalizePin(input.pin)!);
+    return wrapResult('cook-county-tax', result.success, result.data, result.error, result.errorType);
   },
-};
+  calendarEvents: (data) => taxCalendarEvents(data!),
+});
+
+/** Installments still owed -- paid ones need no reminder */
+function taxCalendarEvents(data: NonNullable<TaxResult['data']>): CalendarEvent[] {
+  const pin = formatPin(data.pin);
+  return data.installments
+    .filter((inst) => inst.dueDate && inst.status !== 'paid')
+    .map((inst) => ({
+      uid: eventUid('cook-county-tax', `${data.pin}/${data.taxYear}/installment-${inst.number}`),
+      date: inst.dueDate!,
+      summary: `Property tax installment #${inst.number} due${inst.amount !== undefined ? `: ${formatCents(inst.amount)}` : ''} (PIN ${pin})`,
+      description: [
+        `Tax year ${data.taxYear}, status ${inst.status}`,
+        data.address && `Address: ${data.address}`,
+      ].filter(Boolean).join('\n'),
+      url: 'https://www.cookcountytreasurer.com/setsearchparameters.aspx',
+      categories: ['TAX'],
+    }));
+}
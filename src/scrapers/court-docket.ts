@@ -1,42 +1,63 @@
-import puppeteer from '@cloudflare/puppeteer';
-import { wrapResult, type ScraperModule } from './base';
+import { wrapResult, resolveSelector, pageScraper, errorTypeOf, type ScrapeErrorType } from './base';
+import { parseIsoDate } from '../normalize';
+import { caseNumberInputError, parseCaseNumber, type CookCountyCaseNumber } from '../case-number';
+import { eventUid, type CalendarEvent } from '../calendar';
 
 interface DocketEntry {
-  date: string;
+  /** `YYYY-MM-DD`; omitted when the activity carries no readable date */
+  date?: string;
   description: string;
   filedBy?: string;
 }
 
+interface DocketParty {
+  /** As the clerk labels it: Plaintiff, Defendant, Petitioner, Respondent, ... */
+  role: string;
+  name: string;
+}
+
 interface DocketResult {
   success: boolean;
   data?: {
+    /** Canonical, e.g. `2024D001234` */
     caseNumber: string;
+    /** Division the case number's code belongs to, e.g. `Domestic Relations` */
+    division: string;
     parties?: string;
+    /** Each party with its role, when the clerk lists them separately from the case title */
+    partyList?: DocketParty[];
     judge?: string;
+    calendar?: string;
     status?: string;
     entries: DocketEntry[];
+    /** `YYYY-MM-DD` */
     nextHearing?: string;
+    /** Which clerk page the docket came from: the CivilCases JSON API or the HTML case search */
+    source: 'api' | 'html';
   };
   error?: string;
+  errorType?: ScrapeErrorType;
 }
 
-export async function scrapeCookCountyDocket(browser: Fetcher, caseNumber: string): Promise<DocketResult> {
-  let browserInstance: any;
-  let page: any;
-  try {
-    browserInstance = await puppeteer.launch(browser);
-    page = await browserInstance.newPage();
-    await page.setViewport({ width: 1280, height: 800 });
+const CIVIL_CASES_API = 'https://casesearch.cookcountyclerkofcourt.org/CivilCaseSearchAPI/api/CivilCases';
+const CASE_SEARCH_PAGE = 'https://casesearch.cookcountyclerkofcourt.org/CivilCaseSearchAPI.html';
 
+/**
+ * Look up one case on the clerk's civil case search; `parseCaseNumber` has already
+ * vetted the number. The CivilCases API answers with JSON when it is up; otherwise
+ * the case is searched for on the HTML page and read from the case detail it shows.
+ */
+export async function scrapeCookCountyDocket(page: any, caseNumber: CookCountyCaseNumber): Promise<DocketResult> {
+  try {
     // Cook County Circuit Clerk has a civil case search
     // Try the case search page
-    await page.goto('https://casesearch.cookcountyclerkofcourt.org/CivilCaseSearchAPI/api/CivilCases', {
+    await page.goto(CIVIL_CASES_API, {
       waitUntil: 'networkidle0',
       timeout: 20000,
     });
 
     // Try direct case lookup
-    await page.goto(`https://casesearch.cookcountyclerkofcourt.org/CivilCaseSearchAPI/api/CivilCases/${caseNumber}`, {
+    await page.goto(`${CIVIL_CASES_API}/${caseNumber.caseNumber}`, {
       waitUntil: 'networkidle0',
       timeout: 20000,
     });
@@ -54,7 +75,7 @@ export async function scrapeCookCountyDocket(browser: Fetcher, caseNumber: strin
 
     if (caseData) {
       const entries: DocketEntry[] = (caseData.activities || caseData.docketEntries || []).map((e: any) => ({
-        date: e.activityDate || e.date || '',
+        date: parseIsoDate(e.activityDate || e.date) ?? undefined,
         description: e.activityDescription || e.description || '',
         filedBy: e.filedBy || undefined,
       }));
@@ -62,43 +83,231 @@ export async function scrapeCookCountyDocket(browser: Fetcher, caseNumber: strin
       return {
         success: true,
         data: {
-          caseNumber,
+          caseNumber: caseNumber.caseNumber,
+          division: caseNumber.divisionName,
           parties: caseData.caseTitle || caseData.parties || undefined,
           judge: caseData.judgeName || caseData.judge || undefined,
+          calendar: caseData.calendar || undefined,
           status: caseData.caseStatus || caseData.status || undefined,
           entries,
-          nextHearing: caseData.nextCourtDate || caseData.nextHearing || undefined,
+          nextHearing: parseIsoDate(caseData.nextCourtDate || caseData.nextHearing) ?? undefined,
+          source: 'api',
         },
       };
     }
 
-    // Fallback -- if the page isn't JSON, try HTML scraping
-    // This will need to be adapted after testing against the actual live site
+    return await scrapeDocketHtml(page, caseNumber);
+  } catch (err: any) {
+    return { success: false, error: err.message, errorType: errorTypeOf(err) };
+  }
+}
+
+/**
+ * HTML fallback: search the clerk's case search page by number and read the case
+ * detail -- labelled summary fields, the party table and the case activity table.
+ *
+ * NOTE: selectors and labels follow the clerk's case detail layout as documented;
+ * verify against the live site.
+ */
+async function scrapeDocketHtml(page: any, caseNumber: CookCountyCaseNumber): Promise<DocketResult> {
+  await page.goto(CASE_SEARCH_PAGE, { waitUntil: 'networkidle0', timeout: 20000 });
+
+  const caseInput = await resolveSelector(page, [
+    '#caseNumber',
+    'input[name="caseNumber"]',
+    'input[placeholder*="case number" i]',
+  ], { scraper: 'court-docket', step: 'case-number-input' });
+  if (!caseInput) {
+    return { success: false, error: 'Could not find the case number input on the clerk case search page', errorType: 'selector_missing' };
+  }
+  await page.type(caseInput, caseNumber.caseNumber);
+
+  const searchBtn = await resolveSelector(page, [
+    '#searchButton',
+    'button[type="submit"]',
+    'input[type="submit"]',
+  ], { scraper: 'court-docket', step: 'search-button' });
+  if (!searchBtn) {
+    return { success: false, error: 'Could not find search button', errorType: 'selector_missing' };
+  }
+  await page.click(searchBtn);
+  await page.waitForNavigation({ waitUntil: 'networkidle0', timeout: 15000 }).catch(() => {});
+  await new Promise((resolve) => setTimeout(resolve, 2000));
+
+  const detail = await page.evaluate(() => {
+    const doc = (globalThis as any).document;
+    if (!doc) return null;
+    const bodyText: string = doc.body?.innerText || '';
+
+    // "Judge:<tab>Hon. A. Example" -- labels start a line, so "Status" doesn't match inside "Case Status"
+    const findValue = (...labels: string[]): string => {
+      for (const label of labels) {
+        const match = bodyText.match(new RegExp('^\\s*' + label + '\\s*:?[ \\t]*(.+)$', 'im'));
+        if (match) return match[1].trim();
+      }
+      return '';
+    };
+
+    // Tables are told apart by their header row; returns the body rows as cell text keyed by header
+    const tableRows = (isMatch: (headers: string[]) => boolean): Array<Record<string, string>> => {
+      for (const table of doc.querySelectorAll('table')) {
+        const headerCells = table.querySelectorAll('th');
+        const headers: string[] = [];
+        for (const th of headerCells) headers.push((th.textContent || '').trim().toLowerCase());
+        if (!isMatch(headers)) continue;
+        const rows: Array<Record<string, string>> = [];
+        for (const tr of table.querySelectorAll('tbody tr')) {
+          const cells = tr.querySelectorAll('td');
+          if (cells.length === 0) continue;
+          const row: Record<string, string> = {};
+          headers.forEach((header, i) => { row[header] = (cells[i]?.textContent || '').trim(); });
+          rows.push(row);
+        }
+        return rows;
+      }
+      return [];
+    };
+    // First header containing one of `names`, tried in order -- "Activity Date" is a date column, not the activity
+    const column = (row: Record<string, string>, ...names: string[]): string => {
+      for (const name of names) {
+        const key = Object.keys(row).find((h) => h.includes(name));
+        if (key) return row[key];
+      }
+      return '';
+    };
+
+    const parties = tableRows((h) => h.some((x) => x.includes('party')))
+      .map((row) => ({ role: column(row, 'type', 'role'), name: column(row, 'name') }))
+      .filter((p) => p.name);
+    const activities = tableRows((h) => h.some((x) => x.includes('date')) && h.some((x) => /activity|event|description/.test(x)))
+      .map((row) => ({
+        date: column(row, 'date'),
+        description: column(row, 'description', 'event', 'activity'),
+        filedBy: column(row, 'filed by', 'party'),
+      }))
+      .filter((a) => a.description);
+
+    const lower = bodyText.toLowerCase();
     return {
-      success: false,
-      error: 'Could not parse case data -- site may require HTML scraping adaptation',
+      notFound: lower.includes('no cases found') || lower.includes('no records found') || lower.includes('no matching cases'),
+      caseTitle: findValue('Case Title', 'Case Caption', 'Style of Case'),
+      judge: findValue('Judge', 'Assigned Judge'),
+      calendar: findValue('Calendar'),
+      status: findValue('Case Status', 'Status'),
+      nextCourtDate: findValue('Next Court Date', 'Next Hearing Date'),
+      parties,
+      activities,
     };
-  } catch (err: any) {
-    return { success: false, error: err.message };
-  } finally {
-    if (page) await page.close().catch(() => {});
-    if (browserInstance) await browserInstance.close().catch(() => {});
+  });
+
+  if (!detail) {
+    return { success: false, error: 'Could not extract case details', errorType: 'selector_missing' };
+  }
+  if (detail.notFound) {
+    return { success: false, error: `No case found for ${caseNumber.formatted}`, errorType: 'not_found' };
+  }
+  if (!detail.caseTitle && !detail.judge && detail.parties.length === 0 && detail.activities.length === 0) {
+    return { success: false, error: 'Could not extract case details -- case search page structure may have changed', errorType: 'selector_missing' };
   }
+
+  const partyList: DocketParty[] = detail.parties;
+  return {
+    success: true,
+    data: {
+      caseNumber: caseNumber.caseNumber,
+      division: caseNumber.divisionName,
+      parties: detail.caseTitle || partyList.map((p) => p.name).join('; ') || undefined,
+      partyList: partyList.length > 0 ? partyList : undefined,
+      judge: detail.judge || undefined,
+      calendar: detail.calendar || undefined,
+      status: detail.status || undefined,
+      entries: detail.activities.map((a: { date: string; description: string; filedBy: string }) => ({
+        date: parseIsoDate(a.date) ?? undefined,
+        description: a.description,
+        filedBy: a.filedBy || undefined,
+      })),
+      nextHearing: parseIsoDate(detail.nextCourtDate) ?? undefined,
+      source: 'html',
+    },
+  };
 }
 
-export const courtDocketScraper: ScraperModule<{ caseNumber: string }, DocketResult['data']> = {
+export const courtDocketScraper = pageScraper<{ caseNumber: string }, DocketResult['data']>({
   meta: {
     id: 'court-docket',
     name: 'Cook County Court Docket',
     category: 'court',
-    version: '0.1.0',
+    version: '0.2.0',
     requiresAuth: false,
+    // New filings can land on a docket during the day
+    cacheTtlSeconds: 6 * 3600,
+    sharedBrowser: true,
+    inputSchema: {
+      type: 'object',
+      required: ['caseNumber'],
+      properties: {
+        caseNumber: {
+          type: 'string',
+          minLength: 1,
+          description: 'Cook County case number: year, division code and sequence, with or without separators',
+          examples: ['2024-D-001234', '2024CH01234'],
+        },
+      },
+    },
+    outputSchema: {
+      type: 'object',
+      properties: {
+        caseNumber: { type: 'string' },
+        division: { type: 'string' },
+        parties: { type: 'string' },
+        partyList: {
+          type: 'array',
+          items: { type: 'object', properties: { role: { type: 'string' }, name: { type: 'string' } } },
+        },
+        judge: { type: 'string' },
+        calendar: { type: 'string' },
+        status: { type: 'string' },
+        entries: {
+          type: 'array',
+          items: {
+            type: 'object',
+            properties: {
+              date: { type: 'string', format: 'date' },
+              description: { type: 'string' },
+              filedBy: { type: 'string' },
+            },
+          },
+        },
+        nextHearing: { type: 'string', format: 'date' },
+        source: { type: 'string', enum: ['api', 'html'] },
+      },
+    },
   },
-  async execute(browser, env, input) {
-    if (!input?.caseNumber?.trim()) {
-      return wrapResult('court-docket', false, undefined, 'caseNumber is required');
-    }
-    const result = await scrapeCookCountyDocket(browser, input.caseNumber);
-    return wrapResult('court-docket', result.success, result.data, result.error);
+  validate: (input) => caseNumberInputError(input?.caseNumber),
+  async execute(page, _env, input) {
+    const result = await scrapeCookCountyDocket(page, parseCaseNumber(input.caseNumber)!);
+    return wrapResult('court-docket', result.success, result.data, result.error, result.errorType);
   },
-};
+  calendarEvents: (data) => docketCalendarEvents(data!),
+});
+
+/** The next hearing, one UID per case so a continuance moves the event */
+function docketCalendarEvents(data: NonNullable<DocketResult['data']>): CalendarEvent[] {
+  if (!data.nextHearing) return [];
+  const formatted = parseCaseNumber(data.caseNumber)?.formatted ?? data.caseNumber;
+  const details = [
+    data.parties && `Parties: ${data.parties}`,
+    `Division: ${data.division}`,
+    data.judge && `Judge: ${data.judge}`,
+    data.calendar && `Calendar: ${data.calendar}`,
+    data.status && `Status: ${data.status}`,
+  ].filter(Boolean);
+  return [{
+    uid: eventUid('court-docket', `${data.caseNumber}/next-hearing`),
+    date: data.nextHearing,
+    summary: data.parties ? `Hearing ${formatted}: ${data.parties}` : `Hearing ${formatted}`,
+    description: details.join('\n'),
+    url: CASE_SEARCH_PAGE,
+    categories: ['COURT'],
+  }];
+}
@@ -1,169 +1,428 @@
-import puppeteer from '@cloudflare/puppeteer';
-import { wrapResult, type ScraperModule } from './base';
+import { wrapResult, withPage, errorTypeOf, type ScraperModule } from './base';
+import { parseIsoDate } from '../normalize';
+import { CASE_DIVISIONS, parseCaseNumber } from '../case-number';
+import {
+  businessName,
+  nameMatchScore,
+  parsePartyName,
+  personName,
+  searchTerm,
+  splitCaption,
+  type PartyName,
+} from '../name-match';
 
 export interface CaseMatch {
+  /** Canonical (`2024D001234`) when it parses, so it can go straight to `court-docket`; as printed otherwise */
   caseNumber: string;
   parties?: string;
   court?: string;
   division?: string;
   status?: string;
+  /** `YYYY-MM-DD` */
   filingDate?: string;
   judge?: string;
 }
 
+/** One searched party, by first/last name or business name, with the other names it goes by */
+export interface CourtSearchParty {
+  firstName?: string;
+  lastName?: string;
+  businessName?: string;
+  /** Free-form: `Smith, Jon`, `J. Smith`, `Example Holdings Inc` */
+  aliases?: string[];
+}
+
+export interface CourtNameSearchInput {
+  /** One party as a free-form name: `Smith, John A` or `Example Holdings LLC` */
+  name?: string;
+  parties?: CourtSearchParty[];
+  /** Division codes (`CH`, `D`, `L`, `M1`, ...) to keep; default all */
+  divisions?: string[];
+  /** Inclusive `YYYY-MM-DD` bounds on `filingDate` */
+  filedFrom?: string;
+  filedTo?: string;
+  /** Drop cases whose best name match scores lower (default 0.5) */
+  minScore?: number;
+}
+
+/** A searched party found in a case caption */
+export interface PartyNameMatch {
+  /** The searched party, as labelled in `searchedParties` */
+  party: string;
+  /** The name as the caption prints it */
+  name: string;
+  score: number;
+}
+
+export interface ScoredCaseMatch extends CaseMatch {
+  /** Best name-match confidence across `matches`, 0-1 */
+  score: number;
+  matches: PartyNameMatch[];
+}
+
 export interface CourtNameSearchData {
+  /** The first of `searchNames` */
   searchName: string;
+  searchedParties: string[];
+  /** Names sent to the clerk's search -- one per distinct surname or business name */
+  searchNames: string[];
   totalResults: number;
-  cases: CaseMatch[];
-  source: 'api' | 'html' | 'none';
+  /** Highest score first */
+  cases: ScoredCaseMatch[];
+  source: 'api' | 'html' | 'mixed' | 'none';
 }
 
-export const courtNameSearchScraper: ScraperModule<
-  { name: string },
-  CourtNameSearchData
-> = {
-  meta: {
-    id: 'court-name-search',
-    name: 'Cook County Court Name Search',
-    category: 'court',
-    version: '0.1.0',
-    requiresAuth: false,
-  },
+const DEFAULT_MIN_SCORE = 0.5;
+/** Cases with no caption to compare: the clerk matched the searched name, nothing more is known */
+const UNCAPTIONED_SCORE = 0.5;
+/** Each name is its own clerk search, run one after another on the same page */
+const MAX_SEARCH_NAMES = 5;
+/** Deadline share of one search: the API navigation, then the HTML fallback's load, submit and settle */
+const SEARCH_TIMEOUT_MS = 70_000;
 
-  async execute(browser, env, input) {
-    const searchName = input.name?.trim();
-    if (!searchName) {
-      return wrapResult<CourtNameSearchData>('court-name-search', false, undefined, 'name is required');
+/**
+ * Case numbers and filing dates in canonical form, whichever path found the case.
+ * The division falls back to the one the case number's code names.
+ */
+function normalizeCaseMatch(match: CaseMatch): CaseMatch {
+  const parsed = parseCaseNumber(match.caseNumber);
+  return {
+    ...match,
+    caseNumber: parsed?.caseNumber ?? match.caseNumber,
+    division: match.division || parsed?.divisionName,
+    filingDate: parseIsoDate(match.filingDate) ?? undefined,
+  };
+}
+
+interface SearchedParty {
+  label: string;
+  names: PartyName[];
+}
+
+/** Each requested party with every name it is known by; unusable names are dropped */
+function searchedParties(input: CourtNameSearchInput): SearchedParty[] {
+  const parties: SearchedParty[] = [];
+  if (input.name?.trim()) {
+    const name = parsePartyName(input.name);
+    if (name) parties.push({ label: input.name.trim(), names: [name] });
+  }
+  for (const party of input.parties ?? []) {
+    const primary = party.businessName?.trim()
+      ? businessName(party.businessName)
+      : party.lastName?.trim() ? personName(party.lastName, party.firstName) : null;
+    const names = [primary, ...(party.aliases ?? []).map(parsePartyName)].filter((n): n is PartyName => !!n);
+    if (names.length === 0) continue;
+    const label = party.businessName?.trim()
+      || [party.lastName?.trim(), party.firstName?.trim()].filter(Boolean).join(', ')
+      || party.aliases!.find((a) => a.trim())!.trim();
+    parties.push({ label, names });
+  }
+  return parties;
+}
+
+/** `validate`-style message for an input that can't be searched, undefined when it can */
+export function courtNameSearchInputError(input: CourtNameSearchInput | undefined): string | undefined {
+  const parties = searchedParties(input ?? {});
+  if (parties.length === 0) return 'name or parties is required (each party needs lastName, businessName or aliases)';
+  const terms = new Set(parties.flatMap((p) => p.names.map(searchTerm)));
+  if (terms.size > MAX_SEARCH_NAMES) {
+    return `parties must come to at most ${MAX_SEARCH_NAMES} distinct surnames or business names (got ${terms.size})`;
+  }
+  for (const field of ['filedFrom', 'filedTo'] as const) {
+    const value = input?.[field];
+    if (value !== undefined && parseIsoDate(value) !== value) return `${field} must be a YYYY-MM-DD date`;
+  }
+  if (input?.filedFrom && input.filedTo && input.filedFrom > input.filedTo) return 'filedFrom must not be after filedTo';
+  return undefined;
+}
+
+/**
+ * Score a case against every searched party. Each caption name is compared with
+ * each of a party's names; the party's best comparison counts.
+ */
+function scoreCase(match: CaseMatch, parties: SearchedParty[]): ScoredCaseMatch {
+  const captionNames = match.parties
+    ? splitCaption(match.parties).map((raw) => ({ raw, name: parsePartyName(raw) }))
+    : [];
+  if (captionNames.length === 0) return { ...match, score: UNCAPTIONED_SCORE, matches: [] };
+
+  const matches: PartyNameMatch[] = [];
+  for (const party of parties) {
+    let best: PartyNameMatch | undefined;
+    for (const { raw, name } of captionNames) {
+      if (!name) continue;
+      const score = Math.max(...party.names.map((q) => nameMatchScore(q, name)));
+      if (score > 0 && (!best || score > best.score)) best = { party: party.label, name: raw, score };
     }
+    if (best) matches.push({ ...best, score: Math.round(best.score * 100) / 100 });
+  }
+  matches.sort((a, b) => b.score - a.score);
+  return { ...match, score: matches[0]?.score ?? 0, matches };
+}
 
-    let browserInstance: any;
-    let page: any;
-    try {
-      browserInstance = await puppeteer.launch(browser);
-      page = await browserInstance.newPage();
-      await page.setViewport({ width: 1280, height: 800 });
+/** The requested divisions and filing-date range; a case without a filing date can't be in a range */
+function caseFilter(input: CourtNameSearchInput): (match: CaseMatch) => boolean {
+  const divisions = input.divisions?.length ? new Set(input.divisions.map((d) => d.toUpperCase())) : null;
+  return (match) => {
+    if (divisions) {
+      const code = parseCaseNumber(match.caseNumber)?.division;
+      const named = [...divisions].some((d) => CASE_DIVISIONS[d]?.toLowerCase() === match.division?.toLowerCase());
+      if (code ? !divisions.has(code) : !named) return false;
+    }
+    if (input.filedFrom || input.filedTo) {
+      if (!match.filingDate) return false;
+      if (input.filedFrom && match.filingDate < input.filedFrom) return false;
+      if (input.filedTo && match.filingDate > input.filedTo) return false;
+    }
+    return true;
+  };
+}
+
+/**
+ * Search the clerk for one name: the CivilCases API, then the HTML search page when it
+ * has nothing. Business names go in the last-name field too -- the clerk's search has
+ * no separate business-name parameter that is known to work -- so a business is only
+ * found where the clerk indexes its name as a party surname.
+ */
+async function searchClerk(page: any, searchName: string): Promise<{ cases: CaseMatch[]; source: 'api' | 'html' }> {
+  const allCases: CaseMatch[] = [];
+  let source: 'api' | 'html' = 'api';
+
+  // Cook County Circuit Clerk case search -- try API first
+  const apiUrl = `https://casesearch.cookcountyclerkofcourt.org/CivilCaseSearchAPI/api/CivilCases?LastName=${encodeURIComponent(searchName)}`;
+
+  await page.goto(apiUrl, {
+    waitUntil: 'networkidle0',
+    timeout: 30000,
+  });
+
+  const bodyText = await page.evaluate(() =>
+    (globalThis as any).document?.body?.innerText || '',
+  );
 
-      const allCases: CaseMatch[] = [];
-      let source: 'api' | 'html' | 'none' = 'none';
+  let apiData: any;
+  try {
+    apiData = JSON.parse(bodyText);
+  } catch {
+    console.error(`Court name search API returned non-JSON for "${searchName}"`);
+    apiData = null;
+  }
 
-      // Cook County Circuit Clerk case search -- try API first
-      const apiUrl = `https://casesearch.cookcountyclerkofcourt.org/CivilCaseSearchAPI/api/CivilCases?LastName=${encodeURIComponent(searchName)}`;
+  if (apiData && !Array.isArray(apiData)) {
+    console.error(`Court name search API returned unexpected shape for "${searchName}"`);
+    apiData = null;
+  }
 
-      await page.goto(apiUrl, {
-        waitUntil: 'networkidle0',
-        timeout: 30000,
+  if (apiData && Array.isArray(apiData)) {
+    for (const item of apiData) {
+      allCases.push({
+        caseNumber: item.caseNumber || item.caseId || '',
+        parties: item.caseTitle || item.parties || undefined,
+        court: 'Cook County Circuit Court',
+        division: item.division || item.caseType || undefined,
+        status: item.caseStatus || item.status || undefined,
+        filingDate: item.filingDate || item.fileDate || undefined,
+        judge: item.judgeName || item.judge || undefined,
       });
+    }
+  }
 
-      const bodyText = await page.evaluate(() =>
-        (globalThis as any).document?.body?.innerText || '',
-      );
+  // If API didn't return results, try the HTML search page
+  if (allCases.length === 0) {
+    source = 'html';
+    console.warn(`Court name search API returned no results for "${searchName}", falling back to HTML scraping`);
+    await page.goto('https://casesearch.cookcountyclerkofcourt.org/CivilCaseSearchAPI.html', {
+      waitUntil: 'networkidle0',
+      timeout: 20000,
+    });
 
-      let apiData: any;
-      try {
-        apiData = JSON.parse(bodyText);
-      } catch {
-        console.error(`Court name search API returned non-JSON for "${searchName}"`);
-        apiData = null;
-      }
+    const nameInput = await page.$('input[name="lastName"], #lastName, input[placeholder*="name" i]');
+    if (nameInput) {
+      await page.type('input[name="lastName"], #lastName, input[placeholder*="name" i]', searchName);
 
-      if (apiData && !Array.isArray(apiData)) {
-        console.error(`Court name search API returned unexpected shape for "${searchName}"`);
-        apiData = null;
-      }
+      const searchBtn = await page.$('button[type="submit"], #searchButton, .search-btn, input[type="submit"]');
+      if (searchBtn) {
+        await searchBtn.click();
+        try {
+          await page.waitForNavigation({ waitUntil: 'networkidle0', timeout: 15000 });
+        } catch (navErr: any) {
+          if (!navErr.message?.includes('timeout')) {
+            console.error(`HTML search navigation failed: ${navErr.message}`);
+          }
+        }
+        await new Promise((r) => setTimeout(r, 2000));
+
+        const htmlCases = await page.evaluate(() => {
+          const doc = (globalThis as any).document;
+          if (!doc) return [];
+          const results: Array<{
+            caseNumber: string;
+            parties?: string;
+            division?: string;
+            status?: string;
+            filingDate?: string;
+          }> = [];
+          const rows = doc.querySelectorAll('table tr, .search-result, .case-row, [data-testid="case-row"]');
+          if (rows) {
+            for (let i = 0; i < rows.length && i < 100; i++) {
+              const cells = rows[i].querySelectorAll('td');
+              if (cells.length >= 2) {
+                const caseNum = (cells[0]?.textContent || '').trim();
+                if (!caseNum || caseNum.toLowerCase().includes('case')) continue;
+                results.push({
+                  caseNumber: caseNum,
+                  parties: cells.length >= 2 ? (cells[1]?.textContent || '').trim() : undefined,
+                  division: cells.length >= 3 ? (cells[2]?.textContent || '').trim() : undefined,
+                  status: cells.length >= 4 ? (cells[3]?.textContent || '').trim() : undefined,
+                  filingDate: cells.length >= 5 ? (cells[4]?.textContent || '').trim() : undefined,
+                });
+              }
+            }
+          }
+          return results;
+        });
 
-      if (apiData && Array.isArray(apiData)) {
-        source = 'api';
-        for (const item of apiData) {
+        for (const c of htmlCases) {
           allCases.push({
-            caseNumber: item.caseNumber || item.caseId || '',
-            parties: item.caseTitle || item.parties || undefined,
+            ...c,
             court: 'Cook County Circuit Court',
-            division: item.division || item.caseType || undefined,
-            status: item.caseStatus || item.status || undefined,
-            filingDate: item.filingDate || item.fileDate || undefined,
-            judge: item.judgeName || item.judge || undefined,
           });
         }
       }
+    }
+  }
 
-      // If API didn't return results, try the HTML search page
-      if (allCases.length === 0) {
-        source = 'html';
-        console.warn(`Court name search API returned no results for "${searchName}", falling back to HTML scraping`);
-        await page.goto('https://casesearch.cookcountyclerkofcourt.org/CivilCaseSearchAPI.html', {
-          waitUntil: 'networkidle0',
-          timeout: 20000,
-        });
+  return { cases: allCases.map(normalizeCaseMatch), source };
+}
 
-        const nameInput = await page.$('input[name="lastName"], #lastName, input[placeholder*="name" i]');
-        if (nameInput) {
-          await page.type('input[name="lastName"], #lastName, input[placeholder*="name" i]', searchName);
-
-          const searchBtn = await page.$('button[type="submit"], #searchButton, .search-btn, input[type="submit"]');
-          if (searchBtn) {
-            await searchBtn.click();
-            try {
-              await page.waitForNavigation({ waitUntil: 'networkidle0', timeout: 15000 });
-            } catch (navErr: any) {
-              if (!navErr.message?.includes('timeout')) {
-                console.error(`HTML search navigation failed: ${navErr.message}`);
-              }
-            }
-            await new Promise((r) => setTimeout(r, 2000));
-
-            const htmlCases = await page.evaluate(() => {
-              const doc = (globalThis as any).document;
-              if (!doc) return [];
-              const results: Array<{
-                caseNumber: string;
-                parties?: string;
-                division?: string;
-                status?: string;
-                filingDate?: string;
-              }> = [];
-              const rows = doc.querySelectorAll('table tr, .search-result, .case-row, [data-testid="case-row"]');
-              if (rows) {
-                for (let i = 0; i < rows.length && i < 100; i++) {
-                  const cells = rows[i].querySelectorAll('td');
-                  if (cells.length >= 2) {
-                    const caseNum = (cells[0]?.textContent || '').trim();
-                    if (!caseNum || caseNum.toLowerCase().includes('case')) continue;
-                    results.push({
-                      caseNumber: caseNum,
-                      parties: cells.length >= 2 ? (cells[1]?.textContent || '').trim() : undefined,
-                      division: cells.length >= 3 ? (cells[2]?.textContent || '').trim() : undefined,
-                      status: cells.length >= 4 ? (cells[3]?.textContent || '').trim() : undefined,
-                      filingDate: cells.length >= 5 ? (cells[4]?.textContent || '').trim() : undefined,
-                    });
-                  }
-                }
-              }
-              return results;
-            });
-
-            for (const c of htmlCases) {
-              allCases.push({
-                ...c,
-                court: 'Cook County Circuit Court',
-              });
-            }
+export const courtNameSearchScraper: ScraperModule<
+  CourtNameSearchInput,
+  CourtNameSearchData
+> = {
+  meta: {
+    id: 'court-name-search',
+    name: 'Cook County Court Name Search',
+    category: 'court',
+    version: '0.3.0',
+    requiresAuth: false,
+    sharedBrowser: true,
+    inputSchema: {
+      type: 'object',
+      properties: {
+        name: { type: 'string', minLength: 1, description: 'One party: `Last, First M` or a business name', examples: ['Smith, John'] },
+        parties: {
+          type: 'array',
+          minItems: 1,
+          maxItems: MAX_SEARCH_NAMES,
+          description: 'Related parties to check; each needs lastName, businessName or aliases',
+          items: {
+            type: 'object',
+            additionalProperties: false,
+            properties: {
+              firstName: { type: 'string', description: 'Given name, optionally with a middle name or initial' },
+              lastName: { type: 'string' },
+              businessName: {
+                type: 'string',
+                description: 'Searched through the clerk\'s last-name field, like a surname',
+                examples: ['Example Holdings LLC'],
+              },
+              aliases: { type: 'array', maxItems: 10, items: { type: 'string', minLength: 1 } },
+            },
+          },
+        },
+        divisions: {
+          type: 'array',
+          minItems: 1,
+          items: { type: 'string', enum: Object.keys(CASE_DIVISIONS) },
+          description: 'Division codes to keep (default all)',
+        },
+        filedFrom: { type: 'string', format: 'date', description: 'Earliest filing date, inclusive' },
+        filedTo: { type: 'string', format: 'date', description: 'Latest filing date, inclusive' },
+        minScore: {
+          type: 'number',
+          minimum: 0,
+          maximum: 1,
+          description: `Drop cases whose best name match scores lower (default ${DEFAULT_MIN_SCORE})`,
+        },
+      },
+    },
+    outputSchema: {
+      type: 'object',
+      properties: {
+        searchName: { type: 'string' },
+        searchedParties: { type: 'array', items: { type: 'string' } },
+        searchNames: { type: 'array', items: { type: 'string' } },
+        totalResults: { type: 'integer' },
+        cases: {
+          type: 'array',
+          items: {
+            type: 'object',
+            properties: {
+              caseNumber: { type: 'string' },
+              parties: { type: 'string' },
+              court: { type: 'string' },
+              division: { type: 'string' },
+              status: { type: 'string' },
+              filingDate: { type: 'string', format: 'date' },
+              judge: { type: 'string' },
+              score: { type: 'number' },
+              matches: {
+                type: 'array',
+                items: {
+                  type: 'object',
+                  properties: { party: { type: 'string' }, name: { type: 'string' }, score: { type: 'number' } },
+                },
+              },
+            },
+          },
+        },
+        source: { type: 'string', enum: ['api', 'html', 'mixed', 'none'] },
+      },
+    },
+  },
+
+  async execute(browser, env, input) {
+    const invalid = courtNameSearchInputError(input);
+    if (invalid) {
+      return wrapResult<CourtNameSearchData>('court-name-search', false, undefined, invalid, 'invalid_input');
+    }
+    const parties = searchedParties(input);
+    const searchNames = [...new Set(parties.flatMap((p) => p.names.map(searchTerm)))];
+
+    try {
+      // The deadline grows with the number of searches so a long list isn't cut off partway
+      return await withPage(browser, async (page) => {
+        // The same case comes back once per name it matched; keep the first copy
+        const byNumber = new Map<string, CaseMatch>();
+        const sources = new Set<'api' | 'html'>();
+        for (const searchName of searchNames) {
+          const { cases, source } = await searchClerk(page, searchName);
+          if (cases.length > 0) sources.add(source);
+          for (const match of cases) {
+            if (match.caseNumber && !byNumber.has(match.caseNumber)) byNumber.set(match.caseNumber, match);
           }
         }
-      }
 
-      return wrapResult('court-name-search', true, {
-        searchName,
-        totalResults: allCases.length,
-        cases: allCases,
-        source: allCases.length > 0 ? source : 'none',
-      });
+        const minScore = input.minScore ?? DEFAULT_MIN_SCORE;
+        const cases = [...byNumber.values()]
+          .filter(caseFilter(input))
+          .map((match) => scoreCase(match, parties))
+          .filter((match) => match.score >= minScore)
+          .sort((a, b) => b.score - a.score || (b.filingDate ?? '').localeCompare(a.filingDate ?? ''));
+
+        return wrapResult('court-name-search', true, {
+          searchName: searchNames[0],
+          searchedParties: parties.map((p) => p.label),
+          searchNames,
+          totalResults: cases.length,
+          cases,
+          source: sources.size === 0 ? 'none' : sources.size > 1 ? 'mixed' : [...sources][0],
+        });
+      }, { timeoutMs: SEARCH_TIMEOUT_MS * searchNames.length });
     } catch (err: any) {
       const message = err?.message || String(err);
       console.error(`Scraper court-name-search failed: ${message}`, err?.stack);
-      return wrapResult<CourtNameSearchData>('court-name-search', false, undefined, message);
-    } finally {
-      if (page) await page.close().catch((e: any) => console.warn(`Failed to close page: ${e.message}`));
-      if (browserInstance) await browserInstance.close().catch((e: any) => console.warn(`Failed to close browser: ${e.message}`));
+      return wrapResult<CourtNameSearchData>('court-name-search', false, undefined, message, errorTypeOf(err));
     }
   },
 };
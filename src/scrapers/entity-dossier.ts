@@ -0,0 +1,310 @@
+import { wrapResult, type ScrapeResult, type ScraperModule } from './base';
+import { runSources, sourceStatus, allSourcesFailed, allSourcesFailedType, type SourceStatus } from './composite';
+import { ilSOSScraper, type ILEntityResult } from './il-sos';
+import { flSunbizScraper, type FLSunbizResult } from './fl-sunbiz';
+import { wyomingSOSScraper, type WyomingEntityResult } from './wyoming-sos';
+import { flRegisteredAgentScraper, type FLAgentResult } from './fl-registered-agent';
+import { nwRegisteredAgentScraper, type NWAgentResult } from './nw-registered-agent';
+
+export type EntityState = 'IL' | 'FL' | 'WY';
+export type EntitySource = 'il-sos' | 'fl-sunbiz' | 'wyoming-sos' | 'fl-registered-agent' | 'nw-registered-agent';
+export type EntityStanding = 'good_standing' | 'not_in_good_standing' | 'inactive' | 'unknown';
+
+/** A normalized value tagged with the portal it came from */
+export interface Sourced<T> {
+  value: T;
+  source: EntitySource;
+}
+
+export interface EntityOfficer {
+  title?: string;
+  name: string;
+}
+
+export interface EntityFiling {
+  description: string;
+  /** `YYYY-MM-DD` */
+  date?: string;
+  /** Set instead of `date` when the registry only gives the year (Sunbiz annual reports) */
+  year?: number;
+}
+
+export interface EntityJurisdictionStatus {
+  state: EntityState;
+  /** Secretary of State portal for this jurisdiction */
+  registry: EntitySource;
+  /** Registry lookup succeeded -- false leaves registry-only fields undefined */
+  found: boolean;
+  registryId?: string;
+  rawStatus?: string;
+  standing: Sourced<EntityStanding>;
+  entityType?: string;
+  formationDate?: string;
+  principalAddress?: string;
+  registeredAgent?: Sourced<string>;
+  annualReportDue?: Sourced<string>;
+  annualReportFiled?: Sourced<boolean>;
+  officers?: Sourced<EntityOfficer[]>;
+  lastFiling?: Sourced<EntityFiling>;
+  alerts: string[];
+}
+
+export interface EntityComplianceDossier {
+  entityName: string;
+  /** Worst standing across the queried jurisdictions */
+  overallStanding: EntityStanding;
+  jurisdictions: EntityJurisdictionStatus[];
+  /** Every jurisdiction alert, prefixed with its state, e.g. "FL: ADMIN_DISSOLUTION" */
+  alerts: string[];
+  sources: Partial<Record<EntitySource, SourceStatus>>;
+  partial: boolean;
+}
+
+/** Which registry and (optional) registered-agent portal cover each state */
+export const ENTITY_JURISDICTIONS: Record<EntityState, { registry: EntitySource; agent?: EntitySource }> = {
+  IL: { registry: 'il-sos' },
+  FL: { registry: 'fl-sunbiz', agent: 'fl-registered-agent' },
+  WY: { registry: 'wyoming-sos', agent: 'nw-registered-agent' },
+};
+
+const ENTITY_SCRAPERS: Record<EntitySource, ScraperModule<any, unknown>> = {
+  'il-sos': ilSOSScraper,
+  'fl-sunbiz': flSunbizScraper,
+  'wyoming-sos': wyomingSOSScraper,
+  'fl-registered-agent': flRegisteredAgentScraper,
+  'nw-registered-agent': nwRegisteredAgentScraper,
+};
+
+const STANDING_RANK: Record<EntityStanding, number> = {
+  good_standing: 0,
+  unknown: 1,
+  not_in_good_standing: 2,
+  inactive: 3,
+};
+
+/**
+ * Map a registry's free-text status (plus its good-standing flag, when it has one)
+ * onto the shared standing scale. Inactive wins over everything else.
+ */
+export function normalizeStanding(rawStatus: string | undefined, goodStanding?: boolean): EntityStanding {
+  const s = (rawStatus ?? '').toLowerCase();
+  if (/inactive|dissolv|revoked|withdrawn|cancel/.test(s)) return 'inactive';
+  if (goodStanding === false || /delinquent|not in good standing/.test(s)) return 'not_in_good_standing';
+  if (goodStanding === true || /^active|good standing/.test(s)) return 'good_standing';
+  return 'unknown';
+}
+
+function latestFiling(candidates: Array<Sourced<EntityFiling>>): Sourced<EntityFiling> | undefined {
+  // A year-only filing sorts as January 1st, so a dated filing from the same year wins
+  const time = (f: Sourced<EntityFiling>) => {
+    const t = f.value.date ? Date.parse(f.value.date) : f.value.year ? Date.UTC(f.value.year, 0, 1) : NaN;
+    return isNaN(t) ? -Infinity : t;
+  };
+  return [...candidates].sort((a, b) => time(b) - time(a))[0];
+}
+
+function agentFilings(
+  source: EntitySource,
+  documents: Array<{ title: string; date?: string; type: string }>,
+  types: string[],
+): Array<Sourced<EntityFiling>> {
+  return documents
+    .filter((d) => types.includes(d.type))
+    .map((d) => ({ value: { description: d.title, date: d.date || undefined }, source }));
+}
+
+function buildJurisdiction(
+  state: EntityState,
+  results: Partial<Record<EntitySource, ScrapeResult>>,
+): EntityJurisdictionStatus {
+  const { registry, agent } = ENTITY_JURISDICTIONS[state];
+  const registryResult = results[registry];
+  const agentResult = agent ? results[agent] : undefined;
+  const found = registryResult?.success === true;
+  const alerts: string[] = [];
+  const filings: Array<Sourced<EntityFiling>> = [];
+
+  const status: EntityJurisdictionStatus = {
+    state,
+    registry,
+    found,
+    standing: { value: 'unknown', source: registry },
+    alerts,
+  };
+
+  if (found) {
+    if (state === 'IL') {
+      const d = registryResult!.data as ILEntityResult;
+      status.registryId = d.fileNumber;
+      status.rawStatus = d.status;
+      status.standing = { value: normalizeStanding(d.status, d.goodStanding), source: registry };
+      status.entityType = d.entityType;
+      status.formationDate = d.formationDate;
+      status.principalAddress = d.principalOffice;
+      if (d.registeredAgent) status.registeredAgent = { value: d.registeredAgent, source: registry };
+      if (d.annualReportDueDate) status.annualReportDue = { value: d.annualReportDueDate, source: registry };
+      if (d.annualReportFiled !== undefined) status.annualReportFiled = { value: d.annualReportFiled, source: registry };
+      alerts.push(...d.alerts);
+    } else if (state === 'FL') {
+      const d = registryResult!.data as FLSunbizResult;
+      status.registryId = d.documentNumber;
+      status.rawStatus = d.status;
+      status.standing = { value: normalizeStanding(d.status, d.goodStanding), source: registry };
+      status.entityType = d.entityType;
+      status.formationDate = d.formationDate;
+      status.principalAddress = d.principalAddress;
+      if (d.registeredAgent) status.registeredAgent = { value: d.registeredAgent, source: registry };
+      if (d.annualReportFiled !== undefined) status.annualReportFiled = { value: d.annualReportFiled, source: registry };
+      if (d.officers) status.officers = { value: d.officers, source: registry };
+      if (d.lastReportYear) {
+        filings.push({ value: { description: `${d.lastReportYear} Annual Report`, year: d.lastReportYear }, source: registry });
+      }
+      alerts.push(...d.alerts);
+    } else {
+      const d = registryResult!.data as WyomingEntityResult;
+      status.registryId = d.filingId;
+      status.rawStatus = d.status;
+      status.standing = { value: normalizeStanding(d.status), source: registry };
+      status.entityType = d.entityType;
+      status.formationDate = d.formationDate;
+      status.principalAddress = d.principalOffice;
+      if (d.registeredAgent) status.registeredAgent = { value: d.registeredAgent, source: registry };
+      if (d.annualReportDue) status.annualReportDue = { value: d.annualReportDue, source: registry };
+      if (d.annualReportFiled !== undefined) status.annualReportFiled = { value: d.annualReportFiled, source: registry };
+      alerts.push(...d.alerts);
+    }
+  }
+
+  // Registered-agent accounts fill gaps the public registry leaves -- registry values win
+  if (agent && agentResult?.success) {
+    if (agent === 'fl-registered-agent') {
+      const d = agentResult.data as FLAgentResult;
+      if (!status.annualReportDue && d.annualReportDue) status.annualReportDue = { value: d.annualReportDue, source: agent };
+      if (!status.annualReportFiled && d.annualReportFiled !== undefined) {
+        status.annualReportFiled = { value: d.annualReportFiled, source: agent };
+      }
+      filings.push(...agentFilings(agent, d.documents, ['annual-report', 'filing-confirmation']));
+      alerts.push(...d.alerts);
+    } else {
+      const d = agentResult.data as NWAgentResult;
+      filings.push(...agentFilings(agent, d.documents, ['annual-report']));
+      alerts.push(...d.alerts);
+    }
+  }
+
+  status.lastFiling = latestFiling(filings);
+  status.alerts = [...new Set(alerts)];
+  return status;
+}
+
+/**
+ * Normalize the per-registry results into one compliance record. Pure, so the
+ * reconciliation rules can be tested without a browser.
+ */
+export function buildEntityDossier(
+  entityName: string,
+  states: EntityState[],
+  results: Partial<Record<EntitySource, ScrapeResult>>,
+): EntityComplianceDossier {
+  const jurisdictions = states.map((state) => buildJurisdiction(state, results));
+  const sources: Partial<Record<EntitySource, SourceStatus>> = {};
+  for (const [source, result] of Object.entries(results) as Array<[EntitySource, ScrapeResult]>) {
+    sources[source] = sourceStatus(result);
+  }
+
+  const overallStanding = jurisdictions.reduce<EntityStanding>(
+    (worst, j) => (STANDING_RANK[j.standing.value] > STANDING_RANK[worst] ? j.standing.value : worst),
+    jurisdictions.length > 0 ? 'good_standing' : 'unknown',
+  );
+
+  return {
+    entityName,
+    overallStanding,
+    jurisdictions,
+    alerts: jurisdictions.flatMap((j) => j.alerts.map((a) => `${j.state}: ${a}`)),
+    sources,
+    partial: Object.values(sources).some((s) => !s.success),
+  };
+}
+
+/**
+ * Entity compliance dossier across the IL, FL and WY registries.
+ *
+ * Looks the entity up in each requested state's Secretary of State registry and,
+ * with `includeAgents`, in our registered-agent account for that state (Florida
+ * Registered Agent for FL, Northwest for WY). The agent accounts log in, so they run
+ * only when the caller's token also allows them and their own rate-limit slot is
+ * free -- see `runSources`. Results are reconciled into
+ * one standing/agent/annual-report/officer/last-filing record per state, with the
+ * source portal recorded on every merged field.
+ */
+export const entityDossierScraper: ScraperModule<
+  { entityName: string; states?: EntityState[]; includeAgents?: boolean },
+  EntityComplianceDossier
+> = {
+  meta: {
+    id: 'entity-dossier',
+    name: 'Entity Compliance Dossier — IL, FL & WY Registries',
+    category: 'governance',
+    version: '0.1.0',
+    requiresAuth: false,
+    sharedBrowser: true,
+    authSources: true,
+    inputSchema: {
+      type: 'object',
+      required: ['entityName'],
+      properties: {
+        entityName: { type: 'string', minLength: 1, examples: ['ARIBIA LLC'] },
+        states: {
+          type: 'array',
+          minItems: 1,
+          items: { type: 'string', enum: ['IL', 'FL', 'WY'] },
+          description: 'Jurisdictions to query (default all)',
+        },
+        includeAgents: {
+          type: 'boolean',
+          description: 'Also query the registered-agent accounts for FL and WY (default false); needs a token allowing those portals',
+        },
+      },
+    },
+    outputSchema: {
+      type: 'object',
+      properties: {
+        entityName: { type: 'string' },
+        overallStanding: { type: 'string', enum: ['good_standing', 'not_in_good_standing', 'inactive', 'unknown'] },
+        jurisdictions: { type: 'array', items: { type: 'object' } },
+        alerts: { type: 'array', items: { type: 'string' } },
+        sources: { type: 'object' },
+        partial: { type: 'boolean' },
+      },
+    },
+  },
+  async execute(browser, env, input) {
+    const entityName = input?.entityName?.trim();
+    if (!entityName) {
+      return wrapResult<EntityComplianceDossier>('entity-dossier', false, undefined, 'entityName is required', 'invalid_input');
+    }
+    const states = [...new Set(input.states?.length ? input.states : (['IL', 'FL', 'WY'] as EntityState[]))];
+    const includeAgents = input.includeAgents ?? false;
+
+    const calls: Partial<Record<EntitySource, { scraper: ScraperModule<any, unknown>; input: unknown }>> = {};
+    for (const state of states) {
+      const { registry, agent } = ENTITY_JURISDICTIONS[state];
+      calls[registry] = { scraper: ENTITY_SCRAPERS[registry], input: { entityName } };
+      if (agent && includeAgents) {
+        calls[agent] = { scraper: ENTITY_SCRAPERS[agent], input: { entity: entityName, downloadPdfs: false } };
+      }
+    }
+
+    const results = await runSources(browser, env, calls as Record<EntitySource, { scraper: ScraperModule<any, unknown>; input: unknown }>);
+    const dossier = buildEntityDossier(entityName, states, results);
+    const allFailed = Object.values(dossier.sources).every((s) => !s!.success);
+    return wrapResult(
+      'entity-dossier',
+      !allFailed,
+      allFailed ? undefined : dossier,
+      allFailed ? allSourcesFailed(dossier.sources as Record<string, SourceStatus>) : undefined,
+      allFailed ? allSourcesFailedType(dossier.sources as Record<string, SourceStatus>) : undefined,
+    );
+  },
+};
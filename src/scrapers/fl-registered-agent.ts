@@ -1,10 +1,15 @@
-import puppeteer from '@cloudflare/puppeteer';
-import { wrapResult, resolveSelector, type ScraperModule } from './base';
-import { getChittyConnectCredential, getCredentialRef } from '../chittyconnect';
+import { wrapResult, resolveSelector, withPage, classifyScrapeError, errorTypeOf, type ScraperModule, type ScrapeErrorType } from './base';
+import { credentialResolver } from '../credentials';
+import { withAuthSession } from '../auth-session';
+import { solveOtpChallenge } from '../challenges';
+import { parseCents, parseIsoDate, type Cents } from '../normalize';
+import { eventUid } from '../calendar';
+import type { Env } from '../index';
 
 export interface FLAgentDocument {
   title: string;
-  date: string;
+  /** `YYYY-MM-DD` */
+  date?: string;
   entity: string;
   type: 'annual-report' | 'filing-confirmation' | 'dissolution-notice' | 'other';
 }
@@ -12,88 +17,104 @@ export interface FLAgentDocument {
 export interface FLAgentResult {
   entity: string;
   accountStatus: string;
+  /** `YYYY-MM-DD` */
   annualReportDue?: string;
   annualReportFiled?: boolean;
-  invoices: Array<{ date: string; amount: string; status: string }>;
+  invoices: Array<{ date?: string; amount: Cents | null; status: string }>;
   documents: FLAgentDocument[];
   alerts: string[];
 }
 
+/** Log in to Florida Registered Agent on `page`; returns an error message on failure */
+async function logInFLRegisteredAgent(
+  page: any,
+  env: Env,
+  credentials: { username: string; password: string },
+): Promise<string | undefined> {
+  // Navigate to FL Registered Agent login
+  await page.goto('https://www.floridaregisteredagent.net/login', {
+    waitUntil: 'networkidle0',
+    timeout: 25000,
+  });
+
+  // Enter email
+  const emailSelector = await resolveSelector(page, [
+    '#email', 'input[name="email"]', 'input[type="email"]',
+    '#username', 'input[name="username"]',
+    'input[placeholder*="email" i]',
+  ], { scraper: 'fl-registered-agent', step: 'email' });
+  if (!emailSelector) {
+    return 'Could not find email input on FL Registered Agent login page';
+  }
+  await page.type(emailSelector, credentials.username);
+
+  // Enter password
+  const passwordSelector = await resolveSelector(page, [
+    '#password', 'input[name="password"]', 'input[type="password"]',
+  ], { scraper: 'fl-registered-agent', step: 'password' });
+  if (!passwordSelector) {
+    return 'Could not find password input';
+  }
+  await page.type(passwordSelector, credentials.password);
+
+  // Submit
+  const submitSelector = await resolveSelector(page, [
+    'button[type="submit"]', 'input[type="submit"]',
+    'button.btn-primary', '.login-button',
+  ], { scraper: 'fl-registered-agent', step: 'submit' });
+  if (!submitSelector) {
+    return 'Could not find login button';
+  }
+  await page.click(submitSelector);
+  await page.waitForNavigation({ waitUntil: 'networkidle0', timeout: 25000 }).catch(() => {});
+  await new Promise((resolve) => setTimeout(resolve, 3000));
+
+  // 2FA code, if enabled
+  const otpError = await solveOtpChallenge(page, env, 'fl-registered-agent');
+  if (otpError) return otpError;
+
+  // Check login success
+  const loginFailed = await page.evaluate(() => {
+    const doc = (globalThis as any).document;
+    if (!doc) return false;
+    const url = (globalThis as any).location?.href || '';
+    if (url.includes('/login')) return true;
+    const errSels = ['.error-message', '.alert-danger', '.alert-error', '[role="alert"]'];
+    for (const sel of errSels) {
+      const el = doc.querySelector(sel);
+      if (el && (el.textContent || '').trim().length > 0) return true;
+    }
+    return false;
+  });
+
+  if (loginFailed) {
+    return 'FL Registered Agent login failed';
+  }
+
+  return undefined;
+}
+
 /**
  * Scrape Florida Registered Agent LLC portal for JAV LLC compliance status.
  *
- * Logs in, checks annual report status, payment status, and any pending filings.
+ * Logs in (or reuses the stored login session), checks annual report status, payment status, and any pending filings.
  * Portal: floridaregisteredagent.net (or similar)
  *
- * Credentials resolved from ChittyConnect using 1Password-style refs.
+ * Credentials resolved via `credentialResolver` (ChittyConnect 1Password-style refs by default).
  */
 async function scrapeFLRegisteredAgent(
-  browser: Fetcher,
+  page: any,
+  env: Env,
   credentials: { username: string; password: string },
   options: { entity?: string },
-): Promise<{ success: boolean; data?: FLAgentResult; error?: string }> {
-  let browserInstance: any;
-  let page: any;
+): Promise<{ success: boolean; data?: FLAgentResult; error?: string; errorType?: ScrapeErrorType }> {
   try {
-    browserInstance = await puppeteer.launch(browser);
-    page = await browserInstance.newPage();
-    await page.setViewport({ width: 1280, height: 900 });
-
-    // Navigate to FL Registered Agent login
-    await page.goto('https://www.floridaregisteredagent.net/login', {
-      waitUntil: 'networkidle0',
-      timeout: 25000,
-    });
-
-    // Enter email
-    const emailSelector = await resolveSelector(page, [
-      '#email', 'input[name="email"]', 'input[type="email"]',
-      '#username', 'input[name="username"]',
-      'input[placeholder*="email" i]',
-    ]);
-    if (!emailSelector) {
-      return { success: false, error: 'Could not find email input on FL Registered Agent login page' };
-    }
-    await page.type(emailSelector, credentials.username);
-
-    // Enter password
-    const passwordSelector = await resolveSelector(page, [
-      '#password', 'input[name="password"]', 'input[type="password"]',
-    ]);
-    if (!passwordSelector) {
-      return { success: false, error: 'Could not find password input' };
-    }
-    await page.type(passwordSelector, credentials.password);
-
-    // Submit
-    const submitSelector = await resolveSelector(page, [
-      'button[type="submit"]', 'input[type="submit"]',
-      'button.btn-primary', '.login-button',
-    ]);
-    if (!submitSelector) {
-      return { success: false, error: 'Could not find login button' };
-    }
-    await page.click(submitSelector);
-    await page.waitForNavigation({ waitUntil: 'networkidle0', timeout: 25000 }).catch(() => {});
-    await new Promise((resolve) => setTimeout(resolve, 3000));
-
-    // Check login success
-    const loginFailed = await page.evaluate(() => {
-      const doc = (globalThis as any).document;
-      if (!doc) return false;
-      const url = (globalThis as any).location?.href || '';
-      if (url.includes('/login')) return true;
-      const errSels = ['.error-message', '.alert-danger', '.alert-error', '[role="alert"]'];
-      for (const sel of errSels) {
-        const el = doc.querySelector(sel);
-        if (el && (el.textContent || '').trim().length > 0) return true;
-      }
-      return false;
-    });
-
-    if (loginFailed) {
-      return { success: false, error: 'FL Registered Agent login failed' };
-    }
+    const loginError = await withAuthSession(page, env, {
+      portal: 'fl-registered-agent',
+      account: credentials.username,
+      isLoginPage: (url) => url.includes('/login'),
+    }, () => logInFLRegisteredAgent(page, env, credentials));
+    if (loginError) return { success: false, error: loginError, errorType: classifyScrapeError(loginError) };
 
     // Extract account data
     const data = await page.evaluate((entityFilter: string | undefined) => {
@@ -131,7 +152,7 @@ async function scrapeFLRegisteredAgent(
 
       // Try to find annual report status
       let annualReportDue: string | undefined;
-      const dueMatch = bodyText.match(/(?:annual report|renewal).*?(?:due|by)\s+(\w+\s+\d+,?\s+\d{4})/i);
+      const dueMatch = bodyText.match(/(?:annual report|renewal).*?(?:due|by)\s+(\d{1,2}\/\d{1,2}\/\d{4}|\w+\s+\d+,?\s+\d{4})/i);
       if (dueMatch) annualReportDue = dueMatch[1];
 
       return {
@@ -146,12 +167,21 @@ async function scrapeFLRegisteredAgent(
       };
     }, options.entity);
 
-    return { success: true, data: data as FLAgentResult };
+    if (!data) return { success: true, data };
+    return {
+      success: true,
+      data: {
+        ...data,
+        annualReportDue: parseIsoDate(data.annualReportDue) ?? undefined,
+        invoices: data.invoices.map((inv: { date: string; amount: string; status: string }) => ({
+          date: parseIsoDate(inv.date) ?? undefined,
+          amount: parseCents(inv.amount),
+          status: inv.status,
+        })),
+      },
+    };
   } catch (err: any) {
-    return { success: false, error: err.message };
-  } finally {
-    if (page) await page.close().catch(() => {});
-    if (browserInstance) await browserInstance.close().catch(() => {});
+    return { success: false, error: err.message, errorType: errorTypeOf(err) };
   }
 }
 
@@ -163,34 +193,63 @@ export const flRegisteredAgentScraper: ScraperModule<
     id: 'fl-registered-agent',
     name: 'Florida Registered Agent LLC',
     category: 'governance',
-    version: '0.1.0',
+    version: '0.2.0',
     requiresAuth: true,
-    credentialKeys: ['FLRA_USERNAME_REF', 'FLRA_PASSWORD_REF'],
+    credentialKeys: ['flra:username', 'flra:password'],
+    credentialRefs: {
+      'flra:username': { ref: 'op://ChittyOS/Florida Registered Agent/username', envVar: 'FLRA_USERNAME_REF' },
+      'flra:password': { ref: 'op://ChittyOS/Florida Registered Agent/password', envVar: 'FLRA_PASSWORD_REF' },
+    },
+    inputSchema: {
+      type: 'object',
+      properties: {
+        entity: { type: 'string', description: 'Entity name echoed back in the result' },
+      },
+    },
+    outputSchema: {
+      type: 'object',
+      properties: {
+        entity: { type: 'string' },
+        accountStatus: { type: 'string' },
+        annualReportDue: { type: 'string', format: 'date' },
+        annualReportFiled: { type: 'boolean' },
+        invoices: {
+          type: 'array',
+          items: {
+            type: 'object',
+            properties: {
+              date: { type: 'string', format: 'date' },
+              amount: { type: ['integer', 'null'], description: 'Cents' },
+              status: { type: 'string' },
+            },
+          },
+        },
+        documents: { type: 'array', items: { type: 'object' } },
+        alerts: { type: 'array', items: { type: 'string' } },
+      },
+    },
   },
   async execute(browser, env, input) {
-    const usernameRef = getCredentialRef(
-      env,
-      'FLRA_USERNAME_REF',
-      'op://ChittyOS/Florida Registered Agent/username',
-    );
-    const passwordRef = getCredentialRef(
-      env,
-      'FLRA_PASSWORD_REF',
-      'op://ChittyOS/Florida Registered Agent/password',
-    );
-    const [username, password] = await Promise.all([
-      getChittyConnectCredential(env, usernameRef),
-      getChittyConnectCredential(env, passwordRef),
-    ]);
-    if (!username || !password) {
-      return wrapResult<FLAgentResult>(
-        'fl-registered-agent',
-        false,
-        undefined,
-        `FL Registered Agent credentials unavailable via ChittyConnect (${usernameRef}, ${passwordRef})`,
-      );
-    }
-    const result = await scrapeFLRegisteredAgent(browser, { username, password }, { entity: input?.entity });
-    return wrapResult('fl-registered-agent', result.success, result.data, result.error);
+    const creds = await credentialResolver(env).resolve(flRegisteredAgentScraper.meta);
+    if (!creds.ok) return wrapResult<FLAgentResult>('fl-registered-agent', false, undefined, creds.error, 'auth_failed');
+    const { 'flra:username': username, 'flra:password': password } = creds.values;
+    const result = await withPage(
+      browser,
+      (page) => scrapeFLRegisteredAgent(page, env, { username, password }, { entity: input?.entity }),
+      { viewport: { width: 1280, height: 900 } },
+    ).catch((err: any) => ({ success: false, data: undefined, error: err.message, errorType: errorTypeOf(err) }));
+    return wrapResult('fl-registered-agent', result.success, result.data, result.error, result.errorType);
+  },
+  calendarEvents(data) {
+    // Nothing to do once the report is on file
+    if (!data.annualReportDue || data.annualReportFiled) return [];
+    return [{
+      uid: eventUid('fl-registered-agent', `${data.entity.toLowerCase().replace(/[^a-z0-9]+/g, '-')}/annual-report`),
+      date: data.annualReportDue,
+      summary: `Florida annual report due: ${data.entity}`,
+      description: `Account status: ${data.accountStatus}`,
+      url: 'https://www.floridaregisteredagent.net/login',
+      categories: ['GOVERNANCE'],
+    }];
   },
 };
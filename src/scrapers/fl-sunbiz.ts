@@ -1,5 +1,5 @@
-import puppeteer from '@cloudflare/puppeteer';
-import { wrapResult, resolveSelector, type ScraperModule } from './base';
+import { wrapResult, resolveSelector, pageScraper, errorTypeOf, type ScrapeErrorType } from './base';
+import { parseIsoDate } from '../normalize';
 
 export interface FLSunbizResult {
   entityName: string;
@@ -12,6 +12,7 @@ export interface FLSunbizResult {
   annualReportFiled?: boolean;
   lastReportYear?: number;
   principalAddress?: string;
+  officers?: Array<{ title: string; name: string }>;
   goodStanding: boolean;
   alerts: string[];
 }
@@ -23,19 +24,14 @@ export interface FLSunbizResult {
  * URL: https://search.sunbiz.org/Inquiry/CorporationSearch/
  *
  * Searches by entity name and extracts status, formation date,
- * registered agent, annual report filing status, and good standing.
+ * registered agent, authorized persons/officers, annual report filing status,
+ * and good standing.
  */
 async function scrapeFLSunbiz(
-  browser: Fetcher,
+  page: any,
   entityName: string,
-): Promise<{ success: boolean; data?: FLSunbizResult; error?: string }> {
-  let browserInstance: any;
-  let page: any;
+): Promise<{ success: boolean; data?: FLSunbizResult; error?: string; errorType?: ScrapeErrorType }> {
   try {
-    browserInstance = await puppeteer.launch(browser);
-    page = await browserInstance.newPage();
-    await page.setViewport({ width: 1280, height: 900 });
-
     await page.goto('https://search.sunbiz.org/Inquiry/CorporationSearch/ByName', {
       waitUntil: 'networkidle0',
       timeout: 25000,
@@ -47,9 +43,9 @@ async function scrapeFLSunbiz(
       'input[name="SearchTerm"]',
       'input[id="SearchTerm"]',
       'input[type="text"]',
-    ]);
+    ], { scraper: 'fl-sunbiz', step: 'name-input' });
     if (!nameInput) {
-      return { success: false, error: 'Could not find search input on Sunbiz page' };
+      return { success: false, error: 'Could not find search input on Sunbiz page', errorType: 'selector_missing' };
     }
     await page.type(nameInput, entityName);
 
@@ -59,9 +55,9 @@ async function scrapeFLSunbiz(
       'input[value="Search Now"]',
       'input[type="submit"]',
       'button[type="submit"]',
-    ]);
+    ], { scraper: 'fl-sunbiz', step: 'search-button' });
     if (!searchBtn) {
-      return { success: false, error: 'Could not find search button' };
+      return { success: false, error: 'Could not find search button', errorType: 'selector_missing' };
     }
     await page.click(searchBtn);
     await page.waitForNavigation({ waitUntil: 'networkidle0', timeout: 20000 }).catch(() => {});
@@ -134,6 +130,19 @@ async function scrapeFLSunbiz(
         annualReportFiled = true;
       }
 
+      // Authorized persons / officers: "Title MGR" followed by the name on the next line
+      const officers: Array<{ title: string; name: string }> = [];
+      const officerSection = bodyText.match(
+        /(?:Authorized Person\(s\)|Officer\/Director) Detail([\s\S]*?)(?:Annual Reports|Document Images|$)/i,
+      );
+      if (officerSection) {
+        const officerRe = /Title\s+([A-Z]{1,6})\s*\n+\s*([^\n]+)/g;
+        let m: RegExpExecArray | null;
+        while ((m = officerRe.exec(officerSection[1])) !== null) {
+          officers.push({ title: m[1], name: m[2].trim() });
+        }
+      }
+
       return {
         entityName: name,
         documentNumber: documentNumber || undefined,
@@ -145,40 +154,67 @@ async function scrapeFLSunbiz(
         annualReportFiled,
         lastReportYear,
         principalAddress: principalAddress || undefined,
+        officers: officers.length > 0 ? officers : undefined,
         goodStanding,
         alerts,
       };
     }, entityName);
 
     if (!entityData) {
-      return { success: false, error: 'Could not extract entity data from Sunbiz' };
+      return { success: false, error: 'Could not extract entity data from Sunbiz', errorType: 'selector_missing' };
     }
 
-    return { success: true, data: entityData };
+    return { success: true, data: { ...entityData, formationDate: parseIsoDate(entityData.formationDate) ?? undefined } };
   } catch (err: any) {
-    return { success: false, error: err.message };
-  } finally {
-    if (page) await page.close().catch(() => {});
-    if (browserInstance) await browserInstance.close().catch(() => {});
+    return { success: false, error: err.message, errorType: errorTypeOf(err) };
   }
 }
 
-export const flSunbizScraper: ScraperModule<
+export const flSunbizScraper = pageScraper<
   { entityName: string },
   FLSunbizResult
-> = {
+>({
   meta: {
     id: 'fl-sunbiz',
     name: 'Florida Sunbiz — Division of Corporations Lookup',
     category: 'governance',
-    version: '0.1.0',
+    version: '0.2.0',
     requiresAuth: false,
+    cacheTtlSeconds: 86400,
+    sharedBrowser: true,
+    inputSchema: {
+      type: 'object',
+      required: ['entityName'],
+      properties: {
+        entityName: { type: 'string', minLength: 1, examples: ['JAV LLC'] },
+      },
+    },
+    outputSchema: {
+      type: 'object',
+      properties: {
+        entityName: { type: 'string' },
+        documentNumber: { type: 'string' },
+        feiNumber: { type: 'string' },
+        status: { type: 'string' },
+        formationDate: { type: 'string', format: 'date' },
+        entityType: { type: 'string' },
+        registeredAgent: { type: 'string' },
+        annualReportFiled: { type: 'boolean' },
+        lastReportYear: { type: 'integer' },
+        principalAddress: { type: 'string' },
+        officers: {
+          type: 'array',
+          items: { type: 'object', properties: { title: { type: 'string' }, name: { type: 'string' } } },
+        },
+        goodStanding: { type: 'boolean' },
+        alerts: { type: 'array', items: { type: 'string' } },
+      },
+    },
   },
-  async execute(browser, _env, input) {
-    if (!input?.entityName?.trim()) {
-      return wrapResult<FLSunbizResult>('fl-sunbiz', false, undefined, 'entityName is required');
-    }
-    const result = await scrapeFLSunbiz(browser, input.entityName.trim());
-    return wrapResult('fl-sunbiz', result.success, result.data, result.error);
+  page: { viewport: { width: 1280, height: 900 } },
+  validate: (input) => (input?.entityName?.trim() ? undefined : 'entityName is required'),
+  async execute(page, _env, input) {
+    const result = await scrapeFLSunbiz(page, input.entityName.trim());
+    return wrapResult('fl-sunbiz', result.success, result.data, result.error, result.errorType);
   },
-};
+});
@@ -1,4 +1,5 @@
-import { wrapResult, type ScraperModule } from './base';
+import { wrapResult, errorTypeOf, type ScraperModule, type ScrapeErrorType } from './base';
+import { credentialResolver } from '../credentials';
 
 export interface DriveSearchInput {
   query: string;
@@ -136,6 +137,14 @@ function escapeDriveLiteral(value: string): string {
   return value.replace(/\\/g, '\\\\').replace(/'/g, "\\'");
 }
 
+/** Map a Drive API error status onto the scrape error taxonomy. */
+function driveErrorType(status: number): ScrapeErrorType {
+  if (status === 401 || status === 403) return 'auth_failed';
+  if (status === 404) return 'not_found';
+  if (status === 429) return 'blocked';
+  return 'upstream_error';
+}
+
 /**
  * Build a Google Drive search query string from structured input.
  */
@@ -166,19 +175,59 @@ export const googleDriveScraper: ScraperModule<DriveSearchInput, DriveSearchData
     category: 'generic',
     version: '0.1.0',
     requiresAuth: true,
+    apiKeyAuth: true,
+    // Drive API quota, not a portal login, is the limit here
+    rateLimit: { requestsPerMinute: 60, maxConcurrent: 5, minIntervalSeconds: 0 },
     credentialKeys: ['google-drive:service-account-key'],
+    inputSchema: {
+      type: 'object',
+      required: ['query'],
+      properties: {
+        query: { type: 'string', minLength: 1, description: 'Full-text search query', examples: ['closing disclosure'] },
+        mimeType: { type: 'string', examples: ['application/pdf'] },
+        folderId: { type: 'string' },
+        maxResults: { type: 'integer', minimum: 1, maximum: 100, description: 'Page size (default 50)' },
+        flagForIngestion: { type: 'boolean', description: 'Attach a ChittyEvidence gdrive_sync ingestion manifest' },
+      },
+    },
+    outputSchema: {
+      type: 'object',
+      properties: {
+        files: {
+          type: 'array',
+          items: {
+            type: 'object',
+            properties: {
+              id: { type: 'string' },
+              name: { type: 'string' },
+              mimeType: { type: 'string' },
+              size: { type: 'string' },
+              createdTime: { type: 'string' },
+              modifiedTime: { type: 'string' },
+              owners: { type: 'array', items: { type: 'string' } },
+              webViewLink: { type: 'string' },
+              parents: { type: 'array', items: { type: 'string' } },
+              md5Checksum: { type: 'string' },
+            },
+          },
+        },
+        totalResults: { type: 'integer' },
+        query: { type: 'string' },
+        flaggedForIngestion: { type: 'boolean' },
+        ingestionManifest: { type: 'object' },
+      },
+    },
   },
 
-  // API-only scraper — no browser lifecycle needed (exempt from puppeteer.launch guideline)
+  // API-only scraper — no browser lifecycle needed (exempt from withPage guideline)
   async execute(_browser, env, input) {
     if (!input?.query?.trim()) {
-      return wrapResult<DriveSearchData>('google-drive', false, undefined, 'query is required');
+      return wrapResult<DriveSearchData>('google-drive', false, undefined, 'query is required', 'invalid_input');
     }
 
-    const serviceAccountKey = await env.SCRAPE_KV.get('google-drive:service-account-key');
-    if (!serviceAccountKey) {
-      return wrapResult<DriveSearchData>('google-drive', false, undefined, 'Google Drive service account key not configured');
-    }
+    const creds = await credentialResolver(env).resolve(googleDriveScraper.meta);
+    if (!creds.ok) return wrapResult<DriveSearchData>('google-drive', false, undefined, creds.error, 'auth_failed');
+    const serviceAccountKey = creds.values['google-drive:service-account-key'];
 
     try {
       const accessToken = await getAccessToken(serviceAccountKey);
@@ -203,7 +252,13 @@ export const googleDriveScraper: ScraperModule<DriveSearchInput, DriveSearchData
         const res = await fetch(url, { headers: authHeaders });
         if (!res.ok) {
           const errBody = await res.text();
-          return wrapResult<DriveSearchData>('google-drive', false, undefined, `Drive API error: ${res.status} ${errBody}`);
+          return wrapResult<DriveSearchData>(
+            'google-drive',
+            false,
+            undefined,
+            `Drive API error: ${res.status} ${errBody}`,
+            driveErrorType(res.status),
+          );
         }
 
         const body = (await res.json()) as { files: RawFile[]; nextPageToken?: string };
@@ -274,7 +329,7 @@ export const googleDriveScraper: ScraperModule<DriveSearchInput, DriveSearchData
     } catch (err: any) {
       const message = err?.message || String(err);
       console.error(`Scraper google-drive failed: ${message}`, err?.stack);
-      return wrapResult<DriveSearchData>('google-drive', false, undefined, message);
+      return wrapResult<DriveSearchData>('google-drive', false, undefined, message, errorTypeOf(err));
     }
   },
 };
@@ -1,5 +1,5 @@
-import puppeteer from '@cloudflare/puppeteer';
-import { wrapResult, resolveSelector, type ScraperModule } from './base';
+import { wrapResult, resolveSelector, pageScraper, errorTypeOf, type ScrapeErrorType } from './base';
+import { parseIsoDate } from '../normalize';
 
 export interface ILEntityResult {
   entityName: string;
@@ -25,16 +25,10 @@ export interface ILEntityResult {
  * registered agent, annual report status, and good standing.
  */
 async function scrapeILSOS(
-  browser: Fetcher,
+  page: any,
   entityName: string,
-): Promise<{ success: boolean; data?: ILEntityResult; error?: string }> {
-  let browserInstance: any;
-  let page: any;
+): Promise<{ success: boolean; data?: ILEntityResult; error?: string; errorType?: ScrapeErrorType }> {
   try {
-    browserInstance = await puppeteer.launch(browser);
-    page = await browserInstance.newPage();
-    await page.setViewport({ width: 1280, height: 900 });
-
     await page.goto('https://www.ilsos.gov/corporatellc/CorporateLlcController', {
       waitUntil: 'networkidle0',
       timeout: 25000,
@@ -48,9 +42,9 @@ async function scrapeILSOS(
       'input[name="corporationName"]',
       '#corporationName',
       'input[type="text"]',
-    ]);
+    ], { scraper: 'il-sos', step: 'name-input' });
     if (!nameInput) {
-      return { success: false, error: 'Could not find entity name input on IL SOS page' };
+      return { success: false, error: 'Could not find entity name input on IL SOS page', errorType: 'selector_missing' };
     }
     await page.type(nameInput, entityName);
 
@@ -61,9 +55,9 @@ async function scrapeILSOS(
       '#submit',
       'input[value="Search"]',
       'input[value="search"]',
-    ]);
+    ], { scraper: 'il-sos', step: 'search-button' });
     if (!searchBtn) {
-      return { success: false, error: 'Could not find search button' };
+      return { success: false, error: 'Could not find search button', errorType: 'selector_missing' };
     }
     await page.click(searchBtn);
     await page.waitForNavigation({ waitUntil: 'networkidle0', timeout: 20000 }).catch(() => {});
@@ -157,34 +151,62 @@ async function scrapeILSOS(
     }, entityName);
 
     if (!entityData) {
-      return { success: false, error: 'Could not extract entity data from IL SOS' };
+      return { success: false, error: 'Could not extract entity data from IL SOS', errorType: 'selector_missing' };
     }
 
-    return { success: true, data: entityData };
+    return {
+      success: true,
+      data: {
+        ...entityData,
+        formationDate: parseIsoDate(entityData.formationDate) ?? undefined,
+        annualReportDueDate: parseIsoDate(entityData.annualReportDueDate) ?? undefined,
+      },
+    };
   } catch (err: any) {
-    return { success: false, error: err.message };
-  } finally {
-    if (page) await page.close().catch(() => {});
-    if (browserInstance) await browserInstance.close().catch(() => {});
+    return { success: false, error: err.message, errorType: errorTypeOf(err) };
   }
 }
 
-export const ilSOSScraper: ScraperModule<
+export const ilSOSScraper = pageScraper<
   { entityName: string },
   ILEntityResult
-> = {
+>({
   meta: {
     id: 'il-sos',
     name: 'Illinois Secretary of State — LLC/Corp Lookup',
     category: 'governance',
-    version: '0.1.0',
+    version: '0.2.0',
     requiresAuth: false,
+    cacheTtlSeconds: 86400,
+    sharedBrowser: true,
+    inputSchema: {
+      type: 'object',
+      required: ['entityName'],
+      properties: {
+        entityName: { type: 'string', minLength: 1, examples: ['ARIBIA LLC'] },
+      },
+    },
+    outputSchema: {
+      type: 'object',
+      properties: {
+        entityName: { type: 'string' },
+        fileNumber: { type: 'string' },
+        status: { type: 'string' },
+        formationDate: { type: 'string', format: 'date' },
+        entityType: { type: 'string' },
+        registeredAgent: { type: 'string' },
+        annualReportDueDate: { type: 'string', format: 'date' },
+        annualReportFiled: { type: 'boolean' },
+        principalOffice: { type: 'string' },
+        goodStanding: { type: 'boolean' },
+        alerts: { type: 'array', items: { type: 'string' } },
+      },
+    },
   },
-  async execute(browser, _env, input) {
-    if (!input?.entityName?.trim()) {
-      return wrapResult<ILEntityResult>('il-sos', false, undefined, 'entityName is required');
-    }
-    const result = await scrapeILSOS(browser, input.entityName.trim());
-    return wrapResult('il-sos', result.success, result.data, result.error);
+  page: { viewport: { width: 1280, height: 900 } },
+  validate: (input) => (input?.entityName?.trim() ? undefined : 'entityName is required'),
+  async execute(page, _env, input) {
+    const result = await scrapeILSOS(page, input.entityName.trim());
+    return wrapResult('il-sos', result.success, result.data, result.error, result.errorType);
   },
-};
+});
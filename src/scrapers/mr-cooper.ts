@@ -1,158 +1,179 @@
-import puppeteer from '@cloudflare/puppeteer';
-import { wrapResult, resolveSelector, type ScraperModule } from './base';
+import { wrapResult, resolveSelector, withPage, classifyScrapeError, errorTypeOf, type ScraperModule, type ScrapeErrorType } from './base';
+import { withAuthSession } from '../auth-session';
+import { credentialResolver } from '../credentials';
+import { solveOtpChallenge } from '../challenges';
+import { parseCents, parseIsoDate, parsePercent, type Cents } from '../normalize';
+import type { Env } from '../index';
 
 export interface PaymentHistoryEntry {
+  /** `YYYY-MM-DD` */
   date: string;
-  amount: number;
-  principal?: number;
-  interest?: number;
-  escrow?: number;
+  amount: Cents;
+  principal?: Cents;
+  interest?: Cents;
+  escrow?: Cents;
 }
 
 export interface MrCooperResult {
   success: boolean;
   data?: {
     property: string;
-    currentBalance: number;
-    monthlyPayment: number;
-    escrowBalance: number;
-    interestRate: number;
-    payoffAmount?: number;
+    /** Balance, payment, escrow and rate are omitted when the dashboard value can't be read */
+    currentBalance?: Cents;
+    monthlyPayment?: Cents;
+    escrowBalance?: Cents;
+    /** Percent, e.g. 6.5 */
+    interestRate?: number;
+    payoffAmount?: Cents;
+    /** `YYYY-MM-DD` */
     nextPaymentDate?: string;
     paymentHistory: PaymentHistoryEntry[];
   };
   error?: string;
+  errorType?: ScrapeErrorType;
+}
+
+/** Log in to Mr. Cooper on `page`; returns an error message on failure */
+async function logInMrCooper(
+  page: any,
+  env: Env,
+  credentials: { username: string; password: string },
+): Promise<string | undefined> {
+  // Navigate to Mr. Cooper login page
+  await page.goto('https://www.mrcooper.com/login', {
+    waitUntil: 'networkidle0',
+    timeout: 20000,
+  });
+
+  // Enter username -- try multiple selectors for resilience
+  const usernameSelector = await resolveSelector(page, [
+    '#username',
+    'input[name="username"]',
+    'input[name="email"]',
+    '#loginUsername',
+    'input[type="email"]',
+    'input[data-testid="username"]',
+  ], { scraper: 'mr-cooper', step: 'username' });
+  if (!usernameSelector) {
+    return 'Could not find username input on login page';
+  }
+  await page.type(usernameSelector, credentials.username);
+
+  // Enter password
+  const passwordSelector = await resolveSelector(page, [
+    '#password',
+    'input[name="password"]',
+    '#loginPassword',
+    'input[type="password"]',
+    'input[data-testid="password"]',
+  ], { scraper: 'mr-cooper', step: 'password' });
+  if (!passwordSelector) {
+    return 'Could not find password input on login page';
+  }
+  await page.type(passwordSelector, credentials.password);
+
+  // Click the login/submit button
+  const submitSelector = await resolveSelector(page, [
+    'button[type="submit"]',
+    '#loginButton',
+    'button[data-testid="login-button"]',
+    'input[type="submit"]',
+    '.login-button',
+    'button.btn-primary',
+  ], { scraper: 'mr-cooper', step: 'submit' });
+  if (!submitSelector) {
+    return 'Could not find login submit button';
+  }
+  await page.click(submitSelector);
+
+  // Wait for navigation after login
+  await page.waitForNavigation({ waitUntil: 'networkidle0', timeout: 20000 }).catch(() => {
+    // Some SPAs don't trigger a full navigation on login
+  });
+
+  // Allow time for SPA rendering
+  await new Promise((resolve) => setTimeout(resolve, 3000));
+
+  // Mr. Cooper sends a one-time code to new devices
+  const otpError = await solveOtpChallenge(page, env, 'mr-cooper');
+  if (otpError) return otpError;
+
+  // Check for login failure indicators
+  const loginFailed = await page.evaluate(() => {
+    const doc = (globalThis as any).document;
+    if (!doc) return false;
+
+    // Check for common error message patterns
+    const errorSelectors = [
+      '.error-message',
+      '.login-error',
+      '[data-testid="error-message"]',
+      '.alert-danger',
+      '.alert-error',
+      '#errorMessage',
+      '.form-error',
+    ];
+    for (const sel of errorSelectors) {
+      const el = doc.querySelector(sel);
+      if (el && (el.textContent || '').trim().length > 0) return true;
+    }
+
+    // Check for CAPTCHA presence
+    const captchaSelectors = [
+      'iframe[src*="recaptcha"]',
+      'iframe[src*="captcha"]',
+      '.g-recaptcha',
+      '#captcha',
+      '[data-testid="captcha"]',
+    ];
+    for (const sel of captchaSelectors) {
+      if (doc.querySelector(sel)) return true;
+    }
+
+    // Check if we're still on the login page
+    const url = (globalThis as any).location?.href || '';
+    if (url.includes('/login') || url.includes('/signin')) {
+      // Still on login page after submit -- likely failed
+      return true;
+    }
+
+    return false;
+  });
+
+  if (loginFailed) {
+    return 'Login failed -- credentials may be incorrect, CAPTCHA present, or 2FA required';
+  }
+
+  return undefined;
 }
 
 /**
  * Scrape Mr. Cooper (mrcooper.com) mortgage portal for loan data.
  *
- * Logs in with credentials, navigates to the mortgage dashboard,
+ * Logs in with credentials (or reuses the stored login session), lands on the mortgage dashboard,
  * and extracts balance, payment, escrow, rate, and payment history.
  *
  * NOTE: CSS selectors are best-effort based on typical Mr. Cooper portal
  * structure and will need verification/adaptation against the live site.
- * Mr. Cooper may also employ CAPTCHA or 2FA which would require manual
- * intervention or additional handling.
+ * One-time codes are answered via `solveOtpChallenge` (TOTP seed or a code
+ * submitted to the async job); CAPTCHA still requires manual intervention.
  */
 export async function scrapeMrCooper(
-  browser: Fetcher,
+  page: any,
+  env: Env,
   credentials: { username: string; password: string },
   property: string
 ): Promise<MrCooperResult> {
-  let browserInstance: any;
-  let page: any;
   try {
-    browserInstance = await puppeteer.launch(browser);
-    page = await browserInstance.newPage();
-    await page.setViewport({ width: 1280, height: 800 });
-
-    // Navigate to Mr. Cooper login page
-    await page.goto('https://www.mrcooper.com/login', {
-      waitUntil: 'networkidle0',
-      timeout: 20000,
-    });
-
-    // Enter username -- try multiple selectors for resilience
-    const usernameSelector = await resolveSelector(page, [
-      '#username',
-      'input[name="username"]',
-      'input[name="email"]',
-      '#loginUsername',
-      'input[type="email"]',
-      'input[data-testid="username"]',
-    ]);
-    if (!usernameSelector) {
-      return { success: false, error: 'Could not find username input on login page' };
-    }
-    await page.type(usernameSelector, credentials.username);
-
-    // Enter password
-    const passwordSelector = await resolveSelector(page, [
-      '#password',
-      'input[name="password"]',
-      '#loginPassword',
-      'input[type="password"]',
-      'input[data-testid="password"]',
-    ]);
-    if (!passwordSelector) {
-      return { success: false, error: 'Could not find password input on login page' };
-    }
-    await page.type(passwordSelector, credentials.password);
-
-    // Click the login/submit button
-    const submitSelector = await resolveSelector(page, [
-      'button[type="submit"]',
-      '#loginButton',
-      'button[data-testid="login-button"]',
-      'input[type="submit"]',
-      '.login-button',
-      'button.btn-primary',
-    ]);
-    if (!submitSelector) {
-      return { success: false, error: 'Could not find login submit button' };
-    }
-    await page.click(submitSelector);
-
-    // Wait for navigation after login
-    await page.waitForNavigation({ waitUntil: 'networkidle0', timeout: 20000 }).catch(() => {
-      // Some SPAs don't trigger a full navigation on login
-    });
-
-    // Allow time for SPA rendering
-    await new Promise((resolve) => setTimeout(resolve, 3000));
-
-    // Check for login failure indicators
-    const loginFailed = await page.evaluate(() => {
-      const doc = (globalThis as any).document;
-      if (!doc) return false;
-
-      // Check for common error message patterns
-      const errorSelectors = [
-        '.error-message',
-        '.login-error',
-        '[data-testid="error-message"]',
-        '.alert-danger',
-        '.alert-error',
-        '#errorMessage',
-        '.form-error',
-      ];
-      for (const sel of errorSelectors) {
-        const el = doc.querySelector(sel);
-        if (el && (el.textContent || '').trim().length > 0) return true;
-      }
-
-      // Check for CAPTCHA presence
-      const captchaSelectors = [
-        'iframe[src*="recaptcha"]',
-        'iframe[src*="captcha"]',
-        '.g-recaptcha',
-        '#captcha',
-        '[data-testid="captcha"]',
-      ];
-      for (const sel of captchaSelectors) {
-        if (doc.querySelector(sel)) return true;
-      }
-
-      // Check if we're still on the login page
-      const url = (globalThis as any).location?.href || '';
-      if (url.includes('/login') || url.includes('/signin')) {
-        // Still on login page after submit -- likely failed
-        return true;
-      }
-
-      return false;
-    });
-
-    if (loginFailed) {
-      return {
-        success: false,
-        error: 'Login failed -- credentials may be incorrect, CAPTCHA present, or 2FA required',
-      };
-    }
+    const loginError = await withAuthSession(page, env, {
+      portal: 'mr-cooper',
+      account: credentials.username,
+      isLoginPage: (url) => url.includes('/login') || url.includes('/signin'),
+    }, () => logInMrCooper(page, env, credentials));
+    if (loginError) return { success: false, error: loginError, errorType: classifyScrapeError(loginError) };
 
     // Extract mortgage dashboard data
-    const mortgageData = await page.evaluate((inputProperty: string) => {
+    const dashboard = await page.evaluate(() => {
       const doc = (globalThis as any).document;
       if (!doc) return null;
 
@@ -168,20 +189,6 @@ export async function scrapeMrCooper(
         return '';
       };
 
-      // Helper to parse currency string to number
-      const parseCurrency = (s: string): number => {
-        const cleaned = s.replace(/[$,\s]/g, '');
-        const val = parseFloat(cleaned);
-        return isNaN(val) ? 0 : val;
-      };
-
-      // Helper to parse percentage string to number
-      const parseRate = (s: string): number => {
-        const cleaned = s.replace(/[%\s]/g, '');
-        const val = parseFloat(cleaned);
-        return isNaN(val) ? 0 : val;
-      };
-
       // Current balance / unpaid principal balance
       const balanceText = text(
         '[data-testid="current-balance"]',
@@ -194,7 +201,6 @@ export async function scrapeMrCooper(
         '.loan-balance .amount',
         '.balance-amount',
       );
-      const currentBalance = parseCurrency(balanceText);
 
       // Monthly payment amount
       const paymentText = text(
@@ -205,7 +211,6 @@ export async function scrapeMrCooper(
         '.total-payment .amount',
         '.payment-due .amount',
       );
-      const monthlyPayment = parseCurrency(paymentText);
 
       // Escrow balance
       const escrowText = text(
@@ -215,7 +220,6 @@ export async function scrapeMrCooper(
         '.escrow .amount',
         '.escrow-amount',
       );
-      const escrowBalance = parseCurrency(escrowText);
 
       // Interest rate
       const rateText = text(
@@ -225,7 +229,6 @@ export async function scrapeMrCooper(
         '.rate-value',
         '.loan-rate',
       );
-      const interestRate = parseRate(rateText);
 
       // Payoff amount (may not always be visible on dashboard)
       const payoffText = text(
@@ -234,40 +237,44 @@ export async function scrapeMrCooper(
         '#payoffAmount',
         '.payoff .amount',
       );
-      const payoffAmount = parseCurrency(payoffText) || undefined;
 
       // Next payment due date
-      const nextPaymentDate = text(
+      const nextPaymentText = text(
         '[data-testid="next-payment-date"]',
         '.next-payment-date',
         '#nextPaymentDate',
         '.payment-due-date',
         '.due-date',
-      ) || undefined;
+      );
 
-      return {
-        property: inputProperty,
-        currentBalance,
-        monthlyPayment,
-        escrowBalance,
-        interestRate,
-        payoffAmount,
-        nextPaymentDate,
-      };
-    }, property);
+      return { balanceText, paymentText, escrowText, rateText, payoffText, nextPaymentText };
+    });
 
-    if (!mortgageData) {
+    if (!dashboard) {
       return {
         success: false,
         error: 'Could not extract mortgage data -- page structure may have changed',
+        errorType: 'selector_missing',
       };
     }
 
+    const mortgageData = {
+      property,
+      currentBalance: parseCents(dashboard.balanceText) ?? undefined,
+      monthlyPayment: parseCents(dashboard.paymentText) ?? undefined,
+      escrowBalance: parseCents(dashboard.escrowText) ?? undefined,
+      interestRate: parsePercent(dashboard.rateText) ?? undefined,
+      // Payoff isn't always on the dashboard
+      payoffAmount: parseCents(dashboard.payoffText) ?? undefined,
+      nextPaymentDate: parseIsoDate(dashboard.nextPaymentText) ?? undefined,
+    };
+
     // Verify we got meaningful data (at least balance or payment)
-    if (mortgageData.currentBalance === 0 && mortgageData.monthlyPayment === 0) {
+    if (mortgageData.currentBalance === undefined && mortgageData.monthlyPayment === undefined) {
       return {
         success: false,
         error: 'No mortgage data found -- dashboard may have changed or property not found',
+        errorType: 'not_found',
       };
     }
 
@@ -284,30 +291,18 @@ export async function scrapeMrCooper(
         'a:has-text("Payment History")',
         'a:has-text("payment history")',
         '.nav-link[href*="history"]',
-      ]);
+      ], { scraper: 'mr-cooper', step: 'history-link' });
 
       if (historyLinkSelector) {
         await page.click(historyLinkSelector);
         await page.waitForNavigation({ waitUntil: 'networkidle0', timeout: 15000 }).catch(() => {});
         await new Promise((resolve) => setTimeout(resolve, 2000));
 
-        paymentHistory = await page.evaluate(() => {
+        const rows: Array<{ date: string; amount: string; breakdown: string[] }> = await page.evaluate(() => {
           const doc = (globalThis as any).document;
           if (!doc) return [];
 
-          const parseCurrency = (s: string): number => {
-            const cleaned = s.replace(/[$,\s]/g, '');
-            const val = parseFloat(cleaned);
-            return isNaN(val) ? 0 : val;
-          };
-
-          const entries: Array<{
-            date: string;
-            amount: number;
-            principal?: number;
-            interest?: number;
-            escrow?: number;
-          }> = [];
+          const entries: Array<{ date: string; amount: string; breakdown: string[] }> = [];
 
           // Try table-based payment history
           const rows = doc.querySelectorAll(
@@ -328,25 +323,11 @@ export async function scrapeMrCooper(
                 // Skip header rows that snuck through
                 if (dateText.toLowerCase().includes('date') || !dateText) continue;
 
-                const entry: {
-                  date: string;
-                  amount: number;
-                  principal?: number;
-                  interest?: number;
-                  escrow?: number;
-                } = {
-                  date: dateText,
-                  amount: parseCurrency(amountText),
-                };
-
-                // Try to extract breakdown columns if available
-                if (cells.length >= 3) entry.principal = parseCurrency(cells[2]?.textContent || '') || undefined;
-                if (cells.length >= 4) entry.interest = parseCurrency(cells[3]?.textContent || '') || undefined;
-                if (cells.length >= 5) entry.escrow = parseCurrency(cells[4]?.textContent || '') || undefined;
-
-                if (entry.amount > 0) {
-                  entries.push(entry);
-                }
+                // Principal, interest and escrow columns when the table has them
+                const breakdown: string[] = [];
+                for (let c = 2; c < cells.length && c < 5; c++) breakdown.push((cells[c]?.textContent || '').trim());
+
+                entries.push({ date: dateText, amount: amountText, breakdown });
               }
             }
           }
@@ -364,7 +345,8 @@ export async function scrapeMrCooper(
                 if (dateEl && amountEl) {
                   entries.push({
                     date: (dateEl.textContent || '').trim(),
-                    amount: parseCurrency(amountEl.textContent || ''),
+                    amount: (amountEl.textContent || '').trim(),
+                    breakdown: [],
                   });
                 }
               }
@@ -373,6 +355,17 @@ export async function scrapeMrCooper(
 
           return entries;
         }) || [];
+        paymentHistory = rows.flatMap((row) => {
+          const date = parseIsoDate(row.date);
+          const amount = parseCents(row.amount);
+          if (date === null || amount === null) return [];
+          const entry: PaymentHistoryEntry = { date, amount };
+          const [principal, interest, escrow] = row.breakdown.map((cell) => parseCents(cell) ?? undefined);
+          if (principal !== undefined) entry.principal = principal;
+          if (interest !== undefined) entry.interest = interest;
+          if (escrow !== undefined) entry.escrow = escrow;
+          return [entry];
+        });
       }
     } catch {
       // Payment history is best-effort -- swallow errors
@@ -386,10 +379,7 @@ export async function scrapeMrCooper(
       },
     };
   } catch (err: any) {
-    return { success: false, error: err.message };
-  } finally {
-    if (page) await page.close().catch(() => {});
-    if (browserInstance) await browserInstance.close().catch(() => {});
+    return { success: false, error: err.message, errorType: errorTypeOf(err) };
   }
 }
 
@@ -398,20 +388,53 @@ export const mrCooperScraper: ScraperModule<{ property: string }, MrCooperResult
     id: 'mr-cooper',
     name: 'Mr. Cooper Mortgage',
     category: 'mortgage',
-    version: '0.1.0',
+    version: '0.2.0',
     requiresAuth: true,
     credentialKeys: ['mrcooper:username', 'mrcooper:password'],
+    // Repeated logins in quick succession trip Mr. Cooper's account lockout
+    rateLimit: { requestsPerMinute: 2, minIntervalSeconds: 30 },
+    inputSchema: {
+      type: 'object',
+      required: ['property'],
+      properties: {
+        property: { type: 'string', minLength: 1, description: 'Property label echoed back in the result', examples: ['123 Main St'] },
+      },
+    },
+    outputSchema: {
+      type: 'object',
+      properties: {
+        property: { type: 'string' },
+        currentBalance: { type: 'integer', description: 'Cents' },
+        monthlyPayment: { type: 'integer', description: 'Cents' },
+        escrowBalance: { type: 'integer', description: 'Cents' },
+        interestRate: { type: 'number', description: 'Percent' },
+        payoffAmount: { type: 'integer', description: 'Cents' },
+        nextPaymentDate: { type: 'string', format: 'date' },
+        paymentHistory: {
+          type: 'array',
+          items: {
+            type: 'object',
+            properties: {
+              date: { type: 'string', format: 'date' },
+              amount: { type: 'integer', description: 'Cents' },
+              principal: { type: 'integer', description: 'Cents' },
+              interest: { type: 'integer', description: 'Cents' },
+              escrow: { type: 'integer', description: 'Cents' },
+            },
+          },
+        },
+      },
+    },
   },
   async execute(browser, env, input) {
     if (!input?.property?.trim()) {
       return wrapResult('mr-cooper', false, undefined, 'property is required');
     }
-    const username = await env.SCRAPE_KV.get('mrcooper:username');
-    const password = await env.SCRAPE_KV.get('mrcooper:password');
-    if (!username || !password) {
-      return wrapResult('mr-cooper', false, undefined, 'Mr. Cooper credentials not configured');
-    }
-    const result = await scrapeMrCooper(browser, { username, password }, input.property);
-    return wrapResult('mr-cooper', result.success, result.data, result.error);
+    const creds = await credentialResolver(env).resolve(mrCooperScraper.meta);
+    if (!creds.ok) return wrapResult('mr-cooper', false, undefined, creds.error, 'auth_failed');
+    const { 'mrcooper:username': username, 'mrcooper:password': password } = creds.values;
+    const result = await withPage(browser, (page) => scrapeMrCooper(page, env, { username, password }, input.property))
+      .catch((err: any): MrCooperResult => ({ success: false, error: err.message, errorType: errorTypeOf(err) }));
+    return wrapResult('mr-cooper', result.success, result.data, result.error, result.errorType);
   },
 };
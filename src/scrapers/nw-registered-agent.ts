@@ -1,10 +1,14 @@
-import puppeteer from '@cloudflare/puppeteer';
-import { wrapResult, resolveSelector, type ScraperModule } from './base';
-import { getChittyConnectCredential, getCredentialRef } from '../chittyconnect';
+import { wrapResult, resolveSelector, withPage, classifyScrapeError, errorTypeOf, type ScraperModule, type ScrapeErrorType } from './base';
+import { credentialResolver } from '../credentials';
+import { withAuthSession } from '../auth-session';
+import { solveOtpChallenge } from '../challenges';
+import { parseIsoDate } from '../normalize';
+import type { Env } from '../index';
 
 export interface NWDocument {
   title: string;
-  date: string;
+  /** `YYYY-MM-DD` */
+  date?: string;
   entity: string;
   type: 'service-of-process' | 'mail' | 'annual-report' | 'other';
   downloadUrl?: string;
@@ -20,98 +24,113 @@ export interface NWAgentResult {
   alerts: string[];
 }
 
+/** Log in to Northwest Registered Agent on `page`; returns an error message on failure */
+async function logInNWRegisteredAgent(
+  page: any,
+  env: Env,
+  credentials: { username: string; password: string },
+): Promise<string | undefined> {
+  // Navigate to NW login
+  await page.goto('https://www.northwestregisteredagent.com/login', {
+    waitUntil: 'networkidle0',
+    timeout: 25000,
+  });
+
+  // Enter email/username
+  const emailSelector = await resolveSelector(page, [
+    '#email',
+    'input[name="email"]',
+    'input[type="email"]',
+    '#username',
+    'input[name="username"]',
+    'input[placeholder*="email" i]',
+    'input[placeholder*="username" i]',
+  ], { scraper: 'nw-registered-agent', step: 'email' });
+  if (!emailSelector) {
+    return 'Could not find email/username input on NW login page';
+  }
+  await page.type(emailSelector, credentials.username);
+
+  // Enter password
+  const passwordSelector = await resolveSelector(page, [
+    '#password',
+    'input[name="password"]',
+    'input[type="password"]',
+    'input[placeholder*="password" i]',
+  ], { scraper: 'nw-registered-agent', step: 'password' });
+  if (!passwordSelector) {
+    return 'Could not find password input on NW login page';
+  }
+  await page.type(passwordSelector, credentials.password);
+
+  // Submit login
+  const submitSelector = await resolveSelector(page, [
+    'button[type="submit"]',
+    'input[type="submit"]',
+    'button.btn-primary',
+    'button:has-text("Log In")',
+    'button:has-text("Sign In")',
+    '.login-button',
+    '#loginButton',
+  ], { scraper: 'nw-registered-agent', step: 'submit' });
+  if (!submitSelector) {
+    return 'Could not find login button on NW page';
+  }
+  await page.click(submitSelector);
+
+  // Wait for navigation after login
+  await page.waitForNavigation({ waitUntil: 'networkidle0', timeout: 25000 }).catch(() => {});
+  await new Promise((resolve) => setTimeout(resolve, 3000));
+
+  // NW can require an emailed verification code
+  const otpError = await solveOtpChallenge(page, env, 'nw-registered-agent');
+  if (otpError) return otpError;
+
+  // Check for login failure
+  const loginFailed = await page.evaluate(() => {
+    const doc = (globalThis as any).document;
+    if (!doc) return false;
+    const url = (globalThis as any).location?.href || '';
+    if (url.includes('/login') || url.includes('/signin')) return true;
+    const errorSels = ['.error-message', '.alert-danger', '.alert-error', '.login-error', '[role="alert"]'];
+    for (const sel of errorSels) {
+      const el = doc.querySelector(sel);
+      if (el && (el.textContent || '').trim().length > 0) return true;
+    }
+    return false;
+  });
+
+  if (loginFailed) {
+    return 'NW login failed — credentials may be incorrect, CAPTCHA, or 2FA required';
+  }
+
+  return undefined;
+}
+
 /**
  * Scrape Northwest Registered Agent portal for documents and account status.
  *
- * Logs in, navigates to the document inbox, and extracts:
+ * Logs in (or reuses the stored login session), navigates to the document inbox, and extracts:
  * - Service of Process documents (legal notices)
  * - Mail forwarding items
  * - Account/payment status
  * - Annual report reminders
  *
- * Credentials resolved from ChittyConnect using 1Password-style refs.
+ * Credentials resolved via `credentialResolver` (ChittyConnect 1Password-style refs by default).
  */
 async function scrapeNWRegisteredAgent(
-  browser: Fetcher,
+  page: any,
+  env: Env,
   credentials: { username: string; password: string },
   options: { entity?: string; downloadPdfs?: boolean },
-): Promise<{ success: boolean; data?: NWAgentResult; error?: string }> {
-  let browserInstance: any;
-  let page: any;
+): Promise<{ success: boolean; data?: NWAgentResult; error?: string; errorType?: ScrapeErrorType }> {
   try {
-    browserInstance = await puppeteer.launch(browser);
-    page = await browserInstance.newPage();
-    await page.setViewport({ width: 1280, height: 900 });
-
-    // Navigate to NW login
-    await page.goto('https://www.northwestregisteredagent.com/login', {
-      waitUntil: 'networkidle0',
-      timeout: 25000,
-    });
-
-    // Enter email/username
-    const emailSelector = await resolveSelector(page, [
-      '#email',
-      'input[name="email"]',
-      'input[type="email"]',
-      '#username',
-      'input[name="username"]',
-      'input[placeholder*="email" i]',
-      'input[placeholder*="username" i]',
-    ]);
-    if (!emailSelector) {
-      return { success: false, error: 'Could not find email/username input on NW login page' };
-    }
-    await page.type(emailSelector, credentials.username);
-
-    // Enter password
-    const passwordSelector = await resolveSelector(page, [
-      '#password',
-      'input[name="password"]',
-      'input[type="password"]',
-      'input[placeholder*="password" i]',
-    ]);
-    if (!passwordSelector) {
-      return { success: false, error: 'Could not find password input on NW login page' };
-    }
-    await page.type(passwordSelector, credentials.password);
-
-    // Submit login
-    const submitSelector = await resolveSelector(page, [
-      'button[type="submit"]',
-      'input[type="submit"]',
-      'button.btn-primary',
-      'button:has-text("Log In")',
-      'button:has-text("Sign In")',
-      '.login-button',
-      '#loginButton',
-    ]);
-    if (!submitSelector) {
-      return { success: false, error: 'Could not find login button on NW page' };
-    }
-    await page.click(submitSelector);
-
-    // Wait for navigation after login
-    await page.waitForNavigation({ waitUntil: 'networkidle0', timeout: 25000 }).catch(() => {});
-    await new Promise((resolve) => setTimeout(resolve, 3000));
-
-    // Check for login failure
-    const loginFailed = await page.evaluate(() => {
-      const doc = (globalThis as any).document;
-      if (!doc) return false;
-      const url = (globalThis as any).location?.href || '';
-      if (url.includes('/login') || url.includes('/signin')) return true;
-      const errorSels = ['.error-message', '.alert-danger', '.alert-error', '.login-error', '[role="alert"]'];
-      for (const sel of errorSels) {
-        const el = doc.querySelector(sel);
-        if (el && (el.textContent || '').trim().length > 0) return true;
-      }
-      return false;
-    });
-
-    if (loginFailed) {
-      return { success: false, error: 'NW login failed — credentials may be incorrect, CAPTCHA, or 2FA required' };
-    }
+    const loginError = await withAuthSession(page, env, {
+      portal: 'nw-registered-agent',
+      account: credentials.username,
+      isLoginPage: (url) => url.includes('/login') || url.includes('/signin'),
+    }, () => logInNWRegisteredAgent(page, env, credentials));
+    if (loginError) return { success: false, error: loginError, errorType: classifyScrapeError(loginError) };
 
     // Extract account overview data
     const accountData = await page.evaluate(() => {
@@ -167,7 +186,7 @@ async function scrapeNWRegisteredAgent(
       'a:has-text("Inbox")',
       'a:has-text("Mail")',
       'a:has-text("Service of Process")',
-    ]);
+    ], { scraper: 'nw-registered-agent', step: 'documents-link' });
 
     let documents: NWDocument[] = [];
 
@@ -177,7 +196,7 @@ async function scrapeNWRegisteredAgent(
       await new Promise((resolve) => setTimeout(resolve, 2000));
 
       // Extract document list
-      documents = await page.evaluate((entityFilter: string | undefined) => {
+      const rows: Array<Omit<NWDocument, 'date'> & { date: string }> = await page.evaluate((entityFilter: string | undefined) => {
         const doc = (globalThis as any).document;
         if (!doc) return [];
 
@@ -267,6 +286,7 @@ async function scrapeNWRegisteredAgent(
 
         return docs;
       }, options.entity);
+      documents = rows.map((row) => ({ ...row, date: parseIsoDate(row.date) ?? undefined }));
     }
 
     // If requested, download PDFs for service-of-process documents
@@ -305,10 +325,7 @@ async function scrapeNWRegisteredAgent(
       },
     };
   } catch (err: any) {
-    return { success: false, error: err.message };
-  } finally {
-    if (page) await page.close().catch(() => {});
-    if (browserInstance) await browserInstance.close().catch(() => {});
+    return { success: false, error: err.message, errorType: errorTypeOf(err) };
   }
 }
 
@@ -320,38 +337,59 @@ export const nwRegisteredAgentScraper: ScraperModule<
     id: 'nw-registered-agent',
     name: 'Northwest Registered Agent',
     category: 'governance',
-    version: '0.1.0',
+    version: '0.2.0',
     requiresAuth: true,
-    credentialKeys: ['NWRA_USERNAME_REF', 'NWRA_PASSWORD_REF'],
+    credentialKeys: ['nwra:username', 'nwra:password'],
+    credentialRefs: {
+      'nwra:username': { ref: 'op://ChittyOS/Wyomingagents/username', envVar: 'NWRA_USERNAME_REF' },
+      'nwra:password': { ref: 'op://ChittyOS/Wyomingagents/password', envVar: 'NWRA_PASSWORD_REF' },
+    },
+    inputSchema: {
+      type: 'object',
+      properties: {
+        entity: { type: 'string', description: 'Only return documents mentioning this entity name' },
+        downloadPdfs: { type: 'boolean', description: 'Capture service-of-process documents as PDF (default true)' },
+      },
+    },
+    outputSchema: {
+      type: 'object',
+      properties: {
+        entity: { type: 'string' },
+        accountStatus: { type: 'string' },
+        documents: {
+          type: 'array',
+          items: {
+            type: 'object',
+            properties: {
+              title: { type: 'string' },
+              date: { type: 'string', format: 'date' },
+              entity: { type: 'string' },
+              type: { type: 'string', enum: ['service-of-process', 'mail', 'annual-report', 'other'] },
+              downloadUrl: { type: 'string' },
+              pdfBase64: { type: 'string' },
+            },
+          },
+        },
+        mailForwardingStatus: { type: 'string' },
+        paymentStatus: { type: 'string' },
+        alerts: { type: 'array', items: { type: 'string' } },
+      },
+    },
   },
   async execute(browser, env, input) {
-    const usernameRef = getCredentialRef(
-      env,
-      'NWRA_USERNAME_REF',
-      'op://ChittyOS/Wyomingagents/username',
-    );
-    const passwordRef = getCredentialRef(
-      env,
-      'NWRA_PASSWORD_REF',
-      'op://ChittyOS/Wyomingagents/password',
-    );
-    const [username, password] = await Promise.all([
-      getChittyConnectCredential(env, usernameRef),
-      getChittyConnectCredential(env, passwordRef),
-    ]);
-    if (!username || !password) {
-      return wrapResult<NWAgentResult>(
-        'nw-registered-agent',
-        false,
-        undefined,
-        `NW Registered Agent credentials unavailable via ChittyConnect (${usernameRef}, ${passwordRef})`,
-      );
-    }
-    const result = await scrapeNWRegisteredAgent(
+    const creds = await credentialResolver(env).resolve(nwRegisteredAgentScraper.meta);
+    if (!creds.ok) return wrapResult<NWAgentResult>('nw-registered-agent', false, undefined, creds.error, 'auth_failed');
+    const { 'nwra:username': username, 'nwra:password': password } = creds.values;
+    const result = await withPage(
       browser,
-      { username, password },
-      { entity: input?.entity, downloadPdfs: input?.downloadPdfs ?? true },
-    );
-    return wrapResult('nw-registered-agent', result.success, result.data, result.error);
+      (page) => scrapeNWRegisteredAgent(
+        page,
+        env,
+        { username, password },
+        { entity: input?.entity, downloadPdfs: input?.downloadPdfs ?? true },
+      ),
+      { viewport: { width: 1280, height: 900 } },
+    ).catch((err: any) => ({ success: false, data: undefined, error: err.message, errorType: errorTypeOf(err) }));
+    return wrapResult('nw-registered-agent', result.success, result.data, result.error, result.errorType);
   },
 };
@@ -1,11 +1,75 @@
-import puppeteer from '@cloudflare/puppeteer';
-import { wrapResult, resolveSelector, type ScraperModule } from './base';
+import { wrapResult, resolveSelector, withPage, classifyScrapeError, errorTypeOf, type ScraperModule } from './base';
+import { withAuthSession } from '../auth-session';
+import { credentialResolver } from '../credentials';
+import { solveOtpChallenge } from '../challenges';
+import { parseCents, parseIsoDate, type Cents } from '../normalize';
+import type { Env } from '../index';
 
 export interface PeoplesGasData {
   accountNumber: string;
-  currentBalance: number;
+  /** Omitted when the balance on the page can't be read */
+  currentBalance?: Cents;
+  /** `YYYY-MM-DD` */
   dueDate?: string;
-  billingHistory: Array<{ date: string; amount: number; therms?: number }>;
+  billingHistory: Array<{ date: string; amount: Cents; therms?: number }>;
+}
+
+/** Log in to Peoples Gas on `page`; returns an error message on failure */
+async function logInPeoplesGas(
+  page: any,
+  env: Env,
+  { username, password }: { username: string; password: string },
+): Promise<string | undefined> {
+  // Navigate to Peoples Gas / WEC Energy login
+  await page.goto('https://www.peoplesgasdelivery.com/login', {
+    waitUntil: 'networkidle0',
+    timeout: 30000,
+  });
+
+  // Login flow
+  const userSel = await resolveSelector(page, [
+    '#username', 'input[name="username"]', 'input[name="email"]',
+    'input[type="email"]', '#userId', 'input[data-testid="username"]',
+  ], { scraper: 'peoples-gas', step: 'username' });
+  if (!userSel) return 'Could not find username input';
+  await page.type(userSel, username);
+
+  const passSel = await resolveSelector(page, [
+    '#password', 'input[name="password"]', 'input[type="password"]',
+  ], { scraper: 'peoples-gas', step: 'password' });
+  if (!passSel) return 'Could not find password input';
+  await page.type(passSel, password);
+
+  const submitSel = await resolveSelector(page, [
+    'button[type="submit"]', '#loginButton', 'input[type="submit"]',
+    'button.btn-primary', '.login-btn',
+  ], { scraper: 'peoples-gas', step: 'submit' });
+  if (!submitSel) return 'Could not find submit button';
+  await page.click(submitSel);
+
+  try {
+    await page.waitForNavigation({ waitUntil: 'networkidle0', timeout: 20000 });
+  } catch (navErr: any) {
+    if (!navErr.message?.includes('timeout')) {
+      return `Navigation failed after login: ${navErr.message}`;
+    }
+  }
+  await new Promise((r) => setTimeout(r, 3000));
+
+  // One-time code prompt, if the account has 2FA enabled
+  const otpError = await solveOtpChallenge(page, env, 'peoples-gas');
+  if (otpError) return otpError;
+
+  // Check login failure
+  const stillOnLogin = await page.evaluate(() => {
+    const url = (globalThis as any).location?.href || '';
+    return url.includes('/login') || url.includes('/signin');
+  });
+  if (stillOnLogin) {
+    return 'Login failed -- check credentials or CAPTCHA';
+  }
+
+  return undefined;
 }
 
 export const peoplesGasScraper: ScraperModule<{ accountNumber: string }, PeoplesGasData> = {
@@ -13,147 +77,126 @@ export const peoplesGasScraper: ScraperModule<{ accountNumber: string }, Peoples
     id: 'peoples-gas',
     name: 'Peoples Gas',
     category: 'utility',
-    version: '0.1.0',
+    version: '0.2.0',
     requiresAuth: true,
     credentialKeys: ['peoplesgas:username', 'peoplesgas:password'],
+    inputSchema: {
+      type: 'object',
+      required: ['accountNumber'],
+      properties: {
+        accountNumber: { type: 'string', minLength: 1, examples: ['1234567890'] },
+      },
+    },
+    outputSchema: {
+      type: 'object',
+      properties: {
+        accountNumber: { type: 'string' },
+        currentBalance: { type: 'integer', description: 'Cents' },
+        dueDate: { type: 'string', format: 'date' },
+        billingHistory: {
+          type: 'array',
+          items: {
+            type: 'object',
+            properties: {
+              date: { type: 'string', format: 'date' },
+              amount: { type: 'integer', description: 'Cents' },
+              therms: { type: 'number' },
+            },
+          },
+        },
+      },
+    },
   },
 
   async execute(browser, env, input) {
     if (!input?.accountNumber?.trim()) {
-      return wrapResult<PeoplesGasData>('peoples-gas', false, undefined, 'accountNumber is required');
+      return wrapResult<PeoplesGasData>('peoples-gas', false, undefined, 'accountNumber is required', 'invalid_input');
     }
 
-    const username = await env.SCRAPE_KV.get('peoplesgas:username');
-    const password = await env.SCRAPE_KV.get('peoplesgas:password');
-    if (!username || !password) {
-      return wrapResult<PeoplesGasData>('peoples-gas', false, undefined, 'Peoples Gas credentials not configured');
-    }
+    const creds = await credentialResolver(env).resolve(peoplesGasScraper.meta);
+    if (!creds.ok) return wrapResult<PeoplesGasData>('peoples-gas', false, undefined, creds.error, 'auth_failed');
+    const { 'peoplesgas:username': username, 'peoplesgas:password': password } = creds.values;
 
-    let browserInstance: any;
-    let page: any;
     try {
-      browserInstance = await puppeteer.launch(browser);
-      page = await browserInstance.newPage();
-      await page.setViewport({ width: 1280, height: 800 });
-
-      // Navigate to Peoples Gas / WEC Energy login
-      await page.goto('https://www.peoplesgasdelivery.com/login', {
-        waitUntil: 'networkidle0',
-        timeout: 30000,
-      });
-
-      // Login flow
-      const userSel = await resolveSelector(page, [
-        '#username', 'input[name="username"]', 'input[name="email"]',
-        'input[type="email"]', '#userId', 'input[data-testid="username"]',
-      ]);
-      if (!userSel) return wrapResult<PeoplesGasData>('peoples-gas', false, undefined, 'Could not find username input');
-      await page.type(userSel, username);
-
-      const passSel = await resolveSelector(page, [
-        '#password', 'input[name="password"]', 'input[type="password"]',
-      ]);
-      if (!passSel) return wrapResult<PeoplesGasData>('peoples-gas', false, undefined, 'Could not find password input');
-      await page.type(passSel, password);
-
-      const submitSel = await resolveSelector(page, [
-        'button[type="submit"]', '#loginButton', 'input[type="submit"]',
-        'button.btn-primary', '.login-btn',
-      ]);
-      if (!submitSel) return wrapResult<PeoplesGasData>('peoples-gas', false, undefined, 'Could not find submit button');
-      await page.click(submitSel);
-
-      try {
-        await page.waitForNavigation({ waitUntil: 'networkidle0', timeout: 20000 });
-      } catch (navErr: any) {
-        if (!navErr.message?.includes('timeout')) {
-          return wrapResult<PeoplesGasData>('peoples-gas', false, undefined, `Navigation failed after login: ${navErr.message}`);
-        }
-      }
-      await new Promise((r) => setTimeout(r, 3000));
-
-      // Check login failure
-      const stillOnLogin = await page.evaluate(() => {
-        const url = (globalThis as any).location?.href || '';
-        return url.includes('/login') || url.includes('/signin');
-      });
-      if (stillOnLogin) {
-        return wrapResult<PeoplesGasData>('peoples-gas', false, undefined, 'Login failed -- check credentials or CAPTCHA');
-      }
-
-      // Extract account data from dashboard
-      const data = await page.evaluate((acctNum: string) => {
-        const doc = (globalThis as any).document;
-        if (!doc) return null;
-
-        const text = (...sels: string[]): string => {
-          for (const sel of sels) {
-            const el = doc.querySelector(sel);
-            if (el) { const t = (el.textContent || '').trim(); if (t) return t; }
-          }
-          return '';
-        };
-
-        const parseCurrency = (s: string): number => {
-          const v = parseFloat(s.replace(/[$,\s]/g, ''));
-          return isNaN(v) ? 0 : v;
-        };
-
-        const currentBalance = parseCurrency(text(
-          '.current-balance', '.balance-amount', '.amount-due',
-          '[data-testid="balance"]', '#currentBalance',
-        ));
-
-        const dueDate = text(
-          '.due-date', '.payment-due-date', '[data-testid="due-date"]',
-          '#dueDate',
-        ) || undefined;
-
-        // Billing history -- best effort from table
-        const billingHistory: Array<{ date: string; amount: number; therms?: number }> = [];
-        const rows = doc.querySelectorAll(
-          '.billing-history tr, .bill-history tbody tr, ' +
-          '[data-testid="billing-row"], .transaction-row',
-        );
-        if (rows) {
-          for (let i = 0; i < rows.length && i < 24; i++) {
-            const cells = rows[i].querySelectorAll('td');
-            if (cells.length >= 2) {
-              const dateText = (cells[0]?.textContent || '').trim();
-              if (!dateText || dateText.toLowerCase().includes('date')) continue;
-              const entry: { date: string; amount: number; therms?: number } = {
-                date: dateText,
-                amount: parseCurrency(cells[1]?.textContent || ''),
-              };
-              if (cells.length >= 3) {
-                const therms = parseFloat((cells[2]?.textContent || '').replace(/[^\d.]/g, ''));
-                if (!isNaN(therms)) entry.therms = therms;
+      return await withPage(browser, async (page) => {
+        const loginError = await withAuthSession(page, env, {
+          portal: 'peoples-gas',
+          account: username,
+          isLoginPage: (url) => url.includes('/login') || url.includes('/signin'),
+        }, () => logInPeoplesGas(page, env, { username, password }));
+        if (loginError) return wrapResult<PeoplesGasData>('peoples-gas', false, undefined, loginError, classifyScrapeError(loginError));
+
+        // Extract account data from dashboard
+        const account = await page.evaluate(() => {
+          const doc = (globalThis as any).document;
+          if (!doc) return null;
+
+          const text = (...sels: string[]): string => {
+            for (const sel of sels) {
+              const el = doc.querySelector(sel);
+              if (el) { const t = (el.textContent || '').trim(); if (t) return t; }
+            }
+            return '';
+          };
+
+          const balanceText = text(
+            '.current-balance', '.balance-amount', '.amount-due',
+            '[data-testid="balance"]', '#currentBalance',
+          );
+
+          const dueDateText = text(
+            '.due-date', '.payment-due-date', '[data-testid="due-date"]',
+            '#dueDate',
+          );
+
+          // Billing history -- best effort from table
+          const billingHistory: Array<{ date: string; amount: string; therms?: number }> = [];
+          const rows = doc.querySelectorAll(
+            '.billing-history tr, .bill-history tbody tr, ' +
+            '[data-testid="billing-row"], .transaction-row',
+          );
+          if (rows) {
+            for (let i = 0; i < rows.length && i < 24; i++) {
+              const cells = rows[i].querySelectorAll('td');
+              if (cells.length >= 2) {
+                const dateText = (cells[0]?.textContent || '').trim();
+                if (!dateText || dateText.toLowerCase().includes('date')) continue;
+                const entry: { date: string; amount: string; therms?: number } = {
+                  date: dateText,
+                  amount: (cells[1]?.textContent || '').trim(),
+                };
+                if (cells.length >= 3) {
+                  const therms = parseFloat((cells[2]?.textContent || '').replace(/[^\d.]/g, ''));
+                  if (!isNaN(therms)) entry.therms = therms;
+                }
+                billingHistory.push(entry);
               }
-              if (entry.amount > 0) billingHistory.push(entry);
             }
           }
-        }
 
-        return {
-          accountNumber: acctNum,
-          currentBalance,
-          dueDate,
-          billingHistory,
-        };
-      }, input.accountNumber);
+          return { balanceText, dueDateText, billingHistory };
+        });
 
-      if (!data) {
-        return wrapResult<PeoplesGasData>('peoples-gas', false, undefined, 'Could not extract account data');
-      }
+        if (!account) {
+          return wrapResult<PeoplesGasData>('peoples-gas', false, undefined, 'Could not extract account data', 'selector_missing');
+        }
 
-      return wrapResult('peoples-gas', true, data as PeoplesGasData);
+        const data: PeoplesGasData = {
+          accountNumber: input.accountNumber,
+          currentBalance: parseCents(account.balanceText) ?? undefined,
+          dueDate: parseIsoDate(account.dueDateText) ?? undefined,
+          billingHistory: account.billingHistory.flatMap(({ date, amount, ...usage }: any) => {
+            const billed = parseCents(amount);
+            const billDate = parseIsoDate(date);
+            return billed !== null && billDate !== null ? [{ date: billDate, amount: billed, ...usage }] : [];
+          }),
+        };
+        return wrapResult('peoples-gas', true, data);
+      });
     } catch (err: any) {
       const message = err?.message || String(err);
       console.error(`Scraper peoples-gas failed: ${message}`, err?.stack);
-      return wrapResult<PeoplesGasData>('peoples-gas', false, undefined, message);
-    } finally {
-      if (page) await page.close().catch((e: any) => console.warn(`Failed to close page: ${e.message}`));
-      if (browserInstance) await browserInstance.close().catch((e: any) => console.warn(`Failed to close browser: ${e.message}`));
+      return wrapResult<PeoplesGasData>('peoples-gas', false, undefined, message, errorTypeOf(err));
     }
   },
 };
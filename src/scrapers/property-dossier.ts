@@ -0,0 +1,194 @@
+import { wrapResult, type ScrapeResult, type ScraperModule } from './base';
+import { runSources, sourceStatus, allSourcesFailed, allSourcesFailedType, type SourceStatus } from './composite';
+import { cookCountyTaxScraper, type TaxInstallment, type TaxResult } from './cook-county-tax';
+import { cookCountyAssessorScraper, type AssessorResult } from './cook-county-assessor';
+import { cookCountyRecorderScraper, type RecorderFiling, type RecorderResult } from './cook-county-recorder';
+import { formatCents, formatPin, parsePin, type Cents } from '../normalize';
+
+export type PropertySource = 'tax' | 'assessor' | 'recorder';
+
+export interface PropertyDossier {
+  /** 14-digit PIN, digits only */
+  pin: string;
+  /** PIN in the county's dashed display form, e.g. 12-34-567-890-0000 */
+  formattedPin: string;
+  address?: string;
+  township?: string;
+  tax?: {
+    taxYear: number;
+    installments: TaxInstallment[];
+    totalTax: Cents;
+    /** Sum of the unpaid installments whose amount could be read */
+    unpaidTotal: Cents;
+  };
+  assessment?: {
+    taxYear?: number;
+    assessedValue?: Cents;
+    marketValue?: Cents;
+    triennial?: string;
+    appealWindowOpen: boolean;
+    appealDeadline?: string;
+  };
+  recorder?: {
+    filings: RecorderFiling[];
+    totalFilings: number;
+  };
+  exemptions: string[];
+  alerts: string[];
+  /** Per-source outcome -- a failed source leaves its section undefined rather than failing the dossier */
+  sources: Record<PropertySource, SourceStatus>;
+  partial: boolean;
+}
+
+/** Lis pendens recorded within this many days are surfaced as NEW_LIS_PENDENS */
+export const LIS_PENDENS_RECENT_DAYS = 90;
+
+function isRecent(recordedDate: string | undefined, now: Date): boolean {
+  const recorded = recordedDate ? Date.parse(recordedDate) : NaN;
+  // Unparseable dates are treated as recent -- better a spurious alert than a missed lis pendens
+  if (isNaN(recorded)) return true;
+  return now.getTime() - recorded <= LIS_PENDENS_RECENT_DAYS * 86400_000;
+}
+
+/**
+ * Merge the three per-source results into one property record. Pure, so the merge
+ * rules can be tested without a browser.
+ */
+export function buildPropertyDossier(
+  pin: string,
+  results: Record<PropertySource, ScrapeResult>,
+  now: Date = new Date(),
+): PropertyDossier {
+  const tax = results.tax.success ? (results.tax.data as TaxResult['data']) : undefined;
+  const assessor = results.assessor.success ? (results.assessor.data as AssessorResult) : undefined;
+  const recorder = results.recorder.success ? (results.recorder.data as RecorderResult) : undefined;
+  const alerts: string[] = [];
+
+  let taxSection: PropertyDossier['tax'];
+  if (tax) {
+    const unpaid = tax.installments.filter((i) => i.status !== 'paid');
+    for (const inst of unpaid) {
+      alerts.push(`UNPAID_INSTALLMENT: #${inst.number} ${inst.amount !== undefined ? formatCents(inst.amount) : 'amount unknown'} due ${inst.dueDate ?? 'unknown'} (${inst.status})`);
+    }
+    taxSection = {
+      taxYear: tax.taxYear,
+      installments: tax.installments,
+      totalTax: tax.totalTax,
+      unpaidTotal: unpaid.reduce((sum, i) => sum + (i.amount ?? 0), 0),
+    };
+  }
+
+  let assessmentSection: PropertyDossier['assessment'];
+  if (assessor) {
+    alerts.push(...assessor.alerts);
+    assessmentSection = {
+      taxYear: assessor.taxYear,
+      assessedValue: assessor.assessedValue,
+      marketValue: assessor.marketValue,
+      triennial: assessor.triennial,
+      appealWindowOpen: assessor.appealWindowOpen ?? false,
+      appealDeadline: assessor.appealDeadline,
+    };
+  }
+
+  let recorderSection: PropertyDossier['recorder'];
+  if (recorder) {
+    alerts.push(...recorder.alerts);
+    for (const filing of recorder.filings) {
+      if (filing.documentType.toLowerCase().includes('lis pendens') && isRecent(filing.recordedDate, now)) {
+        alerts.push(`NEW_LIS_PENDENS: ${filing.documentNumber} recorded ${filing.recordedDate ?? 'unknown'}`);
+      }
+    }
+    recorderSection = { filings: recorder.filings, totalFilings: recorder.totalFilings };
+  }
+
+  const sources = {
+    tax: sourceStatus(results.tax),
+    assessor: sourceStatus(results.assessor),
+    recorder: sourceStatus(results.recorder),
+  };
+
+  return {
+    pin,
+    formattedPin: formatPin(pin),
+    address: tax?.address || assessor?.address,
+    township: assessor?.township,
+    tax: taxSection,
+    assessment: assessmentSection,
+    recorder: recorderSection,
+    exemptions: [...new Set([...(tax?.exemptions ?? []), ...(assessor?.exemptions ?? [])])],
+    alerts: [...new Set(alerts)],
+    sources,
+    partial: Object.values(sources).some((s) => !s.success),
+  };
+}
+
+/**
+ * Composite property record for one Cook County PIN.
+ *
+ * Runs the Treasurer, Assessor and Recorder scrapers in parallel on one shared
+ * browser session and merges them into a single record with a unified alert list
+ * (unpaid installments, open appeal window, recent lis pendens). A source that
+ * fails is reported in `sources` -- the dossier only fails when every source does.
+ */
+export const propertyDossierScraper: ScraperModule<{ pin: string }, PropertyDossier> = {
+  meta: {
+    id: 'property-dossier',
+    name: 'Cook County Property Dossier — Tax, Assessment & Recorder Filings',
+    category: 'tax',
+    version: '0.1.0',
+    requiresAuth: false,
+    sharedBrowser: true,
+    inputSchema: {
+      type: 'object',
+      required: ['pin'],
+      properties: {
+        pin: {
+          type: 'string',
+          minLength: 1,
+          pattern: '^[0-9\\s-]+$',
+          description: 'Cook County property index number (10 or 14 digits), with or without dashes',
+          examples: ['12-34-567-890-0000'],
+        },
+      },
+    },
+    outputSchema: {
+      type: 'object',
+      properties: {
+        pin: { type: 'string' },
+        formattedPin: { type: 'string' },
+        address: { type: 'string' },
+        township: { type: 'string' },
+        tax: { type: 'object' },
+        assessment: { type: 'object' },
+        recorder: { type: 'object' },
+        exemptions: { type: 'array', items: { type: 'string' } },
+        alerts: { type: 'array', items: { type: 'string' } },
+        sources: { type: 'object' },
+        partial: { type: 'boolean' },
+      },
+    },
+  },
+  async execute(browser, env, input) {
+    const pin = parsePin(input?.pin ?? '')?.pin;
+    if (!pin) {
+      return wrapResult<PropertyDossier>('property-dossier', false, undefined, 'pin must be a 10 or 14 digit Cook County PIN', 'invalid_input');
+    }
+
+    const results = await runSources<PropertySource>(browser, env, {
+      tax: { scraper: cookCountyTaxScraper, input: { pin } },
+      assessor: { scraper: cookCountyAssessorScraper, input: { pin } },
+      recorder: { scraper: cookCountyRecorderScraper, input: { pin } },
+    });
+
+    const dossier = buildPropertyDossier(pin, results);
+    const allFailed = Object.values(dossier.sources).every((s) => !s.success);
+    return wrapResult(
+      'property-dossier',
+      !allFailed,
+      allFailed ? undefined : dossier,
+      allFailed ? allSourcesFailed(dossier.sources) : undefined,
+      allFailed ? allSourcesFailedType(dossier.sources) : undefined,
+    );
+  },
+};
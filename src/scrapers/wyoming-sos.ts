@@ -1,5 +1,5 @@
-import puppeteer from '@cloudflare/puppeteer';
-import { wrapResult, resolveSelector, type ScraperModule } from './base';
+import { wrapResult, resolveSelector, pageScraper, errorTypeOf, type ScrapeErrorType } from './base';
+import { parseIsoDate } from '../normalize';
 
 export interface WyomingEntityResult {
   entityName: string;
@@ -24,16 +24,10 @@ export interface WyomingEntityResult {
  * registered agent, and annual report compliance.
  */
 async function scrapeWyomingSOS(
-  browser: Fetcher,
+  page: any,
   entityName: string,
-): Promise<{ success: boolean; data?: WyomingEntityResult; error?: string }> {
-  let browserInstance: any;
-  let page: any;
+): Promise<{ success: boolean; data?: WyomingEntityResult; error?: string; errorType?: ScrapeErrorType }> {
   try {
-    browserInstance = await puppeteer.launch(browser);
-    page = await browserInstance.newPage();
-    await page.setViewport({ width: 1280, height: 900 });
-
     // Navigate to WY SOS business search
     await page.goto('https://wyobiz.wyo.gov/Business/FilingSearch.aspx', {
       waitUntil: 'networkidle0',
@@ -47,9 +41,9 @@ async function scrapeWyomingSOS(
       'input[name*="searchName"]',
       '#searchInput',
       'input[type="text"]',
-    ]);
+    ], { scraper: 'wyoming-sos', step: 'search-input' });
     if (!searchSelector) {
-      return { success: false, error: 'Could not find entity name search input on WY SOS page' };
+      return { success: false, error: 'Could not find entity name search input on WY SOS page', errorType: 'selector_missing' };
     }
     await page.type(searchSelector, entityName);
 
@@ -60,9 +54,9 @@ async function scrapeWyomingSOS(
       'button[type="submit"]',
       'input[type="submit"]',
       '#btnSearch',
-    ]);
+    ], { scraper: 'wyoming-sos', step: 'search-button' });
     if (!searchBtn) {
-      return { success: false, error: 'Could not find search button' };
+      return { success: false, error: 'Could not find search button', errorType: 'selector_missing' };
     }
     await page.click(searchBtn);
     await page.waitForNavigation({ waitUntil: 'networkidle0', timeout: 20000 }).catch(() => {});
@@ -153,34 +147,61 @@ async function scrapeWyomingSOS(
     }, entityName);
 
     if (!entityData) {
-      return { success: false, error: 'Could not extract entity data from WY SOS' };
+      return { success: false, error: 'Could not extract entity data from WY SOS', errorType: 'selector_missing' };
     }
 
-    return { success: true, data: entityData };
+    return {
+      success: true,
+      data: {
+        ...entityData,
+        formationDate: parseIsoDate(entityData.formationDate) ?? undefined,
+        annualReportDue: parseIsoDate(entityData.annualReportDue) ?? undefined,
+      },
+    };
   } catch (err: any) {
-    return { success: false, error: err.message };
-  } finally {
-    if (page) await page.close().catch(() => {});
-    if (browserInstance) await browserInstance.close().catch(() => {});
+    return { success: false, error: err.message, errorType: errorTypeOf(err) };
   }
 }
 
-export const wyomingSOSScraper: ScraperModule<
+export const wyomingSOSScraper = pageScraper<
   { entityName: string },
   WyomingEntityResult
-> = {
+>({
   meta: {
     id: 'wyoming-sos',
     name: 'Wyoming Secretary of State — Entity Lookup',
     category: 'governance',
-    version: '0.1.0',
+    version: '0.2.0',
     requiresAuth: false,
+    cacheTtlSeconds: 86400,
+    sharedBrowser: true,
+    inputSchema: {
+      type: 'object',
+      required: ['entityName'],
+      properties: {
+        entityName: { type: 'string', minLength: 1 },
+      },
+    },
+    outputSchema: {
+      type: 'object',
+      properties: {
+        entityName: { type: 'string' },
+        filingId: { type: 'string' },
+        status: { type: 'string' },
+        formationDate: { type: 'string', format: 'date' },
+        entityType: { type: 'string' },
+        registeredAgent: { type: 'string' },
+        annualReportDue: { type: 'string', format: 'date' },
+        annualReportFiled: { type: 'boolean' },
+        principalOffice: { type: 'string' },
+        alerts: { type: 'array', items: { type: 'string' } },
+      },
+    },
   },
-  async execute(browser, _env, input) {
-    if (!input?.entityName?.trim()) {
-      return wrapResult<WyomingEntityResult>('wyoming-sos', false, undefined, 'entityName is required');
-    }
-    const result = await scrapeWyomingSOS(browser, input.entityName.trim());
-    return wrapResult('wyoming-sos', result.success, result.data, result.error);
+  page: { viewport: { width: 1280, height: 900 } },
+  validate: (input) => (input?.entityName?.trim() ? undefined : 'entityName is required'),
+  async execute(page, _env, input) {
+    const result = await scrapeWyomingSOS(page, input.entityName.trim());
+    return wrapResult('wyoming-sos', result.success, result.data, result.error, result.errorType);
   },
-};
+});
@@ -0,0 +1,137 @@
+import type { SelectorResolution } from './scrapers/base';
+
+/** Identifies one `resolveSelector` call site: the scraper and the element it looks for */
+export interface SelectorStep {
+  scraper: string;
+  step: string;
+}
+
+export interface SelectorHealthRecord extends SelectorStep {
+  /** Candidate list from the most recent resolution -- counts reset when it changes */
+  candidates: string[];
+  total: number;
+  /** Resolutions by matched candidate index (`"0"`, `"1"`, ...) or `"none"` */
+  counts: Record<string, number>;
+  lastMatchedIndex: number | null;
+  lastSeenAt: string;
+  lastFailureAt?: string;
+}
+
+/**
+ * `healthy`: the latest resolution matched the primary candidate.
+ * `drifting`: it only matched a fallback -- the page changed, the scrape still works.
+ * `failing`: no candidate matched.
+ */
+export type SelectorHealthStatus = 'healthy' | 'drifting' | 'failing';
+
+export interface SelectorHealth extends SelectorHealthRecord {
+  status: SelectorHealthStatus;
+  /** Share of resolutions that fell through to a fallback or matched nothing */
+  fallbackRate: number;
+  failureRate: number;
+}
+
+const KEY_PREFIX = 'selectors:';
+
+const STATUS_ORDER: Record<SelectorHealthStatus, number> = { failing: 0, drifting: 1, healthy: 2 };
+
+/**
+ * Resolutions recorded since the last flush, aggregated per step. Module-level because
+ * `resolveSelector` has no env; every route that runs scrapers flushes it to KV.
+ */
+const pending = new Map<string, SelectorHealthRecord>();
+
+function stepKey({ scraper, step }: SelectorStep): string {
+  return `${KEY_PREFIX}${scraper}:${step}`;
+}
+
+function sameCandidates(a: string[], b: string[]): boolean {
+  return a.length === b.length && a.every((s, i) => s === b[i]);
+}
+
+/** Fold `next` into `base`; a changed candidate list means the scraper was updated, so start over */
+function merge(base: SelectorHealthRecord | undefined, next: SelectorHealthRecord): SelectorHealthRecord {
+  if (!base || !sameCandidates(base.candidates, next.candidates)) return next;
+  const counts = { ...base.counts };
+  for (const [k, n] of Object.entries(next.counts)) counts[k] = (counts[k] ?? 0) + n;
+  return {
+    ...next,
+    total: base.total + next.total,
+    counts,
+    lastFailureAt: next.lastFailureAt ?? base.lastFailureAt,
+  };
+}
+
+export function recordSelectorResolution(step: SelectorStep, resolution: SelectorResolution): void {
+  const now = new Date().toISOString();
+  const matched = resolution.matchedIndex;
+  const entry: SelectorHealthRecord = {
+    scraper: step.scraper,
+    step: step.step,
+    candidates: [...resolution.selectors],
+    total: 1,
+    counts: { [matched === null ? 'none' : String(matched)]: 1 },
+    lastMatchedIndex: matched,
+    lastSeenAt: now,
+    ...(matched === null ? { lastFailureAt: now } : {}),
+  };
+  const key = stepKey(step);
+  pending.set(key, merge(pending.get(key), entry));
+}
+
+/**
+ * Write pending resolutions to `selectors:<scraper>:<step>` counters in KV.
+ * KV has no atomic increment, so concurrent flushes of the same step can drop a few
+ * counts -- fine for drift detection. Never throws.
+ */
+export async function flushSelectorHealth(kv: KVNamespace): Promise<void> {
+  const batch = [...pending.entries()];
+  pending.clear();
+  for (const [key, entry] of batch) {
+    try {
+      let stored: SelectorHealthRecord | undefined;
+      const raw = await kv.get(key);
+      if (raw) {
+        try {
+          stored = JSON.parse(raw);
+        } catch (err) {
+          console.error(`Corrupted selector health record ${key}, resetting: ${err}`);
+        }
+      }
+      await kv.put(key, JSON.stringify(merge(stored, entry)));
+    } catch (err: any) {
+      console.error(`Failed to flush selector health for ${key}: ${err.message}`);
+    }
+  }
+}
+
+export function selectorHealth(record: SelectorHealthRecord): SelectorHealth {
+  const primary = record.counts['0'] ?? 0;
+  const none = record.counts.none ?? 0;
+  const status: SelectorHealthStatus = record.lastMatchedIndex === null
+    ? 'failing'
+    : record.lastMatchedIndex > 0 ? 'drifting' : 'healthy';
+  return {
+    ...record,
+    status,
+    fallbackRate: record.total ? (record.total - primary) / record.total : 0,
+    failureRate: record.total ? none / record.total : 0,
+  };
+}
+
+/** Stored health for every step (optionally one scraper), failing first */
+export async function listSelectorHealth(kv: KVNamespace, scraper?: string): Promise<SelectorHealth[]> {
+  const list = await kv.list({ prefix: scraper ? `${KEY_PREFIX}${scraper}:` : KEY_PREFIX });
+  const entries: SelectorHealth[] = [];
+  for (const key of list.keys) {
+    const raw = await kv.get(key.name);
+    if (!raw) continue;
+    try {
+      entries.push(selectorHealth(JSON.parse(raw)));
+    } catch (err) {
+      console.error(`Failed to parse selector health record: key=${key.name}, error=${err}`);
+    }
+  }
+  return entries.sort((a, b) => STATUS_ORDER[a.status] - STATUS_ORDER[b.status]
+    || a.scraper.localeCompare(b.scraper) || a.step.localeCompare(b.step));
+}
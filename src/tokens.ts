@@ -0,0 +1,195 @@
+import type { JsonSchema } from './schema';
+import type { ScraperCategory, ScraperMeta } from './scrapers/base';
+
+/** A named caller token as listed by the admin endpoints -- the secret itself is never stored */
+export interface ApiToken {
+  id: string;
+  name: string;
+  /** Portal IDs this token may run, or `*` for every scraper */
+  portals: string[];
+  /** Scraper categories this token may run, in addition to `portals` */
+  categories: ScraperCategory[];
+  createdAt: string;
+  expiresAt: string | null;
+  lastUsedAt: string | null;
+  revokedAt?: string;
+}
+
+interface StoredApiToken extends ApiToken {
+  /** SHA-256 of the full token, hex */
+  hash: string;
+}
+
+export type ApiTokenStatus = 'active' | 'expired' | 'revoked';
+
+export const API_TOKEN_ID_RE = /^[0-9a-f]{32}$/;
+
+/** `cst_<id>.<secret>` -- the ID locates the record, the hash of the whole string authenticates it */
+const API_TOKEN_RE = /^cst_([0-9a-f]{32})\.[A-Za-z0-9_-]{43}$/;
+
+/** Revoked and expired records stay listable this long before KV drops them */
+const RETAIN_AFTER_END_SECONDS = 30 * 86400;
+
+/** lastUsedAt is rewritten at most this often per token -- KV allows one write per key per second */
+const LAST_USED_RESOLUTION_MS = 60_000;
+
+const SCRAPER_CATEGORIES: ScraperCategory[] = ['utility', 'court', 'mortgage', 'tax', 'hoa', 'governance', 'generic'];
+
+/** Body of `POST /api/v1/admin/tokens`; at least one of `portals` / `categories` must be non-empty */
+export const API_TOKEN_REQUEST_SCHEMA: JsonSchema = {
+  type: 'object',
+  required: ['name'],
+  additionalProperties: false,
+  properties: {
+    name: { type: 'string', minLength: 1, maxLength: 100, description: 'Who the token is for, e.g. "chittycommand-cron"' },
+    portals: {
+      type: 'array',
+      maxItems: 100,
+      items: { type: 'string', pattern: '^(\\*|[a-z0-9-]{1,64})$' },
+      description: 'Portal IDs the token may run, or ["*"] for all',
+    },
+    categories: {
+      type: 'array',
+      items: { type: 'string', enum: SCRAPER_CATEGORIES },
+      description: 'Scraper categories the token may run',
+    },
+    expiresInDays: { type: 'integer', minimum: 1, maximum: 3650, description: 'Token lifetime (default: no expiry)' },
+  },
+};
+
+function tokenKey(id: string): string {
+  return `apitoken:${id}`;
+}
+
+async function sha256Hex(text: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(text));
+  return Array.from(new Uint8Array(digest)).map((b) => b.toString(16).padStart(2, '0')).join('');
+}
+
+function base64Url(bytes: Uint8Array): string {
+  return btoa(String.fromCharCode(...bytes)).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+function toPublic({ hash: _hash, ...token }: StoredApiToken): ApiToken {
+  return token;
+}
+
+export function apiTokenStatus(token: ApiToken, now = Date.now()): ApiTokenStatus {
+  if (token.revokedAt) return 'revoked';
+  if (token.expiresAt && Date.parse(token.expiresAt) <= now) return 'expired';
+  return 'active';
+}
+
+/** Keep a record until RETAIN_AFTER_END_SECONDS past its expiry or revocation; no TTL otherwise */
+function retentionTtl(token: ApiToken): number | undefined {
+  const end = token.revokedAt ?? token.expiresAt;
+  if (!end) return undefined;
+  return Math.max(60, Math.ceil((Date.parse(end) - Date.now()) / 1000) + RETAIN_AFTER_END_SECONDS);
+}
+
+async function saveApiToken(kv: KVNamespace, token: StoredApiToken): Promise<void> {
+  const ttl = retentionTtl(token);
+  await kv.put(tokenKey(token.id), JSON.stringify(token), ttl ? { expirationTtl: ttl } : undefined);
+}
+
+async function getStoredApiToken(kv: KVNamespace, id: string): Promise<StoredApiToken | null> {
+  const raw = await kv.get(tokenKey(id));
+  if (!raw) return null;
+  try {
+    return JSON.parse(raw) as StoredApiToken;
+  } catch (err) {
+    console.error(`Corrupted API token record ${tokenKey(id)}: ${err}`);
+    return null;
+  }
+}
+
+/** Mint a token. The returned `secret` is shown to the admin once; only its hash is kept. */
+export async function createApiToken(
+  kv: KVNamespace,
+  spec: { name: string; portals?: string[]; categories?: ScraperCategory[]; expiresAt?: string | null },
+): Promise<{ token: ApiToken; secret: string }> {
+  const id = crypto.randomUUID().replace(/-/g, '');
+  const secret = `cst_${id}.${base64Url(crypto.getRandomValues(new Uint8Array(32)))}`;
+  const stored: StoredApiToken = {
+    id,
+    name: spec.name,
+    portals: spec.portals ?? [],
+    categories: spec.categories ?? [],
+    createdAt: new Date().toISOString(),
+    expiresAt: spec.expiresAt ?? null,
+    lastUsedAt: null,
+    hash: await sha256Hex(secret),
+  };
+  await saveApiToken(kv, stored);
+  return { token: toPublic(stored), secret };
+}
+
+export async function listApiTokens(kv: KVNamespace): Promise<Array<ApiToken & { status: ApiTokenStatus }>> {
+  const tokens: Array<ApiToken & { status: ApiTokenStatus }> = [];
+  const list = await kv.list({ prefix: 'apitoken:' });
+  for (const key of list.keys) {
+    const stored = await getStoredApiToken(kv, key.name.slice('apitoken:'.length));
+    if (stored) tokens.push({ ...toPublic(stored), status: apiTokenStatus(stored) });
+  }
+  return tokens.sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+}
+
+/** Mark a token revoked. Returns null when no such token exists. */
+export async function revokeApiToken(kv: KVNamespace, id: string): Promise<ApiToken | null> {
+  const stored = await getStoredApiToken(kv, id);
+  if (!stored) return null;
+  if (!stored.revokedAt) {
+    stored.revokedAt = new Date().toISOString();
+    await saveApiToken(kv, stored);
+  }
+  return toPublic(stored);
+}
+
+/**
+ * The active token matching `secret`, or null. Anything that isn't shaped like a
+ * minted token returns null without a KV read.
+ */
+export async function verifyApiToken(kv: KVNamespace, secret: string): Promise<ApiToken | null> {
+  const match = API_TOKEN_RE.exec(secret);
+  if (!match) return null;
+  const stored = await getStoredApiToken(kv, match[1]);
+  if (!stored || apiTokenStatus(stored) !== 'active') return null;
+
+  const hash = new TextEncoder().encode(await sha256Hex(secret));
+  const expected = new TextEncoder().encode(stored.hash);
+  if (hash.length !== expected.length || !crypto.subtle.timingSafeEqual(hash, expected)) return null;
+  return toPublic(stored);
+}
+
+/** Stamp lastUsedAt, at most once per LAST_USED_RESOLUTION_MS. Failures are logged, never thrown. */
+export async function touchApiToken(kv: KVNamespace, token: ApiToken): Promise<void> {
+  const now = Date.now();
+  if (token.lastUsedAt && now - Date.parse(token.lastUsedAt) < LAST_USED_RESOLUTION_MS) return;
+  try {
+    const stored = await getStoredApiToken(kv, token.id);
+    if (!stored || stored.revokedAt) return;
+    stored.lastUsedAt = new Date(now).toISOString();
+    await saveApiToken(kv, stored);
+  } catch (err: any) {
+    console.error(`Failed to record use of API token ${token.id}: ${err.message}`);
+  }
+}
+
+/** Whether the token's allowlist covers this scraper */
+export function tokenAllowsScraper(token: ApiToken, meta: Pick<ScraperMeta, 'id' | 'category'>): boolean {
+  return token.portals.includes('*') || token.portals.includes(meta.id) || token.categories.includes(meta.category);
+}
+
+/** Caller token by env object. index.ts gives every request its own env copy, so this is per request. */
+const callerTokens = new WeakMap<object, ApiToken>();
+
+/** Record the scoped token behind this request, for checks made below the routes */
+export function setCallerToken(env: object, token: ApiToken): void {
+  callerTokens.set(env, token);
+}
+
+/** Whether the caller behind `env` may run this scraper -- service-token requests may run every one */
+export function callerAllowsScraper(env: object, meta: Pick<ScraperMeta, 'id' | 'category'>): boolean {
+  const token = callerTokens.get(env);
+  return !token || tokenAllowsScraper(token, meta);
+}
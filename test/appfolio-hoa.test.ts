@@ -1,5 +1,14 @@
-import { describe, it, expect } from 'vitest';
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
 import { appfolioHoaScraper } from '../src/scrapers/appfolio-hoa';
+import { createReplaySession, useInstantDelays } from './replay';
+import { createFakeKV } from './fake-kv';
+import loginHtml from './fixtures/appfolio-hoa/login.html?raw';
+import dashboardHtml from './fixtures/appfolio-hoa/dashboard.html?raw';
+import ledgerHtml from './fixtures/appfolio-hoa/ledger.html?raw';
+import violationsHtml from './fixtures/appfolio-hoa/violations.html?raw';
+import type { Env } from '../src/index';
+
+vi.mock('@cloudflare/puppeteer', async () => (await import('./replay')).replayPuppeteer);
 
 describe('appfolio-hoa scraper meta', () => {
   it('has correct metadata', () => {
@@ -12,8 +21,55 @@ describe('appfolio-hoa scraper meta', () => {
     ]);
   });
 
-  it('has version 0.2.0 for multi-portfolio support', () => {
-    expect(appfolioHoaScraper.meta.version).toBe('0.2.0');
+  it('has version 0.3.0 for amounts in cents', () => {
+    expect(appfolioHoaScraper.meta.version).toBe('0.3.0');
     expect(appfolioHoaScraper.meta.name).toBe('AppFolio HOA');
   });
 });
+
+describe('appfolio-hoa replay', () => {
+  const BASE = 'https://propertyhill.appfolio.com';
+  beforeEach(() => useInstantDelays());
+  afterEach(() => vi.restoreAllMocks());
+
+  async function envWithCredentials() {
+    const kv = createFakeKV();
+    await kv.put('appfolio-propertyhill:username', 'owner@example.com');
+    await kv.put('appfolio-propertyhill:password', 'hunter2');
+    return { SCRAPE_KV: kv } as unknown as Env;
+  }
+
+  it('logs in, then extracts the dashboard, ledger and violations', async () => {
+    const s = createReplaySession({
+      pages: {
+        [`${BASE}/connect/users/sign_in`]: loginHtml,
+        [`${BASE}/connect/dashboard`]: dashboardHtml,
+        [`${BASE}/connect/ledger`]: ledgerHtml,
+        [`${BASE}/connect/violations`]: violationsHtml,
+      },
+      clicks: { '#kc-login': `${BASE}/connect/dashboard` },
+    });
+    const result = await appfolioHoaScraper.execute(s.fetcher, await envWithCredentials(), { portfolio: 'propertyhill' });
+    expect(result.success).toBe(true);
+    expect(s.typed.map((t) => t.selector)).toEqual(['#username', '#password']);
+    expect(result.data).toMatchObject({
+      propertyAddress: '200 N Example Ave Unit 3',
+      currentBalance: 125000,
+      dueDate: '2026-03-01',
+      autopay: true,
+      ledgerEntries: [
+        { date: '2026-01-01', description: 'Monthly Assessment', amount: 62500 },
+        { date: '2026-02-01', description: 'Monthly Assessment', amount: 62500 },
+        { date: '2026-02-05', description: 'Payment - Thank You', amount: -62500 },
+      ],
+      violations: [{ date: '2026-01-20', type: 'Trash Bins', status: 'Open', description: 'Bins left at curb' }],
+    });
+  });
+
+  it('reports a login that never leaves the sign-in page', async () => {
+    const s = createReplaySession({ pages: { [`${BASE}/connect/users/sign_in`]: loginHtml } });
+    const result = await appfolioHoaScraper.execute(s.fetcher, await envWithCredentials(), { portfolio: 'propertyhill' });
+    expect(result).toMatchObject({ success: false, error: 'Login failed -- check credentials or 2FA requirement' });
+    expect(s.openBrowsers).toBe(0);
+  });
+});
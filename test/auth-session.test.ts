@@ -0,0 +1,133 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { authSessionKey, loadAuthSession, saveAuthSession, withAuthSession } from '../src/auth-session';
+import { appfolioHoaScraper } from '../src/scrapers/appfolio-hoa';
+import { createReplaySession, replayPuppeteer, useInstantDelays, type ReplayFixtures } from './replay';
+import { createFakeKV } from './fake-kv';
+import loginHtml from './fixtures/appfolio-hoa/login.html?raw';
+import dashboardHtml from './fixtures/appfolio-hoa/dashboard.html?raw';
+import ledgerHtml from './fixtures/appfolio-hoa/ledger.html?raw';
+import violationsHtml from './fixtures/appfolio-hoa/violations.html?raw';
+import type { Env } from '../src/index';
+
+vi.mock('@cloudflare/puppeteer', async () => (await import('./replay')).replayPuppeteer);
+
+const BASE = 'https://propertyhill.appfolio.com';
+const SPEC = { portal: 'appfolio-hoa:propertyhill', account: 'owner@example.com', isLoginPage: () => false };
+
+function portal(cookie = 'appfolio_session'): ReplayFixtures {
+  return {
+    pages: {
+      [`${BASE}/connect/users/sign_in`]: loginHtml,
+      [`${BASE}/connect/dashboard`]: dashboardHtml,
+      [`${BASE}/connect/ledger`]: ledgerHtml,
+      [`${BASE}/connect/violations`]: violationsHtml,
+    },
+    clicks: { '#kc-login': `${BASE}/connect/dashboard` },
+    auth: {
+      cookie,
+      protect: [`${BASE}/connect/dashboard`, `${BASE}/connect/ledger`, `${BASE}/connect/violations`],
+      loginUrl: `${BASE}/connect/users/sign_in`,
+      grantedBy: '#kc-login',
+    },
+  };
+}
+
+async function envWithCredentials(extra: Partial<Env> = {}) {
+  const kv = createFakeKV();
+  await kv.put('appfolio-propertyhill:username', 'owner@example.com');
+  await kv.put('appfolio-propertyhill:password', 'hunter2');
+  return { SCRAPE_KV: kv, SESSION_ENCRYPTION_KEY: 'test-session-secret', ...extra } as unknown as Env & {
+    SCRAPE_KV: ReturnType<typeof createFakeKV>;
+  };
+}
+
+describe('auth session reuse', () => {
+  beforeEach(() => useInstantDelays());
+  afterEach(() => vi.restoreAllMocks());
+
+  it('stores the login encrypted and skips the login form on the next run', async () => {
+    const env = await envWithCredentials();
+    const first = createReplaySession(portal());
+    expect((await appfolioHoaScraper.execute(first.fetcher, env, { portfolio: 'propertyhill' })).success).toBe(true);
+    expect(first.typed).toHaveLength(2);
+
+    const key = await authSessionKey(SPEC.portal, SPEC.account);
+    const stored = env.SCRAPE_KV.store.get(key)!;
+    expect(stored).toBeDefined();
+    expect(stored).not.toContain('appfolio_session');
+    expect(stored).not.toContain('/connect/dashboard');
+
+    const second = createReplaySession(portal());
+    const result = await appfolioHoaScraper.execute(second.fetcher, env, { portfolio: 'propertyhill' });
+    expect(result.success).toBe(true);
+    expect(result.data).toMatchObject({ currentBalance: 125000 });
+    expect(second.typed).toEqual([]);
+    expect(second.visited[0]).toBe(`${BASE}/connect/dashboard`);
+  });
+
+  it('logs in again and replaces the session when the restored one has expired', async () => {
+    const env = await envWithCredentials();
+    await appfolioHoaScraper.execute(createReplaySession(portal()).fetcher, env, { portfolio: 'propertyhill' });
+    const key = await authSessionKey(SPEC.portal, SPEC.account);
+    const before = env.SCRAPE_KV.store.get(key);
+
+    // The portal no longer accepts the stored cookie: the dashboard bounces to sign-in
+    const rotated = createReplaySession(portal('appfolio_session_v2'));
+    const result = await appfolioHoaScraper.execute(rotated.fetcher, env, { portfolio: 'propertyhill' });
+    expect(result.success).toBe(true);
+    expect(rotated.visited.slice(0, 2)).toEqual([`${BASE}/connect/users/sign_in`, `${BASE}/connect/users/sign_in`]);
+    expect(rotated.typed.map((t) => t.selector)).toEqual(['#username', '#password']);
+    expect(env.SCRAPE_KV.store.get(key)).not.toBe(before);
+    expect((await loadAuthSession(env, SPEC))!.cookies.map((c) => c.name)).toEqual(['appfolio_session_v2']);
+  });
+
+  it('persists nothing without SESSION_ENCRYPTION_KEY', async () => {
+    const env = await envWithCredentials({ SESSION_ENCRYPTION_KEY: undefined });
+    await appfolioHoaScraper.execute(createReplaySession(portal()).fetcher, env, { portfolio: 'propertyhill' });
+    expect([...env.SCRAPE_KV.store.keys()].filter((k) => k.startsWith('authsession:'))).toEqual([]);
+  });
+});
+
+describe('auth session storage', () => {
+  const state = {
+    landingUrl: `${BASE}/connect/dashboard`,
+    cookies: [{ name: 'sid', value: 'abc', domain: 'propertyhill.appfolio.com', expires: Date.now() / 1000 + 3600 }],
+    localStorage: {},
+    savedAt: '2026-03-01T00:00:00.000Z',
+  };
+
+  it('keeps a session no longer than its shortest-lived cookie', async () => {
+    const env = await envWithCredentials();
+    await saveAuthSession(env, SPEC, state);
+    const ttl = env.SCRAPE_KV.ttls.get(await authSessionKey(SPEC.portal, SPEC.account))!;
+    expect(ttl).toBeGreaterThan(3500);
+    expect(ttl).toBeLessThanOrEqual(3600);
+    expect(await loadAuthSession(env, SPEC)).toEqual(state);
+  });
+
+  it('discards sessions it cannot decrypt, e.g. after a key rotation', async () => {
+    const env = await envWithCredentials();
+    await saveAuthSession(env, SPEC, state);
+    const rotated = { ...env, SESSION_ENCRYPTION_KEY: 'new-secret' } as Env;
+    expect(await loadAuthSession(rotated, SPEC)).toBeNull();
+    expect(env.SCRAPE_KV.store.has(await authSessionKey(SPEC.portal, SPEC.account))).toBe(false);
+  });
+
+  it('restores localStorage before the landing page loads', async () => {
+    const env = await envWithCredentials();
+    await saveAuthSession(env, SPEC, {
+      ...state,
+      cookies: [{ name: 'appfolio_session', value: 'x', domain: 'propertyhill.appfolio.com', expires: -1 }],
+      localStorage: { [BASE]: { 'auth.token': 'tok-1' } },
+    });
+    const s = createReplaySession(portal());
+    const browser: any = await replayPuppeteer.default.launch(s.fetcher);
+    const page = await browser.newPage();
+    const login = vi.fn(async () => 'should not log in');
+
+    expect(await withAuthSession(page, env, SPEC, login)).toBeUndefined();
+    expect(login).not.toHaveBeenCalled();
+    expect(await page.evaluate(() => (globalThis as any).localStorage.getItem('auth.token'))).toBe('tok-1');
+    await browser.close();
+  });
+});
@@ -1,5 +1,12 @@
-import { describe, it, expect } from 'vitest';
-import { wrapResult, resolveSelector } from '../src/scrapers/base';
+import { describe, it, expect, vi } from 'vitest';
+import {
+  wrapResult, resolveSelector, observeSelectors, withPage, pageScraper, pauseScrapeDeadline, classifyScrapeError, errorTypeOf,
+  ScrapeError, createSharedBrowser, decoratePages, type SelectorResolution,
+} from '../src/scrapers/base';
+import { createReplaySession } from './replay';
+import type { Env } from '../src/index';
+
+vi.mock('@cloudflare/puppeteer', async () => (await import('./replay')).replayPuppeteer);
 
 describe('resolveSelector', () => {
   it('returns first matching selector', async () => {
@@ -28,6 +35,18 @@ describe('resolveSelector', () => {
     };
     await expect(resolveSelector(mockPage, ['#any'])).rejects.toThrow('Target closed');
   });
+
+  it('reports each resolution to the page observer', async () => {
+    const mockPage = { $: async (sel: string) => (sel === '#b' ? {} : null) };
+    const seen: SelectorResolution[] = [];
+    observeSelectors(mockPage, (r) => seen.push(r));
+    await resolveSelector(mockPage, ['#a', '#b']);
+    await resolveSelector(mockPage, ['#c']);
+    expect(seen).toEqual([
+      { selectors: ['#a', '#b'], matchedIndex: 1 },
+      { selectors: ['#c'], matchedIndex: null },
+    ]);
+  });
 });
 
 describe('wrapResult', () => {
@@ -46,5 +65,112 @@ describe('wrapResult', () => {
     expect(result.success).toBe(false);
     expect(result.error).toBe('something broke');
     expect(result.data).toBeUndefined();
+    expect(result.errorType).toBe('upstream_error');
+  });
+
+  it('keeps an explicit error type and leaves successes untyped', () => {
+    expect(wrapResult('test-portal', false, undefined, 'Could not find search button', 'selector_missing').errorType)
+      .toBe('selector_missing');
+    expect(wrapResult('test-portal', true, {})).not.toHaveProperty('errorType');
+  });
+});
+
+describe('error classification', () => {
+  it('maps failure messages onto the taxonomy', () => {
+    expect(classifyScrapeError('accountNumber is required')).toBe('invalid_input');
+    expect(classifyScrapeError('Mr. Cooper credentials missing')).toBe('auth_failed');
+    expect(classifyScrapeError('Login failed: please complete the CAPTCHA')).toBe('auth_failed');
+    expect(classifyScrapeError('Navigation timeout of 20000 ms exceeded')).toBe('navigation_timeout');
+    expect(classifyScrapeError('Access Denied')).toBe('blocked');
+    expect(classifyScrapeError('Could not extract account data')).toBe('selector_missing');
+    expect(classifyScrapeError('No results for that PIN')).toBe('not_found');
+    expect(classifyScrapeError('Unexpected token < in JSON')).toBe('upstream_error');
+  });
+
+  it('prefers the type a ScrapeError was thrown with', () => {
+    expect(errorTypeOf(new ScrapeError('blocked', 'Scrape timed out after 60s'))).toBe('blocked');
+    expect(errorTypeOf(Object.assign(new Error('Waiting failed'), { name: 'TimeoutError' }))).toBe('navigation_timeout');
+  });
+});
+
+describe('withPage', () => {
+  const pages = { 'https://example.com/*': '<html><body><h1>Example</h1></body></html>' };
+
+  it('reuses an idle Browser Rendering session across scrapes and always cleans up', async () => {
+    const s = createReplaySession({ pages });
+    const title = (page: any) => page.goto('https://example.com/a')
+      .then(() => page.evaluate(() => (globalThis as any).document.querySelector('h1').textContent));
+
+    expect(await withPage(s.fetcher, title)).toBe('Example');
+    expect(await withPage(s.fetcher, title)).toBe('Example');
+    expect(s.launches).toBe(1);
+    expect(s.connects).toBe(1);
+    expect([s.openBrowsers, s.openContexts, s.openPages]).toEqual([0, 0, 0]);
+  });
+
+  it('nests page decorators, innermost first, over a shared browser', async () => {
+    const s = createReplaySession({ pages });
+    const shared = createSharedBrowser(s.fetcher);
+    const seen: string[] = [];
+    const tag = (name: string) => (page: any) => {
+      seen.push(name);
+      return page;
+    };
+    const fetcher = decoratePages(decoratePages(shared.fetcher, tag('inner')), tag('outer'));
+    await withPage(fetcher, async () => {});
+    await withPage(fetcher, async () => {});
+    await shared.close();
+    expect(seen).toEqual(['inner', 'outer', 'inner', 'outer']);
+    expect(s.launches).toBe(1);
+    expect(s.openBrowsers).toBe(0);
+  });
+
+  it('fails a run that outlives its timeout and still tears the page down', async () => {
+    const s = createReplaySession({ pages });
+    const hang = () => new Promise<never>(() => {});
+    await expect(withPage(s.fetcher, hang, { timeoutMs: 20 })).rejects.toThrow('Scrape timed out after 0s');
+    expect([s.openBrowsers, s.openContexts, s.openPages]).toEqual([0, 0, 0]);
+  });
+
+  it('stops the deadline clock while the run is paused', async () => {
+    const s = createReplaySession({ pages });
+    const waitPaused = async (page: any) => {
+      const resume = pauseScrapeDeadline(page);
+      await new Promise((r) => setTimeout(r, 60));
+      resume();
+      return 'resumed';
+    };
+    expect(await withPage(s.fetcher, waitPaused, { timeoutMs: 30 })).toBe('resumed');
+  });
+});
+
+describe('pageScraper', () => {
+  const meta = { id: 'fake', name: 'Fake', category: 'generic' as const, version: '1.0.0', requiresAuth: false };
+
+  it('hands execute a ready page and rejects invalid input without opening one', async () => {
+    const s = createReplaySession({ pages: { 'https://example.com/': '<html><body>ok</body></html>' } });
+    const scraper = pageScraper<{ url?: string }, { url: string }>({
+      meta,
+      validate: (input) => (input.url ? undefined : 'url is required'),
+      async execute(page, _env, input) {
+        await page.goto(input.url);
+        return wrapResult('fake', true, { url: page.url() });
+      },
+    });
+
+    const invalid = await scraper.execute(s.fetcher, {} as Env, {});
+    expect(invalid).toMatchObject({ success: false, error: 'url is required' });
+    expect(s.launches).toBe(0);
+
+    const ok = await scraper.execute(s.fetcher, {} as Env, { url: 'https://example.com/' });
+    expect(ok).toMatchObject({ success: true, data: { url: 'https://example.com/' } });
+  });
+
+  it('turns a launch failure into a failed result', async () => {
+    const scraper = pageScraper({ meta, execute: async () => wrapResult('fake', true, {}) });
+    const unbound = { fetch: async () => new Response('', { status: 500 }) } as unknown as Fetcher;
+    const result = await scraper.execute(unbound, {} as Env, {});
+    expect(result).toMatchObject({ success: false, portal: 'fake' });
+    expect(result.error).toContain('createReplaySession');
   });
 });
@@ -0,0 +1,95 @@
+import { describe, it, expect, vi } from 'vitest';
+
+const launched: Array<{ released: boolean }> = [];
+vi.mock('@cloudflare/puppeteer', () => ({
+  default: {
+    sessions: vi.fn(async () => []),
+    launch: vi.fn(async () => {
+      const browser = { released: false, disconnect: async () => { browser.released = true; } };
+      launched.push(browser);
+      return browser;
+    }),
+  },
+}));
+
+import { mapWithConcurrency, runBatch, BATCH_REQUEST_SCHEMA, BATCH_MAX_ITEMS } from '../src/batch';
+import { acquireBrowser, wrapResult, ScrapeError, type ScraperModule } from '../src/scrapers/base';
+import { validateSchema } from '../src/schema';
+import type { Env } from '../src/index';
+
+const env = { BROWSER: { fetch: async () => new Response() } as unknown as Fetcher } as Env;
+
+function makeScraper(execute: ScraperModule['execute'], sharedBrowser = false): ScraperModule {
+  return {
+    meta: { id: 'fake', name: 'Fake', category: 'generic', version: '1.0.0', requiresAuth: false, sharedBrowser },
+    execute,
+  };
+}
+
+describe('mapWithConcurrency', () => {
+  it('never exceeds the limit and preserves order', async () => {
+    let inFlight = 0;
+    let peak = 0;
+    const out = await mapWithConcurrency([1, 2, 3, 4, 5, 6, 7], 3, async (n) => {
+      inFlight++;
+      peak = Math.max(peak, inFlight);
+      await new Promise((r) => setTimeout(r, 5));
+      inFlight--;
+      return n * 10;
+    });
+    expect(peak).toBe(3);
+    expect(out).toEqual([10, 20, 30, 40, 50, 60, 70]);
+  });
+});
+
+describe('BATCH_REQUEST_SCHEMA', () => {
+  it('rejects empty, oversized and over-concurrent batches', () => {
+    expect(validateSchema(BATCH_REQUEST_SCHEMA, { inputs: [] }).map((e) => e.path)).toEqual(['inputs']);
+    const tooMany = Array.from({ length: BATCH_MAX_ITEMS + 1 }, () => ({}));
+    expect(validateSchema(BATCH_REQUEST_SCHEMA, { inputs: tooMany })).toHaveLength(1);
+    expect(validateSchema(BATCH_REQUEST_SCHEMA, { inputs: [{}], concurrency: 50 }).map((e) => e.path)).toEqual(['concurrency']);
+  });
+});
+
+describe('runBatch', () => {
+  it('summarises per-item results and converts thrown errors to failures', async () => {
+    const scraper = makeScraper(async (_b, _e, input: any) => {
+      if (input.boom) throw new ScrapeError('blocked', 'kaboom');
+      return wrapResult('fake', input.ok, input.ok ? { n: input.n } : undefined, input.ok ? undefined : 'not found');
+    });
+    const { items, summary } = await runBatch(env, scraper, [
+      { ok: true, n: 1 },
+      { ok: false },
+      { boom: true },
+    ]);
+    expect(summary).toMatchObject({ total: 3, succeeded: 1, failed: 2, sharedBrowser: false });
+    expect(items.map((i) => i.index)).toEqual([0, 1, 2]);
+    expect(items[0].result.data).toEqual({ n: 1 });
+    expect(items[2].result).toMatchObject({ error: 'Scraper execution failed: kaboom', errorType: 'blocked' });
+  });
+
+  it('launches one browser for the whole batch when the scraper allows sharing', async () => {
+    launched.length = 0;
+    const scraper = makeScraper(async (browser) => {
+      const lease = await acquireBrowser(browser);
+      await lease.release();
+      return wrapResult('fake', true, {});
+    }, true);
+    const { summary } = await runBatch(env, scraper, [{}, {}, {}, {}], 2);
+    expect(summary.sharedBrowser).toBe(true);
+    expect(launched).toHaveLength(1);
+    expect(launched[0].released).toBe(true);
+  });
+
+  it('launches per item when the scraper does not opt in', async () => {
+    launched.length = 0;
+    const scraper = makeScraper(async (browser) => {
+      const lease = await acquireBrowser(browser);
+      await lease.release();
+      return wrapResult('fake', true, {});
+    });
+    await runBatch(env, scraper, [{}, {}, {}]);
+    expect(launched).toHaveLength(3);
+    expect(launched.every((b) => b.released)).toBe(true);
+  });
+});
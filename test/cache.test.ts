@@ -0,0 +1,62 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { getCachedResult, putCachedResult, resultCacheKey } from '../src/cache';
+import { runBatch } from '../src/batch';
+import { wrapResult, type ScraperModule } from '../src/scrapers/base';
+import { createFakeKV } from './fake-kv';
+import type { Env } from '../src/index';
+
+const meta = { id: 'il-sos', cacheTtlSeconds: 86400 };
+
+function makeEnv() {
+  return { SCRAPE_KV: createFakeKV(), BROWSER: {} } as unknown as Env & { SCRAPE_KV: ReturnType<typeof createFakeKV> };
+}
+
+describe('result cache', () => {
+  afterEach(() => vi.useRealTimers());
+
+  it('keys entries by portal and normalized input', async () => {
+    expect(await resultCacheKey('il-sos', { entityName: ' ARIBIA  LLC', exact: true }))
+      .toBe(await resultCacheKey('il-sos', { exact: true, entityName: 'aribia llc' }));
+    expect(await resultCacheKey('il-sos', { entityName: 'aribia llc' }))
+      .not.toBe(await resultCacheKey('fl-sunbiz', { entityName: 'aribia llc' }));
+  });
+
+  it('serves the stored result with its original scrapedAt until maxAge is exceeded', async () => {
+    vi.useFakeTimers({ now: Date.parse('2026-05-01T00:00:00Z') });
+    const env = makeEnv();
+    const fresh = wrapResult('il-sos', true, { entityName: 'ARIBIA LLC' });
+    await putCachedResult(env, meta, { entityName: 'ARIBIA LLC' }, fresh);
+    expect(env.SCRAPE_KV.ttls.get(await resultCacheKey('il-sos', { entityName: 'aribia llc' }))).toBe(86400);
+
+    vi.advanceTimersByTime(3600_000);
+    const hit = await getCachedResult(env, meta, { entityName: 'aribia llc' });
+    expect(hit).toEqual({ ...fresh, cached: true });
+    expect(hit!.scrapedAt).toBe('2026-05-01T00:00:00.000Z');
+    expect(await getCachedResult(env, meta, { entityName: 'aribia llc' }, { maxAge: 3600 })).not.toBeNull();
+    expect(await getCachedResult(env, meta, { entityName: 'aribia llc' }, { maxAge: 3599 })).toBeNull();
+    expect(await getCachedResult(env, meta, { entityName: 'aribia llc' }, { noCache: true })).toBeNull();
+  });
+
+  it('caches only successful results of scrapers that declare a TTL', async () => {
+    const env = makeEnv();
+    await putCachedResult(env, meta, { entityName: 'x' }, wrapResult('il-sos', false, undefined, 'boom'));
+    await putCachedResult(env, { id: 'comed' }, { accountNumber: '1' }, wrapResult('comed', true, { balance: 1 }));
+    expect(env.SCRAPE_KV.store.size).toBe(0);
+  });
+
+  it('runs only the batch items that miss the cache', async () => {
+    const env = makeEnv();
+    const execute = vi.fn(async (_b: Fetcher, _e: Env, input: any) => wrapResult('il-sos', true, { name: input.entityName }));
+    const scraper: ScraperModule = {
+      meta: { id: 'il-sos', name: 'IL SOS', category: 'governance', version: '1.0.0', requiresAuth: false, cacheTtlSeconds: 86400 },
+      execute,
+    };
+    await runBatch(env, scraper, [{ entityName: 'A' }], 1);
+    const { items } = await runBatch(env, scraper, [{ entityName: 'a' }, { entityName: 'B' }], 1);
+    expect(execute).toHaveBeenCalledTimes(2);
+    expect(items.map((i) => i.result.cached)).toEqual([true, undefined]);
+
+    await runBatch(env, scraper, [{ entityName: 'A' }], 1, { noCache: true });
+    expect(execute).toHaveBeenCalledTimes(3);
+  });
+});
@@ -0,0 +1,128 @@
+import { describe, it, expect } from 'vitest';
+import { renderCalendar, eventUid } from '../src/calendar';
+import { courtDocketScraper } from '../src/scrapers/court-docket';
+import { cookCountyTaxScraper } from '../src/scrapers/cook-county-tax';
+import { cookCountyAssessorScraper } from '../src/scrapers/cook-county-assessor';
+import { flRegisteredAgentScraper } from '../src/scrapers/fl-registered-agent';
+
+const STAMP = new Date('2026-03-01T12:30:00.000Z');
+
+describe('renderCalendar', () => {
+  it('writes a VCALENDAR of all-day events with CRLF line endings', () => {
+    const ics = renderCalendar([{
+      uid: eventUid('court-docket', '2024D001234/next-hearing'),
+      date: '2026-04-30',
+      summary: 'Hearing 2024-D-001234',
+      url: 'https://example.test/case',
+      categories: ['COURT'],
+    }], { name: 'Cook County Court Docket', stamp: STAMP });
+
+    expect(ics.endsWith('\r\n')).toBe(true);
+    expect(ics.split('\r\n')).toEqual([
+      'BEGIN:VCALENDAR',
+      'VERSION:2.0',
+      'PRODID:-//ChittyOS//ChittyScrape//EN',
+      'CALSCALE:GREGORIAN',
+      'METHOD:PUBLISH',
+      'X-WR-CALNAME:Cook County Court Docket',
+      'BEGIN:VEVENT',
+      'UID:court-docket/2024D001234/next-hearing@scrape.chitty.cc',
+      'DTSTAMP:20260301T123000Z',
+      'DTSTART;VALUE=DATE:20260430',
+      'DTEND;VALUE=DATE:20260501',
+      'SUMMARY:Hearing 2024-D-001234',
+      'URL:https://example.test/case',
+      'CATEGORIES:COURT',
+      'TRANSP:TRANSPARENT',
+      'END:VEVENT',
+      'END:VCALENDAR',
+      '',
+    ]);
+  });
+
+  it('escapes TEXT values', () => {
+    const ics = renderCalendar([{
+      uid: 'x',
+      date: '2026-12-31',
+      summary: 'Hearing: EXAMPLE, PAT; EXAMPLE, SAM',
+      description: 'Judge: Hon. A. Example\nCalendar 32 \\ Room 1',
+    }], { stamp: STAMP });
+    expect(ics).toContain('SUMMARY:Hearing: EXAMPLE\\, PAT\\; EXAMPLE\\, SAM\r\n');
+    expect(ics).toContain('DESCRIPTION:Judge: Hon. A. Example\\nCalendar 32 \\\\ Room 1\r\n');
+    expect(ics).toContain('DTEND;VALUE=DATE:20270101\r\n');
+  });
+
+  it('folds long lines at 75 octets without splitting characters', () => {
+    const summary = 'Hearing 2024-D-001234: ' + 'ÉXAMPLE '.repeat(20);
+    const ics = renderCalendar([{ uid: 'x', date: '2026-04-30', summary }], { stamp: STAMP });
+    const lines = ics.split('\r\n');
+    const start = lines.findIndex((l) => l.startsWith('SUMMARY:'));
+    let end = start + 1;
+    while (lines[end].startsWith(' ')) end++;
+    const folded = lines.slice(start, end);
+    expect(folded.length).toBeGreaterThan(2);
+    for (const line of folded) expect(new TextEncoder().encode(line).length).toBeLessThanOrEqual(75);
+    expect(folded.map((l, i) => (i === 0 ? l : l.slice(1))).join('')).toBe(`SUMMARY:${summary}`);
+  });
+});
+
+describe('scraper calendar events', () => {
+  it('schedules the next hearing of a docket under a per-case UID', () => {
+    const events = courtDocketScraper.calendarEvents!({
+      caseNumber: '2024D001234',
+      division: 'Domestic Relations',
+      parties: 'IN RE THE MARRIAGE OF EXAMPLE',
+      judge: 'Hon. A. Example',
+      entries: [],
+      nextHearing: '2026-04-15',
+      source: 'api',
+    });
+    expect(events).toEqual([expect.objectContaining({
+      uid: 'court-docket/2024D001234/next-hearing@scrape.chitty.cc',
+      date: '2026-04-15',
+      summary: 'Hearing 2024-D-001234: IN RE THE MARRIAGE OF EXAMPLE',
+      description: 'Parties: IN RE THE MARRIAGE OF EXAMPLE\nDivision: Domestic Relations\nJudge: Hon. A. Example',
+    })]);
+    expect(courtDocketScraper.calendarEvents!({
+      caseNumber: '2024D001234', division: 'Domestic Relations', entries: [], source: 'api',
+    })).toEqual([]);
+  });
+
+  it('lists unpaid tax installments and the appeal deadline', () => {
+    const tax = cookCountyTaxScraper.calendarEvents!({
+      pin: '12345678900000',
+      taxYear: 2025,
+      installments: [
+        { number: 1, amount: 150000, dueDate: '2026-03-03', status: 'paid' },
+        { number: 2, amount: 172550, dueDate: '2026-08-01', status: 'unpaid' },
+      ],
+      totalTax: 322550,
+    });
+    expect(tax.map((e) => [e.uid, e.date, e.summary])).toEqual([[
+      'cook-county-tax/12345678900000/2025/installment-2@scrape.chitty.cc',
+      '2026-08-01',
+      'Property tax installment #2 due: $1725.50 (PIN 12-34-567-890-0000)',
+    ]]);
+
+    const assessor = cookCountyAssessorScraper.calendarEvents!({
+      pin: '12345678900000', township: 'Lake View', appealDeadline: '2026-03-15', alerts: [],
+    });
+    expect(assessor).toEqual([expect.objectContaining({
+      date: '2026-03-15',
+      summary: 'Assessment appeal deadline (PIN 12-34-567-890-0000)',
+      description: 'Last day to file an assessment appeal in Lake View township',
+    })]);
+  });
+
+  it('reminds of an annual report only until it is filed', () => {
+    const data = {
+      entity: 'Example Holdings LLC', accountStatus: 'Active', annualReportDue: '2026-05-01',
+      invoices: [], documents: [], alerts: [],
+    };
+    expect(flRegisteredAgentScraper.calendarEvents!(data)).toEqual([expect.objectContaining({
+      uid: 'fl-registered-agent/example-holdings-llc/annual-report@scrape.chitty.cc',
+      summary: 'Florida annual report due: Example Holdings LLC',
+    })]);
+    expect(flRegisteredAgentScraper.calendarEvents!({ ...data, annualReportFiled: true })).toEqual([]);
+  });
+});
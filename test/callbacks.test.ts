@@ -0,0 +1,105 @@
+import { describe, it, expect } from 'vitest';
+import {
+  createDelivery, deliverCallback, getDelivery, listDeliveries, signCallbackPayload,
+  CALLBACK_MAX_ATTEMPTS, CALLBACK_SECRET_KEY,
+} from '../src/callbacks';
+import { wrapResult } from '../src/scrapers/base';
+import { createFakeKV } from './fake-kv';
+
+const result = wrapResult('cook-county-tax', true, { pin: '12345678900000' });
+
+/** KV with the signing secret set -- deliveries fail without one */
+async function signingKV() {
+  const kv = createFakeKV();
+  await kv.put(CALLBACK_SECRET_KEY, 'shh');
+  return kv;
+}
+
+function fakeFetch(statuses: Array<number | Error>) {
+  const calls: Array<{ url: string; init: RequestInit }> = [];
+  const fn = (async (url: string, init: RequestInit) => {
+    calls.push({ url, init });
+    const next = statuses[Math.min(calls.length - 1, statuses.length - 1)];
+    if (next instanceof Error) throw next;
+    return new Response(null, { status: next });
+  }) as unknown as typeof fetch;
+  return { fn, calls };
+}
+
+describe('signCallbackPayload', () => {
+  it('produces a stable hex HMAC-SHA256', async () => {
+    const a = await signCallbackPayload('secret', '1700000000', '{"a":1}');
+    const b = await signCallbackPayload('secret', '1700000000', '{"a":1}');
+    const other = await signCallbackPayload('other', '1700000000', '{"a":1}');
+    expect(a).toMatch(/^[0-9a-f]{64}$/);
+    expect(a).toBe(b);
+    expect(a).not.toBe(other);
+  });
+});
+
+describe('deliverCallback', () => {
+  it('delivers on the first attempt and signs the payload', async () => {
+    const kv = await signingKV();
+    const delivery = await createDelivery(kv, 'https://command.chitty.cc/hooks/scrape', 'cook-county-tax');
+    const { fn, calls } = fakeFetch([204]);
+
+    const final = await deliverCallback(kv, delivery, result, { fetch: fn, sleep: async () => {} });
+
+    expect(final.status).toBe('delivered');
+    expect(final.attempts).toHaveLength(1);
+    const headers = calls[0].init.headers as Record<string, string>;
+    const expected = await signCallbackPayload('shh', headers['X-ChittyScrape-Timestamp'], calls[0].init.body as string);
+    expect(headers['X-ChittyScrape-Signature']).toBe(`sha256=${expected}`);
+    expect(JSON.parse(calls[0].init.body as string).result.portal).toBe('cook-county-tax');
+    expect((await getDelivery(kv, delivery.id))?.status).toBe('delivered');
+  });
+
+  it('retries transient failures with exponential backoff', async () => {
+    const kv = await signingKV();
+    const delivery = await createDelivery(kv, 'https://example.com/hook', 'comed');
+    const { fn } = fakeFetch([503, new Error('connection reset'), 200]);
+    const delays: number[] = [];
+
+    const final = await deliverCallback(kv, delivery, result, { fetch: fn, sleep: async (ms) => { delays.push(ms); } });
+
+    expect(final.status).toBe('delivered');
+    expect(final.attempts.map((a) => a.error)).toEqual(['HTTP 503', 'connection reset', undefined]);
+    expect(delays).toEqual([1000, 2000]);
+  });
+
+  it('gives up after the maximum number of attempts', async () => {
+    const kv = await signingKV();
+    const delivery = await createDelivery(kv, 'https://example.com/hook', 'comed');
+    const { fn, calls } = fakeFetch([500]);
+
+    const final = await deliverCallback(kv, delivery, result, { fetch: fn, sleep: async () => {} });
+
+    expect(final.status).toBe('failed');
+    expect(calls).toHaveLength(CALLBACK_MAX_ATTEMPTS);
+    expect(await listDeliveries(kv, 'failed')).toHaveLength(1);
+  });
+
+  it('does not retry when the receiver rejects the payload', async () => {
+    const kv = await signingKV();
+    const delivery = await createDelivery(kv, 'https://example.com/hook', 'comed');
+    const { fn, calls } = fakeFetch([401]);
+
+    const final = await deliverCallback(kv, delivery, result, { fetch: fn, sleep: async () => {} });
+
+    expect(final.status).toBe('failed');
+    expect(calls).toHaveLength(1);
+  });
+
+  it('fails without sending when no signing secret is configured', async () => {
+    const kv = createFakeKV();
+    const delivery = await createDelivery(kv, 'https://example.com/hook', 'comed');
+    const { fn, calls } = fakeFetch([200]);
+
+    const final = await deliverCallback(kv, delivery, result, { fetch: fn, sleep: async () => {} });
+
+    expect(calls).toHaveLength(0);
+    expect(final.status).toBe('failed');
+    expect(final.attempts[0].error).toBe('callback signing secret not configured');
+    expect((await getDelivery(kv, delivery.id))?.status).toBe('failed');
+  });
+});
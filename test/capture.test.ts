@@ -0,0 +1,84 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { createCaptureSession, inputSecrets, redactText } from '../src/capture';
+import { appfolioHoaScraper } from '../src/scrapers/appfolio-hoa';
+import { createReplaySession, useInstantDelays } from './replay';
+import { createFakeKV } from './fake-kv';
+import loginHtml from './fixtures/appfolio-hoa/login.html?raw';
+import dashboardHtml from './fixtures/appfolio-hoa/dashboard.html?raw';
+import ledgerHtml from './fixtures/appfolio-hoa/ledger.html?raw';
+import violationsHtml from './fixtures/appfolio-hoa/violations.html?raw';
+import type { Env } from '../src/index';
+
+vi.mock('@cloudflare/puppeteer', async () => (await import('./replay')).replayPuppeteer);
+
+describe('redactText', () => {
+  it('scrubs secrets in raw, URL-encoded and HTML-escaped form', () => {
+    const text = 'user=owner%40example.com&pw=a<b&note=owner@example.com <i>a&lt;b</i>';
+    expect(redactText(text, ['owner@example.com', 'a<b'])).toBe(
+      'user=[REDACTED]&pw=[REDACTED]&note=[REDACTED] <i>[REDACTED]</i>',
+    );
+  });
+
+  it('blanks password input values and masks account-like digit runs to the last four', () => {
+    expect(redactText('<input type="password" value="hunter2">', [])).toBe('<input type="password" value="[REDACTED]">');
+    expect(redactText('Account 4001-2345-6789, due 03/01/2026, $1,250.00', [])).toBe(
+      'Account XXXX-XXXX-6789, due 03/01/2026, $1,250.00',
+    );
+  });
+});
+
+describe('inputSecrets', () => {
+  it('collects string values under secret-looking keys at any depth', () => {
+    expect(inputSecrets({ accountNumber: '123456789', nested: { password: 'pw1' }, name: 'Acme' })).toEqual([
+      '123456789', 'pw1',
+    ]);
+  });
+});
+
+describe('capture session', () => {
+  const BASE = 'https://propertyhill.appfolio.com';
+  beforeEach(() => useInstantDelays());
+  afterEach(() => vi.restoreAllMocks());
+
+  it('records pages, selector resolutions and screenshots, redacted, without changing the result', async () => {
+    const kv = createFakeKV();
+    await kv.put('appfolio-propertyhill:username', 'owner@example.com');
+    await kv.put('appfolio-propertyhill:password', 'hunter2');
+    const env = { SCRAPE_KV: kv } as unknown as Env;
+    const replay = createReplaySession({
+      pages: {
+        [`${BASE}/connect/users/sign_in`]: loginHtml,
+        [`${BASE}/connect/dashboard`]: dashboardHtml.replace(
+          '</body>', '<div class="account">Account 40012345678 (owner@example.com)</div></body>',
+        ),
+        [`${BASE}/connect/ledger`]: ledgerHtml,
+        [`${BASE}/connect/violations`]: violationsHtml,
+      },
+      clicks: { '#kc-login': `${BASE}/connect/dashboard` },
+    });
+
+    const capture = createCaptureSession(replay.fetcher, { redactAllTyped: true });
+    const input = { portfolio: 'propertyhill' };
+    const result = await appfolioHoaScraper.execute(capture.fetcher, env, input);
+    expect(result.success).toBe(true);
+    expect(result.data).toMatchObject({ propertyAddress: '200 N Example Ave Unit 3', currentBalance: 125000 });
+    expect(replay.openBrowsers).toBe(0);
+
+    const bundle = capture.bundle('appfolio-hoa', input, result);
+    expect(bundle.pages.map((p) => p.url)).toEqual(expect.arrayContaining([
+      `${BASE}/connect/users/sign_in`, `${BASE}/connect/dashboard`,
+    ]));
+    expect(bundle.selectors.length).toBeGreaterThan(0);
+    expect(bundle.selectors[0]).toMatchObject({ url: `${BASE}/connect/users/sign_in`, matchedIndex: 0 });
+    expect(bundle.screenshots.length).toBeGreaterThan(0);
+    expect(bundle.screenshots[0].pngBase64).toBe('iVBORw==');
+    expect(bundle.redaction.secrets).toBe(2);
+
+    const dashboard = bundle.pages.find((p) => p.url.endsWith('/connect/dashboard'))!;
+    expect(dashboard.html).toContain('Account XXXXXXX5678 ([REDACTED])');
+    const serialized = JSON.stringify(bundle);
+    expect(serialized).not.toContain('hunter2');
+    expect(serialized).not.toContain('owner@example.com');
+    expect(serialized).not.toContain('40012345678');
+  });
+});
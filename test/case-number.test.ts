@@ -0,0 +1,50 @@
+import { describe, it, expect } from 'vitest';
+import { parseCaseNumber, canonicalCaseNumber, caseNumberInputError } from '../src/case-number';
+
+describe('parseCaseNumber', () => {
+  it('breaks a case number into year, division and sequence', () => {
+    expect(parseCaseNumber('2024-D-001234')).toEqual({
+      caseNumber: '2024D001234',
+      formatted: '2024-D-001234',
+      year: 2024,
+      division: 'D',
+      divisionName: 'Domestic Relations',
+      sequence: 1234,
+    });
+    expect(parseCaseNumber('2024CH01234')).toMatchObject({ division: 'CH', divisionName: 'Chancery', sequence: 1234 });
+  });
+
+  it('prefers the longest division code', () => {
+    expect(parseCaseNumber('2023 DC 004567')).toMatchObject({ division: 'DC', sequence: 4567 });
+    expect(parseCaseNumber('2024M1001234')).toMatchObject({
+      division: 'M1', divisionName: 'Municipal District 1 (Chicago)', sequence: 1234,
+    });
+    expect(parseCaseNumber('2022-cotd-00123')).toMatchObject({ caseNumber: '2022COTD00123', division: 'COTD' });
+  });
+
+  it('rejects unknown codes and malformed numbers', () => {
+    expect(parseCaseNumber('2024-XY-001234')).toBeNull();
+    expect(parseCaseNumber('2024-D-')).toBeNull();
+    expect(parseCaseNumber('D-001234')).toBeNull();
+    expect(parseCaseNumber('1899-L-1')).toBeNull();
+    expect(parseCaseNumber('2999-L-000123')).toBeNull();
+    expect(parseCaseNumber(`${new Date().getUTCFullYear() + 1}-L-000123`)).not.toBeNull();
+    expect(parseCaseNumber(`${new Date().getUTCFullYear() + 2}-L-000123`)).toBeNull();
+    expect(parseCaseNumber('2024-L-12345678')).toBeNull();
+    expect(parseCaseNumber("2024D001234'; DROP")).toBeNull();
+  });
+});
+
+describe('canonicalCaseNumber', () => {
+  it('strips separators and upper-cases', () => {
+    expect(canonicalCaseNumber(' 2024 ch 01234 ')).toBe('2024CH01234');
+    expect(canonicalCaseNumber('2024CH01234')).toBe('2024CH01234');
+    expect(canonicalCaseNumber('')).toBeNull();
+  });
+
+  it('explains why a caseNumber input is unusable', () => {
+    expect(caseNumberInputError('2024-L-000123')).toBeUndefined();
+    expect(caseNumberInputError('')).toBe('caseNumber is required');
+    expect(caseNumberInputError('Smith v. Jones')).toContain('must be a Cook County case number');
+  });
+});
@@ -0,0 +1,139 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { generateTotp } from '../src/challenges';
+import { createJob, getJob, runJob, submitChallengeCode, type ScrapeJob } from '../src/jobs';
+import { appfolioHoaScraper } from '../src/scrapers/appfolio-hoa';
+import { createReplaySession, useInstantDelays } from './replay';
+import { createFakeKV } from './fake-kv';
+import loginHtml from './fixtures/appfolio-hoa/login.html?raw';
+import dashboardHtml from './fixtures/appfolio-hoa/dashboard.html?raw';
+import ledgerHtml from './fixtures/appfolio-hoa/ledger.html?raw';
+import violationsHtml from './fixtures/appfolio-hoa/violations.html?raw';
+import type { Env } from '../src/index';
+
+vi.mock('@cloudflare/puppeteer', async () => (await import('./replay')).replayPuppeteer);
+
+/** RFC 6238 test secret ("12345678901234567890") in base32 */
+const RFC_SEED = 'GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ';
+
+describe('generateTotp', () => {
+  it('matches the RFC 6238 SHA-1 test vectors', async () => {
+    expect(await generateTotp(RFC_SEED, 59_000, 8)).toBe('94287082');
+    expect(await generateTotp(RFC_SEED, 1_111_111_109_000, 8)).toBe('07081804');
+    expect(await generateTotp(RFC_SEED, 20_000_000_000_000, 8)).toBe('65353130');
+  });
+
+  it('accepts an otpauth:// URI and defaults to six digits', async () => {
+    expect(await generateTotp(`otpauth://totp/Portal:owner?secret=${RFC_SEED}&issuer=Portal`, 59_000)).toBe('287082');
+  });
+});
+
+describe('one-time code challenges', () => {
+  const BASE = 'https://propertyhill.appfolio.com';
+  const OTP_URL = 'https://account.appfolio.com/login-actions/otp';
+  const otpHtml = `<html><body><form>
+    <p>Enter the verification code sent to ***-***-1234</p>
+    <input id="otp" name="otp" autocomplete="one-time-code">
+    <button type="submit">Verify</button>
+  </form></body></html>`;
+
+  beforeEach(() => useInstantDelays());
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  function portal() {
+    return createReplaySession({
+      pages: {
+        [`${BASE}/connect/users/sign_in`]: loginHtml,
+        [OTP_URL]: otpHtml,
+        [`${BASE}/connect/dashboard`]: dashboardHtml,
+        [`${BASE}/connect/ledger`]: ledgerHtml,
+        [`${BASE}/connect/violations`]: violationsHtml,
+      },
+      clicks: { '#kc-login': OTP_URL, 'button[type="submit"]': `${BASE}/connect/dashboard` },
+    });
+  }
+
+  async function envWithCredentials(extra: Partial<Env> = {}) {
+    const kv = createFakeKV();
+    await kv.put('appfolio-propertyhill:username', 'owner@example.com');
+    await kv.put('appfolio-propertyhill:password', 'hunter2');
+    return { SCRAPE_KV: kv, ...extra } as unknown as Env;
+  }
+
+  it('fails a sync scrape that hits a code prompt with no way to answer it', async () => {
+    const result = await appfolioHoaScraper.execute(portal().fetcher, await envWithCredentials(), { portfolio: 'propertyhill' });
+    expect(result).toMatchObject({ success: false });
+    expect(result.error).toContain('2FA code required');
+  });
+
+  it('pauses a job until the code is submitted, then resumes on the same page', async () => {
+    const s = portal();
+    const env = await envWithCredentials({ BROWSER: s.fetcher });
+    const job = await createJob(env.SCRAPE_KV, 'appfolio-hoa', 3600);
+    const run = runJob(env, appfolioHoaScraper, job, { portfolio: 'propertyhill' }, 3600);
+
+    let waiting = await getJob(env.SCRAPE_KV, job.id);
+    for (let i = 0; i < 1000 && waiting?.status !== 'awaiting_challenge'; i++) {
+      waiting = await getJob(env.SCRAPE_KV, job.id);
+    }
+    expect(waiting).toMatchObject({
+      status: 'awaiting_challenge',
+      challenge: { kind: 'otp', portal: 'appfolio-hoa:propertyhill', prompt: 'Enter the verification code sent to ***-***-1234' },
+    });
+
+    await submitChallengeCode(env.SCRAPE_KV, waiting!, '481516');
+    const finished = await run;
+    expect(finished.status).toBe('succeeded');
+    expect(finished.challenge).toBeUndefined();
+    expect(s.typed.at(-1)).toEqual({ selector: 'input[autocomplete="one-time-code"]', text: '481516' });
+    expect(s.launches).toBe(1);
+    expect(await env.SCRAPE_KV.get(`challenge:${job.id}`)).toBeNull();
+  });
+
+  it('counts a resumed job as running from the resume, not the start, after a long wait', async () => {
+    vi.useFakeTimers({ toFake: ['Date'], now: Date.parse('2026-05-01T00:00:00Z') });
+    const s = portal();
+    const env = await envWithCredentials({ BROWSER: s.fetcher, CHALLENGE_TIMEOUT_SECONDS: '480' });
+    const writes = vi.spyOn(env.SCRAPE_KV, 'put');
+    const job = await createJob(env.SCRAPE_KV, 'appfolio-hoa', 3600);
+    const run = runJob(env, appfolioHoaScraper, job, { portfolio: 'propertyhill' }, 3600);
+
+    let waiting = await getJob(env.SCRAPE_KV, job.id);
+    for (let i = 0; i < 1000 && waiting?.status !== 'awaiting_challenge'; i++) {
+      waiting = await getJob(env.SCRAPE_KV, job.id);
+    }
+    vi.setSystemTime(Date.now() + 450_000);
+    await submitChallengeCode(env.SCRAPE_KV, waiting!, '481516');
+    expect((await run).status).toBe('succeeded');
+    vi.useRealTimers();
+
+    const resumed = writes.mock.calls
+      .filter(([key]) => key === `job:${job.id}`)
+      .map(([, value]) => JSON.parse(value as string) as ScrapeJob)
+      .find((j) => j.resumedAt);
+    expect(resumed).toMatchObject({ status: 'running', resumedAt: '2026-05-01T00:07:30.000Z' });
+
+    // Eleven minutes after the start but four after the resume, the job is still live
+    vi.useFakeTimers({ toFake: ['Date'], now: Date.parse('2026-05-01T00:11:30Z') });
+    await env.SCRAPE_KV.put(`job:${job.id}`, JSON.stringify(resumed));
+    expect((await getJob(env.SCRAPE_KV, job.id))?.status).toBe('running');
+  });
+
+  it('computes the code from a TOTP seed fetched via ChittyConnect', async () => {
+    vi.spyOn(Date, 'now').mockReturnValue(59_000);
+    const fetchMock = vi.spyOn(globalThis, 'fetch').mockResolvedValue(
+      new Response(JSON.stringify({ success: true, value: RFC_SEED }), { status: 200 }),
+    );
+    const s = portal();
+    const env = await envWithCredentials({
+      CHITTYCONNECT_TOKEN: 'connect-token',
+      TOTP_REFS: JSON.stringify({ 'appfolio-hoa': 'op://ChittyOS/AppFolio/totp' }),
+    });
+    const result = await appfolioHoaScraper.execute(s.fetcher, env, { portfolio: 'propertyhill' });
+    expect(result.success).toBe(true);
+    expect(fetchMock.mock.calls[0][0]).toContain(encodeURIComponent('op://ChittyOS/AppFolio/totp'));
+    expect(s.typed.at(-1)?.text).toBe('287082');
+  });
+});
@@ -0,0 +1,100 @@
+import { describe, it, expect } from 'vitest';
+import { canonicalJson, diffArrays, diffData, snapshotKey, trackChanges } from '../src/changes';
+import { wrapResult } from '../src/scrapers/base';
+import { createFakeKV } from './fake-kv';
+
+describe('canonicalJson', () => {
+  it('is independent of key order and drops undefined', () => {
+    expect(canonicalJson({ b: 1, a: { d: [1, 2], c: undefined } })).toBe(canonicalJson({ a: { d: [1, 2] }, b: 1 }));
+  });
+});
+
+describe('diffArrays', () => {
+  it('matches items by identity field', () => {
+    const diff = diffArrays(
+      [{ documentNumber: '1', documentType: 'MORTGAGE' }, { documentNumber: '2', documentType: 'LIEN' }],
+      [{ documentNumber: '2', documentType: 'RELEASE OF LIEN' }, { documentNumber: '3', documentType: 'LIS PENDENS' }],
+    );
+    expect(diff.added).toEqual([{ documentNumber: '3', documentType: 'LIS PENDENS' }]);
+    expect(diff.removed).toEqual([{ documentNumber: '1', documentType: 'MORTGAGE' }]);
+    expect(diff.changed).toEqual([{
+      key: 'documentNumber=2',
+      before: { documentNumber: '2', documentType: 'LIEN' },
+      after: { documentNumber: '2', documentType: 'RELEASE OF LIEN' },
+    }]);
+  });
+
+  it('reports a status flip on an id-less item as changed, not removed + added', () => {
+    const open = { date: '01/05/2026', type: 'Landscaping', status: 'open' };
+    const diff = diffArrays([open], [{ ...open, status: 'closed' }]);
+    expect(diff.added).toEqual([]);
+    expect(diff.removed).toEqual([]);
+    expect(diff.changed).toHaveLength(1);
+  });
+
+  it('tracks duplicate rows separately', () => {
+    const row = { date: '02/01/2026', description: 'Assessment', amount: 250 };
+    expect(diffArrays([row], [row, row]).added).toEqual([row]);
+  });
+});
+
+describe('diffData', () => {
+  it('descends into nested objects and reports scalar fields by path', () => {
+    const { arrays, fields } = diffData(
+      { caseNumber: '2024D001234', nextHearing: '03/01/2026', entries: [{ date: '01/02/2026', description: 'Motion' }] },
+      { caseNumber: '2024D001234', nextHearing: '04/15/2026', entries: [
+        { date: '01/02/2026', description: 'Motion' },
+        { date: '02/10/2026', description: 'Order entered' },
+      ] },
+    );
+    expect(fields).toEqual([{ path: 'nextHearing', before: '03/01/2026', after: '04/15/2026' }]);
+    expect(arrays.entries.added).toEqual([{ date: '02/10/2026', description: 'Order entered' }]);
+  });
+});
+
+describe('trackChanges', () => {
+  it('baselines, then diffs against the stored snapshot', async () => {
+    const kv = createFakeKV();
+    const input = { caseNumber: '2024D001234' };
+    const first = await trackChanges(kv, 'court-docket', input, wrapResult('court-docket', true, { entries: [] }));
+    expect(first.changes).toMatchObject({ baseline: true, changed: false });
+    expect(kv.ttls.get(await snapshotKey('court-docket', input))).toBe(90 * 86400);
+
+    const same = await trackChanges(kv, 'court-docket', input, wrapResult('court-docket', true, { entries: [] }));
+    expect(same.changes).toMatchObject({ baseline: false, changed: false, arrays: {}, fields: [] });
+
+    const next = await trackChanges(kv, 'court-docket', input, wrapResult('court-docket', true, {
+      entries: [{ date: '02/10/2026', description: 'Order entered' }],
+    }));
+    expect(next.changes?.changed).toBe(true);
+    expect(next.changes?.arrays.entries.added).toHaveLength(1);
+  });
+
+  it('leaves failed results and the snapshot untouched', async () => {
+    const kv = createFakeKV();
+    const failed = wrapResult('court-docket', false, undefined, 'Case not found');
+    expect(await trackChanges(kv, 'court-docket', {}, failed)).toBe(failed);
+    expect(kv.store.size).toBe(0);
+  });
+
+  it('encrypts login portals\' snapshots and still diffs them', async () => {
+    const kv = createFakeKV();
+    const options = { sensitive: true, encryptionKey: 'test-session-key' };
+    await trackChanges(kv, 'comed', {}, wrapResult('comed', true, { balance: 12345, accountNumber: '0000000000' }), options);
+    const stored = kv.store.get(await snapshotKey('comed', {}))!;
+    expect(stored).not.toContain('0000000000');
+    expect(JSON.parse(stored).data).toBeUndefined();
+
+    const next = await trackChanges(kv, 'comed', {}, wrapResult('comed', true, { balance: 0, accountNumber: '0000000000' }), options);
+    expect(next.changes?.fields).toEqual([{ path: 'balance', before: 12345, after: 0 }]);
+  });
+
+  it('keeps only the fingerprint of login portals\' data without a key', async () => {
+    const kv = createFakeKV();
+    await trackChanges(kv, 'comed', {}, wrapResult('comed', true, { balance: 12345 }), { sensitive: true });
+    expect(Object.keys(JSON.parse(kv.store.get(await snapshotKey('comed', {}))!))).toEqual(['fingerprint', 'scrapedAt']);
+
+    const next = await trackChanges(kv, 'comed', {}, wrapResult('comed', true, { balance: 0 }), { sensitive: true });
+    expect(next.changes).toMatchObject({ changed: true, diffUnavailable: true, fields: [] });
+  });
+});
@@ -0,0 +1,86 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { createReplaySession, useInstantDelays } from './replay';
+import searchHtml from './fixtures/cook-county-tax/search.html?raw';
+import resultsTableHtml from './fixtures/cook-county-tax/results-table.html?raw';
+import resultsLabeledHtml from './fixtures/cook-county-tax/results-labeled.html?raw';
+import noResultsHtml from './fixtures/cook-county-tax/no-results.html?raw';
+import { cookCountyTaxScraper } from '../src/scrapers/cook-county-tax';
+import type { Env } from '../src/index';
+
+vi.mock('@cloudflare/puppeteer', async () => (await import('./replay')).replayPuppeteer);
+
+const SEARCH_URL = 'https://www.cookcountytreasurer.com/setsearchparameters.aspx';
+const RESULTS_URL = 'https://www.cookcountytreasurer.com/yourpropertytaxoverviewresults.aspx';
+const SEARCH_BUTTON = '#ContentPlaceHolder1_ASPxRoundPanel1_btSearch';
+
+function session(results: string) {
+  return createReplaySession({
+    pages: { [SEARCH_URL]: searchHtml, [RESULTS_URL]: results },
+    clicks: { [SEARCH_BUTTON]: RESULTS_URL },
+  });
+}
+
+describe('cook-county-tax replay', () => {
+  beforeEach(() => useInstantDelays());
+  afterEach(() => vi.restoreAllMocks());
+
+  it('extracts installments, total and exemptions from the results grid', async () => {
+    const s = session(resultsTableHtml);
+    const result = await cookCountyTaxScraper.execute(s.fetcher, {} as Env, { pin: '12-34-567-890-0000' });
+    expect(result.success).toBe(true);
+    expect(s.typed).toEqual([{ selector: '#ContentPlaceHolder1_ASPxRoundPanel1_tbPin', text: '12345678900000' }]);
+    expect(result.data).toEqual({
+      pin: '12345678900000',
+      address: '100 W EXAMPLE ST CHICAGO IL 60600',
+      taxYear: 2025,
+      installments: [
+        { number: 1, amount: 150000, dueDate: '2026-03-03', status: 'paid' },
+        { number: 2, amount: 172550, dueDate: '2026-08-03', status: 'unpaid' },
+      ],
+      totalTax: 322550,
+      exemptions: ['Homeowner'],
+    });
+    expect(s.openPages).toBe(0);
+    expect(s.openBrowsers).toBe(0);
+  });
+
+  it('falls back to labelled installment fields and sums the total', async () => {
+    const s = session(resultsLabeledHtml);
+    const result = await cookCountyTaxScraper.execute(s.fetcher, {} as Env, { pin: '12345678900000' });
+    expect(result.success).toBe(true);
+    expect(result.data?.installments).toEqual([
+      { number: 1, amount: 150000, dueDate: '2026-03-03', status: 'paid' },
+      // Fallback label: tax year 2025 falls due in 2026
+      { number: 2, amount: 172550, dueDate: '2026-08-01', status: 'unpaid' },
+    ]);
+    expect(result.data?.totalTax).toBe(322550);
+  });
+
+  it('omits an installment amount it cannot read rather than reporting $0', async () => {
+    const s = session(resultsTableHtml.replace('<td>$1,725.50</td>', '<td>See bill</td>'));
+    const result = await cookCountyTaxScraper.execute(s.fetcher, {} as Env, { pin: '12345678900000' });
+    expect(result.data?.installments[1]).toEqual({ number: 2, dueDate: '2026-08-03', status: 'unpaid' });
+    expect(result.data?.totalTax).toBe(322550);
+  });
+
+  it('rejects input that is not a Cook County PIN before opening a browser', async () => {
+    const s = session(resultsTableHtml);
+    const result = await cookCountyTaxScraper.execute(s.fetcher, {} as Env, { pin: '00-34-567-890' });
+    expect(result).toMatchObject({ success: false, errorType: 'invalid_input', error: 'pin must be a 10 or 14 digit Cook County PIN' });
+    expect(s.launches).toBe(0);
+  });
+
+  it('reports a PIN with no tax data', async () => {
+    const result = await cookCountyTaxScraper.execute(session(noResultsHtml).fetcher, {} as Env, { pin: '12345678900000' });
+    expect(result.success).toBe(false);
+    expect(result.error).toContain('No tax data found');
+  });
+
+  it('surfaces a missing search input as a selector timeout', async () => {
+    const s = createReplaySession({ pages: { [SEARCH_URL]: '<html><body>Maintenance</body></html>' } });
+    const result = await cookCountyTaxScraper.execute(s.fetcher, {} as Env, { pin: '12345678900000' });
+    expect(result.success).toBe(false);
+    expect(result.error).toContain('Waiting for selector `#ContentPlaceHolder1_ASPxRoundPanel1_tbPin` failed');
+    expect(s.openBrowsers).toBe(0);
+  });
+});
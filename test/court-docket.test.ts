@@ -0,0 +1,99 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { createReplaySession, useInstantDelays } from './replay';
+import caseJson from './fixtures/court-docket/case.json?raw';
+import searchHtml from './fixtures/court-docket/search.html?raw';
+import caseDetailHtml from './fixtures/court-docket/case-detail.html?raw';
+import noResultsHtml from './fixtures/court-docket/no-results.html?raw';
+import { courtDocketScraper } from '../src/scrapers/court-docket';
+import type { Env } from '../src/index';
+
+vi.mock('@cloudflare/puppeteer', async () => (await import('./replay')).replayPuppeteer);
+
+const API = 'https://casesearch.cookcountyclerkofcourt.org/CivilCaseSearchAPI/api/CivilCases';
+const SEARCH_PAGE = 'https://casesearch.cookcountyclerkofcourt.org/CivilCaseSearchAPI.html';
+const DETAIL_PAGE = 'https://casesearch.cookcountyclerkofcourt.org/CivilCaseSearchAPI.html?detail';
+const API_DOWN = '<html><body><h1>Service Unavailable</h1></body></html>';
+
+/** API answering with HTML, so the scraper falls back to the search page */
+function htmlSession(results: string) {
+  return createReplaySession({
+    pages: { [`${API}*`]: API_DOWN, [SEARCH_PAGE]: searchHtml, [DETAIL_PAGE]: results },
+    clicks: { '#searchButton': DETAIL_PAGE },
+  });
+}
+
+describe('court-docket replay', () => {
+  beforeEach(() => useInstantDelays());
+  afterEach(() => vi.restoreAllMocks());
+
+  it('maps the case API JSON onto docket entries', async () => {
+    const s = createReplaySession({ pages: { [API]: [], [`${API}/2024D001234`]: JSON.parse(caseJson) } });
+    const result = await courtDocketScraper.execute(s.fetcher, {} as Env, { caseNumber: '2024D001234' });
+    expect(result.success).toBe(true);
+    expect(result.data).toEqual({
+      caseNumber: '2024D001234',
+      division: 'Domestic Relations',
+      parties: 'IN RE THE MARRIAGE OF EXAMPLE',
+      judge: 'Hon. A. Example',
+      status: 'Active',
+      nextHearing: '2026-04-15',
+      source: 'api',
+      entries: [
+        { date: '2026-01-05', description: 'Petition for Dissolution Filed', filedBy: 'Petitioner' },
+        { date: '2026-02-10', description: 'Order Entered - Status Hearing Set', filedBy: undefined },
+      ],
+    });
+  });
+
+  it('looks up dashed case numbers by their canonical form', async () => {
+    const s = createReplaySession({ pages: { [API]: [], [`${API}/2024D001234`]: JSON.parse(caseJson) } });
+    const result = await courtDocketScraper.execute(s.fetcher, {} as Env, { caseNumber: '2024-d-001234' });
+    expect(result.success).toBe(true);
+    expect(s.visited.at(-1)).toBe(`${API}/2024D001234`);
+  });
+
+  it('rejects a malformed case number without launching a browser', async () => {
+    const s = createReplaySession({ pages: {} });
+    const result = await courtDocketScraper.execute(s.fetcher, {} as Env, { caseNumber: '2024D001234/../../admin' });
+    expect(result).toMatchObject({ success: false, errorType: 'invalid_input' });
+    expect(s.launches).toBe(0);
+  });
+
+  it('falls back to the HTML case search when the API answers with HTML', async () => {
+    const s = htmlSession(caseDetailHtml);
+    const result = await courtDocketScraper.execute(s.fetcher, {} as Env, { caseNumber: '2024-D-001234' });
+    expect(result.success).toBe(true);
+    expect(s.typed).toEqual([{ selector: '#caseNumber', text: '2024D001234' }]);
+    expect(result.data).toEqual({
+      caseNumber: '2024D001234',
+      division: 'Domestic Relations',
+      parties: 'EXAMPLE, PAT; EXAMPLE, SAM',
+      partyList: [
+        { role: 'Petitioner', name: 'EXAMPLE, PAT' },
+        { role: 'Respondent', name: 'EXAMPLE, SAM' },
+      ],
+      judge: 'Hon. A. Example',
+      calendar: 'Calendar 32',
+      status: 'Active',
+      nextHearing: '2026-04-15',
+      source: 'html',
+      entries: [
+        { date: '2026-01-05', description: 'Petition for Dissolution Filed', filedBy: 'Petitioner' },
+        { date: '2026-02-10', description: 'Order Entered - Status Hearing Set', filedBy: undefined },
+      ],
+    });
+    expect(s.openPages).toBe(0);
+  });
+
+  it('reports a case the HTML search does not find', async () => {
+    const result = await courtDocketScraper.execute(htmlSession(noResultsHtml).fetcher, {} as Env, { caseNumber: '2024D001234' });
+    expect(result).toMatchObject({ success: false, errorType: 'not_found', error: 'No case found for 2024-D-001234' });
+  });
+
+  it('fails as selector_missing when the search page has no case number input', async () => {
+    const s = createReplaySession({ pages: { [`${API}*`]: API_DOWN, [SEARCH_PAGE]: API_DOWN } });
+    const result = await courtDocketScraper.execute(s.fetcher, {} as Env, { caseNumber: '2024D001234' });
+    expect(result).toMatchObject({ success: false, errorType: 'selector_missing' });
+    expect(result.error).toContain('case number input');
+  });
+});
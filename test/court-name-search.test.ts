@@ -1,5 +1,27 @@
-import { describe, it, expect } from 'vitest';
-import { courtNameSearchScraper } from '../src/scrapers/court-name-search';
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { createReplaySession, useInstantDelays } from './replay';
+import exampleJson from './fixtures/court-name-search/example.json?raw';
+import sampleHoldingsJson from './fixtures/court-name-search/sample-holdings.json?raw';
+import { courtNameSearchScraper, type CourtNameSearchInput } from '../src/scrapers/court-name-search';
+import type { Env } from '../src/index';
+
+vi.mock('@cloudflare/puppeteer', async () => (await import('./replay')).replayPuppeteer);
+
+const API = 'https://casesearch.cookcountyclerkofcourt.org/CivilCaseSearchAPI/api/CivilCases';
+
+const PARTIES: CourtNameSearchInput['parties'] = [
+  { lastName: 'Example', firstName: 'Pat Q.', aliases: ['Patricia Q. Example'] },
+  { businessName: 'Sample Holdings LLC' },
+];
+
+function clerkSession() {
+  return createReplaySession({
+    pages: {
+      [`${API}?LastName=EXAMPLE`]: JSON.parse(exampleJson),
+      [`${API}?LastName=SAMPLE%20HOLDINGS`]: JSON.parse(sampleHoldingsJson),
+    },
+  });
+}
 
 describe('court-name-search scraper meta', () => {
   it('has correct metadata', () => {
@@ -8,3 +30,69 @@ describe('court-name-search scraper meta', () => {
     expect(courtNameSearchScraper.meta.requiresAuth).toBe(false);
   });
 });
+
+describe('court-name-search replay', () => {
+  beforeEach(() => useInstantDelays());
+  afterEach(() => vi.restoreAllMocks());
+
+  it('searches each surname and business name once and merges cases by number', async () => {
+    const s = clerkSession();
+    const result = await courtNameSearchScraper.execute(s.fetcher, {} as Env, { parties: PARTIES });
+    expect(result.success).toBe(true);
+    expect(s.visited).toEqual([`${API}?LastName=EXAMPLE`, `${API}?LastName=SAMPLE%20HOLDINGS`]);
+    expect(result.data).toMatchObject({
+      searchName: 'EXAMPLE',
+      searchedParties: ['Example, Pat Q.', 'Sample Holdings LLC'],
+      searchNames: ['EXAMPLE', 'SAMPLE HOLDINGS'],
+      totalResults: 4,
+      source: 'api',
+    });
+    // EXAMPLE, CHRIS shares only the surname and falls below the default minScore
+    expect(result.data!.cases.map((c) => [c.caseNumber, c.score])).toEqual([
+      ['2024L000321', 1],
+      ['2019L000111', 1],
+      ['2022M1001234', 0.9],
+      ['2025D000789', 0.85],
+    ]);
+    expect(result.data!.cases[0]).toMatchObject({
+      division: 'Law',
+      filingDate: '2024-03-04',
+      matches: [
+        { party: 'Example, Pat Q.', name: 'EXAMPLE, PAT Q', score: 1 },
+        { party: 'Sample Holdings LLC', name: 'SAMPLE HOLDINGS, L.L.C.', score: 1 },
+      ],
+    });
+    expect(result.data!.cases[3].matches).toEqual([{ party: 'Example, Pat Q.', name: 'EXAMPLE, P', score: 0.85 }]);
+  });
+
+  it('filters by division and filing date range', async () => {
+    const s = clerkSession();
+    const result = await courtNameSearchScraper.execute(s.fetcher, {} as Env, {
+      parties: PARTIES,
+      divisions: ['L', 'CH'],
+      filedFrom: '2020-01-01',
+      minScore: 0,
+    });
+    expect(result.data!.cases.map((c) => [c.caseNumber, c.score])).toEqual([
+      ['2024L000321', 1],
+      ['2023CH004567', 0.3],
+    ]);
+  });
+
+  it('still accepts a single free-form name', async () => {
+    const s = clerkSession();
+    const result = await courtNameSearchScraper.execute(s.fetcher, {} as Env, { name: 'Example, Chris' });
+    expect(s.visited).toEqual([`${API}?LastName=EXAMPLE`]);
+    expect(result.data!.cases.map((c) => c.caseNumber)).toEqual(['2023CH004567']);
+  });
+
+  it('rejects unusable input without launching a browser', async () => {
+    const s = createReplaySession({ pages: {} });
+    const tooMany = { parties: ['A', 'B', 'C', 'D', 'E', 'F'].map((lastName) => ({ lastName })) };
+    for (const input of [{}, { parties: [{ firstName: 'Pat' }] }, { name: 'Example', filedFrom: '2025-01-01', filedTo: '2024-01-01' }, tooMany]) {
+      const result = await courtNameSearchScraper.execute(s.fetcher, {} as Env, input);
+      expect(result).toMatchObject({ success: false, errorType: 'invalid_input' });
+    }
+    expect(s.launches).toBe(0);
+  });
+});
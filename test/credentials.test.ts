@@ -0,0 +1,113 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { createCredentialResolver, credentialEnvVar, credentialResolver, getProviderChain } from '../src/credentials';
+import { comedScraper } from '../src/scrapers/comed';
+import { flRegisteredAgentScraper } from '../src/scrapers/fl-registered-agent';
+import type { ScraperMeta } from '../src/scrapers/base';
+import { createFakeKV } from './fake-kv';
+import type { Env } from '../src/index';
+
+const meta: ScraperMeta = {
+  id: 'fake',
+  name: 'Fake',
+  category: 'generic',
+  version: '1.0.0',
+  requiresAuth: true,
+  credentialKeys: ['fake:username', 'fake:password'],
+  credentialRefs: { 'fake:password': { ref: 'op://ChittyOS/Fake/password', envVar: 'FLRA_PASSWORD_REF' } },
+};
+
+function makeEnv(extra: Record<string, unknown> = {}) {
+  return { SCRAPE_KV: createFakeKV(), ...extra } as unknown as Env & { SCRAPE_KV: ReturnType<typeof createFakeKV> };
+}
+
+function mockConnect(values: Record<string, string>) {
+  return vi.spyOn(globalThis, 'fetch').mockImplementation(async (url: any) => {
+    const ref = decodeURIComponent(String(url).split('/api/credentials/')[1]);
+    return ref in values
+      ? new Response(JSON.stringify({ success: true, value: values[ref] }), { status: 200 })
+      : new Response('{}', { status: 404 });
+  });
+}
+
+describe('credential resolver', () => {
+  afterEach(() => vi.restoreAllMocks());
+
+  it('tries ChittyConnect refs first, then KV, then env vars', async () => {
+    const fetchMock = mockConnect({ 'op://Override/Fake/password': 'from-connect' });
+    const env = makeEnv({ CHITTYCONNECT_TOKEN: 't', FLRA_PASSWORD_REF: 'op://Override/Fake/password', FAKE_USERNAME: 'from-env' });
+    await env.SCRAPE_KV.put('fake:password', 'from-kv');
+
+    const lookup = await createCredentialResolver(env).resolve(meta);
+    expect(lookup).toEqual({
+      ok: true,
+      values: { 'fake:username': 'from-env', 'fake:password': 'from-connect' },
+      sources: { 'fake:username': 'env', 'fake:password': 'chittyconnect' },
+    });
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+
+    await env.SCRAPE_KV.put('fake:username', 'from-kv');
+    expect(await createCredentialResolver(env).resolve(meta, ['fake:username'])).toMatchObject({
+      values: { 'fake:username': 'from-kv' },
+    });
+  });
+
+  it('maps KV-style keys to ChittyConnect via CREDENTIAL_REFS and honours CREDENTIAL_PROVIDERS', async () => {
+    mockConnect({ 'op://ChittyOS/ComEd/username': 'connect-user' });
+    const env = makeEnv({
+      CHITTYCONNECT_TOKEN: 't',
+      CREDENTIAL_REFS: JSON.stringify({ 'comed:username': 'op://ChittyOS/ComEd/username' }),
+    });
+    await env.SCRAPE_KV.put('comed:username', 'kv-user');
+    expect(await createCredentialResolver(env).resolve(comedScraper.meta, ['comed:username'])).toMatchObject({
+      values: { 'comed:username': 'connect-user' },
+    });
+
+    const kvOnly = { ...env, CREDENTIAL_PROVIDERS: 'kv, vault' } as Env;
+    expect(getProviderChain(kvOnly)).toEqual(['kv']);
+    expect(await createCredentialResolver(kvOnly).resolve(comedScraper.meta, ['comed:username'])).toMatchObject({
+      values: { 'comed:username': 'kv-user' },
+    });
+  });
+
+  it('caches lookups, misses included, for the life of one resolver', async () => {
+    const fetchMock = mockConnect({ 'op://ChittyOS/Fake/password': 'pw' });
+    const env = makeEnv({ CHITTYCONNECT_TOKEN: 't' });
+    const get = vi.spyOn(env.SCRAPE_KV, 'get');
+    const resolver = credentialResolver(env);
+
+    await Promise.all([resolver.resolve(meta), resolver.resolve(meta)]);
+    await resolver.resolve(meta);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    expect(get).toHaveBeenCalledTimes(1);
+    expect(credentialResolver(env)).toBe(resolver);
+    expect(credentialResolver({ ...env })).not.toBe(resolver);
+  });
+
+  it('reports missing keys and provider failures in one error shape', async () => {
+    vi.spyOn(globalThis, 'fetch').mockRejectedValue(new Error('connect down'));
+    const env = makeEnv({ CHITTYCONNECT_TOKEN: 't' });
+    await env.SCRAPE_KV.put('fake:username', 'u');
+    const lookup = await createCredentialResolver(env).resolve(meta);
+    expect(lookup).toEqual({
+      ok: false,
+      missing: ['fake:password'],
+      sources: { 'fake:username': 'kv' },
+      error: 'Credentials missing for fake: fake:password (checked chittyconnect, kv, env) -- chittyconnect: connect down',
+    });
+  });
+
+  it('fails a credentialed scraper before it opens a browser', async () => {
+    const browser = { fetch: vi.fn() } as unknown as Fetcher;
+    const result = await flRegisteredAgentScraper.execute(browser, makeEnv(), {});
+    expect(result).toMatchObject({
+      success: false,
+      error: 'Credentials missing for fl-registered-agent: flra:username, flra:password (checked chittyconnect, kv, env)',
+    });
+    expect(browser.fetch).not.toHaveBeenCalled();
+  });
+
+  it('derives env var names from credential keys', () => {
+    expect(credentialEnvVar('google-drive:service-account-key')).toBe('GOOGLE_DRIVE_SERVICE_ACCOUNT_KEY');
+    expect(credentialEnvVar('appfolio-propertyhill:username')).toBe('APPFOLIO_PROPERTYHILL_USERNAME');
+  });
+});
@@ -0,0 +1,65 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { createFailureRecorder, getDiagnostic } from '../src/diagnostics';
+import { cookCountyTaxScraper } from '../src/scrapers/cook-county-tax';
+import { wrapResult } from '../src/scrapers/base';
+import { createReplaySession, useInstantDelays } from './replay';
+import { createFakeKV } from './fake-kv';
+import searchHtml from './fixtures/cook-county-tax/search.html?raw';
+import resultsTableHtml from './fixtures/cook-county-tax/results-table.html?raw';
+import noResultsHtml from './fixtures/cook-county-tax/no-results.html?raw';
+import type { Env } from '../src/index';
+
+vi.mock('@cloudflare/puppeteer', async () => (await import('./replay')).replayPuppeteer);
+
+const SEARCH_URL = 'https://www.cookcountytreasurer.com/setsearchparameters.aspx';
+const RESULTS_URL = 'https://www.cookcountytreasurer.com/yourpropertytaxoverviewresults.aspx';
+
+function setup(results: string) {
+  const replay = createReplaySession({
+    pages: { [SEARCH_URL]: searchHtml, [RESULTS_URL]: results },
+    clicks: { '#ContentPlaceHolder1_ASPxRoundPanel1_btSearch': RESULTS_URL },
+  });
+  const kv = createFakeKV();
+  return { replay, kv, env: { SCRAPE_KV: kv } as unknown as Env };
+}
+
+describe('failure diagnostics', () => {
+  beforeEach(() => useInstantDelays());
+  afterEach(() => vi.restoreAllMocks());
+
+  it('stores the page a failed scrape ended on and links it from the result', async () => {
+    const { replay, kv, env } = setup(noResultsHtml);
+    const recorder = createFailureRecorder(replay.fetcher, cookCountyTaxScraper.meta);
+    const input = { pin: '12-34-567-890-0000' };
+    const failed = await cookCountyTaxScraper.execute(recorder.fetcher, env, input);
+    expect(failed).toMatchObject({ success: false, errorType: 'not_found' });
+    expect(replay.openBrowsers).toBe(0);
+
+    const result = await recorder.attach(env, input, failed);
+    expect(result.diagnosticId).toMatch(/^[0-9a-f-]{36}$/);
+    expect(kv.ttls.get(`diagnostic:${result.diagnosticId}`)).toBe(7 * 86400);
+
+    const diagnostic = await getDiagnostic(kv, result.diagnosticId!);
+    // Redacted like a capture bundle: the PIN is an account-like digit run
+    expect(diagnostic).toMatchObject({
+      id: result.diagnosticId, portal: 'cook-county-tax', input: { pin: 'XX-XX-XXX-XXX-0000' },
+    });
+    expect(diagnostic!.pages.map((p) => p.url)).toEqual([RESULTS_URL]);
+    expect(diagnostic!.pages[0].html).toContain('No records found for the PIN entered.');
+    expect(diagnostic!.screenshots).toEqual([expect.objectContaining({ url: RESULTS_URL, trigger: 'close' })]);
+    expect(diagnostic!.result).toMatchObject({ success: false, errorType: 'not_found' });
+  });
+
+  it('stores nothing for successes or failures that never opened a page', async () => {
+    const { replay, kv, env } = setup(resultsTableHtml);
+    const recorder = createFailureRecorder(replay.fetcher, cookCountyTaxScraper.meta);
+    const ok = await cookCountyTaxScraper.execute(recorder.fetcher, env, { pin: '12-34-567-890-0000' });
+    expect(ok.success).toBe(true);
+    expect(await recorder.attach(env, {}, ok)).toBe(ok);
+
+    const early = createFailureRecorder(replay.fetcher, cookCountyTaxScraper.meta);
+    const invalid = wrapResult('cook-county-tax', false, undefined, 'pin is required', 'invalid_input');
+    expect(await early.attach(env, {}, invalid)).not.toHaveProperty('diagnosticId');
+    expect(kv.store.size).toBe(0);
+  });
+});
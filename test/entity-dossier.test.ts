@@ -0,0 +1,135 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { buildEntityDossier, normalizeStanding, entityDossierScraper } from '../src/scrapers/entity-dossier';
+import { wrapResult } from '../src/scrapers/base';
+import { flSunbizScraper } from '../src/scrapers/fl-sunbiz';
+import { flRegisteredAgentScraper } from '../src/scrapers/fl-registered-agent';
+import { setCallerToken, type ApiToken } from '../src/tokens';
+import { createFakeKV } from './fake-kv';
+import type { Env } from '../src/index';
+
+const ilOk = wrapResult('il-sos', true, {
+  entityName: 'ARIBIA LLC',
+  fileNumber: '12345678',
+  status: 'ACTIVE',
+  registeredAgent: 'JOHN DOE',
+  annualReportDueDate: '2026-06-01',
+  goodStanding: true,
+  alerts: [],
+});
+
+const sunbizOk = wrapResult('fl-sunbiz', true, {
+  entityName: 'ARIBIA LLC',
+  documentNumber: 'L21000123456',
+  status: 'INACTIVE',
+  registeredAgent: 'FLORIDA REGISTERED AGENT LLC',
+  lastReportYear: 2024,
+  annualReportFiled: false,
+  officers: [{ title: 'MGR', name: 'DOE, JOHN' }],
+  goodStanding: false,
+  alerts: ['NOT_IN_GOOD_STANDING', 'ENTITY_INACTIVE', 'ANNUAL_REPORT_NOT_CURRENT'],
+});
+
+const flAgentOk = wrapResult('fl-registered-agent', true, {
+  entity: 'ARIBIA LLC',
+  accountStatus: 'active',
+  annualReportDue: '2026-05-01',
+  invoices: [],
+  documents: [
+    { title: '2025 Annual Report Confirmation', date: '2025-04-20', entity: 'ARIBIA LLC', type: 'filing-confirmation' },
+    { title: 'Welcome letter', date: '2021-01-01', entity: 'ARIBIA LLC', type: 'other' },
+  ],
+  alerts: ['ANNUAL_REPORT_DUE'],
+});
+
+describe('normalizeStanding', () => {
+  it('maps free-text statuses onto the shared scale', () => {
+    expect(normalizeStanding('Active')).toBe('good_standing');
+    expect(normalizeStanding('Inactive - Administratively Dissolved (Tax)')).toBe('inactive');
+    expect(normalizeStanding('ACTIVE', false)).toBe('not_in_good_standing');
+    expect(normalizeStanding('Delinquent')).toBe('not_in_good_standing');
+    expect(normalizeStanding('unknown')).toBe('unknown');
+  });
+});
+
+describe('buildEntityDossier', () => {
+  it('reconciles registry and agent results with field-level provenance', () => {
+    const d = buildEntityDossier('ARIBIA LLC', ['IL', 'FL'], {
+      'il-sos': ilOk,
+      'fl-sunbiz': sunbizOk,
+      'fl-registered-agent': flAgentOk,
+    });
+    const [il, fl] = d.jurisdictions;
+    expect(il.standing).toEqual({ value: 'good_standing', source: 'il-sos' });
+    expect(il.annualReportDue).toEqual({ value: '2026-06-01', source: 'il-sos' });
+    expect(fl.standing.value).toBe('inactive');
+    expect(fl.annualReportDue).toEqual({ value: '2026-05-01', source: 'fl-registered-agent' });
+    expect(fl.annualReportFiled).toEqual({ value: false, source: 'fl-sunbiz' });
+    expect(fl.officers?.value).toEqual([{ title: 'MGR', name: 'DOE, JOHN' }]);
+    expect(fl.lastFiling).toEqual({
+      value: { description: '2025 Annual Report Confirmation', date: '2025-04-20' },
+      source: 'fl-registered-agent',
+    });
+    expect(d.overallStanding).toBe('inactive');
+    expect(d.alerts).toContain('FL: ENTITY_INACTIVE');
+    expect(d.alerts).toContain('FL: ANNUAL_REPORT_DUE');
+    expect(d.partial).toBe(false);
+  });
+
+  it('gives a year-only registry filing a year, not a date', () => {
+    const d = buildEntityDossier('ARIBIA LLC', ['FL'], { 'fl-sunbiz': sunbizOk });
+    expect(d.jurisdictions[0].lastFiling).toEqual({
+      value: { description: '2024 Annual Report', year: 2024 },
+      source: 'fl-sunbiz',
+    });
+  });
+
+  it('keeps a jurisdiction whose registry failed, marked not found', () => {
+    const d = buildEntityDossier('ARIBIA LLC', ['IL', 'WY'], {
+      'il-sos': ilOk,
+      'wyoming-sos': wrapResult('wyoming-sos', false, undefined, 'Could not find search input on WY SOS page'),
+    });
+    const wy = d.jurisdictions[1];
+    expect(wy.found).toBe(false);
+    expect(wy.standing.value).toBe('unknown');
+    expect(d.sources['wyoming-sos']).toMatchObject({ success: false });
+    expect(d.overallStanding).toBe('unknown');
+    expect(d.partial).toBe(true);
+  });
+});
+
+describe('entityDossierScraper agents', () => {
+  afterEach(() => vi.restoreAllMocks());
+
+  function stubFlorida() {
+    vi.spyOn(flSunbizScraper, 'execute').mockResolvedValue(wrapResult('fl-sunbiz', true, { status: 'ACTIVE', alerts: [] }) as any);
+    return vi.spyOn(flRegisteredAgentScraper, 'execute').mockResolvedValue(flAgentOk as any);
+  }
+
+  function scopedToken(portals: string[]): ApiToken {
+    return { id: 'a'.repeat(32), name: 'test', portals, categories: [], createdAt: '2026-01-01T00:00:00Z', expiresAt: null, lastUsedAt: null };
+  }
+
+  it('skips the registered-agent accounts unless asked for', async () => {
+    const agent = stubFlorida();
+    const env = { SCRAPE_KV: createFakeKV() } as unknown as Env;
+    const result = await entityDossierScraper.execute({} as Fetcher, env, { entityName: 'ARIBIA LLC', states: ['FL'] });
+    expect(agent).not.toHaveBeenCalled();
+    expect(Object.keys(result.data!.sources)).toEqual(['fl-sunbiz']);
+  });
+
+  it('runs an agent only when the caller token allows its portal', async () => {
+    const agent = stubFlorida();
+    const input = { entityName: 'ARIBIA LLC', states: ['FL' as const], includeAgents: true };
+
+    const denied = { SCRAPE_KV: createFakeKV() } as unknown as Env;
+    setCallerToken(denied, scopedToken(['entity-dossier']));
+    const result = await entityDossierScraper.execute({} as Fetcher, denied, input);
+    expect(agent).not.toHaveBeenCalled();
+    expect(result.data!.sources['fl-registered-agent']).toMatchObject({ success: false, errorType: 'auth_failed' });
+
+    const allowed = { SCRAPE_KV: createFakeKV() } as unknown as Env;
+    setCallerToken(allowed, scopedToken(['entity-dossier', 'fl-registered-agent']));
+    await entityDossierScraper.execute({} as Fetcher, allowed, input);
+    expect(agent).toHaveBeenCalledOnce();
+  });
+});
@@ -0,0 +1,36 @@
+/**
+ * In-memory stand-in for KVNamespace covering the subset ChittyScrape uses
+ * (get/put/delete/list). Records the expirationTtl of each put for assertions.
+ */
+export function createFakeKV() {
+  const store = new Map<string, string>();
+  const ttls = new Map<string, number | undefined>();
+
+  const kv = {
+    store,
+    ttls,
+    async get(key: string, type?: string) {
+      const raw = store.get(key) ?? null;
+      if (raw !== null && type === 'json') return JSON.parse(raw);
+      return raw;
+    },
+    async put(key: string, value: string, options?: { expirationTtl?: number }) {
+      store.set(key, value);
+      ttls.set(key, options?.expirationTtl);
+    },
+    async delete(key: string) {
+      store.delete(key);
+      ttls.delete(key);
+    },
+    async list(options?: { prefix?: string }) {
+      const prefix = options?.prefix || '';
+      const keys = Array.from(store.keys())
+        .filter((name) => name.startsWith(prefix))
+        .sort()
+        .map((name) => ({ name }));
+      return { keys, list_complete: true, cursor: '' };
+    },
+  };
+
+  return kv as typeof kv & KVNamespace;
+}
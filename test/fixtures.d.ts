@@ -0,0 +1,16 @@
+/** Replay fixtures are imported as strings via Vite's `?raw` suffix */
+declare module '*.html?raw' {
+  const html: string;
+  export default html;
+}
+
+declare module '*.json?raw' {
+  const json: string;
+  export default json;
+}
+
+/** Deploy config, checked against the bindings the code expects */
+declare module '*.jsonc?raw' {
+  const jsonc: string;
+  export default jsonc;
+}
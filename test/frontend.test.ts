@@ -37,4 +37,31 @@ describe('Dashboard frontend', () => {
     expect(body).toContain('Ctrl+Enter');
     expect(body).toContain('keydown');
   });
+
+  it('includes the selector health panel', async () => {
+    const result = await renderDashboard();
+    const body = typeof result === 'string' ? result : String(result);
+    expect(body).toContain('selector-section');
+    expect(body).toContain('/api/v1/selectors/health');
+  });
+
+  it('includes the readiness badge loader', async () => {
+    const result = await renderDashboard();
+    const body = typeof result === 'string' ? result : String(result);
+    expect(body).toContain('ready-badge');
+    expect(body).toContain('/readiness');
+  });
+
+  it('ships a dashboard script that parses', async () => {
+    const body = String(await renderDashboard());
+    const script = body.slice(body.lastIndexOf('<script>') + '<script>'.length, body.lastIndexOf('</script>'));
+    expect(() => new Function(script)).not.toThrow();
+  });
+
+  it('links failed runs to their diagnostic snapshot', async () => {
+    const result = await renderDashboard();
+    const body = typeof result === 'string' ? result : String(result);
+    expect(body).toContain('loadDiagnostic');
+    expect(body).toContain('/api/v1/diagnostics/');
+  });
 });
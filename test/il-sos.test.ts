@@ -0,0 +1,62 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { createReplaySession, useInstantDelays } from './replay';
+import searchHtml from './fixtures/il-sos/search.html?raw';
+import resultsHtml from './fixtures/il-sos/results.html?raw';
+import detailActiveHtml from './fixtures/il-sos/detail-active.html?raw';
+import detailRevokedHtml from './fixtures/il-sos/detail-revoked.html?raw';
+import { ilSOSScraper } from '../src/scrapers/il-sos';
+import type { Env } from '../src/index';
+
+vi.mock('@cloudflare/puppeteer', async () => (await import('./replay')).replayPuppeteer);
+
+const BASE = 'https://www.ilsos.gov/corporatellc/CorporateLlcController';
+
+function session() {
+  return createReplaySession({
+    pages: {
+      [BASE]: searchHtml,
+      [`${BASE}?command=search`]: resultsHtml,
+      [`${BASE}?command=detail&fileNbr=00000001`]: detailActiveHtml,
+      [`${BASE}?command=detail&fileNbr=00000002`]: detailRevokedHtml,
+    },
+    clicks: { 'input[type="submit"]': `${BASE}?command=search` },
+  });
+}
+
+describe('il-sos replay', () => {
+  beforeEach(() => useInstantDelays());
+  afterEach(() => vi.restoreAllMocks());
+
+  it('follows the matching result to the detail page and extracts the entity', async () => {
+    const s = session();
+    const result = await ilSOSScraper.execute(s.fetcher, {} as Env, { entityName: 'Example Holdings LLC' });
+    expect(s.visited.at(-1)).toBe(`${BASE}?command=detail&fileNbr=00000001`);
+    expect(result.success).toBe(true);
+    expect(result.data).toEqual({
+      entityName: 'Example Holdings LLC',
+      fileNumber: '00000001',
+      status: 'ACTIVE',
+      formationDate: '2021-01-15',
+      entityType: 'LLC',
+      registeredAgent: 'JANE EXAMPLE',
+      annualReportDueDate: '2027-01-01',
+      annualReportFiled: true,
+      principalOffice: '100 W EXAMPLE ST CHICAGO IL 60600',
+      goodStanding: true,
+      alerts: [],
+    });
+  });
+
+  it('flags a revoked entity with an unfiled annual report', async () => {
+    const result = await ilSOSScraper.execute(session().fetcher, {} as Env, { entityName: 'Example Ventures LLC' });
+    expect(result.data?.goodStanding).toBe(false);
+    expect(result.data?.alerts).toEqual(['NOT_IN_GOOD_STANDING', 'ENTITY_REVOKED', 'ANNUAL_REPORT_NOT_FILED']);
+  });
+
+  it('fails cleanly when the search form is missing', async () => {
+    const s = createReplaySession({ pages: { [BASE]: '<html><body><p>Service unavailable</p></body></html>' } });
+    const result = await ilSOSScraper.execute(s.fetcher, {} as Env, { entityName: 'Example Holdings LLC' });
+    expect(result).toMatchObject({ success: false, error: 'Could not find entity name input on IL SOS page' });
+    expect(s.openPages).toBe(0);
+  });
+});
@@ -0,0 +1,142 @@
+import { describe, it, expect } from 'vitest';
+import {
+  createJob, getChallengeTimeout, getJob, getJobTtl, runJob, runQueuedJob,
+  DEFAULT_CHALLENGE_TIMEOUT_SECONDS, DEFAULT_JOB_TTL_SECONDS, JOB_ID_RE, MAX_CHALLENGE_TIMEOUT_SECONDS,
+} from '../src/jobs';
+import { acquirePortalSlot } from '../src/rate-limit';
+import type { Env } from '../src/index';
+import { ScrapeError, type ScraperModule } from '../src/scrapers/base';
+import { createFakeKV } from './fake-kv';
+
+function makeEnv() {
+  const kv = createFakeKV();
+  const env = { BROWSER: {} as Fetcher, SCRAPE_KV: kv } as unknown as Env;
+  return { env, kv };
+}
+
+function makeScraper(execute: ScraperModule['execute']): ScraperModule {
+  return {
+    meta: { id: 'fake', name: 'Fake', category: 'generic', version: '1.0.0', requiresAuth: false },
+    execute,
+  };
+}
+
+describe('getJobTtl', () => {
+  it('defaults when unset or invalid', () => {
+    expect(getJobTtl({})).toBe(DEFAULT_JOB_TTL_SECONDS);
+    expect(getJobTtl({ JOB_RESULT_TTL_SECONDS: 'abc' })).toBe(DEFAULT_JOB_TTL_SECONDS);
+  });
+
+  it('honours a configured value but never drops below the KV minimum', () => {
+    expect(getJobTtl({ JOB_RESULT_TTL_SECONDS: '3600' })).toBe(3600);
+    expect(getJobTtl({ JOB_RESULT_TTL_SECONDS: '5' })).toBe(60);
+  });
+});
+
+describe('getChallengeTimeout', () => {
+  it('defaults when unset and caps the wait so the queue consumer outlives it', () => {
+    expect(getChallengeTimeout({})).toBe(DEFAULT_CHALLENGE_TIMEOUT_SECONDS);
+    expect(getChallengeTimeout({ CHALLENGE_TIMEOUT_SECONDS: '120' })).toBe(120);
+    expect(getChallengeTimeout({ CHALLENGE_TIMEOUT_SECONDS: '3600' })).toBe(MAX_CHALLENGE_TIMEOUT_SECONDS);
+  });
+});
+
+describe('scrape jobs', () => {
+  it('creates a queued job with a UUID and the configured TTL', async () => {
+    const { kv } = makeEnv();
+    const job = await createJob(kv, 'fake', 3600);
+    expect(job.status).toBe('queued');
+    expect(JOB_ID_RE.test(job.id)).toBe(true);
+    expect(kv.ttls.get(`job:${job.id}`)).toBe(3600);
+    expect((await getJob(kv, job.id))?.portal).toBe('fake');
+  });
+
+  it('records a succeeded job with its ScrapeResult', async () => {
+    const { env, kv } = makeEnv();
+    const job = await createJob(kv, 'fake', 3600);
+    const scraper = makeScraper(async () => ({
+      success: true, data: { ok: 1 }, method: 'scrape', portal: 'fake', scrapedAt: 'now',
+    }));
+    await runJob(env, scraper, job, {}, 3600);
+    const stored = await getJob(kv, job.id);
+    expect(stored?.status).toBe('succeeded');
+    expect(stored?.result?.data).toEqual({ ok: 1 });
+    expect(stored?.startedAt).toBeDefined();
+    expect(stored?.finishedAt).toBeDefined();
+  });
+
+  it('attaches a change set when trackChanges is requested', async () => {
+    const { env, kv } = makeEnv();
+    const job = await createJob(kv, 'fake', 3600);
+    const scraper = makeScraper(async () => ({
+      success: true, data: { ok: 1 }, method: 'scrape', portal: 'fake', scrapedAt: 'now',
+    }));
+    await runJob(env, scraper, job, { q: 1 }, 3600, { trackChanges: true });
+    const stored = await getJob(kv, job.id);
+    expect(stored?.result?.changes?.baseline).toBe(true);
+  });
+
+  it('records a thrown scraper error as a failed job', async () => {
+    const { env, kv } = makeEnv();
+    const job = await createJob(kv, 'fake', 3600);
+    await runJob(env, makeScraper(async () => { throw new ScrapeError('blocked', 'boom'); }), job, {}, 3600);
+    const stored = await getJob(kv, job.id);
+    expect(stored?.status).toBe('failed');
+    expect(stored?.error).toBe('Scraper execution failed: boom');
+    expect(stored?.result).toMatchObject({ success: false, errorType: 'blocked' });
+  });
+
+  it('reports a long-running job as failed', async () => {
+    const { kv } = makeEnv();
+    const id = crypto.randomUUID();
+    const startedAt = new Date(Date.now() - 60 * 60 * 1000).toISOString();
+    await kv.put(`job:${id}`, JSON.stringify({ id, portal: 'fake', status: 'running', createdAt: startedAt, startedAt }));
+    const stored = await getJob(kv, id);
+    expect(stored?.status).toBe('failed');
+    expect(stored?.error).toContain('evicted');
+  });
+
+  it('returns null for unknown or corrupted jobs', async () => {
+    const { kv } = makeEnv();
+    expect(await getJob(kv, 'missing')).toBeNull();
+    await kv.put('job:bad', '{not json');
+    expect(await getJob(kv, 'bad')).toBeNull();
+  });
+});
+
+describe('queued jobs', () => {
+  it('runs the job from its queue message and releases the submission lease', async () => {
+    const { env, kv } = makeEnv();
+    const scraper = makeScraper(async () => ({
+      success: true, data: { ok: 1 }, method: 'scrape', portal: 'fake', scrapedAt: 'now',
+    }));
+    const job = await createJob(kv, 'fake', 3600);
+    const slot = await acquirePortalSlot(env, scraper.meta, { slots: 3 });
+    if (!slot.ok) throw new Error('expected a slot');
+
+    await runQueuedJob(env, scraper, { jobId: job.id, portal: 'fake', input: {}, options: {}, ttl: 3600, leaseId: slot.leaseId });
+    expect((await getJob(kv, job.id))?.status).toBe('succeeded');
+    expect(JSON.parse(kv.store.get('ratelimit:fake')!).leases).toEqual([]);
+  });
+
+  it('fails a job whose portal is no longer registered', async () => {
+    const { env, kv } = makeEnv();
+    const job = await createJob(kv, 'gone', 3600);
+    await runQueuedJob(env, undefined, { jobId: job.id, portal: 'gone', input: {}, options: {}, ttl: 3600, leaseId: 'x' });
+    expect(await getJob(kv, job.id)).toMatchObject({ status: 'failed', error: 'Unknown portal: gone' });
+  });
+
+  it('does not run a job twice', async () => {
+    const { env, kv } = makeEnv();
+    let runs = 0;
+    const scraper = makeScraper(async () => {
+      runs++;
+      return { success: true, data: {}, method: 'scrape', portal: 'fake', scrapedAt: 'now' };
+    });
+    const job = await createJob(kv, 'fake', 3600);
+    const message = { jobId: job.id, portal: 'fake', input: {}, options: {}, ttl: 3600, leaseId: 'x' };
+    await runQueuedJob(env, scraper, message);
+    await runQueuedJob(env, scraper, message);
+    expect(runs).toBe(1);
+  });
+});
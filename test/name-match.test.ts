@@ -0,0 +1,55 @@
+import { describe, it, expect } from 'vitest';
+import { parsePartyName, personName, businessName, nameMatchScore, splitCaption } from '../src/name-match';
+
+const score = (query: string, candidate: string) => nameMatchScore(parsePartyName(query)!, parsePartyName(candidate)!);
+
+describe('parsePartyName', () => {
+  it('reads people in either order, with middle names and suffixes', () => {
+    expect(parsePartyName('Smith, John A.')).toEqual({ kind: 'person', last: 'SMITH', first: 'JOHN', middle: 'A' });
+    expect(parsePartyName('John A. Smith Jr.')).toEqual({ kind: 'person', last: 'SMITH', first: 'JOHN', middle: 'A', suffix: 'JR' });
+    expect(parsePartyName('SMITH JR, JOHN')).toEqual({ kind: 'person', last: 'SMITH', first: 'JOHN', suffix: 'JR' });
+    expect(parsePartyName("O'Brien")).toEqual({ kind: 'person', last: "O'BRIEN" });
+  });
+
+  it('reads businesses with their entity form', () => {
+    expect(parsePartyName('Example Holdings, L.L.C.')).toEqual({ kind: 'business', name: 'EXAMPLE HOLDINGS', form: 'LLC' });
+    expect(parsePartyName('The Example Company')).toEqual({ kind: 'business', name: 'EXAMPLE', form: 'CO' });
+    expect(parsePartyName('Example Limited Liability Company')).toEqual({ kind: 'business', name: 'EXAMPLE', form: 'LLC' });
+    expect(parsePartyName('First Example Bank')).toEqual({ kind: 'business', name: 'FIRST EXAMPLE BANK' });
+    expect(businessName('Acme')).toEqual({ kind: 'business', name: 'ACME' });
+    expect(parsePartyName(' , ')).toBeNull();
+  });
+});
+
+describe('nameMatchScore', () => {
+  it('scores people by surname, given name, middle initial and suffix', () => {
+    expect(score('Smith, John', 'SMITH, JOHN')).toBe(1);
+    expect(score('Smith, John', 'SMITH, J')).toBe(0.85);
+    expect(score('Smith, Jon', 'SMITH, JONATHAN')).toBe(0.8);
+    expect(score('Smith', 'SMITH, JANE')).toBe(0.6);
+    expect(score('Smith, John', 'SMITH, JANE')).toBe(0.3);
+    expect(score('Smith, John A', 'SMITH, JOHN B')).toBeCloseTo(0.7);
+    expect(score('Smith, John Jr', 'SMITH, JOHN SR')).toBeCloseTo(0.6);
+    expect(score('Smith, John', 'SMITH-JONES, JOHN')).toBe(0.8);
+    expect(score("O'Brien, Pat", 'OBRIEN, PAT')).toBe(1);
+    expect(score('Smith, John', 'JONES, JOHN')).toBe(0);
+    expect(nameMatchScore(personName('Smith', 'John A.')!, parsePartyName('JOHN SMITH')!)).toBe(1);
+  });
+
+  it('treats LLC and Inc variants of a business name as near matches', () => {
+    expect(score('Example Holdings LLC', 'EXAMPLE HOLDINGS, L.L.C.')).toBe(1);
+    expect(score('Example Holdings LLC', 'EXAMPLE HOLDINGS')).toBe(1);
+    expect(score('Example Holdings LLC', 'EXAMPLE HOLDINGS INC')).toBe(0.9);
+    expect(score('Example Holdings LLC', 'EXAMPLE HOLDINGS WEST LLC')).toBe(0.75);
+    expect(score('Smith, John', 'SMITH PROPERTIES LLC')).toBe(0.3);
+    expect(score('Example Holdings LLC', 'SMITH, JOHN')).toBe(0);
+  });
+});
+
+describe('splitCaption', () => {
+  it('splits both sides and co-parties of a caption', () => {
+    expect(splitCaption('SMITH, JOHN v. EXAMPLE HOLDINGS LLC, ET AL')).toEqual(['SMITH, JOHN', 'EXAMPLE HOLDINGS LLC, ET AL']);
+    expect(splitCaption('IN RE THE MARRIAGE OF SMITH, JOHN AND SMITH, JANE')).toEqual(['SMITH, JOHN', 'SMITH, JANE']);
+    expect(splitCaption('DOE, JAN; ROE, RAY vs DOE, SAM')).toEqual(['DOE, JAN', 'ROE, RAY', 'DOE, SAM']);
+  });
+});
@@ -0,0 +1,115 @@
+import { describe, it, expect } from 'vitest';
+import {
+  parseCents,
+  formatCents,
+  parsePercent,
+  parseIsoDate,
+  normalizePin,
+  formatPin,
+  parsePin,
+  pinInputError,
+} from '../src/normalize';
+
+describe('parseCents', () => {
+  it('reads currency text as integer cents', () => {
+    expect(parseCents('$1,250.00')).toBe(125000);
+    expect(parseCents('Total due: $1,725.5 USD')).toBe(172550);
+    expect(parseCents('625')).toBe(62500);
+    expect(parseCents('$.99')).toBe(99);
+    // No float drift: 0.505 is 0.50499... as a double
+    expect(parseCents('0.505')).toBe(51);
+    expect(parseCents('19.994')).toBe(1999);
+  });
+
+  it('treats minus signs and accounting parentheses as negative', () => {
+    expect(parseCents('-$625.00')).toBe(-62500);
+    expect(parseCents('$-625.00')).toBe(-62500);
+    expect(parseCents('625.00-')).toBe(-62500);
+    expect(parseCents('($625.00)')).toBe(-62500);
+    expect(parseCents('( 1,000 )')).toBe(-100000);
+    expect(parseCents('$0.00')).toBe(0);
+  });
+
+  it('returns null when there is no amount', () => {
+    expect(parseCents('')).toBeNull();
+    expect(parseCents(undefined)).toBeNull();
+    expect(parseCents('N/A')).toBeNull();
+  });
+
+  it('formats cents back for display', () => {
+    expect(formatCents(172550)).toBe('$1725.50');
+    expect(formatCents(-500)).toBe('-$5.00');
+  });
+});
+
+describe('parsePercent', () => {
+  it('reads rates as a number of percent', () => {
+    expect(parsePercent('6.500%')).toBe(6.5);
+    expect(parsePercent('Rate: 3.25 %')).toBe(3.25);
+    expect(parsePercent('--')).toBeNull();
+  });
+});
+
+describe('parseIsoDate', () => {
+  it('reads US numeric dates', () => {
+    expect(parseIsoDate('03/01/2026')).toBe('2026-03-01');
+    expect(parseIsoDate('Due 3-1-2026')).toBe('2026-03-01');
+    expect(parseIsoDate('3/1/26')).toBe('2026-03-01');
+    expect(parseIsoDate('12/31/98')).toBe('1998-12-31');
+  });
+
+  it('reads long-form and ISO dates', () => {
+    expect(parseIsoDate('March 1, 2026')).toBe('2026-03-01');
+    expect(parseIsoDate('Sept. 3rd 2026')).toBe('2026-09-03');
+    expect(parseIsoDate('1 March 2026')).toBe('2026-03-01');
+    expect(parseIsoDate('2026-03-01T09:30:00')).toBe('2026-03-01');
+  });
+
+  it('fills a missing year only when given one', () => {
+    expect(parseIsoDate('August 1', { defaultYear: 2026 })).toBe('2026-08-01');
+    expect(parseIsoDate('August 1')).toBeNull();
+  });
+
+  it('rejects impossible dates and non-dates', () => {
+    expect(parseIsoDate('02/30/2026')).toBeNull();
+    expect(parseIsoDate('13/01/2026')).toBeNull();
+    expect(parseIsoDate('pending')).toBeNull();
+    expect(parseIsoDate(undefined)).toBeNull();
+  });
+});
+
+describe('Cook County PINs', () => {
+  const PIN = '12345678900000';
+
+  it('accepts dashed, spaced and 10-digit PINs', () => {
+    expect(normalizePin('12-34-567-890-0000')).toBe(PIN);
+    expect(normalizePin('12 34 567 890 0000')).toBe(PIN);
+    expect(normalizePin('1234567890')).toBe(PIN);
+    expect(formatPin(PIN)).toBe('12-34-567-890-0000');
+  });
+
+  it('rejects wrong lengths and non-digits', () => {
+    expect(normalizePin('123')).toBeNull();
+    expect(normalizePin('12-34-567-890-000A')).toBeNull();
+  });
+
+  it('breaks a PIN into area, subarea, block, parcel and unit', () => {
+    expect(parsePin('17-10-318-025-1042')).toEqual({
+      pin: '17103180251042',
+      formatted: '17-10-318-025-1042',
+      area: '17',
+      subarea: '10',
+      block: '318',
+      parcel: '025',
+      unit: '1042',
+    });
+    expect(parsePin('00-34-567-890-0000')).toBeNull();
+    expect(parsePin('12-00-567-890-0000')).toBeNull();
+  });
+
+  it('explains why a pin input is unusable', () => {
+    expect(pinInputError('12-34-567-890')).toBeUndefined();
+    expect(pinInputError(' ')).toBe('pin is required');
+    expect(pinInputError('12-34-567')).toBe('pin must be a 10 or 14 digit Cook County PIN');
+  });
+});
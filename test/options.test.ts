@@ -0,0 +1,30 @@
+import { describe, it, expect } from 'vitest';
+import { splitRequestBody } from '../src/options';
+
+describe('splitRequestBody', () => {
+  it('passes bodies without options through untouched', () => {
+    const body = { pin: '12-34-567-890-0000' };
+    expect(splitRequestBody(body)).toEqual({ input: body, options: {}, fieldErrors: [] });
+  });
+
+  it('strips the reserved options key from the scraper input', () => {
+    const { input, options, fieldErrors } = splitRequestBody({
+      pin: '12345678900000',
+      options: { callbackUrl: 'https://command.chitty.cc/hooks/scrape' },
+    });
+    expect(input).toEqual({ pin: '12345678900000' });
+    expect(options.callbackUrl).toBe('https://command.chitty.cc/hooks/scrape');
+    expect(fieldErrors).toEqual([]);
+  });
+
+  it('reports malformed options with an options. prefix', () => {
+    const { options, fieldErrors } = splitRequestBody({ options: { callbackUrl: 'http://insecure', bogus: true } });
+    expect(options).toEqual({});
+    expect(fieldErrors.map((e) => e.path)).toEqual(['options.callbackUrl', 'options.bogus']);
+  });
+
+  it('accepts only known output formats', () => {
+    expect(splitRequestBody({ options: { format: 'ics' } }).options).toEqual({ format: 'ics' });
+    expect(splitRequestBody({ options: { format: 'csv' } }).fieldErrors.map((e) => e.path)).toEqual(['options.format']);
+  });
+});
@@ -0,0 +1,67 @@
+import { describe, it, expect } from 'vitest';
+import { buildPropertyDossier } from '../src/scrapers/property-dossier';
+import { wrapResult } from '../src/scrapers/base';
+
+const PIN = '12345678900000';
+const NOW = new Date('2026-03-01T00:00:00Z');
+
+const taxOk = wrapResult('cook-county-tax', true, {
+  pin: PIN,
+  address: '123 MAIN ST',
+  taxYear: 2025,
+  installments: [
+    { number: 1, amount: 150000, dueDate: '2026-03-03', status: 'paid' },
+    { number: 2, amount: 172550, dueDate: '2026-08-01', status: 'unpaid' },
+  ],
+  totalTax: 322550,
+  exemptions: ['Homeowner'],
+});
+
+const assessorOk = wrapResult('cook-county-assessor', true, {
+  pin: PIN,
+  township: 'Lake View',
+  assessedValue: 3000000,
+  marketValue: 30000000,
+  appealWindowOpen: true,
+  appealDeadline: '2026-03-15',
+  exemptions: ['Homeowner', 'Senior'],
+  alerts: ['APPEAL_WINDOW_OPEN'],
+});
+
+const recorderOk = wrapResult('cook-county-recorder', true, {
+  pin: PIN,
+  filings: [
+    { documentNumber: '2602112345', recordedDate: '2026-02-11', documentType: 'LIS PENDENS' },
+    { documentNumber: '1801012345', recordedDate: '2018-01-01', documentType: 'LIS PENDENS' },
+    { documentNumber: '2001012345', recordedDate: '2020-01-01', documentType: 'WARRANTY DEED' },
+  ],
+  totalFilings: 3,
+  alerts: [],
+});
+
+describe('buildPropertyDossier', () => {
+  it('merges all three sources with unified alerts', () => {
+    const d = buildPropertyDossier(PIN, { tax: taxOk, assessor: assessorOk, recorder: recorderOk }, NOW);
+    expect(d.address).toBe('123 MAIN ST');
+    expect(d.township).toBe('Lake View');
+    expect(d.tax?.unpaidTotal).toBe(172550);
+    expect(d.assessment?.appealDeadline).toBe('2026-03-15');
+    expect(d.exemptions).toEqual(['Homeowner', 'Senior']);
+    expect(d.alerts).toEqual([
+      'UNPAID_INSTALLMENT: #2 $1725.50 due 2026-08-01 (unpaid)',
+      'APPEAL_WINDOW_OPEN',
+      'NEW_LIS_PENDENS: 2602112345 recorded 2026-02-11',
+    ]);
+    expect(d.partial).toBe(false);
+  });
+
+  it('reports a failed source without dropping the others', () => {
+    const recorderFailed = wrapResult('cook-county-recorder', false, undefined, 'Could not find search button');
+    const d = buildPropertyDossier(PIN, { tax: taxOk, assessor: assessorOk, recorder: recorderFailed }, NOW);
+    expect(d.partial).toBe(true);
+    expect(d.recorder).toBeUndefined();
+    expect(d.sources.recorder).toMatchObject({ success: false, error: 'Could not find search button' });
+    expect(d.sources.tax.success).toBe(true);
+    expect(d.tax?.totalTax).toBe(322550);
+  });
+});
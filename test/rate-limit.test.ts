@@ -0,0 +1,89 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { acquirePortalSlot, getRateLimit, DEFAULT_AUTH_RATE_LIMIT, DEFAULT_RATE_LIMIT } from '../src/rate-limit';
+import { mrCooperScraper } from '../src/scrapers/mr-cooper';
+import { googleDriveScraper } from '../src/scrapers/google-drive';
+import { runSources } from '../src/scrapers/composite';
+import { wrapResult, type ScraperModule } from '../src/scrapers/base';
+import { createFakeKV } from './fake-kv';
+import type { Env } from '../src/index';
+
+const publicPortal = { id: 'court-docket', requiresAuth: false };
+const loginPortal = { id: 'comed', requiresAuth: true };
+
+function makeEnv(extra: Record<string, unknown> = {}) {
+  return { SCRAPE_KV: createFakeKV(), ...extra } as unknown as Env;
+}
+
+describe('per-portal rate limits', () => {
+  afterEach(() => vi.useRealTimers());
+
+  it('layers scraper overrides and RATE_LIMITS over the auth/no-auth defaults', () => {
+    expect(getRateLimit(makeEnv(), loginPortal)).toEqual(DEFAULT_AUTH_RATE_LIMIT);
+    expect(getRateLimit(makeEnv(), mrCooperScraper.meta)).toEqual({ requestsPerMinute: 2, maxConcurrent: 1, minIntervalSeconds: 30 });
+    const env = makeEnv({ RATE_LIMITS: JSON.stringify({ 'mr-cooper': { maxConcurrent: 2 } }) });
+    expect(getRateLimit(env, mrCooperScraper.meta)).toMatchObject({ requestsPerMinute: 2, maxConcurrent: 2 });
+  });
+
+  it('keeps API-key scrapers off the login-portal defaults', () => {
+    expect(getRateLimit(makeEnv(), { id: 'api', requiresAuth: true, apiKeyAuth: true })).toEqual(DEFAULT_RATE_LIMIT);
+    expect(getRateLimit(makeEnv(), googleDriveScraper.meta)).toMatchObject({ maxConcurrent: 5, minIntervalSeconds: 0 });
+  });
+
+  it('holds concurrent runs to maxConcurrent until a lease is released', async () => {
+    const env = makeEnv({ RATE_LIMITS: JSON.stringify({ comed: { minIntervalSeconds: 0 } }) });
+    const first = await acquirePortalSlot(env, loginPortal);
+    expect(first.ok).toBe(true);
+    expect(await acquirePortalSlot(env, loginPortal)).toMatchObject({ ok: false, reason: 'concurrency', retryAfterSeconds: 30 });
+
+    if (first.ok) await first.release();
+    expect((await acquirePortalSlot(env, loginPortal)).ok).toBe(true);
+  });
+
+  it('enforces spacing between starts of authenticated portals', async () => {
+    vi.useFakeTimers({ now: Date.parse('2026-05-01T00:00:00Z') });
+    const env = makeEnv();
+    const first = await acquirePortalSlot(env, loginPortal);
+    if (first.ok) await first.release();
+
+    vi.advanceTimersByTime(4_000);
+    expect(await acquirePortalSlot(env, loginPortal)).toMatchObject({ ok: false, reason: 'spacing', retryAfterSeconds: 6 });
+    vi.advanceTimersByTime(6_000);
+    expect((await acquirePortalSlot(env, loginPortal)).ok).toBe(true);
+  });
+
+  it('counts batch items against the per-minute budget', async () => {
+    vi.useFakeTimers({ now: Date.parse('2026-05-01T00:00:00Z') });
+    const env = makeEnv();
+    const batch = await acquirePortalSlot(env, publicPortal, { runs: 25, slots: 3 });
+    if (batch.ok) await batch.release();
+
+    vi.advanceTimersByTime(20_000);
+    expect((await acquirePortalSlot(env, publicPortal, { runs: 5 })).ok).toBe(true);
+    expect(await acquirePortalSlot(env, publicPortal)).toMatchObject({ ok: false, reason: 'rate', retryAfterSeconds: 40 });
+    vi.advanceTimersByTime(40_000);
+    expect((await acquirePortalSlot(env, publicPortal)).ok).toBe(true);
+  });
+
+  it('lets runs through when KV is unavailable', async () => {
+    const env = makeEnv();
+    vi.spyOn(env.SCRAPE_KV, 'get').mockRejectedValue(new Error('kv down'));
+    expect((await acquirePortalSlot(env, loginPortal)).ok).toBe(true);
+  });
+
+  it('makes each composite source claim its own portal slot', async () => {
+    const env = makeEnv();
+    const execute = vi.fn(async () => wrapResult('comed', true, {}));
+    const source = { meta: loginPortal, execute } as unknown as ScraperModule<any, unknown>;
+    const held = await acquirePortalSlot(env, loginPortal);
+
+    const results = await runSources({} as Fetcher, env, { bill: { scraper: source, input: {} } });
+    expect(execute).not.toHaveBeenCalled();
+    expect(results.bill).toMatchObject({ success: false, errorType: 'blocked', portal: 'comed' });
+
+    if (held.ok) await held.release();
+    vi.useFakeTimers({ now: Date.now() + 10_000 });
+    expect((await runSources({} as Fetcher, env, { bill: { scraper: source, input: {} } })).bill.success).toBe(true);
+    // The source's lease is released once it finishes
+    expect(await acquirePortalSlot(env, loginPortal)).toMatchObject({ ok: false, reason: 'spacing' });
+  });
+});
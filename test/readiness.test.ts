@@ -0,0 +1,64 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { checkReadiness } from '../src/readiness';
+import { comedScraper } from '../src/scrapers/comed';
+import { courtDocketScraper } from '../src/scrapers/court-docket';
+import { flRegisteredAgentScraper } from '../src/scrapers/fl-registered-agent';
+import { createFakeKV } from './fake-kv';
+import type { Env } from '../src/index';
+
+function makeEnv(extra: Record<string, unknown> = {}) {
+  return { SCRAPE_KV: createFakeKV(), BROWSER: {}, ...extra } as unknown as Env & {
+    SCRAPE_KV: ReturnType<typeof createFakeKV>;
+  };
+}
+
+describe('checkReadiness', () => {
+  afterEach(() => vi.restoreAllMocks());
+
+  it('is ready when every credential resolves, reporting sources but not values', async () => {
+    const env = makeEnv({ COMED_PASSWORD: 'env-secret' });
+    await env.SCRAPE_KV.put('comed:username', 'kv-secret');
+    const readiness = await checkReadiness(env, comedScraper.meta);
+    expect(readiness).toMatchObject({
+      scraper: 'comed',
+      ready: true,
+      browser: { ok: true },
+      chittyconnect: { status: 'not_configured' },
+      credentials: {
+        ok: true,
+        keys: [{ key: 'comed:username', source: 'kv' }, { key: 'comed:password', source: 'env' }],
+        missing: [],
+      },
+    });
+    expect(JSON.stringify(readiness)).not.toContain('secret');
+  });
+
+  it('lists missing credentials and a missing browser binding', async () => {
+    const readiness = await checkReadiness(makeEnv({ BROWSER: undefined }), comedScraper.meta);
+    expect(readiness.ready).toBe(false);
+    expect(readiness.browser.ok).toBe(false);
+    expect(readiness.credentials).toMatchObject({
+      ok: false,
+      missing: ['comed:username', 'comed:password'],
+      error: expect.stringContaining('Credentials missing for comed'),
+    });
+  });
+
+  it('probes ChittyConnect when configured', async () => {
+    const fetchMock = vi.spyOn(globalThis, 'fetch').mockImplementation(async (url: any) =>
+      String(url).endsWith('/health')
+        ? new Response('bad gateway', { status: 502 })
+        : new Response(JSON.stringify({ success: true, value: 'from-connect' }), { status: 200 }),
+    );
+    const readiness = await checkReadiness(makeEnv({ CHITTYCONNECT_TOKEN: 't' }), flRegisteredAgentScraper.meta);
+    expect(readiness.chittyconnect).toEqual({ status: 'unreachable', error: 'HTTP 502' });
+    expect(readiness.credentials.keys.every((k) => k.source === 'chittyconnect')).toBe(true);
+    expect(readiness.ready).toBe(true);
+    expect(fetchMock.mock.calls[0][0]).toBe('https://connect.chitty.cc/health');
+  });
+
+  it('needs only the browser for scrapers without credentials', async () => {
+    const readiness = await checkReadiness(makeEnv(), courtDocketScraper.meta);
+    expect(readiness).toMatchObject({ ready: true, credentials: { ok: true, keys: [], missing: [] } });
+  });
+});
@@ -0,0 +1,418 @@
+import { vi } from 'vitest';
+import { parseHTML } from 'linkedom';
+
+/**
+ * Fixture replay harness: runs a scraper's `execute` against recorded HTML/JSON
+ * instead of Browser Rendering. Tests mock `@cloudflare/puppeteer` with
+ * `replayPuppeteer`, then pass `session.fetcher` as the BROWSER binding:
+ *
+ *   vi.mock('@cloudflare/puppeteer', async () => (await import('./replay')).replayPuppeteer);
+ *   const session = createReplaySession({ pages: { 'https://example.com/*': html } });
+ *   await scraper.execute(session.fetcher, env, input);
+ *
+ * The fake page implements the puppeteer surface the scrapers use (goto, $, type,
+ * click, evaluate, waitForSelector, waitForNavigation, pdf, close, plus cookies,
+ * setCookie, deleteCookie and evaluateOnNewDocument with a per-page cookie jar and
+ * localStorage), and the fake
+ * browser models Browser Rendering sessions: `disconnect` leaves a session idle for
+ * `puppeteer.sessions`/`connect` to pick up, `close` ends it. `evaluate`
+ * callbacks run in-process with `globalThis.document`/`location` pointed at the
+ * current fixture, so the extraction code under test is the real code.
+ * Scrapers pause with setTimeout between steps; call `useInstantDelays()` in the
+ * test so those waits resolve immediately.
+ */
+
+export interface ReplayFixtures {
+  /**
+   * URL → fixture. Keys are exact URLs or prefixes ending in `*`. String values are
+   * served as HTML; objects are served the way a browser renders a JSON response.
+   */
+  pages: Record<string, string | object>;
+  /**
+   * Selector → URL to load when that selector is clicked. Covers form submits and
+   * script-driven buttons; plain `<a href>` clicks navigate without an entry.
+   */
+  clicks?: Record<string, string>;
+  /**
+   * Cookie-gated login: loading a URL matching one of `protect` (same syntax as `pages`)
+   * without a cookie named `cookie` lands on `loginUrl` instead, and clicking `grantedBy`
+   * (the login submit) sets that cookie.
+   */
+  auth?: { cookie: string; protect: string[]; loginUrl: string; grantedBy: string };
+}
+
+export interface ReplaySession {
+  fetcher: Fetcher;
+  /** Every URL loaded, in order */
+  visited: string[];
+  typed: Array<{ selector: string; text: string }>;
+  clicked: string[];
+  launches: number;
+  /** Reconnections to an idle session via `puppeteer.connect` */
+  connects: number;
+  /** Browser connections not yet disconnected or closed -- should be 0 after execute returns */
+  openBrowsers: number;
+  /** Browser contexts not yet closed -- should be 0 after execute returns */
+  openContexts: number;
+  /** Pages opened and not yet closed -- should be 0 after execute returns */
+  openPages: number;
+}
+
+interface ReplayEntry {
+  fixtures: ReplayFixtures;
+  session: ReplaySession;
+  /** Browser Rendering session IDs currently alive, and whether a worker is connected */
+  browserSessions: Map<string, { connected: boolean }>;
+}
+
+const sessions = new Map<string, ReplayEntry>();
+
+/**
+ * `launch` finds its session through the binding's `fetch`, the way real puppeteer
+ * talks to Browser Rendering, so wrapper fetchers (shared sessions, capture mode)
+ * that forward `fetch` reach the same fixtures.
+ */
+const SESSION_PROBE_URL = 'https://replay.invalid/session';
+
+async function findEntry(binding: Fetcher): Promise<ReplayEntry> {
+  const probe = await binding.fetch(SESSION_PROBE_URL).catch(() => null);
+  const entry = sessions.get((await probe?.text()) ?? '');
+  if (!entry) throw new Error('Replay: BROWSER binding was not created by createReplaySession');
+  return entry;
+}
+
+/** Replacement for the `@cloudflare/puppeteer` module -- pass to vi.mock */
+export const replayPuppeteer = {
+  default: {
+    async launch(binding: Fetcher) {
+      const entry = await findEntry(binding);
+      entry.session.launches++;
+      return createBrowser(entry, crypto.randomUUID());
+    },
+    async sessions(binding: Fetcher) {
+      const entry = await findEntry(binding);
+      return [...entry.browserSessions].map(([sessionId, { connected }]) => ({
+        sessionId,
+        startTime: 0,
+        ...(connected ? { connectionId: `conn-${sessionId}` } : {}),
+      }));
+    },
+    async connect(binding: Fetcher, sessionId: string) {
+      const entry = await findEntry(binding);
+      const state = entry.browserSessions.get(sessionId);
+      if (!state || state.connected) throw new Error(`Replay: session ${sessionId} is not available`);
+      entry.session.connects++;
+      return createBrowser(entry, sessionId);
+    },
+  },
+};
+
+export function createReplaySession(fixtures: ReplayFixtures): ReplaySession {
+  const id = crypto.randomUUID();
+  const fetcher = {
+    fetch: async (url: string) => (url === SESSION_PROBE_URL
+      ? new Response(id)
+      : new Response('Replay: Browser Rendering is not available offline', { status: 501 })),
+  } as unknown as Fetcher;
+  const session: ReplaySession = {
+    fetcher,
+    visited: [],
+    typed: [],
+    clicked: [],
+    launches: 0,
+    connects: 0,
+    openBrowsers: 0,
+    openContexts: 0,
+    openPages: 0,
+  };
+  sessions.set(id, { fixtures, session, browserSessions: new Map() });
+  return session;
+}
+
+/** Waits at least this long are deadlines (scrape timeouts), not pauses -- leave them real */
+const INSTANT_DELAY_MAX_MS = 60_000;
+
+/** Collapse the scrapers' fixed setTimeout waits -- undo with vi.restoreAllMocks() */
+export function useInstantDelays(): void {
+  const realSetTimeout = globalThis.setTimeout;
+  vi.spyOn(globalThis, 'setTimeout').mockImplementation(((fn: () => void, ms?: number) => {
+    if ((ms ?? 0) >= INSTANT_DELAY_MAX_MS) return realSetTimeout(fn, ms);
+    queueMicrotask(fn);
+    return 0;
+  }) as unknown as typeof setTimeout);
+}
+
+function matchesPattern(url: string, pattern: string): boolean {
+  return pattern.endsWith('*') ? url.startsWith(pattern.slice(0, -1)) : url === pattern;
+}
+
+function findFixture(fixtures: ReplayFixtures, url: string): string | object | undefined {
+  if (url in fixtures.pages) return fixtures.pages[url];
+  const prefixes = Object.keys(fixtures.pages)
+    .filter((k) => k.endsWith('*') && matchesPattern(url, k))
+    .sort((a, b) => b.length - a.length);
+  return prefixes.length > 0 ? fixtures.pages[prefixes[0]] : undefined;
+}
+
+/** Minimal Web Storage over a Map */
+function createStorage(items: Map<string, string>) {
+  return {
+    get length() {
+      return items.size;
+    },
+    key: (i: number) => [...items.keys()][i] ?? null,
+    getItem: (k: string) => items.get(k) ?? null,
+    setItem: (k: string, v: string) => void items.set(k, String(v)),
+    removeItem: (k: string) => void items.delete(k),
+  };
+}
+
+function escapeHtml(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
+
+const BLOCK_TAGS = new Set([
+  'ADDRESS', 'ARTICLE', 'ASIDE', 'BLOCKQUOTE', 'BR', 'DD', 'DIV', 'DL', 'DT', 'FIELDSET', 'FOOTER', 'FORM',
+  'H1', 'H2', 'H3', 'H4', 'H5', 'H6', 'HEADER', 'HR', 'LI', 'MAIN', 'NAV', 'OL', 'P', 'PRE', 'SECTION',
+  'TABLE', 'TBODY', 'THEAD', 'TFOOT', 'TR', 'UL',
+]);
+const HIDDEN_TAGS = new Set(['SCRIPT', 'STYLE', 'NOSCRIPT', 'TEMPLATE', 'HEAD']);
+
+/**
+ * Approximation of rendered `innerText`: block elements start new lines and table
+ * cells are tab separated, which is what the label-regex extractors depend on.
+ */
+function renderText(node: any): string {
+  let out = '';
+  const walk = (n: any, pre: boolean) => {
+    if (n.nodeType === 3) {
+      out += pre ? n.textContent : n.textContent.replace(/\s+/g, ' ');
+      return;
+    }
+    if (n.nodeType !== 1 && n.nodeType !== 9 && n.nodeType !== 11) return;
+    const tag = n.tagName;
+    if (HIDDEN_TAGS.has(tag)) return;
+    const block = BLOCK_TAGS.has(tag);
+    if (block) out += '\n';
+    for (const child of n.childNodes) walk(child, pre || tag === 'PRE');
+    if (tag === 'TD' || tag === 'TH') out += '\t';
+    if (block) out += '\n';
+  };
+  walk(node, false);
+  return out
+    .split('\n')
+    .map((line) => line.replace(/[ \t]+$/g, '').replace(/^ +/, ''))
+    .filter((line, i, lines) => line !== '' || (i > 0 && lines[i - 1] !== ''))
+    .join('\n')
+    .trim();
+}
+
+function loadDocument(fixture: string | object): any {
+  const html = typeof fixture === 'string'
+    ? fixture
+    : `<html><body><pre>${escapeHtml(JSON.stringify(fixture))}</pre></body></html>`;
+  const { document, window } = parseHTML(html);
+  const proto = window.HTMLElement.prototype;
+  if (!Object.getOwnPropertyDescriptor(proto, '__replayInnerText')) {
+    Object.defineProperty(proto, 'innerText', { get() { return renderText(this); }, configurable: true });
+    Object.defineProperty(proto, '__replayInnerText', { value: true });
+  }
+  return document;
+}
+
+function createBrowser(entry: ReplayEntry, sessionId: string) {
+  const { fixtures, session } = entry;
+  entry.browserSessions.set(sessionId, { connected: true });
+  session.openBrowsers++;
+  let connected = true;
+  const end = (keepSession: boolean) => {
+    if (!connected) return;
+    connected = false;
+    session.openBrowsers--;
+    if (keepSession) entry.browserSessions.set(sessionId, { connected: false });
+    else entry.browserSessions.delete(sessionId);
+  };
+  const newPage = async () => {
+    session.openPages++;
+    return createPage(fixtures, session);
+  };
+  return {
+    sessionId: () => sessionId,
+    newPage,
+    async createBrowserContext() {
+      session.openContexts++;
+      let closed = false;
+      return {
+        newPage,
+        async close() {
+          if (!closed) session.openContexts--;
+          closed = true;
+        },
+      };
+    },
+    async disconnect() {
+      end(true);
+    },
+    async close() {
+      end(false);
+    },
+  };
+}
+
+function createPage(fixtures: ReplayFixtures, session: ReplaySession) {
+  let url = 'about:blank';
+  let document: any = loadDocument('<html><body></body></html>');
+  let pendingNavigation: string | null = null;
+  let closed = false;
+  const cookies = new Map<string, any>();
+  const storage = new Map<string, Map<string, string>>();
+  const initScripts: Array<{ fn: (...args: any[]) => any; args: any[] }> = [];
+
+  /**
+   * Run `fn` with `document`, `location` and `localStorage` pointed at the current page.
+   * Async callbacks keep those globals until they settle.
+   */
+  const inPage = async (fn: (...args: any[]) => any, args: any[]) => {
+    const g = globalThis as any;
+    const saved = { document: g.document, location: g.location, localStorage: g.localStorage };
+    const origin = url === 'about:blank' ? 'null' : new URL(url).origin;
+    if (!storage.has(origin)) storage.set(origin, new Map());
+    g.document = document;
+    g.location = { href: url, origin };
+    g.localStorage = createStorage(storage.get(origin)!);
+    try {
+      return await fn(...args);
+    } finally {
+      g.document = saved.document;
+      g.location = saved.location;
+      g.localStorage = saved.localStorage;
+    }
+  };
+
+  const navigate = (target: string) => {
+    let resolved = url === 'about:blank' ? target : new URL(target, url).toString();
+    const auth = fixtures.auth;
+    if (auth && !cookies.has(auth.cookie) && auth.protect.some((p) => matchesPattern(resolved, p))) {
+      resolved = auth.loginUrl;
+    }
+    const fixture = findFixture(fixtures, resolved);
+    if (fixture === undefined) {
+      throw new Error(`net::ERR_NAME_NOT_RESOLVED at ${resolved} (no replay fixture)`);
+    }
+    url = resolved;
+    document = loadDocument(fixture);
+    session.visited.push(resolved);
+    // Anchor clicks made from inside evaluate() are turned into navigations
+    document.addEventListener('click', (e: any) => {
+      const anchor = e.target?.closest?.('a[href]');
+      if (anchor) pendingNavigation = anchor.getAttribute('href');
+    });
+    // Init scripts are synchronous in practice; awaiting here would make navigate async
+    for (const script of initScripts) void inPage(script.fn, script.args).catch(() => {});
+  };
+
+  /** querySelector plus puppeteer's `::-p-text("...")`, with Chrome's error for invalid selectors */
+  const query = (selector: string): any => {
+    const textMatch = selector.match(/^::-p-text\((["'])(.*)\1\)$/);
+    if (textMatch) {
+      const candidates = [...document.querySelectorAll('body *')].reverse();
+      return candidates.find((el: any) => (el.textContent || '').includes(textMatch[2])) ?? null;
+    }
+    try {
+      return document.querySelector(selector);
+    } catch {
+      throw new Error(`Failed to execute 'querySelector' on 'Document': '${selector}' is not a valid selector.`);
+    }
+  };
+
+  const requireElement = (selector: string) => {
+    const el = query(selector);
+    if (!el) throw new Error(`No element found for selector: ${selector}`);
+    return el;
+  };
+
+  const flushNavigation = () => {
+    if (pendingNavigation) {
+      const target = pendingNavigation;
+      pendingNavigation = null;
+      navigate(target);
+    }
+  };
+
+  return {
+    async setViewport() {},
+    setDefaultTimeout() {},
+    setDefaultNavigationTimeout() {},
+    async goto(target: string) {
+      navigate(target);
+      return { ok: () => true, status: () => 200 };
+    },
+    url: () => url,
+    async content() {
+      return document.toString();
+    },
+    async $(selector: string) {
+      flushNavigation();
+      return query(selector);
+    },
+    async waitForSelector(selector: string, options?: { timeout?: number }) {
+      const el = query(selector);
+      if (!el) {
+        throw new Error(`Waiting for selector \`${selector}\` failed: Waiting failed: ${options?.timeout ?? 30000}ms exceeded`);
+      }
+      return el;
+    },
+    async type(selector: string, text: string) {
+      const el = requireElement(selector);
+      el.value = (el.value || '') + text;
+      session.typed.push({ selector, text });
+    },
+    async click(selector: string) {
+      const el = requireElement(selector);
+      session.clicked.push(selector);
+      if (fixtures.auth?.grantedBy === selector) {
+        const { hostname } = new URL(url);
+        cookies.set(fixtures.auth.cookie, {
+          name: fixtures.auth.cookie, value: crypto.randomUUID(), domain: hostname, path: '/', expires: -1,
+        });
+      }
+      const scripted = fixtures.clicks?.[selector];
+      if (scripted) {
+        navigate(scripted);
+        return;
+      }
+      const anchor = el.closest?.('a[href]');
+      if (anchor) navigate(anchor.getAttribute('href'));
+    },
+    async waitForNavigation() {
+      flushNavigation();
+      return null;
+    },
+    async evaluate(fn: (...args: any[]) => any, ...args: any[]) {
+      flushNavigation();
+      return inPage(fn, args);
+    },
+    async evaluateOnNewDocument(fn: (...args: any[]) => any, ...args: any[]) {
+      initScripts.push({ fn, args });
+    },
+    async cookies() {
+      return [...cookies.values()].map((c) => ({ ...c }));
+    },
+    async setCookie(...list: any[]) {
+      for (const c of list) cookies.set(c.name, { ...c });
+    },
+    async deleteCookie(...list: any[]) {
+      for (const c of list) cookies.delete(c.name);
+    },
+    async pdf() {
+      return new TextEncoder().encode('%PDF-1.4 replay');
+    },
+    async screenshot() {
+      return new Uint8Array([0x89, 0x50, 0x4e, 0x47]);
+    },
+    async close() {
+      if (!closed) session.openPages--;
+      closed = true;
+    },
+  };
+}
@@ -0,0 +1,66 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { executeWithRetry, retryPolicyFor } from '../src/retry';
+import { wrapResult, type ScrapeErrorType, type ScrapeResult } from '../src/scrapers/base';
+import { entityDossierScraper } from '../src/scrapers/entity-dossier';
+
+function sequence(...outcomes: Array<ScrapeErrorType | 'ok'>) {
+  let i = 0;
+  return vi.fn(async (): Promise<ScrapeResult> => {
+    const outcome = outcomes[Math.min(i++, outcomes.length - 1)];
+    return outcome === 'ok'
+      ? wrapResult('fake', true, { run: i })
+      : wrapResult('fake', false, undefined, `failed: ${outcome}`, outcome);
+  });
+}
+
+describe('executeWithRetry', () => {
+  afterEach(() => vi.useRealTimers());
+
+  it('retries transient failures with exponential backoff and records the attempts', async () => {
+    vi.useFakeTimers();
+    const execute = sequence('upstream_error', 'navigation_timeout', 'ok');
+    const pending = executeWithRetry(execute);
+
+    await vi.advanceTimersByTimeAsync(999);
+    expect(execute).toHaveBeenCalledTimes(1);
+    await vi.advanceTimersByTimeAsync(1);
+    expect(execute).toHaveBeenCalledTimes(2);
+    await vi.advanceTimersByTimeAsync(2000);
+
+    expect(await pending).toMatchObject({ success: true, attempts: 3, data: { run: 3 } });
+  });
+
+  it('never retries auth failures, blocks or permanent errors', async () => {
+    for (const type of ['auth_failed', 'blocked', 'selector_missing', 'not_found', 'invalid_input'] as const) {
+      const execute = sequence(type, 'ok');
+      const result = await executeWithRetry(execute, { baseDelayMs: 0 });
+      expect(result).toMatchObject({ success: false, errorType: type });
+      expect(result).not.toHaveProperty('attempts');
+      expect(execute).toHaveBeenCalledTimes(1);
+    }
+  });
+
+  it('gives up once the retry budget for a type is spent', async () => {
+    const execute = sequence('navigation_timeout');
+    const result = await executeWithRetry(execute, { baseDelayMs: 0 });
+    expect(result).toMatchObject({ success: false, errorType: 'navigation_timeout', attempts: 2 });
+    expect(execute).toHaveBeenCalledTimes(2);
+  });
+
+  it('does not retry login portals, which would log in again within seconds', async () => {
+    const execute = sequence('upstream_error', 'ok');
+    const result = await executeWithRetry(execute, { policy: retryPolicyFor({ requiresAuth: true }), baseDelayMs: 0 });
+    expect(result).toMatchObject({ success: false, errorType: 'upstream_error' });
+    expect(execute).toHaveBeenCalledTimes(1);
+    expect(retryPolicyFor({ requiresAuth: false }).upstream_error).toBe(2);
+    expect(retryPolicyFor({ requiresAuth: true, apiKeyAuth: true }).upstream_error).toBe(2);
+  });
+
+  it('does not retry composites that log in through their sources', async () => {
+    const execute = sequence('upstream_error', 'ok');
+    const policy = retryPolicyFor(entityDossierScraper.meta);
+    const result = await executeWithRetry(execute, { policy, baseDelayMs: 0 });
+    expect(result).toMatchObject({ success: false, errorType: 'upstream_error' });
+    expect(execute).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,85 @@
+import { describe, it, expect } from 'vitest';
+import { validateSchema, type JsonSchema } from '../src/schema';
+import { googleDriveScraper } from '../src/scrapers/google-drive';
+import { browseAIScraper } from '../src/scrapers/browse-ai';
+
+const caseSchema: JsonSchema = {
+  type: 'object',
+  required: ['caseNumber'],
+  properties: {
+    caseNumber: { type: 'string', minLength: 1 },
+    limit: { type: 'integer', minimum: 1, maximum: 10 },
+  },
+};
+
+describe('validateSchema', () => {
+  it('accepts a valid object', () => {
+    expect(validateSchema(caseSchema, { caseNumber: '2024-D-001234', limit: 5 })).toEqual([]);
+  });
+
+  it('reports a missing required field', () => {
+    expect(validateSchema(caseSchema, {})).toEqual([{ path: 'caseNumber', message: 'is required' }]);
+  });
+
+  it('rejects a non-object root', () => {
+    expect(validateSchema(caseSchema, ['x'])).toEqual([{ path: '', message: 'must be of type object' }]);
+  });
+
+  it('reports every field error rather than stopping at the first', () => {
+    const errors = validateSchema(caseSchema, { caseNumber: '', limit: 2.5 });
+    expect(errors.map((e) => e.path)).toEqual(['caseNumber', 'limit']);
+    expect(errors[0].message).toBe('must not be empty');
+    expect(errors[1].message).toBe('must be of type integer');
+  });
+
+  it('enforces numeric bounds, enums and patterns', () => {
+    const schema: JsonSchema = {
+      type: 'object',
+      properties: {
+        n: { type: 'number', maximum: 3 },
+        mode: { type: 'string', enum: ['a', 'b'] },
+        pin: { type: 'string', pattern: '^[0-9-]+$' },
+      },
+    };
+    const errors = validateSchema(schema, { n: 4, mode: 'c', pin: '12-ab' });
+    expect(errors).toEqual([
+      { path: 'n', message: 'must be <= 3' },
+      { path: 'mode', message: 'must be one of: "a", "b"' },
+      { path: 'pin', message: 'must match pattern ^[0-9-]+$' },
+    ]);
+  });
+
+  it('validates array items with indexed paths', () => {
+    const schema: JsonSchema = {
+      type: 'object',
+      properties: { tags: { type: 'array', minItems: 1, items: { type: 'string' } } },
+    };
+    expect(validateSchema(schema, { tags: ['ok', 7] })).toEqual([{ path: 'tags[1]', message: 'must be of type string' }]);
+    expect(validateSchema(schema, { tags: [] })).toEqual([{ path: 'tags', message: 'must contain at least 1 item(s)' }]);
+  });
+
+  it('applies additionalProperties as a boolean or schema', () => {
+    const closed: JsonSchema = { type: 'object', properties: { a: { type: 'string' } }, additionalProperties: false };
+    expect(validateSchema(closed, { a: 'x', b: 1 })).toEqual([{ path: 'b', message: 'is not an allowed property' }]);
+
+    const typed: JsonSchema = { type: 'object', additionalProperties: { type: 'string' } };
+    expect(validateSchema(typed, { x: 'ok', y: 2 })).toEqual([{ path: 'y', message: 'must be of type string' }]);
+  });
+
+  it('treats integers as valid numbers', () => {
+    expect(validateSchema({ type: 'number' }, 3)).toEqual([]);
+  });
+});
+
+describe('scraper input schemas', () => {
+  it('google-drive rejects out-of-range maxResults', () => {
+    const errors = validateSchema(googleDriveScraper.meta.inputSchema!, { query: 'deed', maxResults: 500 });
+    expect(errors).toEqual([{ path: 'maxResults', message: 'must be <= 100' }]);
+  });
+
+  it('browse-ai rejects unknown actions and accepts an empty body', () => {
+    expect(validateSchema(browseAIScraper.meta.inputSchema!, {})).toEqual([]);
+    const errors = validateSchema(browseAIScraper.meta.inputSchema!, { action: 'delete-robot' });
+    expect(errors[0].path).toBe('action');
+  });
+});
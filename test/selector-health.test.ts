@@ -0,0 +1,58 @@
+import { describe, it, expect } from 'vitest';
+import { flushSelectorHealth, listSelectorHealth, recordSelectorResolution, selectorHealth } from '../src/selector-health';
+import { resolveSelector } from '../src/scrapers/base';
+import { createFakeKV } from './fake-kv';
+
+const USERNAME = ['#username', 'input[name="username"]', 'input[type="email"]'];
+
+describe('selector health', () => {
+  it('aggregates resolveSelector outcomes per scraper/step into KV counters', async () => {
+    const kv = createFakeKV();
+    const moved = { $: async (sel: string) => (sel === 'input[type="email"]' ? {} : null) };
+    const primary = { $: async (sel: string) => (sel === '#username' ? {} : null) };
+    const step = { scraper: 'mr-cooper', step: 'username' };
+
+    await resolveSelector(primary, USERNAME, step);
+    await resolveSelector(moved, USERNAME, step);
+    await flushSelectorHealth(kv);
+    await resolveSelector(moved, USERNAME, step);
+    await resolveSelector(primary, ['#untracked']);
+    await flushSelectorHealth(kv);
+
+    const stored = JSON.parse((await kv.get('selectors:mr-cooper:username'))!);
+    expect(stored).toMatchObject({ total: 3, counts: { '0': 1, '2': 2 }, lastMatchedIndex: 2, candidates: USERNAME });
+    expect([...kv.store.keys()]).toEqual(['selectors:mr-cooper:username']);
+
+    const [health] = await listSelectorHealth(kv);
+    expect(health).toMatchObject({ status: 'drifting', fallbackRate: 2 / 3, failureRate: 0 });
+  });
+
+  it('resets counters when the scraper ships a new candidate list', async () => {
+    const kv = createFakeKV();
+    const step = { scraper: 'comed', step: 'submit' };
+    recordSelectorResolution(step, { selectors: ['#old'], matchedIndex: null });
+    await flushSelectorHealth(kv);
+    recordSelectorResolution(step, { selectors: ['#new', '#old'], matchedIndex: 0 });
+    await flushSelectorHealth(kv);
+    const stored = JSON.parse((await kv.get('selectors:comed:submit'))!);
+    expect(stored).toMatchObject({ total: 1, counts: { '0': 1 }, candidates: ['#new', '#old'] });
+  });
+
+  it('classifies steps and lists failing ones first, optionally for one scraper', async () => {
+    const kv = createFakeKV();
+    recordSelectorResolution({ scraper: 'il-sos', step: 'name-input' }, { selectors: ['#a'], matchedIndex: 0 });
+    recordSelectorResolution({ scraper: 'il-sos', step: 'search-button' }, { selectors: ['#b'], matchedIndex: null });
+    recordSelectorResolution({ scraper: 'comed', step: 'password' }, { selectors: ['#c'], matchedIndex: 0 });
+    await flushSelectorHealth(kv);
+
+    const all = await listSelectorHealth(kv);
+    expect(all.map((h) => [h.scraper, h.step, h.status])).toEqual([
+      ['il-sos', 'search-button', 'failing'],
+      ['comed', 'password', 'healthy'],
+      ['il-sos', 'name-input', 'healthy'],
+    ]);
+    expect(all[0].lastFailureAt).toBeDefined();
+    expect((await listSelectorHealth(kv, 'comed')).map((h) => h.step)).toEqual(['password']);
+    expect(selectorHealth({ ...all[0], total: 0, counts: {} }).failureRate).toBe(0);
+  });
+});
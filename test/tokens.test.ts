@@ -0,0 +1,70 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import {
+  createApiToken, listApiTokens, revokeApiToken, touchApiToken, tokenAllowsScraper, verifyApiToken,
+  API_TOKEN_REQUEST_SCHEMA,
+} from '../src/tokens';
+import { validateSchema } from '../src/schema';
+import { createFakeKV } from './fake-kv';
+
+describe('scoped API tokens', () => {
+  afterEach(() => vi.useRealTimers());
+
+  it('stores only a hash and verifies the minted secret', async () => {
+    const kv = createFakeKV();
+    const { token, secret } = await createApiToken(kv, { name: 'command-cron', portals: ['court-docket'] });
+    expect(secret).toMatch(/^cst_[0-9a-f]{32}\./);
+    const stored = kv.store.get(`apitoken:${token.id}`)!;
+    expect(stored).not.toContain(secret.split('.')[1]);
+    expect(kv.ttls.get(`apitoken:${token.id}`)).toBeUndefined();
+
+    expect(await verifyApiToken(kv, secret)).toMatchObject({ id: token.id, name: 'command-cron' });
+    expect(await verifyApiToken(kv, secret.slice(0, -1) + (secret.endsWith('A') ? 'B' : 'A'))).toBeNull();
+    expect(await verifyApiToken(kv, 'legacy-service-token')).toBeNull();
+  });
+
+  it('rejects expired and revoked tokens but keeps listing them', async () => {
+    vi.useFakeTimers({ now: Date.parse('2026-05-01T00:00:00Z') });
+    const kv = createFakeKV();
+    const expiring = await createApiToken(kv, { name: 'short', categories: ['court'], expiresAt: '2026-05-02T00:00:00.000Z' });
+    const revoked = await createApiToken(kv, { name: 'gone', portals: ['*'] });
+    expect(kv.ttls.get(`apitoken:${expiring.token.id}`)).toBe(86400 + 30 * 86400);
+
+    expect(await revokeApiToken(kv, revoked.token.id)).toMatchObject({ revokedAt: '2026-05-01T00:00:00.000Z' });
+    expect(await revokeApiToken(kv, '0'.repeat(32))).toBeNull();
+    expect(await verifyApiToken(kv, revoked.secret)).toBeNull();
+    expect(await verifyApiToken(kv, expiring.secret)).not.toBeNull();
+
+    vi.setSystemTime(Date.parse('2026-05-03T00:00:00Z'));
+    expect(await verifyApiToken(kv, expiring.secret)).toBeNull();
+    const listed = await listApiTokens(kv);
+    expect(listed.map((t) => [t.name, t.status]).sort()).toEqual([['gone', 'revoked'], ['short', 'expired']]);
+    expect(JSON.stringify(listed)).not.toContain('hash');
+  });
+
+  it('records last use at most once a minute', async () => {
+    vi.useFakeTimers({ now: Date.parse('2026-05-01T00:00:00Z') });
+    const kv = createFakeKV();
+    const { secret } = await createApiToken(kv, { name: 'caller', portals: ['comed'] });
+    const put = vi.spyOn(kv, 'put');
+
+    await touchApiToken(kv, (await verifyApiToken(kv, secret))!);
+    vi.setSystemTime(Date.parse('2026-05-01T00:00:30Z'));
+    await touchApiToken(kv, (await verifyApiToken(kv, secret))!);
+    expect(put).toHaveBeenCalledTimes(1);
+    expect((await verifyApiToken(kv, secret))!.lastUsedAt).toBe('2026-05-01T00:00:00.000Z');
+  });
+
+  it('allows scrapers by portal ID, category or wildcard', () => {
+    const base = { id: 'x', name: 'x', createdAt: '', expiresAt: null, lastUsedAt: null };
+    const courts = { ...base, portals: ['comed'], categories: ['court' as const] };
+    expect(tokenAllowsScraper(courts, { id: 'court-docket', category: 'court' })).toBe(true);
+    expect(tokenAllowsScraper(courts, { id: 'comed', category: 'utility' })).toBe(true);
+    expect(tokenAllowsScraper(courts, { id: 'mr-cooper', category: 'mortgage' })).toBe(false);
+    expect(tokenAllowsScraper({ ...base, portals: ['*'], categories: [] }, { id: 'mr-cooper', category: 'mortgage' })).toBe(true);
+  });
+
+  it('validates token requests', () => {
+    expect(validateSchema(API_TOKEN_REQUEST_SCHEMA, { name: 'a', portals: ['court-docket'], expiresInDays: 30 })).toEqual([]);
+    expect(validateSchema(API_TOKEN_REQUEST_SCHEMA, { name: 'a', portals: ['Bad ID'], categories: ['payroll'] })).toHaveLength(2);
+  });
+});
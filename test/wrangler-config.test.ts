@@ -0,0 +1,22 @@
+import { describe, it, expect } from 'vitest';
+import wranglerJsonc from '../wrangler.jsonc?raw';
+
+/** wrangler.jsonc wins over wrangler.toml on deploy -- its comments are whole `//` lines */
+function deployConfig(): any {
+  return JSON.parse(wranglerJsonc.split('\n').filter((line) => !line.trim().startsWith('//')).join('\n'));
+}
+
+describe('deploy config', () => {
+  it('declares the JOB_QUEUE producer the jobs route sends to, and consumes that queue', () => {
+    const { queues } = deployConfig();
+    const producer = queues?.producers?.find((p: any) => p.binding === 'JOB_QUEUE');
+    expect(producer?.queue).toBeTruthy();
+    expect(queues.consumers.map((c: any) => c.queue)).toContain(producer.queue);
+  });
+
+  it('declares the BROWSER and SCRAPE_KV bindings', () => {
+    const config = deployConfig();
+    expect(config.browser?.binding).toBe('BROWSER');
+    expect(config.kv_namespaces.map((kv: any) => kv.binding)).toContain('SCRAPE_KV');
+  });
+});